@@ -0,0 +1,148 @@
+// Luna service worker: caches the app shell, falls back to /offline for pages that were never
+// cached, and receives content shared from other apps through the Web Share Target API.
+// Keep SHARE_DB in sync with src/lib/shared-content.ts, and the runtime cache prefix with
+// src/lib/offline-cache.ts, which clears it on logout.
+
+const CACHE_VERSION = "v2"
+const SHELL_CACHE = `luna-shell-${CACHE_VERSION}`
+const RUNTIME_CACHE = `luna-runtime-${CACHE_VERSION}`
+const SHELL_URLS = ["/chat", "/offline", "/logo.png", "/manifest.webmanifest"]
+// The only pages kept for offline use; anything else, e.g. /dashboard, may hold account data
+const SHELL_PAGES = ["/chat", "/offline"]
+
+const SHARE_DB = { name: "luna-share", version: 1, store: "shares" }
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith("luna-") && key !== SHELL_CACHE && key !== RUNTIME_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  )
+})
+
+// Scripts and styles that loaded before the worker took control, sent by the page after registering
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "cache-urls" || !Array.isArray(event.data.urls)) return
+  event.waitUntil(
+    caches.open(RUNTIME_CACHE).then((cache) => Promise.all(
+      event.data.urls
+        .filter((url) => isStaticAsset(new URL(url, self.location.origin)))
+        .map((url) => cache.match(url).then((cached) => cached || cache.add(url)).catch(() => undefined))
+    ))
+  )
+})
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin) return
+
+  if (request.method === "POST" && url.pathname === "/share-target") {
+    event.respondWith(receiveShare(request))
+    return
+  }
+  if (request.method !== "GET" || url.pathname.startsWith("/api/")) return
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request))
+  } else if (isStaticAsset(url)) {
+    event.respondWith(cacheFirst(request))
+  }
+})
+
+// Build output is content-hashed, so a cached copy never goes stale
+function isStaticAsset(url) {
+  return url.origin === self.location.origin
+    && (url.pathname.startsWith("/_next/static/") || /\.(?:png|jpe?g|svg|ico|webp|woff2?)$/.test(url.pathname))
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(RUNTIME_CACHE)
+    cache.put(request, response.clone())
+  }
+  return response
+}
+
+// Pages are always fetched fresh when possible; offline, the last copy of a shell page (or the
+// offline page) is served
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request)
+    const { pathname } = new URL(request.url)
+    if (response.ok && SHELL_PAGES.includes(pathname)) {
+      const cache = await caches.open(RUNTIME_CACHE)
+      cache.put(pathname, response.clone())
+    }
+    return response
+  } catch (error) {
+    const url = new URL(request.url)
+    const cached = await caches.match(request, { ignoreSearch: true })
+      || (url.pathname.startsWith("/chat") ? await caches.match("/chat") : undefined)
+      || await caches.match("/offline")
+    if (cached) return cached
+    throw error
+  }
+}
+
+async function receiveShare(request) {
+  const form = await request.formData()
+  const share = {
+    id: crypto.randomUUID(),
+    title: String(form.get("title") || ""),
+    text: String(form.get("text") || ""),
+    url: String(form.get("url") || ""),
+    files: form.getAll("files").filter((file) => file instanceof File && file.size > 0),
+    createdAt: Date.now(),
+  }
+
+  try {
+    await saveShare(share)
+    return Response.redirect(new URL(`/chat?share=${share.id}`, self.location.origin).href, 303)
+  } catch {
+    // Without storage only the text part can be handed over
+    const params = new URLSearchParams({ title: share.title, text: share.text, url: share.url })
+    return Response.redirect(new URL(`/chat?${params}`, self.location.origin).href, 303)
+  }
+}
+
+function saveShare(share) {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(SHARE_DB.name, SHARE_DB.version)
+    open.onupgradeneeded = () => {
+      if (!open.result.objectStoreNames.contains(SHARE_DB.store)) {
+        open.result.createObjectStore(SHARE_DB.store, { keyPath: "id" })
+      }
+    }
+    open.onerror = () => reject(open.error)
+    open.onsuccess = () => {
+      const db = open.result
+      const transaction = db.transaction(SHARE_DB.store, "readwrite")
+      transaction.objectStore(SHARE_DB.store).put(share)
+      transaction.oncomplete = () => {
+        db.close()
+        resolve()
+      }
+      transaction.onerror = () => {
+        db.close()
+        reject(transaction.error)
+      }
+    }
+  })
+}
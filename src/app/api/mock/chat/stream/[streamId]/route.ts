@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { createMockChatStream, isMockChatStreamEnabled, MOCK_STREAM_HEADERS } from '@/lib/mock-chat-stream';
+
+export async function GET(request: Request, { params }: { params: { streamId: string } }) {
+  if (!isMockChatStreamEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const { streamId } = await Promise.resolve(params);
+  const lastEventId = request.headers.get('Last-Event-ID') || '';
+  return new NextResponse(createMockChatStream(streamId, lastEventId), { status: 200, headers: MOCK_STREAM_HEADERS });
+}
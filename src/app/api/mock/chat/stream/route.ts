@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { createMockChatStream, isMockChatStreamEnabled, MOCK_STREAM_HEADERS } from '@/lib/mock-chat-stream';
+
+export async function POST(request: Request) {
+  if (!isMockChatStreamEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const contentType = request.headers.get('content-type') || '';
+  let streamId: unknown;
+  if (contentType.includes('multipart/form-data')) {
+    streamId = (await request.formData()).get('streamId');
+  } else {
+    streamId = (await request.json()).streamId;
+  }
+
+  const id = typeof streamId === 'string' && streamId ? streamId : crypto.randomUUID();
+  return new NextResponse(createMockChatStream(id), { status: 200, headers: MOCK_STREAM_HEADERS });
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+
+const CHAT_STREAM_API_URL =
+  process.env.CHAT_STREAM_API_URL || `${process.env.NEXT_PUBLIC_API_URL}/api/gemini/chat/stream`;
+
+// Reattach to an in-flight generation. The backend replays every event after Last-Event-ID.
+export async function GET(request: Request, { params }: { params: { streamId: string } }) {
+  try {
+    const auth = request.headers.get('Authorization') || '';
+    const lastEventId = request.headers.get('Last-Event-ID') || '';
+    const { streamId } = await Promise.resolve(params);
+
+    const backendResponse = await fetch(`${CHAT_STREAM_API_URL}/${encodeURIComponent(streamId)}`, {
+      method: 'GET',
+      headers: {
+        Accept: 'text/event-stream',
+        Authorization: auth,
+        ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+      },
+    });
+
+    if (!backendResponse.ok) {
+      const errorText = await backendResponse.text();
+      return NextResponse.json({ error: errorText }, { status: backendResponse.status });
+    }
+
+    return new NextResponse(backendResponse.body, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Error resuming chat stream:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'An unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 
-const CHAT_STREAM_API_URL = `${process.env.NEXT_PUBLIC_API_URL}/api/gemini/chat/stream`;
+// CHAT_STREAM_API_URL lets local development point the stream at the mock backend (see README)
+const CHAT_STREAM_API_URL =
+  process.env.CHAT_STREAM_API_URL || `${process.env.NEXT_PUBLIC_API_URL}/api/gemini/chat/stream`;
 
 export async function POST(request: Request) {
   try {
@@ -29,6 +31,9 @@ export async function POST(request: Request) {
         body: JSON.stringify({
           prompt: body.prompt,
           conversationId: body.conversationId || undefined,
+          ...(body.streamId ? { streamId: body.streamId } : {}),
+          ...(body.parentMessageId ? { parentMessageId: body.parentMessageId } : {}),
+          ...(body.regenerateMessageId ? { regenerateMessageId: body.regenerateMessageId } : {}),
           ...(body.options ? { options: body.options } : {}),
         }),
       });
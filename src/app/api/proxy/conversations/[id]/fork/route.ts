@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+
+const FORK_CONVERSATION_URL = (id: string) => `${process.env.NEXT_PUBLIC_API_URL}/api/gemini/conversations/${id}/fork`;
+
+// Creates a new conversation seeded with the branch of `id` that ends at `messageId`.
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const auth = request.headers.get('Authorization') || '';
+    const { id } = await Promise.resolve(params);
+    const body = await request.json();
+
+    if (!body?.messageId) {
+      return NextResponse.json({ error: 'messageId is required' }, { status: 400 });
+    }
+
+    const resp = await fetch(FORK_CONVERSATION_URL(id), {
+      method: 'POST',
+      headers: { Authorization: auth, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        messageId: body.messageId,
+        ...(typeof body.title === 'string' && body.title.trim() ? { title: body.title.trim() } : {}),
+      }),
+    });
+
+    if (!resp.ok) {
+      const errorText = await resp.text();
+      return NextResponse.json({ error: errorText }, { status: resp.status });
+    }
+
+    const data = await resp.json();
+    return NextResponse.json(data, { status: 201 });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+
+const CONVERSATION_MESSAGES_URL = (id: string) => `${process.env.NEXT_PUBLIC_API_URL}/api/gemini/conversations/${id}/messages`;
+
+// Appends already generated messages to a conversation, e.g. the answer kept from a model comparison.
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const auth = request.headers.get('Authorization') || '';
+    const { id } = await Promise.resolve(params);
+    const body = await request.json();
+
+    if (!Array.isArray(body?.messages) || body.messages.length === 0) {
+      return NextResponse.json({ error: 'messages must be a non-empty array' }, { status: 400 });
+    }
+
+    const resp = await fetch(CONVERSATION_MESSAGES_URL(id), {
+      method: 'POST',
+      headers: { Authorization: auth, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    if (!resp.ok) {
+      const errorText = await resp.text();
+      return NextResponse.json({ error: errorText }, { status: resp.status });
+    }
+
+    const data = await resp.json();
+    return NextResponse.json(data, { status: 201 });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
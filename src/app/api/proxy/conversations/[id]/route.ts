@@ -6,6 +6,54 @@ interface Message {
   content: string;
   sources: string[];
   created_at: string;
+  // Previous message on the same branch; siblings share a parent
+  parent_id?: string | null;
+}
+
+function toSettingsUpdate(settings: unknown): Record<string, unknown> | string {
+  if (!settings || typeof settings !== 'object') return 'settings must be an object';
+  const value = settings as Record<string, unknown>;
+  if (typeof value.model !== 'string' || !value.model) return 'settings.model is required';
+  if (value.personaId !== null && typeof value.personaId !== 'string') return 'settings.personaId must be a string or null';
+
+  return {
+    settings: {
+      model: value.model,
+      includeYouTube: value.includeYouTube === true,
+      includeImageSearch: value.includeImageSearch === true,
+      personaId: value.personaId,
+      customInstructions: value.customInstructions !== false,
+    },
+  };
+}
+
+// Each PATCH carries one action, so the backend never receives fields it did not expect.
+// A body without `action` is treated as a rename to keep older clients working.
+function toConversationUpdate(body: Record<string, unknown>): Record<string, unknown> | string {
+  const action = body.action ?? 'rename';
+
+  switch (action) {
+    case 'rename':
+      return typeof body.title === 'string' && body.title.trim()
+        ? { title: body.title.trim() }
+        : 'title is required';
+    case 'pin':
+      return typeof body.pinned === 'boolean' ? { pinned: body.pinned } : 'pinned must be a boolean';
+    case 'archive':
+      return typeof body.archived === 'boolean' ? { archived: body.archived } : 'archived must be a boolean';
+    case 'move':
+      return body.folderId === null || typeof body.folderId === 'string'
+        ? { folder_id: body.folderId }
+        : 'folderId must be a string or null';
+    case 'tag':
+      return Array.isArray(body.tags) && body.tags.every((tag) => typeof tag === 'string')
+        ? { tags: body.tags }
+        : 'tags must be an array of strings';
+    case 'settings':
+      return toSettingsUpdate(body.settings);
+    default:
+      return `Unknown action "${String(action)}"`;
+  }
 }
 
 export async function PATCH(request: Request, { params }: { params: { id: string } }) {
@@ -14,10 +62,15 @@ export async function PATCH(request: Request, { params }: { params: { id: string
     const { id } = params;
     const body = await request.json();
 
+    const update = toConversationUpdate(body ?? {});
+    if (typeof update === 'string') {
+      return NextResponse.json({ error: update }, { status: 400 });
+    }
+
     const resp = await fetch(GET_CONVERSATION_URL(id), {
       method: 'PATCH',
       headers: { Authorization: auth, 'Content-Type': 'application/json' },
-      body: JSON.stringify(body),
+      body: JSON.stringify(update),
     });
 
     const data = await resp.json();
@@ -27,6 +80,7 @@ export async function PATCH(request: Request, { params }: { params: { id: string
   }
 }
 
+// Moves the conversation to the trash. Restoring and purging go through /api/proxy/trash.
 export async function DELETE(request: Request, { params }: { params: { id: string } }) {
   try {
     const auth = request.headers.get('Authorization') || '';
@@ -2,11 +2,20 @@ import { NextResponse } from 'next/server';
 
 const LIST_CONVERSATIONS_URL = `${process.env.NEXT_PUBLIC_API_URL}/api/gemini/conversations`;
 
+// Cursor pagination: `?limit=` sets the page size, `?cursor=` continues after the previous page.
 export async function GET(request: Request) {
   try {
     const auth = request.headers.get('Authorization') || '';
+    const { searchParams } = new URL(request.url);
 
-    const resp = await fetch(LIST_CONVERSATIONS_URL, {
+    const upstream = new URLSearchParams();
+    const cursor = searchParams.get('cursor');
+    const limit = Number(searchParams.get('limit'));
+    if (cursor) upstream.set('cursor', cursor);
+    if (Number.isInteger(limit) && limit > 0) upstream.set('limit', String(Math.min(limit, 100)));
+
+    const query = upstream.toString();
+    const resp = await fetch(query ? `${LIST_CONVERSATIONS_URL}?${query}` : LIST_CONVERSATIONS_URL, {
       method: 'GET',
       headers: {
         Authorization: auth,
@@ -24,3 +33,31 @@ export async function GET(request: Request) {
     return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
   }
 }
+
+// Creates a conversation from messages that were produced without a backing conversation, e.g. a kept comparison answer.
+export async function POST(request: Request) {
+  try {
+    const auth = request.headers.get('Authorization') || '';
+    const body = await request.json();
+
+    if (body?.messages !== undefined && !Array.isArray(body.messages)) {
+      return NextResponse.json({ error: 'messages must be an array' }, { status: 400 });
+    }
+
+    const resp = await fetch(LIST_CONVERSATIONS_URL, {
+      method: 'POST',
+      headers: { Authorization: auth, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body ?? {}),
+    });
+
+    if (!resp.ok) {
+      const errorText = await resp.text();
+      return NextResponse.json({ error: errorText }, { status: resp.status });
+    }
+
+    const data = await resp.json();
+    return NextResponse.json(data, { status: 201 });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+
+const FOLDER_URL = (id: string) => `${process.env.NEXT_PUBLIC_API_URL}/api/gemini/folders/${id}`;
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const auth = request.headers.get('Authorization') || '';
+    const { id } = await Promise.resolve(params);
+    const body = await request.json();
+
+    if (typeof body?.name !== 'string' || !body.name.trim()) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    const resp = await fetch(FOLDER_URL(id), {
+      method: 'PATCH',
+      headers: { Authorization: auth, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: body.name.trim() }),
+    });
+
+    if (!resp.ok) {
+      const errorText = await resp.text();
+      return NextResponse.json({ error: errorText }, { status: resp.status });
+    }
+
+    const data = await resp.json();
+    return NextResponse.json(data, { status: 200 });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
+
+// Deleting a folder keeps its conversations; the backend moves them out of it.
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const auth = request.headers.get('Authorization') || '';
+    const { id } = await Promise.resolve(params);
+
+    const resp = await fetch(FOLDER_URL(id), {
+      method: 'DELETE',
+      headers: { Authorization: auth },
+    });
+
+    if (!resp.ok) {
+      const errorText = await resp.text();
+      return NextResponse.json({ error: errorText }, { status: resp.status });
+    }
+
+    const data = await resp.json().catch(() => ({}));
+    return NextResponse.json(data, { status: 200 });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+
+const FOLDERS_URL = `${process.env.NEXT_PUBLIC_API_URL}/api/gemini/folders`;
+
+export async function GET(request: Request) {
+  try {
+    const auth = request.headers.get('Authorization') || '';
+
+    const resp = await fetch(FOLDERS_URL, {
+      method: 'GET',
+      headers: { Authorization: auth },
+    });
+
+    if (!resp.ok) {
+      const errorText = await resp.text();
+      return NextResponse.json({ error: errorText }, { status: resp.status });
+    }
+
+    const data = await resp.json();
+    return NextResponse.json(data, { status: 200 });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = request.headers.get('Authorization') || '';
+    const body = await request.json();
+
+    if (typeof body?.name !== 'string' || !body.name.trim()) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    const resp = await fetch(FOLDERS_URL, {
+      method: 'POST',
+      headers: { Authorization: auth, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: body.name.trim() }),
+    });
+
+    if (!resp.ok) {
+      const errorText = await resp.text();
+      return NextResponse.json({ error: errorText }, { status: resp.status });
+    }
+
+    const data = await resp.json();
+    return NextResponse.json(data, { status: 201 });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+
+const PROMPT_URL = (id: string) => `${process.env.NEXT_PUBLIC_API_URL}/api/gemini/prompts/${id}`;
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const auth = request.headers.get('Authorization') || '';
+    const { id } = await Promise.resolve(params);
+    const body = await request.json();
+
+    if (typeof body?.title !== 'string' || !body.title.trim() || typeof body?.body !== 'string' || !body.body.trim()) {
+      return NextResponse.json({ error: 'title and body are required' }, { status: 400 });
+    }
+
+    const resp = await fetch(PROMPT_URL(id), {
+      method: 'PATCH',
+      headers: { Authorization: auth, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        title: body.title.trim(),
+        body: body.body.trim(),
+        category: typeof body.category === 'string' ? body.category.trim() : '',
+        scope: body.scope === 'team' ? 'team' : 'personal',
+      }),
+    });
+
+    if (!resp.ok) {
+      const errorText = await resp.text();
+      return NextResponse.json({ error: errorText }, { status: resp.status });
+    }
+
+    const data = await resp.json();
+    return NextResponse.json(data, { status: 200 });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const auth = request.headers.get('Authorization') || '';
+    const { id } = await Promise.resolve(params);
+
+    const resp = await fetch(PROMPT_URL(id), {
+      method: 'DELETE',
+      headers: { Authorization: auth },
+    });
+
+    if (!resp.ok) {
+      const errorText = await resp.text();
+      return NextResponse.json({ error: errorText }, { status: resp.status });
+    }
+
+    const data = await resp.json().catch(() => ({}));
+    return NextResponse.json(data, { status: 200 });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
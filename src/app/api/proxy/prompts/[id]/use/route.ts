@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+
+const PROMPT_USE_URL = (id: string) => `${process.env.NEXT_PUBLIC_API_URL}/api/gemini/prompts/${id}/use`;
+
+// Counts one use of a template; the library is ordered by these counts.
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const auth = request.headers.get('Authorization') || '';
+    const { id } = await Promise.resolve(params);
+
+    const resp = await fetch(PROMPT_USE_URL(id), {
+      method: 'POST',
+      headers: { Authorization: auth },
+    });
+
+    if (!resp.ok) {
+      const errorText = await resp.text();
+      return NextResponse.json({ error: errorText }, { status: resp.status });
+    }
+
+    const data = await resp.json().catch(() => ({}));
+    return NextResponse.json(data, { status: 200 });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+
+const SHARE_URL = (id: string) => `${process.env.NEXT_PUBLIC_API_URL}/api/gemini/shares/${id}`;
+
+// Public: anyone with the link can read the snapshot, so no Authorization is forwarded.
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  try {
+    const { id } = await Promise.resolve(params);
+
+    const resp = await fetch(SHARE_URL(id), { cache: 'no-store' });
+
+    if (!resp.ok) {
+      const errorText = await resp.text();
+      return NextResponse.json({ error: errorText || 'Share not found' }, { status: resp.status });
+    }
+
+    const data = await resp.json();
+    return NextResponse.json(data, { status: 200 });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
+
+// Revokes a share link. Only its owner can do this.
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const auth = request.headers.get('Authorization') || '';
+    const { id } = await Promise.resolve(params);
+
+    const resp = await fetch(SHARE_URL(id), {
+      method: 'DELETE',
+      headers: { Authorization: auth },
+    });
+
+    if (!resp.ok) {
+      const errorText = await resp.text();
+      return NextResponse.json({ error: errorText }, { status: resp.status });
+    }
+
+    const data = await resp.json().catch(() => ({}));
+    return NextResponse.json(data, { status: 200 });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
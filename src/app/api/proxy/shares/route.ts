@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+
+const SHARES_URL = `${process.env.NEXT_PUBLIC_API_URL}/api/gemini/shares`;
+
+// Lists the signed-in user's active share links.
+export async function GET(request: Request) {
+  try {
+    const auth = request.headers.get('Authorization') || '';
+
+    const resp = await fetch(SHARES_URL, {
+      method: 'GET',
+      headers: { Authorization: auth },
+    });
+
+    if (!resp.ok) {
+      const errorText = await resp.text();
+      return NextResponse.json({ error: errorText }, { status: resp.status });
+    }
+
+    const data = await resp.json();
+    return NextResponse.json(data, { status: 200 });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
+
+// Stores a read-only snapshot of a conversation; later messages are not added to the share.
+export async function POST(request: Request) {
+  try {
+    const auth = request.headers.get('Authorization') || '';
+    const body = await request.json();
+
+    if (!body?.conversationId || !body?.snapshot) {
+      return NextResponse.json({ error: 'conversationId and snapshot are required' }, { status: 400 });
+    }
+
+    const resp = await fetch(SHARES_URL, {
+      method: 'POST',
+      headers: { Authorization: auth, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        conversationId: body.conversationId,
+        title: typeof body.title === 'string' ? body.title.trim() : undefined,
+        snapshot: body.snapshot,
+      }),
+    });
+
+    if (!resp.ok) {
+      const errorText = await resp.text();
+      return NextResponse.json({ error: errorText }, { status: resp.status });
+    }
+
+    const data = await resp.json();
+    return NextResponse.json(data, { status: 201 });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+
+const TAG_SUGGESTIONS_URL = `${process.env.NEXT_PUBLIC_API_URL}/api/gemini/tags/suggest`;
+
+// Suggestions are a nicety: any failure resolves to an empty list so the chat never surfaces it.
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const resp = await fetch(TAG_SUGGESTIONS_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: request.headers.get('Authorization') || '',
+      },
+      body: JSON.stringify({
+        prompt: body?.prompt,
+        answer: body?.answer,
+        existingTags: Array.isArray(body?.existingTags) ? body.existingTags : [],
+      }),
+    });
+    if (!resp.ok) {
+      return NextResponse.json({ tags: [] }, { status: 200 });
+    }
+    const data = await resp.json();
+    return NextResponse.json({ tags: Array.isArray(data?.tags) ? data.tags : [] }, { status: 200 });
+  } catch {
+    return NextResponse.json({ tags: [] }, { status: 200 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+
+const TRASH_ITEM_URL = (id: string) => `${process.env.NEXT_PUBLIC_API_URL}/api/gemini/trash/${id}`;
+
+// Restores a conversation from the trash into the history.
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const auth = request.headers.get('Authorization') || '';
+    const { id } = await Promise.resolve(params);
+
+    const resp = await fetch(`${TRASH_ITEM_URL(id)}/restore`, {
+      method: 'POST',
+      headers: { Authorization: auth },
+    });
+
+    if (!resp.ok) {
+      const errorText = await resp.text();
+      return NextResponse.json({ error: errorText }, { status: resp.status });
+    }
+
+    const data = await resp.json().catch(() => ({}));
+    return NextResponse.json(data, { status: 200 });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
+
+// Deletes a trashed conversation permanently. This cannot be undone.
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const auth = request.headers.get('Authorization') || '';
+    const { id } = await Promise.resolve(params);
+
+    const resp = await fetch(TRASH_ITEM_URL(id), {
+      method: 'DELETE',
+      headers: { Authorization: auth },
+    });
+
+    if (!resp.ok) {
+      const errorText = await resp.text();
+      return NextResponse.json({ error: errorText }, { status: resp.status });
+    }
+
+    const data = await resp.json().catch(() => ({}));
+    return NextResponse.json(data, { status: 200 });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
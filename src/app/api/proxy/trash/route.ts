@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+
+const TRASH_URL = `${process.env.NEXT_PUBLIC_API_URL}/api/gemini/trash`;
+
+// Conversations deleted in the last 30 days; older ones are purged by the backend.
+export async function GET(request: Request) {
+  try {
+    const auth = request.headers.get('Authorization') || '';
+
+    const resp = await fetch(TRASH_URL, {
+      method: 'GET',
+      headers: { Authorization: auth },
+    });
+
+    if (!resp.ok) {
+      const errorText = await resp.text();
+      return NextResponse.json({ error: errorText }, { status: resp.status });
+    }
+
+    const data = await resp.json();
+    return NextResponse.json(data, { status: 200 });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
+
+// Empties the trash for good.
+export async function DELETE(request: Request) {
+  try {
+    const auth = request.headers.get('Authorization') || '';
+
+    const resp = await fetch(TRASH_URL, {
+      method: 'DELETE',
+      headers: { Authorization: auth },
+    });
+
+    if (!resp.ok) {
+      const errorText = await resp.text();
+      return NextResponse.json({ error: errorText }, { status: resp.status });
+    }
+
+    const data = await resp.json().catch(() => ({}));
+    return NextResponse.json(data, { status: 200 });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
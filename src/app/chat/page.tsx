@@ -3,11 +3,34 @@
 import React, { useCallback, useDeferredValue, useMemo, useState, useRef, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { ChatForm } from "@/components/ui/chat"
-import { type AgentActivityStep, type ImageResult, type Message, type MermaidBlockUpdate } from "@/components/ui/chat-message"
+import { type AgentActivityStep, type Message } from "@/components/ui/chat-message"
 import { CopyButton } from "@/components/ui/copy-button"
 import { Input } from "@/components/ui/input"
-import { MessageInput } from "@/components/ui/message-input"
-import { MessageList } from "@/components/ui/message-list"
+import { Textarea } from "@/components/ui/textarea"
+import { MODEL_OPTIONS, MessageInput } from "@/components/ui/message-input"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { ConversationMessageList } from "@/components/chat/conversation-message-list"
+import { ImportConversationsDialog } from "@/components/chat/import-conversations-dialog"
+import { SharedLinksList } from "@/components/chat/shared-links-list"
+import { ModelComparison, modelLabel } from "@/components/chat/model-comparison"
+import { ConversationActionsMenu, ConversationHistorySections, HistoryLoadMore } from "@/components/chat/conversation-history-sections"
+import { ConversationTagList, ConversationTagsDialog, SuggestedTags, TagFilterBar } from "@/components/chat/conversation-tags"
+import { HistorySelectionBar } from "@/components/chat/history-selection-bar"
+import { TrashDialog } from "@/components/chat/trash-dialog"
+import { ConversationFindBar, HighlightedText } from "@/components/chat/conversation-find"
+import { PersonaDialog } from "@/components/chat/persona-dialog"
+import { CommandPalette } from "@/components/chat/command-palette"
+import { KeyboardShortcutsDialog } from "@/components/chat/keyboard-shortcuts-dialog"
+import { ShortcutSettings } from "@/components/chat/shortcut-settings"
+import { PromptLibraryDialog } from "@/components/chat/prompt-library-dialog"
+import { PromptTemplateFillDialog } from "@/components/chat/prompt-template-fill-dialog"
 import {
   ThumbsUp,
   ThumbsDown,
@@ -23,73 +46,122 @@ import {
   BookOpen,
   MessageCircle,
   Compass,
-  Sparkles,
   TrendingUp,
   FileText,
   Settings,
+  ListChecks,
   Loader2,
   Download,
   Check,
   Pencil,
+  GitBranch,
+  RefreshCw,
+  FileJson,
+  FileCode,
+  Printer,
+  Upload,
+  FileUp,
+  Share2,
+  BookText,
 } from "lucide-react"
 import { useAuth } from "@/contexts/auth-context"
+import { ConversationStoreProvider, useConversationMessageIds, useConversationStore } from "@/contexts/conversation-context"
 import { SuggestionDropdown } from "@/components/ui/suggestion-dropdown"
-import { fuzzySearch } from "@/services/suggestions/fuzzy"
 import { Playfair_Display } from "next/font/google"
 import { ThemeToggle } from "@/components/ui/theme-toggle"
 import { FeedbackDialog } from "@/components/ui/feedback-dialog"
 import { LinkPreviewPane } from "@/components/ui/link-preview-pane"
+import { ScrollRootProvider } from "@/components/ui/lazy-mount"
+import { flashMessage, scrollToMessage } from "@/components/ui/message-list"
 import { toast } from "sonner"
 import { TTSButton } from "@/components/ui/tts-button"
 import { LunaIcon } from "@/components/ui/luna-icon"
 import { OnboardingModal } from "@/components/ui/onboarding-modal"
-
-function normalizeImageResults(raw: unknown): ImageResult[] | undefined {
-  if (!Array.isArray(raw)) return undefined
-
-  const normalized = raw
-    .map((item): ImageResult | null => {
-      if (!item || typeof item !== 'object') return null
-
-      const data = item as Record<string, unknown>
-      const imageUrl = typeof data.imageUrl === 'string' ? data.imageUrl : null
-      const pageUrl = typeof data.pageUrl === 'string' ? data.pageUrl : null
-      const title = typeof data.title === 'string' ? data.title : null
-      const thumbnailUrl = typeof data.thumbnailUrl === 'string' ? data.thumbnailUrl : null
-
-      if (!imageUrl) return null
-
-      return { title, imageUrl, pageUrl, thumbnailUrl }
-    })
-    .filter((entry): entry is ImageResult => entry !== null)
-
-  return normalized.length > 0 ? normalized : undefined
-}
-
-function applyMermaidReplacements(content: string, blocks: MermaidBlockUpdate[] | undefined) {
-  if (typeof content !== 'string' || !Array.isArray(blocks) || blocks.length === 0) {
-    return content
-  }
-
-  return blocks.reduce((acc, block) => {
-    if (typeof block.original === 'string' && typeof block.replacement === 'string') {
-      return acc.replace(block.original, block.replacement)
-    }
-    return acc
-  }, content)
-}
+import { ChatStreamError, streamChatWithResume, type ChatStreamOptions } from "@/lib/chat-stream"
+import { chatStreamEventToAction, conversationReducer, initialConversationState, type ConversationState } from "@/lib/conversation-store"
+import {
+  conversationToJson,
+  conversationToMarkdown,
+  createConversationExportFromState,
+  downloadFile,
+  exportFileName,
+  importedConversationPayload,
+  parseConversationExports,
+  type ExportFormat,
+} from "@/lib/conversation-export"
+import { conversationToHtml, printHtml } from "@/lib/conversation-html"
+import { createShareSnapshot, shareUrl } from "@/lib/conversation-shares"
+import { readSearchHits, type MessageSearchHit } from "@/lib/conversation-search"
+import { hasSearchFilters, parseSearchQuery, searchDocuments, type SearchDocument } from "@/lib/local-search"
+import { useLocalSearchIndex } from "@/hooks/use-local-search-index"
+import { useConversationCache } from "@/hooks/use-conversation-cache"
+import { useOnlineStatus } from "@/hooks/use-online-status"
+import { usePromptTemplates } from "@/hooks/use-prompt-templates"
+import { useKeyboardShortcuts, useShortcutBindings } from "@/hooks/use-keyboard-shortcuts"
+import { useCommandPalette } from "@/hooks/use-command-palette"
+import { useModelComparison } from "@/hooks/use-model-comparison"
+import { useOutbox } from "@/hooks/use-outbox"
+import {
+  cacheConversation,
+  deleteCachedConversations,
+  isOfflineCacheAvailable,
+  readCachedConversation,
+  type CachedConversation,
+  type OutboxEntry,
+} from "@/lib/offline-cache"
+import { readSharedParams, sharedContentPrompt, takeSharedContent } from "@/lib/shared-content"
+import {
+  CUSTOM_INSTRUCTIONS_MAX_LENGTH,
+  EMPTY_CUSTOM_INSTRUCTIONS,
+  LANGUAGE_OPTIONS,
+  customInstructionsOption,
+  hasCustomInstructions,
+  normalizeCustomInstructions,
+  readCustomInstructions,
+  type CustomInstructions,
+} from "@/lib/custom-instructions"
+import {
+  BUILT_IN_PERSONAS,
+  findPersona,
+  readCustomPersonas,
+  writeCustomPersonas,
+  type Persona,
+} from "@/lib/personas"
+import { rankPromptTemplates, searchPromptTemplates, templateVariables, type PromptTemplate } from "@/lib/prompt-templates"
+import {
+  SLASH_COMMANDS,
+  parseSlashCommand,
+  readExportArgument,
+  readModelArgument,
+  slashCommandOptions,
+  type ParsedSlashCommand,
+} from "@/lib/slash-commands"
+import {
+  HISTORY_PAGE_SIZE,
+  applyConversationPatch,
+  collectTags,
+  mergeConversations,
+  normalizeFolder,
+  normalizeTags,
+  readConversationOrganization,
+  readConversationPage,
+  readConversationSettings,
+  type ConversationFolder,
+  type ConversationPatch,
+  type ConversationSettings,
+  type ConversationSummary,
+} from "@/lib/conversation-history"
+import { normalizeExcalidraw, normalizeImageResults, normalizeSources, normalizeVariants, normalizeVideos } from "@/lib/message-normalizers"
 
 const playfair = Playfair_Display({
   subsets: ['latin'],
   weight: ['400', '700'],
 })
 
-type ConversationSummary = {
-  id: string
-  title: string
-  updated_at: string | null
-  created_at: string | null
-}
+const STREAM_RECONNECT_STEP_ID = 'stream-reconnect'
+// The backend names a new chat shortly after its first answer; its summary is then among the latest few
+const NEW_CONVERSATION_TITLE_DELAY = 1400
+const NEW_CONVERSATION_LOOKUP_SIZE = 5
 
 type ConversationSummaryRaw = {
   id: string | number
@@ -99,6 +171,13 @@ type ConversationSummaryRaw = {
   updatedAt?: unknown
   created_at?: unknown
   createdAt?: unknown
+  [key: string]: unknown
+}
+
+// What deleting a chat removes from this browser, kept so Undo can put it back
+type PurgedLocalCopies = {
+  documents: SearchDocument[]
+  cached: CachedConversation[]
 }
 
 type HistoryMessageRaw = {
@@ -114,10 +193,13 @@ type HistoryMessageRaw = {
   excalidrawData?: unknown
   images?: unknown
   videos?: unknown
+  parent_id?: unknown
+  parentId?: unknown
+  variants?: unknown
+  active_variant?: unknown
+  activeVariant?: unknown
 }
 
-type VideoResult = NonNullable<Message["videos"]>[number]
-
 function asIsoStringOrNull(value: unknown): string | null {
   if (typeof value === "string") {
     const trimmed = value.trim()
@@ -141,57 +223,21 @@ function asString(value: unknown, fallback = ""): string {
   return fallback
 }
 
-function normalizeSources(value: unknown): Message["sources"] | undefined {
-  if (!Array.isArray(value)) return undefined
-  const normalized = value
-    .map((entry): string | { url: string; title?: string } | null => {
-      if (typeof entry === "string") return entry
-      if (entry && typeof entry === "object") {
-        const obj = entry as Record<string, unknown>
-        const url = typeof obj.url === "string" ? obj.url : ""
-        if (!url) return null
-        const title = typeof obj.title === "string" ? obj.title : undefined
-        return title ? { url, title } : { url }
-      }
-      return null
-    })
-    .filter((x): x is string | { url: string; title?: string } => x !== null)
-
-  return normalized.length > 0 ? normalized : undefined
-}
-
-function normalizeVideos(value: unknown): Message["videos"] | undefined {
-  if (!Array.isArray(value)) return undefined
-  const normalized = value
-    .map((entry): VideoResult | null => {
-      if (!entry || typeof entry !== "object") return null
-      const obj = entry as Record<string, unknown>
-      const url = typeof obj.url === "string" ? obj.url : undefined
-      const videoId = typeof obj.videoId === "string" ? obj.videoId : undefined
-      const title = typeof obj.title === "string" ? obj.title : undefined
-      const description = typeof obj.description === "string" ? obj.description : undefined
-      const channelTitle =
-        typeof obj.channelTitle === "string" ? obj.channelTitle : undefined
-      const thumbnails = (obj.thumbnails && typeof obj.thumbnails === "object"
-        ? (obj.thumbnails as VideoResult["thumbnails"])
-        : undefined)
-
-      if (!url && !videoId) return null
-      return { url, videoId, title, description, channelTitle, thumbnails }
-    })
-    .filter((x): x is VideoResult => x !== null)
-
-  return normalized.length > 0 ? normalized : undefined
-}
-
-function normalizeExcalidraw(value: unknown): Message["excalidrawData"] | undefined {
-  if (!Array.isArray(value)) return undefined
-  return value as Message["excalidrawData"]
+// The composer's last manual choices, used by chats that have no preset
+function storedChatSettings() {
+  const model = localStorage.getItem('luna_model')
+  return {
+    model: model && model !== 'gemini-2.5-flash-lite-preview-06-17' ? model : 'gemini-2.5-flash-lite',
+    includeYouTube: localStorage.getItem('luna_yt') === '1',
+    includeImageSearch: localStorage.getItem('luna_img') === '1',
+  }
 }
 
-export default function ChatPage() {
+function ChatWorkspace() {
   const { logout, token, user, updateUser } = useAuth()
-  const [messages, setMessages] = useState<Message[]>([])
+  const conversationStore = useConversationStore()
+  const messageIds = useConversationMessageIds()
+  const hasMessages = messageIds.length > 0
   const [input, setInput] = useState("")
   const [isGenerating, setIsGenerating] = useState(false)
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null)
@@ -203,22 +249,74 @@ export default function ChatPage() {
   const headerRef = useRef<HTMLDivElement>(null)
   const footerRef = useRef<HTMLDivElement>(null)
   const abortControllerRef = useRef<AbortController | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const findInputRef = useRef<HTMLInputElement>(null)
+  // Bumped on every conversation switch, so a slow load cannot replace a newer one
+  const selectRequestRef = useRef(0)
+  const [messageScrollRoot, setMessageScrollRoot] = useState<HTMLDivElement | null>(null)
   const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  const [folders, setFolders] = useState<ConversationFolder[]>([])
+  const [activeTag, setActiveTag] = useState<string | null>(null)
+  const [isSelectingHistory, setIsSelectingHistory] = useState(false)
+  const [selectedConversationIds, setSelectedConversationIds] = useState<Set<string>>(new Set())
+  const [isBulkBusy, setIsBulkBusy] = useState(false)
+  const [isTrashOpen, setIsTrashOpen] = useState(false)
+  // Conversations whose tags are being edited; `add` merges into existing tags instead of replacing them
+  const [tagEditor, setTagEditor] = useState<{ conversationIds: string[]; mode: 'replace' | 'add' } | null>(null)
+  const [suggestedTags, setSuggestedTags] = useState<{ conversationId: string; tags: string[] } | null>(null)
   const [isHistoryLoading, setIsHistoryLoading] = useState(false)
+  // Cursor of the next history page; null once the last page is loaded
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null)
+  const [isLoadingMoreHistory, setIsLoadingMoreHistory] = useState(false)
+  const isLoadingMoreHistoryRef = useRef(false)
   const [loadingConversationId, setLoadingConversationId] = useState<string | null>(null)
   const [includeYouTube, setIncludeYouTube] = useState(() => {
     if (typeof window === 'undefined') return false
-    return localStorage.getItem('luna_yt') === '1'
+    return storedChatSettings().includeYouTube
   })
   const [includeImageSearch, setIncludeImageSearch] = useState(() => {
     if (typeof window === 'undefined') return false
-    return localStorage.getItem('luna_img') === '1'
+    return storedChatSettings().includeImageSearch
   })
   const [selectedModel, setSelectedModel] = useState(() => {
     if (typeof window === 'undefined') return 'gemini-2.5-flash-lite'
-    const stored = localStorage.getItem('luna_model')
-    return stored && stored !== 'gemini-2.5-flash-lite-preview-06-17' ? stored : 'gemini-2.5-flash-lite'
+    return storedChatSettings().model
+  })
+  // The open chat's preset and whether it sends custom instructions; saved with the conversation
+  const [activePersonaId, setActivePersonaId] = useState<string | null>(null)
+  const [isInstructionsEnabled, setIsInstructionsEnabled] = useState(true)
+  const [customPersonas, setCustomPersonas] = useState<Persona[]>(() => {
+    if (typeof window === 'undefined') return []
+    return readCustomPersonas()
   })
+  const [isPersonaDialogOpen, setIsPersonaDialogOpen] = useState(false)
+  const [isPromptLibraryOpen, setIsPromptLibraryOpen] = useState(false)
+  const {
+    bindings: shortcutBindings,
+    changeShortcut,
+    isHelpOpen: isShortcutHelpOpen,
+    setIsHelpOpen: setIsShortcutHelpOpen,
+  } = useShortcutBindings()
+  // Message last reached with the previous/next message shortcuts
+  const navigatedMessageIdRef = useRef<string | null>(null)
+  // A picked template whose variables are being filled in before it goes into the composer
+  const [fillingTemplate, setFillingTemplate] = useState<PromptTemplate | null>(null)
+  const {
+    models: compareModels,
+    changeModels: changeCompareModels,
+    comparison,
+    start: startComparison,
+    dismiss: dismissComparison,
+    keep: handleKeepComparison,
+  } = useModelComparison({
+    token,
+    conversationId: currentConversationId,
+    onSaved: (conversationId, prompt, isNewConversation) => {
+      if (isNewConversation) setCurrentConversationId(conversationId)
+      refreshConversationSummary(conversationId, prompt)
+    },
+  })
+  const showThread = hasMessages || comparison !== null
   const [editingConversationId, setEditingConversationId] = useState<string | null>(null)
   const [editingTitle, setEditingTitle] = useState('')
   const [suggestions, setSuggestions] = useState<string[]>([])
@@ -226,13 +324,45 @@ export default function ChatPage() {
   const [viewportHeight, setViewportHeight] = useState('100dvh')
   const [historyQuery, setHistoryQuery] = useState("")
   const [isFeedbackOpen, setIsFeedbackOpen] = useState(false)
+  const [isImportOpen, setIsImportOpen] = useState(false)
+  const [isSharing, setIsSharing] = useState(false)
   const [isSettingsOpen, setIsSettingsOpen] = useState(false)
   const [settingsUsername, setSettingsUsername] = useState('')
+  const [settingsInstructions, setSettingsInstructions] = useState<CustomInstructions>(EMPTY_CUSTOM_INSTRUCTIONS)
   const [isSavingSettings, setIsSavingSettings] = useState(false)
   const [keyHealth, setKeyHealth] = useState<{ total: number; available: number; nextRefreshMs?: number | null; totalRequests?: number } | null>(null)
   const [refreshCountdown, setRefreshCountdown] = useState<number | null>(null)
   const [searchResults, setSearchResults] = useState<ConversationSummary[] | null>(null)
   const [isSearching, setIsSearching] = useState(false)
+  // Matching messages per conversation of the current search, shown as snippets
+  const [searchHits, setSearchHits] = useState<Record<string, MessageSearchHit[]>>({})
+  const [isFindOpen, setIsFindOpen] = useState(false)
+  const [findQuery, setFindQuery] = useState('')
+  const [findAnchorId, setFindAnchorId] = useState<string | null>(null)
+  const {
+    documents: localSearchDocuments,
+    removeDocuments: removeFromSearchIndex,
+    restoreDocuments: restoreToSearchIndex,
+  } = useLocalSearchIndex({
+    account: user?.email,
+    conversations,
+    conversationId: currentConversationId,
+    model: selectedModel,
+  })
+  const offlineAccount = user?.email
+  useConversationCache({ account: offlineAccount, conversationId: currentConversationId })
+  const isOnline = useOnlineStatus()
+  // The queue flushes after render, so sending can use the helpers defined further down
+  const {
+    queue: queueOutboxEntry,
+    cancel: cancelPendingMessage,
+    pendingMessages: pendingOutboxMessages,
+  } = useOutbox({
+    account: offlineAccount,
+    isOnline,
+    send: (entry, isVisible) => sendQueuedPrompt(entry, isVisible),
+  })
+  const [sharedFiles, setSharedFiles] = useState<File[] | null>(null)
   const [previewUrl, setPreviewUrl] = useState<string | null>(null)
   const [previewTitle, setPreviewTitle] = useState<string | null>(null)
   const [isLinkPreviewOpen, setIsLinkPreviewOpen] = useState(false)
@@ -243,6 +373,22 @@ export default function ChatPage() {
 
   const displayName = user?.username || user?.name || 'User'
   const displayEmail = user?.email ?? ''
+  const customInstructions = useMemo(() => readCustomInstructions(user?.customInstructions), [user?.customInstructions])
+  const personas = useMemo(() => [...BUILT_IN_PERSONAS, ...customPersonas], [customPersonas])
+  const {
+    templates: promptTemplates,
+    saveTemplate: savePromptTemplate,
+    deleteTemplate: deletePromptTemplate,
+    recordUsage: recordPromptUsage,
+  } = usePromptTemplates({ token })
+  const activePersona = findPersona(personas, activePersonaId)
+  const chatSettings = useMemo<ConversationSettings>(() => ({
+    model: selectedModel,
+    includeYouTube,
+    includeImageSearch,
+    personaId: activePersonaId,
+    customInstructions: isInstructionsEnabled,
+  }), [activePersonaId, includeImageSearch, includeYouTube, isInstructionsEnabled, selectedModel])
   const userInitial = useMemo(() => {
     const source = user?.email || user?.username || user?.name
     return source ? source.slice(0, 1).toUpperCase() : 'U'
@@ -312,6 +458,33 @@ export default function ChatPage() {
     }
   }, [])
 
+  // Content shared from another app to the installed PWA lands in the composer (see public/sw.js)
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const shareId = params.get('share')
+    if (!shareId && !['title', 'text', 'url'].some((field) => params.has(field))) return
+    window.history.replaceState(null, '', window.location.pathname)
+
+    if (!shareId) {
+      const prompt = readSharedParams(params)
+      if (prompt) setInput(prompt)
+      return
+    }
+
+    takeSharedContent(shareId)
+      .then((share) => {
+        if (!share) return
+        const prompt = sharedContentPrompt(share)
+        if (prompt) setInput(prompt)
+        if (share.files.length > 0) setSharedFiles(share.files)
+        inputRef.current?.focus()
+      })
+      .catch((error) => {
+        console.error('Failed to read shared content', error)
+        toast.error("Couldn't open the shared content")
+      })
+  }, [])
+
   useEffect(() => {
     const fetchStatus = () => {
       fetch('/api/proxy/status')
@@ -374,19 +547,27 @@ export default function ChatPage() {
       title,
       updated_at: updatedAt,
       created_at: createdAt,
+      ...readConversationOrganization(conversation),
     }
   }, [])
 
+  // The server knows nothing about `model:`/`has:` filters, so filtered queries stay local
+  const serverSearchQuery = useMemo(() => {
+    const parsed = parseSearchQuery(historyQuery)
+    return hasSearchFilters(parsed) ? '' : parsed.text
+  }, [historyQuery])
+
   // Full-text message search with debounce
   useEffect(() => {
-    if (historyQuery.trim().length < 3) {
+    if (serverSearchQuery.length < 3) {
       setSearchResults(null)
+      setSearchHits({})
       return
     }
     const timer = setTimeout(async () => {
       setIsSearching(true)
       try {
-        const resp = await fetch(`/api/proxy/chat/search?q=${encodeURIComponent(historyQuery)}`, {
+        const resp = await fetch(`/api/proxy/chat/search?q=${encodeURIComponent(serverSearchQuery)}`, {
           headers: { ...(token ? { Authorization: `Bearer ${token}` } : {}) },
         })
         if (resp.ok) {
@@ -395,24 +576,122 @@ export default function ChatPage() {
             const normalized = data
               .map(normalizeConversationSummary)
               .filter((c): c is ConversationSummary => c !== null)
+            const hits: Record<string, MessageSearchHit[]> = {}
+            data.forEach((result) => {
+              const id = result?.id ?? result?.conversation_id
+              const matches = readSearchHits(result, serverSearchQuery)
+              if (id && matches.length > 0) hits[String(id)] = matches
+            })
             setSearchResults(normalized)
+            setSearchHits(hits)
           }
         } else {
           setSearchResults(null)
+          setSearchHits({})
         }
       } catch {
         setSearchResults(null)
+        setSearchHits({})
       } finally {
         setIsSearching(false)
       }
     }, 400)
     return () => clearTimeout(timer)
-  }, [historyQuery, token, normalizeConversationSummary])
+  }, [serverSearchQuery, token, normalizeConversationSummary])
+
+  const fetchConversationPage = useCallback(async (cursor: string | null, limit = HISTORY_PAGE_SIZE) => {
+    const params = new URLSearchParams({ limit: String(limit) })
+    if (cursor) params.set('cursor', cursor)
+
+    const resp = await fetch(`/api/proxy/conversations?${params}`, {
+      headers: {
+        ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+      }
+    })
 
+    if (!resp.ok) {
+      const errorText = await resp.text()
+      throw new Error(errorText || 'Failed to fetch conversations')
+    }
+
+    const { items, nextCursor } = readConversationPage(await resp.json())
+    const normalized = items
+      .map((item) => normalizeConversationSummary(item as ConversationSummaryRaw))
+      .filter((conversation): conversation is ConversationSummary => conversation !== null)
+    return { conversations: normalized, nextCursor }
+  }, [normalizeConversationSummary, token])
+
+  // Starts the history over from the first page
   const loadConversations = useCallback(async () => {
     try {
       setIsHistoryLoading(true)
-      const resp = await fetch('/api/proxy/conversations', {
+      const { conversations: firstPage, nextCursor } = await fetchConversationPage(null)
+      setConversations(mergeConversations([], firstPage))
+      setHistoryCursor(nextCursor)
+    } catch (error) {
+      console.error('Failed to load conversations', error)
+    } finally {
+      setIsHistoryLoading(false)
+    }
+  }, [fetchConversationPage])
+
+  const loadMoreConversations = useCallback(async () => {
+    if (!historyCursor || isLoadingMoreHistoryRef.current) return
+    isLoadingMoreHistoryRef.current = true
+    setIsLoadingMoreHistory(true)
+    try {
+      const { conversations: page, nextCursor } = await fetchConversationPage(historyCursor)
+      setConversations((prev) => mergeConversations(prev, page))
+      setHistoryCursor(nextCursor)
+    } catch (error) {
+      console.error('Failed to load more conversations', error)
+    } finally {
+      isLoadingMoreHistoryRef.current = false
+      setIsLoadingMoreHistory(false)
+    }
+  }, [fetchConversationPage, historyCursor])
+
+  /**
+   * Moves one conversation to the top of the history after it changed. Used instead of reloading
+   * the whole list after every message: an existing chat already has everything but the new time,
+   * and a new one takes its generated title from the latest summaries, fetched once.
+   */
+  const refreshConversationSummary = useCallback((conversationId: string, fallbackTitle?: string) => {
+    const now = new Date().toISOString()
+    const isNew = !conversations.some((conversation) => conversation.id === conversationId)
+    setConversations((prev) => {
+      const existing = prev.find((conversation) => conversation.id === conversationId)
+      return mergeConversations(prev, [existing
+        ? { ...existing, updated_at: now }
+        : {
+          id: conversationId,
+          title: fallbackTitle?.trim().slice(0, 80) || `Chat ${conversationId.slice(0, 6)}`,
+          updated_at: now,
+          created_at: now,
+          pinned: false,
+          archived: false,
+          folder_id: null,
+          tags: [],
+          settings: null,
+        }])
+    })
+
+    if (!isNew) return
+    window.setTimeout(() => {
+      fetchConversationPage(null, NEW_CONVERSATION_LOOKUP_SIZE)
+        .then(({ conversations: latest }) => {
+          const summary = latest.find((conversation) => conversation.id === conversationId)
+          if (summary) setConversations((prev) => mergeConversations(prev, [summary]))
+        })
+        .catch((error) => {
+          console.error('Failed to refresh conversation', error)
+        })
+    }, NEW_CONVERSATION_TITLE_DELAY)
+  }, [conversations, fetchConversationPage])
+
+  const loadFolders = useCallback(async () => {
+    try {
+      const resp = await fetch('/api/proxy/folders', {
         headers: {
           ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
         }
@@ -420,41 +699,24 @@ export default function ChatPage() {
 
       if (!resp.ok) {
         const errorText = await resp.text()
-        throw new Error(errorText || 'Failed to fetch conversations')
+        throw new Error(errorText || 'Failed to fetch folders')
       }
 
       const data = await resp.json()
-      if (Array.isArray(data)) {
-        const normalized = data
-          .map(normalizeConversationSummary)
-          .filter((conversation): conversation is ConversationSummary => conversation !== null)
-
-        const getTime = (conversation: ConversationSummary) => {
-          const timestamp = conversation.updated_at ?? conversation.created_at ?? ""
-          const time = new Date(timestamp).getTime()
-          return Number.isNaN(time) ? 0 : time
-        }
-
-        normalized.sort((a, b) => getTime(b) - getTime(a))
-        setConversations(normalized)
-      } else {
-        setConversations([])
-      }
+      const list = Array.isArray(data) ? data : Array.isArray(data?.folders) ? data.folders : []
+      setFolders(list.map(normalizeFolder).filter((folder: ConversationFolder | null): folder is ConversationFolder => folder !== null))
     } catch (error) {
-      console.error('Failed to load conversations', error)
-    } finally {
-      setIsHistoryLoading(false)
+      console.error('Failed to load folders', error)
     }
-  }, [normalizeConversationSummary, token])
+  }, [token])
 
   useEffect(() => {
     loadConversations()
   }, [loadConversations])
 
   useEffect(() => {
-    if (!currentConversationId) return
-    loadConversations()
-  }, [currentConversationId, loadConversations])
+    void loadFolders()
+  }, [loadFolders])
 
   useEffect(() => {
     if (!canDockHistory && isHistoryOpen) {
@@ -482,16 +744,104 @@ export default function ChatPage() {
     setIsGenerating(false)
   }, [])
 
+  // Chats saved without settings start from the composer's stored choices
+  const applyChatSettings = useCallback((settings: ConversationSettings | null) => {
+    const next = settings ?? { ...storedChatSettings(), personaId: null, customInstructions: true }
+    setSelectedModel(next.model)
+    setIncludeYouTube(next.includeYouTube)
+    setIncludeImageSearch(next.includeImageSearch)
+    setActivePersonaId(next.personaId)
+    setIsInstructionsEnabled(next.customInstructions)
+  }, [])
+
+  // Saved quietly: the settings already apply, so a failed save only loses them for the next visit
+  const persistConversationSettings = useCallback(async (conversationId: string, settings: ConversationSettings) => {
+    const patch: ConversationPatch = { action: 'settings', settings }
+    const patchList = (list: ConversationSummary[]) =>
+      list.map((c) => c.id === conversationId ? applyConversationPatch(c, patch) : c)
+    setConversations(patchList)
+    setSearchResults((prev) => prev ? patchList(prev) : prev)
+
+    try {
+      const resp = await fetch(`/api/proxy/conversations/${conversationId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify(patch),
+      })
+      if (!resp.ok) {
+        const errorText = await resp.text()
+        throw new Error(errorText || 'Failed to save conversation settings')
+      }
+    } catch (error) {
+      console.error('Failed to save conversation settings', error)
+    }
+  }, [token])
+
+  const updateChatSettings = useCallback((patch: Partial<ConversationSettings>) => {
+    const next = { ...chatSettings, ...patch }
+    applyChatSettings(next)
+    if (currentConversationId) void persistConversationSettings(currentConversationId, next)
+  }, [applyChatSettings, chatSettings, currentConversationId, persistConversationSettings])
+
+  // The composer's stored choice follows the last model picked anywhere
+  const changeModel = useCallback((model: string) => {
+    updateChatSettings({ model })
+    localStorage.setItem('luna_model', model)
+  }, [updateChatSettings])
+
+  const handleToggleInstructions = useCallback((enabled: boolean) => {
+    updateChatSettings({ customInstructions: enabled })
+  }, [updateChatSettings])
+
+  // A preset brings its own model and tools; without one the composer's stored choices apply
+  const handlePersonaChange = useCallback((personaId: string | null) => {
+    const tools = findPersona(personas, personaId) ?? storedChatSettings()
+    updateChatSettings({
+      personaId,
+      model: tools.model,
+      includeYouTube: tools.includeYouTube,
+      includeImageSearch: tools.includeImageSearch,
+    })
+  }, [personas, updateChatSettings])
+
+  const handleSavePersona = useCallback((persona: Persona) => {
+    setCustomPersonas((prev) => {
+      const next = prev.some((entry) => entry.id === persona.id)
+        ? prev.map((entry) => (entry.id === persona.id ? persona : entry))
+        : [...prev, persona]
+      writeCustomPersonas(next)
+      return next
+    })
+    if (persona.id === activePersonaId) {
+      updateChatSettings({ model: persona.model, includeYouTube: persona.includeYouTube, includeImageSearch: persona.includeImageSearch })
+    }
+  }, [activePersonaId, updateChatSettings])
+
+  const handleDeletePersona = useCallback((personaId: string) => {
+    setCustomPersonas((prev) => {
+      const next = prev.filter((entry) => entry.id !== personaId)
+      writeCustomPersonas(next)
+      return next
+    })
+    if (personaId === activePersonaId) updateChatSettings({ personaId: null })
+  }, [activePersonaId, updateChatSettings])
+
   const startNewChat = useCallback(() => {
     stop()
-    setMessages([])
+    selectRequestRef.current += 1
+    applyChatSettings(null)
+    conversationStore.dispatch({ type: 'reset', messages: [] })
+    dismissComparison()
     setCurrentConversationId(null)
     setInput("")
     setShowSuggestions(false)
     setLoadingConversationId(null)
     setIsMobileMenuOpen(false)
     setIsProfileOpen(false)
-  }, [stop])
+  }, [applyChatSettings, conversationStore, dismissComparison, stop])
 
   const normalizeMessageFromHistory = useCallback((message: HistoryMessageRaw): Message => {
     // DEBUG: Check what excalidraw data is coming from backend
@@ -502,10 +852,15 @@ export default function ChatPage() {
     const role = message?.role === 'model' ? 'assistant' : message?.role ?? 'assistant'
     const createdAtIso = message?.created_at ?? message?.createdAt
     const normalizedVideos = normalizeVideos(message?.videos)
+    // A null parent is a root, e.g. an edited first prompt. A missing one means "follows the
+    // previous message", which keeps old histories linear.
+    const rawParentId = message?.parent_id !== undefined ? message.parent_id : message?.parentId
+    const parentId = rawParentId === null ? null : asString(rawParentId) || undefined
+    const content = asString(message?.content, '')
     return {
       id: message?.id ? String(message.id) : crypto.randomUUID(),
       role: role === 'assistant' || role === 'user' || role === 'system' ? role : 'assistant',
-      content: asString(message?.content, ''),
+      content,
       createdAt: asDate(createdAtIso),
       sources: normalizeSources(message?.sources),
       chartUrl: typeof message?.charts === 'string' ? message.charts : Array.isArray(message?.charts) ? message.charts[0] : undefined,
@@ -519,6 +874,8 @@ export default function ChatPage() {
       ),
       images: normalizeImageResults(message?.images),
       videos: normalizedVideos,
+      parentId,
+      ...normalizeVariants(message?.variants, message?.active_variant ?? message?.activeVariant, content),
     }
   }, [])
 
@@ -542,489 +899,862 @@ export default function ChatPage() {
     })
   }, [])
 
+  const fetchConversationMessages = useCallback(async (conversationId: string) => {
+    const resp = await fetch(`/api/proxy/conversations/${conversationId}`, {
+      headers: {
+        ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+      },
+    })
+
+    if (!resp.ok) {
+      const errorText = await resp.text()
+      throw new Error(errorText || 'Failed to load conversation')
+    }
+
+    const data = await resp.json()
+    const historyMessages = Array.isArray(data?.messages)
+      ? [...data.messages]
+        .sort((a, b) => {
+          const aTime = new Date(a?.created_at ?? a?.createdAt ?? 0).getTime()
+          const bTime = new Date(b?.created_at ?? b?.createdAt ?? 0).getTime()
+          if (Number.isNaN(aTime) && Number.isNaN(bTime)) return 0
+          if (Number.isNaN(aTime)) return -1
+          if (Number.isNaN(bTime)) return 1
+          return aTime - bTime
+        })
+        .map(normalizeMessageFromHistory)
+      : []
+
+    return {
+      id: data?.id ? String(data.id) : conversationId,
+      messages: attachPromptTitlesToHistory(historyMessages),
+      settings: readConversationSettings(data?.settings),
+    }
+  }, [attachPromptTitlesToHistory, normalizeMessageFromHistory, token])
+
+  // Returns the removed copies, so Undo can cache them again without refetching
+  const removeCachedConversations = useCallback(async (conversationIds: string[]) => {
+    if (!offlineAccount || !isOfflineCacheAvailable()) return []
+    try {
+      const cached = await Promise.all(conversationIds.map((id) => readCachedConversation(offlineAccount, id)))
+      await deleteCachedConversations(offlineAccount, conversationIds)
+      return cached.filter((conversation): conversation is CachedConversation => Boolean(conversation))
+    } catch (error) {
+      console.error('Failed to remove cached conversations', error)
+      return []
+    }
+  }, [offlineAccount])
+
+  // Shows a conversation, plus anything still waiting in the outbox for it, on the branch that was open
+  const showConversation = useCallback((
+    conversationId: string,
+    messages: Message[],
+    settings: ConversationSettings | null,
+    activeMessageId?: string
+  ) => {
+    const pending = pendingOutboxMessages(conversationId)
+    dismissComparison()
+    conversationStore.dispatch({ type: 'reset', messages: [...messages, ...pending] })
+    const lastPending = pending[pending.length - 1]?.id
+    if (lastPending ?? activeMessageId) {
+      conversationStore.dispatch({ type: 'revealMessage', messageId: (lastPending ?? activeMessageId) as string })
+    }
+    setCurrentConversationId(conversationId)
+    applyChatSettings(settings)
+    setFindAnchorId(null)
+    setInput("")
+    setShowSuggestions(false)
+    setIsGenerating(false)
+  }, [applyChatSettings, conversationStore, dismissComparison, pendingOutboxMessages])
+
+  // Cache first, then the network: a cached conversation opens instantly and also offline, and is
+  // replaced by the fresh copy unless the user has already started working in it
   const handleConversationSelect = useCallback(async (conversationId: string) => {
     stop()
+    const request = ++selectRequestRef.current
     setLoadingConversationId(conversationId)
     setIsMobileMenuOpen(false)
     setIsProfileOpen(false)
+
+    const cached = offlineAccount && isOfflineCacheAvailable()
+      ? await readCachedConversation(offlineAccount, conversationId).catch((error) => {
+        console.error('Failed to read cached conversation', error)
+        return undefined
+      })
+      : undefined
+    if (request !== selectRequestRef.current) return
+
+    const summarySettings = conversations.find((conversation) => conversation.id === conversationId)?.settings ?? null
+    let shownState: ConversationState | null = null
+    if (cached) {
+      showConversation(conversationId, cached.messages, summarySettings, cached.activePath[cached.activePath.length - 1])
+      shownState = conversationStore.getState()
+      setLoadingConversationId(null)
+    }
+
     try {
-      const resp = await fetch(`/api/proxy/conversations/${conversationId}`, {
+      const { id, messages, settings } = await fetchConversationMessages(conversationId)
+      if (request !== selectRequestRef.current) return
+      if (shownState && conversationStore.getState() !== shownState) return
+
+      showConversation(id, messages, settings ?? summarySettings, shownState?.messageIds[shownState.messageIds.length - 1])
+    } catch (error) {
+      console.error('Failed to load conversation history', error)
+      if (cached && request === selectRequestRef.current && !navigator.onLine) {
+        toast.info("You're offline, showing the saved copy of this conversation")
+      }
+    } finally {
+      if (request === selectRequestRef.current) setLoadingConversationId(null)
+    }
+  }, [conversationStore, conversations, fetchConversationMessages, offlineAccount, showConversation, stop])
+
+  // Opens a search result at the matching message, with the search terms highlighted
+  const openSearchHit = useCallback(async (conversationId: string, messageId: string) => {
+    if (conversationId !== currentConversationId) {
+      await handleConversationSelect(conversationId)
+    }
+    conversationStore.dispatch({ type: 'revealMessage', messageId })
+    setFindQuery(historyQuery.trim())
+    setFindAnchorId(messageId)
+    setIsFindOpen(true)
+    setIsMobileMenuOpen(false)
+    requestAnimationFrame(() => flashMessage(messageId))
+  }, [conversationStore, currentConversationId, handleConversationSelect, historyQuery])
+
+  const closeFind = useCallback(() => {
+    setIsFindOpen(false)
+    setFindQuery('')
+    setFindAnchorId(null)
+  }, [])
+
+  const requestConversationDelete = useCallback(async (conversationId: string) => {
+    const resp = await fetch(`/api/proxy/conversations/${conversationId}`, {
+      method: 'DELETE',
+      headers: {
+        ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+      },
+    })
+
+    if (!resp.ok) {
+      const errorText = await resp.text()
+      throw new Error(errorText || 'Failed to delete conversation')
+    }
+  }, [token])
+
+  // Drops deleted chats from the local search index and the offline cache, returning what Undo needs
+  const purgeLocalCopies = useCallback(async (conversationIds: string[]): Promise<PurgedLocalCopies> => ({
+    documents: removeFromSearchIndex(conversationIds),
+    cached: await removeCachedConversations(conversationIds),
+  }), [removeCachedConversations, removeFromSearchIndex])
+
+  const restoreConversations = useCallback(async (conversationIds: string[], purged?: PurgedLocalCopies) => {
+    const results = await Promise.allSettled(conversationIds.map(async (conversationId) => {
+      const resp = await fetch(`/api/proxy/trash/${conversationId}`, {
+        method: 'POST',
         headers: {
           ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
         },
       })
-
       if (!resp.ok) {
         const errorText = await resp.text()
-        throw new Error(errorText || 'Failed to load conversation')
+        throw new Error(errorText || 'Failed to restore conversation')
       }
+    }))
 
-      const data = await resp.json()
-      const historyMessages = Array.isArray(data?.messages)
-        ? [...data.messages]
-          .sort((a, b) => {
-            const aTime = new Date(a?.created_at ?? a?.createdAt ?? 0).getTime()
-            const bTime = new Date(b?.created_at ?? b?.createdAt ?? 0).getTime()
-            if (Number.isNaN(aTime) && Number.isNaN(bTime)) return 0
-            if (Number.isNaN(aTime)) return -1
-            if (Number.isNaN(bTime)) return 1
-            return aTime - bTime
-          })
-          .map(normalizeMessageFromHistory)
-        : []
-
-      const historyWithTitles = attachPromptTitlesToHistory(historyMessages)
-
-      setMessages(historyWithTitles)
-      setCurrentConversationId(data?.id ? String(data.id) : conversationId)
-      setInput("")
-      setShowSuggestions(false)
-      setIsGenerating(false)
-    } catch (error) {
-      console.error('Failed to load conversation history', error)
-    } finally {
-      setLoadingConversationId(null)
+    if (results.some((result) => result.status === 'rejected')) {
+      toast.error('Some chats could not be restored. They are still in the trash.')
+    }
+    if (purged) {
+      const restored = new Set(conversationIds.filter((_, index) => results[index].status === 'fulfilled'))
+      restoreToSearchIndex(purged.documents.filter((document) => restored.has(document.id)))
+      const cached = purged.cached.filter((conversation) => restored.has(conversation.id))
+      if (offlineAccount && cached.length > 0) {
+        Promise.all(cached.map((conversation) => cacheConversation(offlineAccount, conversation))).catch((error) => {
+          console.error('Failed to cache conversation', error)
+        })
+      }
     }
-  }, [attachPromptTitlesToHistory, normalizeMessageFromHistory, stop, token])
+    void loadConversations()
+  }, [loadConversations, offlineAccount, restoreToSearchIndex, token])
 
+  // Deleting only moves chats to the trash, so it happens at once and offers Undo instead of asking first
   const handleDeleteConversation = useCallback(async (conversationId: string, event?: React.MouseEvent<HTMLButtonElement>) => {
     event?.preventDefault()
     event?.stopPropagation()
+    const deleted = conversations.find((conversation) => conversation.id === conversationId)
+    setConversations((prev) => prev.filter((conversation) => conversation.id !== conversationId))
+    setSearchResults((prev) => prev ? prev.filter((conversation) => conversation.id !== conversationId) : prev)
+
+    try {
+      await requestConversationDelete(conversationId)
+
+      if (currentConversationId === conversationId) {
+        startNewChat()
+      }
+      const purged = await purgeLocalCopies([conversationId])
+      toast(`Moved "${deleted?.title ?? 'chat'}" to the trash`, {
+        action: { label: 'Undo', onClick: () => void restoreConversations([conversationId], purged) },
+      })
+    } catch (error) {
+      console.error('Failed to delete conversation', error)
+      toast.error('Failed to delete conversation')
+      void loadConversations()
+    }
+  }, [conversations, currentConversationId, loadConversations, purgeLocalCopies, requestConversationDelete, restoreConversations, startNewChat])
+
+  // Applies a history change optimistically and rolls it back when the backend refuses it
+  const updateConversation = useCallback(async (
+    conversationId: string,
+    patch: ConversationPatch,
+    { silent = false }: { silent?: boolean } = {}
+  ) => {
+    const previous = conversations.find((c) => c.id === conversationId)
+    if (!previous) return false
+
+    const patchList = (list: ConversationSummary[]) =>
+      list.map((c) => c.id === conversationId ? applyConversationPatch(c, patch) : c)
+    setConversations(patchList)
+    setSearchResults((prev) => prev ? patchList(prev) : prev)
+
     try {
       const resp = await fetch(`/api/proxy/conversations/${conversationId}`, {
-        method: 'DELETE',
+        method: 'PATCH',
         headers: {
+          'Content-Type': 'application/json',
           ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
         },
+        body: JSON.stringify(patch),
       })
-
       if (!resp.ok) {
         const errorText = await resp.text()
-        throw new Error(errorText || 'Failed to delete conversation')
+        throw new Error(errorText || 'Failed to update conversation')
       }
+      return true
+    } catch (error) {
+      console.error('Failed to update conversation', error)
+      const revert = (list: ConversationSummary[]) =>
+        list.map((c) => c.id === conversationId ? previous : c)
+      setConversations(revert)
+      setSearchResults((prev) => prev ? revert(prev) : prev)
+      if (!silent) toast.error('Failed to update conversation')
+      return false
+    }
+  }, [conversations, token])
 
-      setConversations((prev) => prev.filter((conversation) => conversation.id !== conversationId))
+  const handleRenameConversation = useCallback(async (conversationId: string, newTitle: string) => {
+    setEditingConversationId(null)
+    if (!newTitle.trim()) return
+    await updateConversation(conversationId, { action: 'rename', title: newTitle.trim() })
+  }, [updateConversation])
 
-      if (currentConversationId === conversationId) {
-        startNewChat()
+  const handlePatchConversation = useCallback((conversationId: string, patch: ConversationPatch) => {
+    void updateConversation(conversationId, patch)
+  }, [updateConversation])
+
+  const handleMoveConversation = useCallback((conversationId: string, folderId: string | null) => {
+    void updateConversation(conversationId, { action: 'move', folderId })
+  }, [updateConversation])
+
+  const handleCreateFolder = useCallback(async (name: string) => {
+    try {
+      const resp = await fetch('/api/proxy/folders', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ name }),
+      })
+      if (!resp.ok) {
+        const errorText = await resp.text()
+        throw new Error(errorText || 'Failed to create folder')
+      }
+      const folder = normalizeFolder(await resp.json())
+      if (folder) {
+        setFolders((prev) => [...prev, folder])
+      } else {
+        await loadFolders()
       }
     } catch (error) {
-      console.error('Failed to delete conversation', error)
+      console.error('Failed to create folder', error)
+      toast.error('Failed to create folder')
     }
-  }, [currentConversationId, startNewChat, token])
+  }, [loadFolders, token])
 
-  const handleRenameConversation = useCallback(async (conversationId: string, newTitle: string) => {
-    if (!newTitle.trim()) return
+  const handleRenameFolder = useCallback(async (folderId: string, name: string) => {
+    const previous = folders
+    setFolders((prev) => prev.map((folder) => folder.id === folderId ? { ...folder, name } : folder))
     try {
-      const resp = await fetch(`/api/proxy/conversations/${conversationId}`, {
+      const resp = await fetch(`/api/proxy/folders/${folderId}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
           ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
         },
-        body: JSON.stringify({ title: newTitle.trim() }),
+        body: JSON.stringify({ name }),
       })
-      if (resp.ok) {
-        setConversations((prev) =>
-          prev.map((c) => c.id === conversationId ? { ...c, title: newTitle.trim() } : c)
-        )
+      if (!resp.ok) {
+        const errorText = await resp.text()
+        throw new Error(errorText || 'Failed to rename folder')
       }
-    } catch {
-      toast.error('Failed to rename conversation')
-    } finally {
-      setEditingConversationId(null)
+    } catch (error) {
+      console.error('Failed to rename folder', error)
+      setFolders(previous)
+      toast.error('Failed to rename folder')
     }
-  }, [token])
+  }, [folders, token])
 
-  const exportConversation = useCallback(() => {
-    if (messages.length === 0) return
-    const title = conversations.find(c => c.id === currentConversationId)?.title || 'conversation'
-    const lines: string[] = [`# ${title}`, '']
-    for (const msg of messages) {
-      if (msg.role === 'user') {
-        lines.push(`**You:** ${msg.content}`, '')
-      } else if (msg.role === 'assistant') {
-        lines.push(`**Luna:** ${msg.content}`, '')
-        if (msg.sources && msg.sources.length > 0) {
-          lines.push('**Sources:**')
-          msg.sources.forEach((s: { url?: string; title?: string }) => {
-            lines.push(`- [${s.title || s.url}](${s.url})`)
-          })
-          lines.push('')
-        }
+  const handleDeleteFolder = useCallback(async (folderId: string) => {
+    try {
+      const resp = await fetch(`/api/proxy/folders/${folderId}`, {
+        method: 'DELETE',
+        headers: {
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+        },
+      })
+      if (!resp.ok) {
+        const errorText = await resp.text()
+        throw new Error(errorText || 'Failed to delete folder')
       }
+      // The backend keeps the chats and clears their folder
+      setFolders((prev) => prev.filter((folder) => folder.id !== folderId))
+      setConversations((prev) =>
+        prev.map((c) => c.folder_id === folderId ? { ...c, folder_id: null } : c)
+      )
+    } catch (error) {
+      console.error('Failed to delete folder', error)
+      toast.error('Failed to delete folder')
     }
-    const blob = new Blob([lines.join('\n')], { type: 'text/markdown' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `${title.replace(/[^a-z0-9]/gi, '-').toLowerCase()}.md`
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
-  }, [messages, conversations, currentConversationId])
+  }, [token])
 
-  const deferredInput = useDeferredValue(input)
+  const tagStats = useMemo(() => collectTags(conversations), [conversations])
+  const knownTags = useMemo(() => tagStats.map(({ tag }) => tag), [tagStats])
 
-  const filteredSuggestions = useMemo(() => {
-    if (!deferredInput || deferredInput.trim().length < 2) return []
-    return fuzzySearch(deferredInput).slice(0, 5)
-  }, [deferredInput])
+  const handleSaveTags = useCallback(async (tags: string[]) => {
+    if (!tagEditor) return
+    const { conversationIds, mode } = tagEditor
+    setTagEditor(null)
 
-  const filteredHistory = useMemo(() => {
-    if (!historyQuery.trim()) {
-      return conversations
-    }
+    const results = await Promise.all(conversationIds.map((conversationId) => {
+      const existing = conversations.find((c) => c.id === conversationId)?.tags ?? []
+      const next = mode === 'add' ? normalizeTags([...existing, ...tags]) : tags
+      return updateConversation(conversationId, { action: 'tag', tags: next }, { silent: conversationIds.length > 1 })
+    }))
 
-    const query = historyQuery.toLowerCase()
+    const failed = results.filter((ok) => !ok).length
+    if (conversationIds.length > 1) {
+      if (failed === 0) toast.success(`Tagged ${conversationIds.length} chats`)
+      else toast.error(`${failed} of ${conversationIds.length} chats could not be tagged`)
+    }
+  }, [conversations, tagEditor, updateConversation])
+
+  const addSuggestedTag = useCallback((conversationId: string, tag: string) => {
+    const existing = conversations.find((c) => c.id === conversationId)?.tags ?? []
+    void updateConversation(conversationId, { action: 'tag', tags: normalizeTags([...existing, tag]) })
+    setSuggestedTags((prev) => {
+      if (!prev || prev.conversationId !== conversationId) return prev
+      const remaining = prev.tags.filter((item) => item !== tag)
+      return remaining.length > 0 ? { ...prev, tags: remaining } : null
+    })
+  }, [conversations, updateConversation])
 
-    return conversations.filter((conversation) => {
-      const title = conversation.title || `Chat ${conversation.id.slice(0, 6)}`
-      return (
-        title.toLowerCase().includes(query) ||
-        conversation.id.toLowerCase().includes(query)
-      )
+  // Asks for tags once the first answer of a new conversation is in. Failures stay silent.
+  const suggestTagsForConversation = useCallback(async (conversationId: string, prompt: string, answer: string) => {
+    try {
+      const resp = await fetch('/api/proxy/tags/suggest', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ prompt: prompt.slice(0, 1200), answer: answer.slice(0, 1200), existingTags: knownTags }),
+      })
+      const data = await resp.json()
+      const tags = normalizeTags(data?.tags).slice(0, 5)
+      if (tags.length > 0) setSuggestedTags({ conversationId, tags })
+    } catch {
+      // Tag suggestions are optional
+    }
+  }, [knownTags, token])
+
+  const toggleConversationSelection = useCallback((conversationId: string) => {
+    setSelectedConversationIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(conversationId)) next.delete(conversationId)
+      else next.add(conversationId)
+      return next
     })
-  }, [historyQuery, conversations])
+  }, [])
 
-  const handleInputChange: React.ChangeEventHandler<HTMLTextAreaElement> = (e) => {
-    setInput(e.target.value)
-    setShowSuggestions(e.target.value.length > 0)
-  }
+  const exitHistorySelection = useCallback(() => {
+    setIsSelectingHistory(false)
+    setSelectedConversationIds(new Set())
+  }, [])
 
-  const handleSuggestionSelect = (suggestion: string) => {
-    setInput(suggestion)
-    setShowSuggestions(false)
-    inputRef.current?.focus()
-  }
+  const handleBulkArchive = useCallback(async () => {
+    const ids = [...selectedConversationIds]
+    setIsBulkBusy(true)
+    try {
+      const results = await Promise.all(ids.map((conversationId) =>
+        updateConversation(conversationId, { action: 'archive', archived: true }, { silent: true })
+      ))
+      const failed = results.filter((ok) => !ok).length
+      if (failed === 0) toast.success(`Archived ${ids.length} chat${ids.length === 1 ? '' : 's'}`)
+      else toast.error(`${failed} of ${ids.length} chats could not be archived`)
+      exitHistorySelection()
+    } finally {
+      setIsBulkBusy(false)
+    }
+  }, [exitHistorySelection, selectedConversationIds, updateConversation])
 
-  const simulateAssistant = async (assistantMessageId: string, userContent: string, attachments?: FileList) => {
+  const handleBulkDelete = useCallback(async () => {
+    const ids = [...selectedConversationIds]
+    setIsBulkBusy(true)
     try {
-      console.log('Starting streaming request with prompt:', userContent)
+      const results = await Promise.allSettled(ids.map(requestConversationDelete))
+      const deleted = new Set(ids.filter((_, index) => results[index].status === 'fulfilled'))
 
-      const conversationId = currentConversationId
-      abortControllerRef.current = new AbortController()
+      setConversations((prev) => prev.filter((conversation) => !deleted.has(conversation.id)))
+      setSearchResults((prev) => prev ? prev.filter((conversation) => !deleted.has(conversation.id)) : prev)
+      if (currentConversationId && deleted.has(currentConversationId)) {
+        startNewChat()
+      }
 
-      let response: Response
-      if (attachments && attachments.length > 0) {
-        const formData = new FormData()
-        formData.append('prompt', userContent)
-        if (conversationId) formData.append('conversationId', conversationId)
-        formData.append('options', JSON.stringify({ includeYouTube, includeImageSearch, model: selectedModel }))
-        Array.from(attachments).forEach((file) => {
-          formData.append('files', file, file.name)
+      const failed = ids.length - deleted.size
+      if (deleted.size > 0) {
+        const purged = await purgeLocalCopies([...deleted])
+        toast(`Moved ${deleted.size} chat${deleted.size === 1 ? '' : 's'} to the trash`, {
+          action: { label: 'Undo', onClick: () => void restoreConversations([...deleted], purged) },
         })
+      }
+      if (failed > 0) toast.error(`${failed} of ${ids.length} chats could not be deleted`)
+      exitHistorySelection()
+    } finally {
+      setIsBulkBusy(false)
+    }
+  }, [currentConversationId, exitHistorySelection, purgeLocalCopies, requestConversationDelete, restoreConversations, selectedConversationIds, startNewChat])
 
-        response = await fetch(`/api/proxy/chat/stream`, {
-          method: 'POST',
-          body: formData,
-          headers: {
-            ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
-          },
-          signal: abortControllerRef.current.signal,
-        })
+  // One JSON file holding a full backup per conversation; it can be imported again as a whole
+  const handleBulkExport = useCallback(async () => {
+    const selected = conversations.filter((conversation) => selectedConversationIds.has(conversation.id))
+    setIsBulkBusy(true)
+    const toastId = toast.loading(`Exporting ${selected.length} chat${selected.length === 1 ? '' : 's'}…`)
+    try {
+      const exports = []
+      for (const conversation of selected) {
+        const { id, messages } = await fetchConversationMessages(conversation.id)
+        exports.push(createConversationExportFromState({
+          conversationId: id,
+          title: conversation.title,
+          state: conversationReducer(initialConversationState, { type: 'reset', messages }),
+        }))
+      }
+      const date = new Date().toISOString().slice(0, 10)
+      downloadFile(JSON.stringify(exports, null, 2), exportFileName(`luna-conversations-${date}`, 'json'), 'application/json')
+      toast.success(`Exported ${exports.length} chat${exports.length === 1 ? '' : 's'}`, { id: toastId })
+    } catch (error) {
+      console.error('Bulk export failed', error)
+      toast.error('Failed to export the selected chats', { id: toastId })
+    } finally {
+      setIsBulkBusy(false)
+    }
+  }, [conversations, fetchConversationMessages, selectedConversationIds])
+
+  const exportConversation = useCallback(async (format: ExportFormat) => {
+    const messages = conversationStore.getMessages()
+    if (messages.length === 0) return
+    const title = conversations.find(c => c.id === currentConversationId)?.title || 'conversation'
+
+    if (format === 'markdown') {
+      downloadFile(conversationToMarkdown(title, messages), exportFileName(title, 'md'), 'text/markdown')
+      return
+    }
+
+    if (format === 'json') {
+      const data = createConversationExportFromState({
+        conversationId: currentConversationId,
+        title,
+        state: conversationStore.getState(),
+      })
+      downloadFile(conversationToJson(data), exportFileName(title, 'json'), 'application/json')
+      return
+    }
+
+    const toastId = toast.loading(format === 'pdf' ? 'Preparing PDF…' : 'Preparing HTML export…')
+    try {
+      const html = await conversationToHtml(title, messages)
+      if (format === 'pdf') {
+        await printHtml(html)
       } else {
-        response = await fetch(`/api/proxy/chat/stream`, {
+        downloadFile(html, exportFileName(title, 'html'), 'text/html')
+      }
+      toast.dismiss(toastId)
+    } catch (error) {
+      console.error('Failed to export conversation', error)
+      toast.error('Failed to export conversation', { id: toastId })
+    }
+  }, [conversationStore, conversations, currentConversationId])
+
+  const shareConversation = useCallback(async () => {
+    const messages = conversationStore.getMessages()
+    if (!currentConversationId || messages.length === 0) {
+      toast.error('Send a message before sharing this conversation')
+      return
+    }
+
+    setIsSharing(true)
+    try {
+      const title = conversations.find(c => c.id === currentConversationId)?.title || 'Shared conversation'
+      const resp = await fetch('/api/proxy/shares', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({
+          conversationId: currentConversationId,
+          title,
+          snapshot: createShareSnapshot({ conversationId: currentConversationId, title, messages }),
+        }),
+      })
+
+      if (!resp.ok) {
+        const errorText = await resp.text()
+        throw new Error(errorText || 'Failed to create share link')
+      }
+
+      const data = await resp.json()
+      const shareId = data?.id ?? data?.shareId
+      if (!shareId) throw new Error('Failed to create share link')
+
+      const url = shareUrl(String(shareId))
+      await navigator.clipboard.writeText(url).catch(() => undefined)
+      toast.success('Share link copied', {
+        description: 'Anyone with the link can view this snapshot. Revoke it from Settings.',
+      })
+    } catch (error) {
+      console.error('Failed to share conversation', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to create share link')
+    } finally {
+      setIsSharing(false)
+    }
+  }, [conversationStore, conversations, currentConversationId, token])
+
+  // Backups are created one at a time. The first is then opened as the server stored it, so that
+  // prompts sent from the thread continue from message ids the backend knows.
+  const importConversation = useCallback(async (file: File) => {
+    let importedCount = 0
+    try {
+      const backups = parseConversationExports(await file.text())
+      let firstId: string | null = null
+
+      for (const imported of backups) {
+        const resp = await fetch('/api/proxy/conversations', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
           },
-          body: JSON.stringify({
-            prompt: userContent,
-            conversationId: conversationId || undefined,
-            options: {
-              includeYouTube,
-              includeImageSearch,
-              model: selectedModel,
-            },
-          }),
-          signal: abortControllerRef.current.signal,
+          body: JSON.stringify(importedConversationPayload(imported)),
         })
+
+        if (!resp.ok) {
+          const errorText = await resp.text()
+          throw new Error(errorText || `Failed to import "${imported.title}"`)
+        }
+
+        const data = await resp.json()
+        const createdId = data?.id ?? data?.conversationId ?? data?.conversation?.id
+        if (createdId) refreshConversationSummary(String(createdId), imported.title)
+        if (importedCount === 0) firstId = createdId ? String(createdId) : null
+        importedCount += 1
       }
 
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.error('API Error:', errorText)
-        throw new Error(errorText || 'Failed to get response from the API')
+      const [first] = backups
+      toast.success(backups.length === 1 ? `Imported "${first.title}"` : `Imported ${backups.length} conversations`)
+      const lastActiveId = first.activePath[first.activePath.length - 1]
+      if (firstId) {
+        await handleConversationSelect(firstId)
+        // Restores the branch that was open, as far as the backend kept the message ids it was sent
+        if (lastActiveId) conversationStore.dispatch({ type: 'revealMessage', messageId: lastActiveId })
+        return
       }
 
-      let resolvedConversationId: string | null = conversationId || null
+      stop()
+      conversationStore.dispatch({ type: 'reset', messages: first.messages })
+      if (lastActiveId) conversationStore.dispatch({ type: 'revealMessage', messageId: lastActiveId })
+      dismissComparison()
+      setSuggestions([])
+      setCurrentConversationId(null)
+    } catch (error) {
+      console.error('Failed to import conversation', error)
+      const message = error instanceof Error ? error.message : 'Failed to import conversation'
+      toast.error(importedCount > 0 ? `${message} (${importedCount} imported before it)` : message)
+    }
+  }, [conversationStore, dismissComparison, handleConversationSelect, refreshConversationSummary, stop, token])
 
-      const reader = response.body?.getReader()
-      const decoder = new TextDecoder()
-      let buffer = ''
-      let streamedContent = ''
-      let streamedSources: string[] = []
-      let streamedImages: ImageResult[] = []
-      let streamedVideos: NonNullable<Message["videos"]> = []
-      let streamedCodeSnippets: Message["codeSnippets"] = []
-      let streamedExecutionOutputs: Message["executionOutputs"] = []
-      let streamedMermaidBlocks: MermaidBlockUpdate[] | undefined
-      let currentEvent = ''
-      let updateTimer: NodeJS.Timeout | null = null
-      let pendingUpdate = false
-
-      const upsertAgentStep = (step: AgentActivityStep) => {
-        const normalizedStep: AgentActivityStep = {
-          ...step,
-          updatedAt: step.updatedAt ?? Date.now(),
-        }
+  const deferredInput = useDeferredValue(input)
+
+  const filteredSuggestions = useMemo(() => {
+    if (!deferredInput || deferredInput.trim().length < 2 || deferredInput.startsWith('/')) return []
+    return searchPromptTemplates(promptTemplates, deferredInput).slice(0, 5)
+  }, [deferredInput, promptTemplates])
 
-        setMessages((prev) =>
-          prev.map((msg) => {
-            if (msg.id !== assistantMessageId) return msg
+  const starterPrompts = useMemo(() => rankPromptTemplates(promptTemplates).slice(0, 4), [promptTemplates])
 
-            const existingSteps = Array.isArray(msg.agentSteps) ? msg.agentSteps : []
-            const existingIndex = existingSteps.findIndex((item) => item.id === normalizedStep.id)
-            const nextSteps =
-              existingIndex >= 0
-                ? existingSteps.map((item, index) => index === existingIndex ? { ...item, ...normalizedStep } : item)
-                : [...existingSteps, normalizedStep]
+  const deferredHistoryQuery = useDeferredValue(historyQuery)
 
-            return { ...msg, agentSteps: nextSteps }
-          })
-        )
-      }
+  const localSearchResults = useMemo(() => {
+    if (!deferredHistoryQuery.trim()) return null
+    return searchDocuments(localSearchDocuments, deferredHistoryQuery)
+  }, [deferredHistoryQuery, localSearchDocuments])
 
-      const processSseLine = (line: string) => {
-        if (!line.trim()) {
-          currentEvent = ''
-          return
-        }
+  const filteredHistory = useMemo(() => {
+    const byTag = (list: ConversationSummary[]) =>
+      activeTag ? list.filter((conversation) => conversation.tags.includes(activeTag)) : list
 
-        if (line.startsWith('event: ')) {
-          currentEvent = line.slice(7).trim()
-          return
-        }
+    if (!historyQuery.trim() || !localSearchResults) {
+      return byTag(conversations)
+    }
 
-        if (!line.startsWith('data: ')) {
-          return
-        }
+    // Prefer the loaded summary, which may be fresher than the indexed copy
+    const loaded = new Map(conversations.map((conversation) => [conversation.id, conversation]))
+    return byTag(localSearchResults.map((result) => loaded.get(result.conversationId) ?? result.summary))
+  }, [activeTag, historyQuery, conversations, localSearchResults])
+
+  // Local matches come first since they are instant; server-only results are appended
+  const visibleHistory = useMemo(() => {
+    if (!searchResults) return filteredHistory
+    const seen = new Set(filteredHistory.map((conversation) => conversation.id))
+    const serverOnly = searchResults.filter((conversation) => !seen.has(conversation.id))
+    return [...filteredHistory, ...(activeTag ? serverOnly.filter((conversation) => conversation.tags.includes(activeTag)) : serverOnly)]
+  }, [activeTag, filteredHistory, searchResults])
+
+  // Snippets from the server win over local ones, which are computed on a fuzzy match
+  const historyHits = useMemo(() => {
+    const hits: Record<string, MessageSearchHit[]> = {}
+    localSearchResults?.forEach((result) => {
+      if (result.hits.length > 0) hits[result.conversationId] = result.hits
+    })
+    return { ...hits, ...searchHits }
+  }, [localSearchResults, searchHits])
 
-        const data = line.slice(6).trim()
+  const handleInputChange: React.ChangeEventHandler<HTMLTextAreaElement> = (e) => {
+    setInput(e.target.value)
+    setShowSuggestions(e.target.value.length > 0)
+  }
 
-        if (!data) return
+  const insertPrompt = useCallback((text: string) => {
+    setInput(text)
+    setShowSuggestions(false)
+    setTimeout(() => inputRef.current?.focus(), 50)
+  }, [])
 
-        try {
-          const parsed = JSON.parse(data)
-
-          // Handle different event types
-          if (currentEvent === 'conversationId' || parsed.conversationId) {
-            console.log('Setting conversation ID:', parsed.conversationId)
-            resolvedConversationId = parsed.conversationId
-            if (parsed.conversationId !== currentConversationId) {
-              setCurrentConversationId(parsed.conversationId)
-            }
-          }
-          else if (currentEvent === 'message' && parsed.text && typeof parsed.text === 'string') {
-            streamedContent += parsed.text
-
-            // Batch updates for smoother streaming - update every 50ms max
-            if (!pendingUpdate) {
-              pendingUpdate = true
-              if (updateTimer) clearTimeout(updateTimer)
-
-              updateTimer = setTimeout(() => {
-                setMessages((prev) =>
-                  prev.map((msg) =>
-                    msg.id === assistantMessageId
-                      ? { ...msg, content: streamedContent, createdAt: new Date(), isComplete: false }
-                      : msg
-                  )
-                )
-                pendingUpdate = false
-              }, 50)
-            }
-          }
-          else if (currentEvent === 'status' && parsed.id && parsed.label) {
-            upsertAgentStep({
-              id: String(parsed.id),
-              label: String(parsed.label),
-              state: parsed.state === 'queued' || parsed.state === 'complete' || parsed.state === 'error'
-                ? parsed.state
-                : 'running',
-              detail: typeof parsed.detail === 'string' ? parsed.detail : undefined,
-            })
-          }
-          else if (currentEvent === 'images' && parsed.images && Array.isArray(parsed.images)) {
-            const normalized = normalizeImageResults(parsed.images)
-            if (normalized) {
-              streamedImages = normalized
-              console.log('🖼️ Received images:', normalized.length)
-              setMessages(prev =>
-                prev.map(msg =>
-                  msg.id === assistantMessageId
-                    ? { ...msg, images: normalized }
-                    : msg
-                )
-              )
-            }
-          }
-          else if (currentEvent === 'sources' && parsed.sources && Array.isArray(parsed.sources)) {
-            streamedSources = parsed.sources
-            console.log('📚 Received sources:', streamedSources.length)
-            setMessages((prev) =>
-              prev.map((msg) =>
-                msg.id === assistantMessageId
-                  ? { ...msg, sources: streamedSources }
-                  : msg
-              )
-            )
-          }
-          else if (currentEvent === 'code' && parsed.code) {
-            const snippet = {
-              language: typeof parsed.language === 'string' ? parsed.language : undefined,
-              code: String(parsed.code)
-            }
-            streamedCodeSnippets = [...(streamedCodeSnippets ?? []), snippet]
-            setMessages(prev =>
-              prev.map(msg =>
-                msg.id === assistantMessageId
-                  ? { ...msg, codeSnippets: streamedCodeSnippets }
-                  : msg
-              )
-            )
-          }
-          else if (currentEvent === 'codeResult' && parsed.output) {
-            const executionResult = {
-              outcome: typeof parsed.outcome === 'string' ? parsed.outcome : undefined,
-              output: String(parsed.output)
-            }
-            streamedExecutionOutputs = [...(streamedExecutionOutputs ?? []), executionResult]
-            setMessages(prev =>
-              prev.map(msg =>
-                msg.id === assistantMessageId
-                  ? { ...msg, executionOutputs: streamedExecutionOutputs }
-                  : msg
-              )
-            )
-          }
-          else if (currentEvent === 'mermaid' && Array.isArray(parsed.blocks)) {
-            streamedMermaidBlocks = parsed.blocks as MermaidBlockUpdate[]
-            const updatedContent = applyMermaidReplacements(streamedContent, streamedMermaidBlocks)
-            if (updatedContent !== streamedContent) {
-              streamedContent = updatedContent
-            }
-            setMessages((prev) =>
-              prev.map((msg) =>
-                msg.id === assistantMessageId
-                  ? {
-                    ...msg,
-                    content: streamedContent,
-                    mermaidBlocks: streamedMermaidBlocks,
-                    isComplete: false,
-                  }
-                  : msg
-              )
-            )
-          }
-          else if (currentEvent === 'youtubeResults' && parsed.videos && Array.isArray(parsed.videos)) {
-            streamedVideos = (normalizeVideos(parsed.videos) ?? []) as NonNullable<Message["videos"]>
-            console.log('🎥 Received YouTube videos:', streamedVideos.length)
-            setMessages((prev) =>
-              prev.map((msg) =>
-                msg.id === assistantMessageId
-                  ? { ...msg, videos: streamedVideos }
-                  : msg
-              )
-            )
-          }
-          else if (currentEvent === 'excalidraw' && parsed.excalidrawData && Array.isArray(parsed.excalidrawData)) {
-            console.log('🎨 Received Excalidraw data:', parsed.excalidrawData.length)
-            setMessages((prev) =>
-              prev.map((msg) =>
-                msg.id === assistantMessageId
-                  ? { ...msg, excalidrawData: parsed.excalidrawData }
-                  : msg
-              )
-            )
-          }
-          else if (currentEvent === 'finish' && parsed.finishReason) {
-            console.log('✅ Stream finished with reason:', parsed.finishReason)
-          }
-          else if (currentEvent === 'error' && parsed.error) {
-            console.error('❌ Stream error:', parsed.error)
-            throw new Error(parsed.error)
-          }
+  // Templates with variables open the fill-in form first; the rest go straight into the composer
+  const pickPromptTemplate = useCallback((template: PromptTemplate) => {
+    recordPromptUsage(template)
+    setIsPromptLibraryOpen(false)
+    setShowSuggestions(false)
+    if (templateVariables(template.body).length > 0) {
+      setFillingTemplate(template)
+    } else {
+      insertPrompt(template.body)
+    }
+  }, [insertPrompt, recordPromptUsage])
 
-        } catch (parseError) {
-          if (data !== '[DONE]') {
-            console.warn('Failed to parse SSE data:', data, parseError)
-          }
-        }
+  const openSettings = useCallback(() => {
+    setIsProfileOpen(false)
+    setSettingsUsername(displayName)
+    setSettingsInstructions(customInstructions)
+    setIsSettingsOpen(true)
+  }, [customInstructions, displayName])
+
+  const showShortcutHelp = useCallback(() => setIsShortcutHelpOpen(true), [setIsShortcutHelpOpen])
+  const openPromptLibrary = useCallback(() => setIsPromptLibraryOpen(true), [])
+
+  const {
+    isOpen: isPaletteOpen,
+    setIsOpen: setIsPaletteOpen,
+    actions: paletteActions,
+  } = useCommandPalette({
+    bindings: shortcutBindings,
+    hasMessages,
+    selectedModel,
+    onNewChat: startNewChat,
+    onShowShortcuts: showShortcutHelp,
+    onOpenPromptLibrary: openPromptLibrary,
+    onOpenSettings: openSettings,
+    onChangeModel: changeModel,
+    onExport: exportConversation,
+  })
+
+  const simulateAssistant = async (
+    assistantMessageId: string,
+    userContent: string,
+    {
+      attachments,
+      parentMessageId,
+      model,
+      regenerate = false,
+      conversationId = currentConversationId,
+      signal,
+      streamOptions,
+      throwOnError = false,
+    }: {
+      attachments?: File[] | FileList
+      parentMessageId?: string | null
+      model?: string
+      // Extra options for this message only, e.g. the tool a slash command asked for
+      streamOptions?: ChatStreamOptions
+      // Stream another variant of `assistantMessageId` instead of a new answer
+      regenerate?: boolean
+      // Conversation to answer in, when it is not the open one, e.g. for a queued prompt
+      conversationId?: string | null
+      // Cancels the request instead of the stop button, which only aborts the visible answer
+      signal?: AbortSignal
+      // Rethrow a failed request instead of showing the error in the answer, so it can be retried
+      throwOnError?: boolean
+    } = {}
+  ) => {
+    const { dispatch } = conversationStore
+    let updateTimer: NodeJS.Timeout | null = null
+    let pendingDelta = ''
+
+    // Batch text deltas for smoother streaming - flush every 50ms max
+    const flushDelta = () => {
+      if (updateTimer) {
+        clearTimeout(updateTimer)
+        updateTimer = null
       }
+      if (!pendingDelta) return
+      dispatch({ type: 'appendDelta', messageId: assistantMessageId, text: pendingDelta })
+      pendingDelta = ''
+    }
 
-      if (!reader) {
-        throw new Error('No response body reader available')
+    const upsertAgentStep = (step: AgentActivityStep) => {
+      dispatch({
+        type: 'upsertAgentStep',
+        messageId: assistantMessageId,
+        step: { ...step, updatedAt: step.updatedAt ?? Date.now() },
+      })
+    }
+
+    try {
+      console.log('Starting streaming request with prompt:', userContent)
+
+      // A queued prompt answered in the background uses the settings of its own conversation
+      const settings = conversationId === currentConversationId
+        ? chatSettings
+        : conversations.find((conversation) => conversation.id === conversationId)?.settings ?? chatSettings
+      if (!signal) {
+        abortControllerRef.current = new AbortController()
       }
+      const requestSignal = signal ?? (abortControllerRef.current as AbortController).signal
 
-      while (true) {
-        const { done, value } = await reader.read()
-
-        if (done) {
-          console.log('Stream complete')
-          // Process any remaining buffered data when the stream ends
-          if (buffer.trim().length > 0) {
-            const remainingLines = buffer.split('\n')
-            for (const line of remainingLines) {
-              if (line) {
-                processSseLine(line)
-              }
-            }
-            buffer = ''
-          }
+      let resolvedConversationId: string | null = conversationId || null
+      let hasWarnedMalformed = false
 
-          // Flush any pending updates
-          if (updateTimer) {
-            clearTimeout(updateTimer)
-            setMessages((prev) =>
-              prev.map((msg) =>
-                msg.id === assistantMessageId
-                  ? { ...msg, content: streamedContent, createdAt: new Date() }
-                  : msg
-              )
-            )
-          }
-          break
+      const events = streamChatWithResume(
+        {
+          prompt: userContent,
+          conversationId,
+          options: {
+            includeYouTube: settings.includeYouTube,
+            includeImageSearch: settings.includeImageSearch,
+            model: model ?? settings.model,
+            customInstructions: customInstructionsOption(customInstructions, settings.customInstructions),
+            systemPrompt: findPersona(personas, settings.personaId)?.systemPrompt || undefined,
+            ...streamOptions,
+          },
+          files: attachments,
+          // Each variant is its own generation, so it needs its own resumable stream id
+          streamId: regenerate ? crypto.randomUUID() : assistantMessageId,
+          parentMessageId,
+          regenerateMessageId: regenerate ? assistantMessageId : undefined,
+        },
+        {
+          token,
+          signal: requestSignal,
+          onMalformedEvent: (streamError) => {
+            console.warn('Skipping malformed stream event:', streamError.message)
+            if (!hasWarnedMalformed) {
+              hasWarnedMalformed = true
+              toast.warning('Part of the response could not be read', { description: streamError.message })
+            }
+          },
+          onReconnect: (attempt) => {
+            upsertAgentStep({
+              id: STREAM_RECONNECT_STEP_ID,
+              label: 'Reconnecting…',
+              state: 'running',
+              detail: attempt > 1 ? `Attempt ${attempt}` : 'Connection lost, resuming the answer',
+              sticky: true,
+            })
+          },
+          onResumed: () => {
+            upsertAgentStep({
+              id: STREAM_RECONNECT_STEP_ID,
+              label: 'Reconnected',
+              state: 'complete',
+              detail: undefined,
+              sticky: false,
+            })
+          },
         }
+      )
 
-        buffer += decoder.decode(value, { stream: true })
-        const lines = buffer.split('\n')
-        buffer = lines.pop() || ''
-
-        for (const line of lines) {
-          processSseLine(line)
+      for await (const event of events) {
+        switch (event.type) {
+          case 'conversationId':
+            console.log('Setting conversation ID:', event.conversationId)
+            resolvedConversationId = event.conversationId
+            // A queued prompt may finish in the background while another conversation is open
+            if (event.conversationId !== currentConversationId && assistantMessageId in conversationStore.getState().messagesById) {
+              setCurrentConversationId(event.conversationId)
+            }
+            break
+          case 'message':
+            pendingDelta += event.text
+            if (!updateTimer) {
+              updateTimer = setTimeout(flushDelta, 50)
+            }
+            break
+          case 'finish':
+            console.log('✅ Stream finished with reason:', event.finishReason)
+            break
+          case 'error':
+            console.error('❌ Stream error:', event.error)
+            throw new ChatStreamError(event.error, 'backend', { event: 'error' })
+          default: {
+            if (event.type === 'images') console.log('🖼️ Received images:', event.images.length)
+            if (event.type === 'sources') console.log('📚 Received sources:', event.sources.length)
+            if (event.type === 'youtubeResults') console.log('🎥 Received YouTube videos:', event.videos.length)
+            if (event.type === 'excalidraw') console.log('🎨 Received Excalidraw data:', event.excalidrawData.length)
+
+            const action = chatStreamEventToAction(assistantMessageId, event)
+            if (action) {
+              // Mermaid replacements rewrite streamed text, so it must be up to date first
+              flushDelta()
+              dispatch(action)
+            }
+            break
+          }
         }
       }
 
-      const finalContent = (streamedContent || "I couldn't fetch the details. Please try again later.")
-
-      setMessages((prev) =>
-        prev.map((msg) =>
-          msg.id === assistantMessageId
-            ? {
-              ...msg,
-              content: finalContent,
-              sources: streamedSources,
-              chartUrl: msg.chartUrl,
-              chartUrls: msg.chartUrls ?? [],
-              images: streamedImages.length > 0 ? streamedImages : msg.images,
-              videos: streamedVideos.length > 0 ? streamedVideos : msg.videos,
-              codeSnippets: streamedCodeSnippets,
-              executionOutputs: streamedExecutionOutputs,
-              mermaidBlocks: streamedMermaidBlocks,
-              createdAt: new Date(),
-              isComplete: true,
-            }
-            : msg
-        )
-      )
+      console.log('Stream complete')
 
-      const chartsConversationId = resolvedConversationId ?? currentConversationId
+      flushDelta()
+      dispatch({
+        type: 'completeMessage',
+        messageId: assistantMessageId,
+        fallbackContent: "I couldn't fetch the details. Please try again later.",
+        patch: { createdAt: new Date() },
+      })
 
-      if (!abortControllerRef.current?.signal.aborted && chartsConversationId) {
+      const chartsConversationId = resolvedConversationId ?? conversationId
+
+      if (!requestSignal.aborted && chartsConversationId) {
         try {
           upsertAgentStep({
             id: 'chart-generation',
@@ -1042,7 +1772,7 @@ export default function ChatPage() {
               prompt: userContent,
               conversationId: chartsConversationId,
               messageId: assistantMessageId,
-              options: { includeSearch: true, includeYouTube },
+              options: { includeSearch: true, includeYouTube: settings.includeYouTube, command: streamOptions?.command },
             }),
           })
 
@@ -1051,17 +1781,7 @@ export default function ChatPage() {
             const chartUrlFromResponse = chartData?.chartUrl || chartData?.charts?.chartUrl
 
             if (typeof chartUrlFromResponse === 'string' && chartUrlFromResponse.trim().length > 0) {
-              setMessages((prev) =>
-                prev.map((msg) =>
-                  msg.id === assistantMessageId
-                    ? {
-                      ...msg,
-                      chartUrl: chartUrlFromResponse,
-                      chartUrls: Array.from(new Set([...(msg.chartUrls ?? []), chartUrlFromResponse])),
-                    }
-                    : msg
-                )
-              )
+              dispatch({ type: 'addChartUrl', messageId: assistantMessageId, url: chartUrlFromResponse })
               upsertAgentStep({
                 id: 'chart-generation',
                 label: 'Chart ready',
@@ -1088,31 +1808,91 @@ export default function ChatPage() {
         }
       }
 
+      return chartsConversationId
     } catch (error: unknown) {
       const abortName = (typeof error === "object" && error !== null && "name" in error)
         ? String((error as { name?: unknown }).name)
         : ""
       if (abortName === 'AbortError') {
         console.log('Stream was aborted by user')
+        flushDelta()
         return
       }
 
       console.error('Error in streaming:', error)
+      if (updateTimer) clearTimeout(updateTimer)
+      if (throwOnError) throw error
       const errMsg = error instanceof Error ? error.message : String(error)
-      setMessages((prev) =>
-        prev.map((msg) =>
-          msg.id === assistantMessageId
-            ? {
-              ...msg,
-              content: errMsg && !errMsg.toLowerCase().includes('undefined')
-                ? `Sorry, something went wrong: ${errMsg}`
-                : "Sorry, I encountered an error while processing your request. Please try again.",
-              createdAt: new Date(),
-              isComplete: true,
-            }
-            : msg
-        )
-      )
+      dispatch({
+        type: 'patchMessage',
+        messageId: assistantMessageId,
+        patch: {
+          content: errMsg && !errMsg.toLowerCase().includes('undefined')
+            ? `Sorry, something went wrong: ${errMsg}`
+            : "Sorry, I encountered an error while processing your request. Please try again.",
+          createdAt: new Date(),
+          isComplete: true,
+        },
+      })
+    }
+  }
+
+  // Message actions read the latest helper through a ref, so they keep their identity across renders
+  // and the memoized message rows are not rebuilt while an answer streams
+  const simulateAssistantRef = useRef(simulateAssistant)
+  useEffect(() => {
+    simulateAssistantRef.current = simulateAssistant
+  })
+
+  // Runs client-side `/` commands; prompt commands return what to send instead of the raw input
+  const runSlashCommand = ({ command, argument }: ParsedSlashCommand): { prompt: string; options: ChatStreamOptions; model?: string } | null => {
+    switch (command.name) {
+      case 'new':
+        startNewChat()
+        return null
+      case 'clear':
+        setInput('')
+        startNewChat()
+        return null
+      case 'export': {
+        const format = readExportArgument(argument)
+        if (!format) {
+          toast.error('Export as markdown, json, html or pdf')
+        } else if (!hasMessages) {
+          toast.error('There is nothing to export yet')
+        } else {
+          setInput('')
+          void exportConversation(format)
+        }
+        return null
+      }
+      case 'model': {
+        const { model, prompt } = readModelArgument(argument)
+        if (!model) {
+          toast.error('Pick a model: fast, smart or pro')
+          return null
+        }
+        if (prompt) return { prompt, options: {}, model }
+        changeModel(model)
+        setInput('')
+        toast.success(`Switched to ${modelLabel(model)}`)
+        return null
+      }
+      case 'summarize':
+        if (!argument && !hasMessages) {
+          toast.error('There is nothing to summarize yet')
+          return null
+        }
+        return {
+          prompt: argument ? `Summarize the following:\n\n${argument}` : 'Summarize our conversation so far.',
+          options: slashCommandOptions('summarize'),
+        }
+      default:
+        if (!argument) {
+          toast.error(`Add a prompt after /${command.name}`)
+          return null
+        }
+        return { prompt: argument, options: slashCommandOptions(command.name) }
     }
   }
 
@@ -1123,10 +1903,39 @@ export default function ChatPage() {
     event?.preventDefault?.()
     if (!input && !options?.experimental_attachments?.length) return
 
+    const slashCommand = parseSlashCommand(input)
+    const commandMessage = slashCommand ? runSlashCommand(slashCommand) : null
+    if (slashCommand && !commandMessage) return
+    const prompt = commandMessage?.prompt ?? input
+
+    // Attachments are only sent through the regular flow, so compare mode needs a plain prompt.
+    // Commands ask for a specific tool or model, so they skip it too.
+    if (compareModels.length >= 2 && !options?.experimental_attachments?.length && !commandMessage) {
+      if (comparison) {
+        toast.error('Keep or discard the current comparison first')
+        return
+      }
+      if (!isOnline) {
+        toast.error('Comparing models needs a connection')
+        return
+      }
+      const { messageIds: activePath } = conversationStore.getState()
+      abortControllerRef.current = new AbortController()
+      startComparison({
+        prompt,
+        conversationId: currentConversationId,
+        parentMessageId: activePath[activePath.length - 1] ?? null,
+      })
+      setInput("")
+      setSuggestions([])
+      setIsGenerating(true)
+      return
+    }
+
     const newMessage: Message = {
       id: crypto.randomUUID(),
       role: "user",
-      content: input || "(sent with attachments)",
+      content: prompt || "(sent with attachments)",
       createdAt: new Date(),
       experimental_attachments: options?.experimental_attachments
         ? Array.from(options.experimental_attachments).map((f) => ({
@@ -1159,39 +1968,106 @@ export default function ChatPage() {
       ],
     }
 
-    setMessages((prev) => [...prev, newMessage, assistantMessage])
+    const { messageIds: activePath } = conversationStore.getState()
+    const parentMessageId = activePath[activePath.length - 1] ?? null
+
+    if (!isOnline) {
+      const entry: OutboxEntry = {
+        id: newMessage.id,
+        assistantMessageId,
+        conversationId: currentConversationId,
+        parentMessageId,
+        content: newMessage.content,
+        attachments: options?.experimental_attachments ? Array.from(options.experimental_attachments) : undefined,
+        model: commandMessage?.model ?? selectedModel,
+        options: commandMessage?.options,
+        createdAt: Date.now(),
+      }
+      queueOutboxEntry(entry, newMessage)
+      setInput("")
+      setSuggestions([])
+      return
+    }
+
+    conversationStore.dispatch({ type: 'appendMessages', messages: [newMessage, assistantMessage] })
     setInput("")
     setIsGenerating(true)
 
     setSuggestions([])
-    simulateAssistant(assistantMessageId, newMessage.content, options?.experimental_attachments)
-      .then(() => {
+    simulateAssistant(assistantMessageId, newMessage.content, {
+      attachments: options?.experimental_attachments,
+      parentMessageId,
+      model: commandMessage?.model,
+      streamOptions: commandMessage?.options,
+    })
+      .then((conversationId) => {
+        if (conversationId) {
+          const isNewConversation = !currentConversationId
+          refreshConversationSummary(conversationId, newMessage.content)
+          // A brand new chat keeps the settings it was started with
+          if (isNewConversation) void persistConversationSettings(conversationId, chatSettings)
+        }
         // Fetch follow-up suggestions after stream completes
-        setMessages((prev) => {
-          const lastAssistant = [...prev].reverse().find(m => m.role === 'assistant')
-          if (lastAssistant?.content) {
-            fetch('/api/proxy/suggestions', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ lastMessage: lastAssistant.content.slice(0, 1200) }),
-            })
-              .then(r => r.json())
-              .then(d => { if (Array.isArray(d.suggestions)) setSuggestions(d.suggestions) })
-              .catch(() => {})
-          }
-          return prev
-        })
+        const lastAssistant = [...conversationStore.getMessages()].reverse().find(m => m.role === 'assistant')
+        if (lastAssistant?.content && conversationId && !parentMessageId) {
+          void suggestTagsForConversation(conversationId, newMessage.content, lastAssistant.content)
+        }
+        if (lastAssistant?.content) {
+          fetch('/api/proxy/suggestions', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ lastMessage: lastAssistant.content.slice(0, 1200) }),
+          })
+            .then(r => r.json())
+            .then(d => { if (Array.isArray(d.suggestions)) setSuggestions(d.suggestions) })
+            .catch(() => {})
+        }
       })
       .finally(() => {
         setIsGenerating(false)
         abortControllerRef.current = null
-        void loadConversations()
-        window.setTimeout(() => {
-          void loadConversations()
-        }, 1400)
       })
   }
 
+  // Answers to queued prompts stream into the open thread when their placeholder is on screen and
+  // are saved in the background otherwise
+  const sendQueuedPrompt = async (entry: OutboxEntry, isVisible: boolean) => {
+    const controller = new AbortController()
+    if (isVisible) {
+      abortControllerRef.current = controller
+      setIsGenerating(true)
+    }
+
+    try {
+      const conversationId = await simulateAssistant(entry.assistantMessageId, entry.content, {
+        attachments: entry.attachments,
+        parentMessageId: entry.parentMessageId,
+        model: entry.model,
+        conversationId: entry.conversationId,
+        signal: controller.signal,
+        streamOptions: entry.options,
+        throwOnError: true,
+      })
+      if (conversationId) refreshConversationSummary(conversationId, entry.content)
+      return conversationId
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+        setIsGenerating(false)
+      }
+    }
+  }
+
+  const handleComparisonSettled = useCallback(() => {
+    setIsGenerating(false)
+    abortControllerRef.current = null
+  }, [])
+
+  const handleDiscardComparison = useCallback(() => {
+    stop()
+    dismissComparison()
+  }, [dismissComparison, stop])
+
   const handleEditMessage = useCallback((messageId: string, newContent: string) => {
     if (!newContent.trim() || isGenerating) return
 
@@ -1210,25 +2086,64 @@ export default function ChatPage() {
       agentSteps: [{ id: 'request-context', label: 'Preparing context', state: 'running', updatedAt: Date.now() }],
     }
 
-    setMessages(prev => {
-      const idx = prev.findIndex(m => m.id === messageId)
-      if (idx === -1) return prev
-      const trimmed = prev.slice(0, idx + 1).map(m =>
-        m.id === messageId ? { ...m, content: newContent } : m
-      )
-      return [...trimmed, assistantMessage]
+    const state = conversationStore.getState()
+    if (!state.messagesById[messageId]) return
+
+    // The edit becomes a sibling of the original prompt, so the earlier answer stays reachable
+    const parentMessageId = state.parentById[messageId] ?? null
+    const editedMessage: Message = {
+      id: crypto.randomUUID(),
+      role: 'user',
+      content: newContent,
+      createdAt: new Date(),
+    }
+    conversationStore.dispatch({ type: 'addBranch', parentId: parentMessageId, messages: [editedMessage, assistantMessage] })
+
+    setIsGenerating(true)
+    simulateAssistantRef.current(assistantMessageId, newContent, { parentMessageId })
+      .then((conversationId) => {
+        if (conversationId) refreshConversationSummary(conversationId)
+      })
+      .finally(() => {
+        setIsGenerating(false)
+        abortControllerRef.current = null
+      })
+  }, [conversationStore, isGenerating, refreshConversationSummary])
+
+  const handleRegenerateResponse = useCallback((assistantMessageId: string, model?: string) => {
+    if (isGenerating) return
+
+    const state = conversationStore.getState()
+    const userMessageId = state.parentById[assistantMessageId]
+    const userMessage = userMessageId ? state.messagesById[userMessageId] : undefined
+    if (userMessage?.role !== 'user' || !userMessage.content.trim()) {
+      toast.error('Could not find the original prompt for this answer')
+      return
+    }
+
+    conversationStore.dispatch({
+      type: 'startVariant',
+      messageId: assistantMessageId,
+      model,
+      createdAt: new Date(),
+      agentSteps: [{ id: 'request-context', label: 'Preparing context', state: 'running', updatedAt: Date.now() }],
     })
 
     setIsGenerating(true)
-    simulateAssistant(assistantMessageId, newContent)
+    setSuggestions([])
+    simulateAssistantRef.current(assistantMessageId, userMessage.content, {
+      parentMessageId: state.parentById[userMessage.id] ?? null,
+      model,
+      regenerate: true,
+    })
       .finally(() => {
         setIsGenerating(false)
         abortControllerRef.current = null
-        void loadConversations()
       })
-  }, [isGenerating, simulateAssistant, loadConversations])
+  }, [conversationStore, isGenerating])
 
   const handleRegenerateChart = useCallback(async (assistantMessageId: string, previousUrl: string) => {
+    const messages = conversationStore.getMessages()
     const assistantIndex = messages.findIndex((m) => m.id === assistantMessageId)
     if (assistantIndex === -1) return null
 
@@ -1268,17 +2183,7 @@ export default function ChatPage() {
         return null
       }
 
-      setMessages((prev) =>
-        prev.map((msg) => {
-          if (msg.id !== assistantMessageId) return msg
-          const nextChartUrls = (msg.chartUrls ?? []).map((url) => (url === previousUrl ? newUrl : url))
-          return {
-            ...msg,
-            chartUrl: msg.chartUrl === previousUrl ? newUrl : msg.chartUrl,
-            chartUrls: nextChartUrls,
-          }
-        })
-      )
+      conversationStore.dispatch({ type: 'replaceChartUrl', messageId: assistantMessageId, previousUrl, url: newUrl })
 
       return newUrl
     } catch (error) {
@@ -1286,9 +2191,10 @@ export default function ChatPage() {
       toast.error('Failed to regenerate chart')
       return null
     }
-  }, [messages, currentConversationId, includeYouTube, token])
+  }, [conversationStore, currentConversationId, includeYouTube, token])
 
   const handleRegenerateFlowchart = useCallback(async (assistantMessageId: string, diagramIndex: number) => {
+    const messages = conversationStore.getMessages()
     const assistantMessage = messages.find((m) => m.id === assistantMessageId)
     const assistantIndex = messages.findIndex((m) => m.id === assistantMessageId)
     if (!assistantMessage || assistantIndex === -1) return
@@ -1337,19 +2243,20 @@ export default function ChatPage() {
         throw new Error(await patchResponse.text())
       }
 
-      setMessages((prev) =>
-        prev.map((msg) =>
-          msg.id === assistantMessageId ? { ...msg, excalidrawData: nextExcalidrawData } : msg
-        )
-      )
+      conversationStore.dispatch({
+        type: 'patchMessage',
+        messageId: assistantMessageId,
+        patch: { excalidrawData: nextExcalidrawData },
+      })
     } catch (error) {
       console.error('Flowchart regeneration failed:', error)
       toast.error('Failed to regenerate flowchart')
     }
-  }, [messages, token])
+  }, [conversationStore, token])
 
   const handleSaveSettings = useCallback(async () => {
     if (!settingsUsername.trim()) return
+    const instructions = normalizeCustomInstructions(settingsInstructions)
     setIsSavingSettings(true)
     try {
       const resp = await fetch('/api/proxy/users/profile', {
@@ -1358,11 +2265,12 @@ export default function ChatPage() {
           'Content-Type': 'application/json',
           ...(token ? { Authorization: `Bearer ${token}` } : {}),
         },
-        body: JSON.stringify({ username: settingsUsername.trim() }),
+        body: JSON.stringify({ username: settingsUsername.trim(), customInstructions: instructions }),
       })
       const data = await resp.json()
       if (resp.ok && data.user) {
-        updateUser({ username: data.user.username })
+        const saved = data.user.customInstructions ?? data.user.custom_instructions
+        updateUser({ username: data.user.username, customInstructions: saved ? readCustomInstructions(saved) : instructions })
         toast.success('Profile updated')
         setIsSettingsOpen(false)
       } else {
@@ -1373,7 +2281,7 @@ export default function ChatPage() {
     } finally {
       setIsSavingSettings(false)
     }
-  }, [settingsUsername, token, updateUser])
+  }, [settingsInstructions, settingsUsername, token, updateUser])
 
   const onRateResponse = useCallback((messageId: string, rating: "thumbs-up" | "thumbs-down") => {
     console.log("Rated", messageId, rating)
@@ -1386,16 +2294,54 @@ export default function ChatPage() {
     )
   }, [])
 
+  const handleForkConversation = useCallback(async (messageId: string) => {
+    if (!currentConversationId) {
+      toast.error('Send a message first, then fork from it')
+      return
+    }
+
+    try {
+      const resp = await fetch(`/api/proxy/conversations/${currentConversationId}/fork`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ messageId }),
+      })
+
+      if (!resp.ok) {
+        const errorText = await resp.text()
+        throw new Error(errorText || 'Failed to fork conversation')
+      }
+
+      const data = await resp.json()
+      const forkedId = data?.id ?? data?.conversation?.id
+      if (!forkedId) throw new Error('Fork did not return a conversation')
+
+      refreshConversationSummary(String(forkedId))
+      await handleConversationSelect(String(forkedId))
+      toast.success('Opened a new thread from this message')
+    } catch (error) {
+      console.error('Failed to fork conversation', error)
+      toast.error('Failed to fork conversation')
+    }
+  }, [currentConversationId, handleConversationSelect, refreshConversationSummary, token])
+
   const handleOpenExternalPreview = useCallback((url: string, title?: string) => {
     setPreviewUrl(url)
     setPreviewTitle(title ?? null)
     setIsLinkPreviewOpen(true)
   }, [])
 
+  const highlightQuery = isFindOpen ? findQuery.trim() : ''
+
   const messageOptions = useCallback((message: Message) => {
     if (message.role === "user") {
       return {
         onEdit: (newContent: string) => handleEditMessage(message.id, newContent),
+        onCancelPending: message.isPending ? () => cancelPendingMessage(message.id) : undefined,
+        highlightQuery,
       }
     }
 
@@ -1425,15 +2371,54 @@ export default function ChatPage() {
           >
             <ThumbsDown className="h-4 w-4" />
           </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-6 w-6"
+                title="Regenerate"
+                aria-label="Regenerate"
+                disabled={isGenerating}
+              >
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="w-48">
+              <DropdownMenuItem onSelect={() => handleRegenerateResponse(message.id)}>
+                Regenerate
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-muted-foreground">Try another model</DropdownMenuLabel>
+              {MODEL_OPTIONS.map((option) => (
+                <DropdownMenuItem key={option.value} onSelect={() => handleRegenerateResponse(message.id, option.value)}>
+                  {option.label}
+                  {option.value === selectedModel && <Check className="ml-auto h-3.5 w-3.5" />}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6"
+            title="Fork from here"
+            aria-label="Fork from here"
+            onClick={() => void handleForkConversation(message.id)}
+          >
+            <GitBranch className="h-4 w-4" />
+          </Button>
         </>
       ),
       isComplete: message.isComplete,
+      onSelectVariant: (index: number) => conversationStore.dispatch({ type: 'selectVariant', messageId: message.id, index }),
       onOpenExternalPreview: handleOpenExternalPreview,
       onRegenerateChart: (previousUrl: string) => handleRegenerateChart(message.id, previousUrl),
       onRegenerateFlowchart: (diagramIndex: number) => handleRegenerateFlowchart(message.id, diagramIndex),
       authToken: token ?? undefined,
+      highlightQuery,
     }
-  }, [handleEditMessage, handleOpenExternalPreview, handleRegenerateChart, handleRegenerateFlowchart, onRateResponse, token])
+  }, [cancelPendingMessage, conversationStore, handleEditMessage, handleForkConversation, handleOpenExternalPreview, handleRegenerateChart, handleRegenerateFlowchart, handleRegenerateResponse, highlightQuery, isGenerating, onRateResponse, selectedModel, token])
 
   const reservedHistoryWidth = isHistoryOpen && canDockHistory ? historySidebarWidth : 0
   const reservedPreviewWidth = isLinkPreviewOpen && canDockPreview ? previewPaneWidth : 0
@@ -1444,6 +2429,93 @@ export default function ChatPage() {
     inputRef.current?.focus()
   }, [])
 
+  const toggleHistory = useCallback(() => {
+    setIsProfileOpen(false)
+    setIsHistoryOpen((value) => {
+      const next = !value
+      if (next && !isHistoryLoading && conversations.length === 0) {
+        void loadConversations()
+      }
+      if (!next) {
+        setHistoryQuery("")
+      }
+      return next
+    })
+  }, [conversations.length, isHistoryLoading, loadConversations])
+
+  // Moves to the message before or after the one last reached, starting from the latest.
+  // Returns false when there is nowhere to go, so the key keeps its usual meaning.
+  const stepThroughMessages = useCallback((direction: -1 | 1) => {
+    const { messageIds: activePath } = conversationStore.getState()
+    if (activePath.length === 0) return false
+    const current = navigatedMessageIdRef.current ? activePath.indexOf(navigatedMessageIdRef.current) : -1
+    const index = current === -1 ? activePath.length - 1 : current + direction
+    const messageId = activePath[index]
+    if (!messageId || !scrollToMessage(messageId)) return false
+    navigatedMessageIdRef.current = messageId
+    flashMessage(messageId)
+    return true
+  }, [conversationStore])
+
+  const stepThroughConversations = useCallback((direction: -1 | 1) => {
+    const current = visibleHistory.findIndex((conversation) => conversation.id === currentConversationId)
+    const conversation = visibleHistory[current === -1 ? 0 : current + direction]
+    if (!conversation) return false
+    void handleConversationSelect(conversation.id)
+    return true
+  }, [currentConversationId, handleConversationSelect, visibleHistory])
+
+  useKeyboardShortcuts(shortcutBindings, {
+    'command-palette': () => setIsPaletteOpen((open) => !open),
+    'show-shortcuts': () => setIsShortcutHelpOpen(true),
+    'new-chat': () => {
+      startNewChat()
+      requestAnimationFrame(() => inputRef.current?.focus())
+    },
+    'focus-composer': () => inputRef.current?.focus(),
+    'stop-generation': () => {
+      if (!isGenerating) return false
+      stop()
+    },
+    'regenerate': () => {
+      const lastAssistant = [...conversationStore.getMessages()].reverse().find(m => m.role === 'assistant')
+      if (!lastAssistant || isGenerating) return false
+      handleRegenerateResponse(lastAssistant.id)
+    },
+    'copy-last-answer': () => {
+      const lastAssistant = [...conversationStore.getMessages()].reverse().find(m => m.role === 'assistant' && m.content)
+      if (!lastAssistant) return false
+      navigator.clipboard.writeText(lastAssistant.content)
+        .then(() => toast.success('Copied response to clipboard!'))
+        .catch(() => toast.error('Failed to copy to clipboard'))
+    },
+    // Ctrl/Cmd+F searches the open conversation instead of the page
+    'find-in-chat': () => {
+      if (!hasMessages) return false
+      setIsFindOpen(true)
+      requestAnimationFrame(() => {
+        findInputRef.current?.focus()
+        findInputRef.current?.select()
+      })
+    },
+    'previous-message': () => stepThroughMessages(-1),
+    'next-message': () => stepThroughMessages(1),
+    'previous-conversation': () => stepThroughConversations(-1),
+    'next-conversation': () => stepThroughConversations(1),
+    // Small screens have no docked history, so the navigation drawer stands in for it
+    'toggle-history': () => {
+      if (canDockHistory) {
+        toggleHistory()
+      } else {
+        setIsMobileMenuOpen((value) => !value)
+      }
+    },
+    'toggle-preview': () => {
+      if (!previewUrl) return false
+      setIsLinkPreviewOpen((open) => !open)
+    },
+  })
+
   const transcribeAudio = async (audioBlob: Blob): Promise<string> => {
     try {
       const formData = new FormData()
@@ -1471,6 +2543,238 @@ export default function ChatPage() {
     }
   }
 
+  const renderHeaderHistoryItem = (conversation: ConversationSummary) => {
+    const isActive = currentConversationId === conversation.id
+    const timestamp = formatConversationDate(conversation.updated_at ?? conversation.created_at)
+    const initial = (conversation.title || "C").slice(0, 1).toUpperCase()
+
+    return (
+      <div className={`group flex items-center gap-3 rounded-[20px] px-2 py-1.5 ${isActive ? 'bg-primary/8' : ''}`}>
+        <button
+          className={`flex min-w-0 flex-1 items-center gap-3 rounded-[18px] border px-3 py-3 text-left shadow-sm ${isActive ? 'border-primary/25 bg-[linear-gradient(180deg,rgba(37,99,235,0.08),rgba(255,255,255,0.88))] dark:bg-[linear-gradient(180deg,rgba(37,99,235,0.18),rgba(15,23,42,0.88))]' : 'border-border/50 bg-background/70 hover:bg-background/90'}`}
+          onClick={() => handleConversationSelect(conversation.id)}
+          type="button"
+        >
+          <div className={`flex h-10 w-10 shrink-0 items-center justify-center rounded-2xl text-sm font-semibold ${isActive ? 'bg-primary text-primary-foreground' : 'bg-slate-100 text-slate-700 dark:bg-white/10 dark:text-slate-200'}`}>
+            {initial}
+          </div>
+          <div className="min-w-0 flex-1">
+            <div className="truncate text-sm font-semibold text-foreground">
+              {conversation.title || `Chat ${conversation.id.slice(0, 6)}`}
+            </div>
+            <div className="mt-1 flex items-center gap-2 text-[11px] text-muted-foreground">
+              <span className="truncate">{isActive ? 'Current thread' : 'Saved conversation'}</span>
+              {timestamp && <span className="shrink-0">{timestamp}</span>}
+            </div>
+          </div>
+          {loadingConversationId === conversation.id && (
+            <span className="shrink-0 text-xs text-primary">Loading...</span>
+          )}
+        </button>
+        <ConversationActionsMenu
+          conversation={conversation}
+          folders={folders}
+          onPatch={handlePatchConversation}
+          onEditTags={() => setTagEditor({ conversationIds: [conversation.id], mode: 'replace' })}
+          className="p-2"
+        />
+        <button
+          className="rounded-full p-2 text-muted-foreground hover:bg-destructive/10 hover:text-destructive"
+          onClick={(event) => handleDeleteConversation(conversation.id, event)}
+          title="Delete conversation"
+          type="button"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+    )
+  }
+
+  // Message hits of the running search for a history row, if any
+  const historySearchHits = (conversationId: string) =>
+    historyQuery.trim() ? historyHits[conversationId] ?? [] : []
+
+  const renderSearchSnippet = (hits: MessageSearchHit[]) => {
+    const [firstHit] = hits
+    if (!firstHit?.snippet) return null
+
+    return (
+      <span className="mt-1 block text-[10px] leading-snug text-muted-foreground">
+        <HighlightedText text={firstHit.snippet} query={historyQuery.trim()} className="line-clamp-2" />
+        {hits.length > 1 && <span className="mt-0.5 block opacity-70">{hits.length} matching messages</span>}
+      </span>
+    )
+  }
+
+  // The model a conversation answers with, plus its preset when it has one
+  const renderModelBadge = ({ settings }: ConversationSummary) => {
+    if (!settings) return null
+    const persona = findPersona(personas, settings.personaId)
+
+    return (
+      <span
+        className="shrink-0 rounded border border-border/60 px-1 py-px text-[9px] font-medium leading-none"
+        title={persona ? `${modelLabel(settings.model)} · ${persona.name}` : modelLabel(settings.model)}
+      >
+        {modelLabel(settings.model)}
+      </span>
+    )
+  }
+
+  const renderDrawerHistoryItem = (conversation: ConversationSummary) => {
+    const isActive = currentConversationId === conversation.id
+    const timestamp = formatConversationDate(conversation.updated_at ?? conversation.created_at)
+    const hits = historySearchHits(conversation.id)
+
+    return (
+      <div className="group flex items-center gap-1 rounded-lg py-0.5">
+        <button
+          className={`min-w-0 flex-1 rounded-[10px] px-3 py-2 text-left transition-colors ${isActive ? 'bg-sidebar-accent text-foreground font-medium' : 'hover:bg-sidebar-accent/50'}`}
+          onClick={() => {
+            if (hits.length > 0) void openSearchHit(conversation.id, hits[0].messageId)
+            else handleConversationSelect(conversation.id)
+            setIsMobileMenuOpen(false)
+          }}
+          type="button"
+        >
+          <div className="truncate text-xs font-medium">
+            {conversation.title || `Chat ${conversation.id.slice(0, 6)}`}
+          </div>
+          <div className="mt-0.5 flex items-center gap-2 text-[10px] text-muted-foreground">
+            {timestamp ? <span className="shrink-0">{timestamp}</span> : null}
+            {renderModelBadge(conversation)}
+            {loadingConversationId === conversation.id ? <span className="shrink-0 text-primary">Loading...</span> : null}
+          </div>
+          {renderSearchSnippet(hits)}
+          <ConversationTagList tags={conversation.tags} className="mt-1" />
+        </button>
+        <ConversationActionsMenu
+          conversation={conversation}
+          folders={folders}
+          onPatch={handlePatchConversation}
+          onEditTags={() => setTagEditor({ conversationIds: [conversation.id], mode: 'replace' })}
+        />
+        <button
+          className="rounded-full p-1.5 text-muted-foreground transition-colors hover:bg-destructive/10 hover:text-destructive"
+          onClick={(event) => handleDeleteConversation(conversation.id, event)}
+          title="Delete conversation"
+          type="button"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    )
+  }
+
+  const renderSidebarHistoryItem = (conversation: ConversationSummary) => {
+    const isActive = currentConversationId === conversation.id
+    const timestamp = formatConversationDate(conversation.updated_at ?? conversation.created_at)
+    const isEditing = editingConversationId === conversation.id
+    const hits = historySearchHits(conversation.id)
+
+    if (isSelectingHistory) {
+      const isSelected = selectedConversationIds.has(conversation.id)
+      return (
+        <label className={`mx-2 my-0.5 flex cursor-pointer items-center gap-2.5 rounded-[10px] px-3 py-2 transition-colors ${isSelected ? 'bg-sidebar-accent' : 'hover:bg-sidebar-accent/50'}`}>
+          <input
+            type="checkbox"
+            checked={isSelected}
+            onChange={() => toggleConversationSelection(conversation.id)}
+            className="shrink-0 accent-primary"
+          />
+          <span className="min-w-0 flex-1">
+            <span className="block truncate text-xs font-medium">
+              {conversation.title || `Chat ${conversation.id.slice(0, 6)}`}
+            </span>
+            <ConversationTagList tags={conversation.tags} className="mt-1" />
+          </span>
+        </label>
+      )
+    }
+
+    return (
+      <div className="group flex items-center gap-1 rounded-lg px-2 py-0.5">
+        {isEditing ? (
+          <form
+            className="min-w-0 flex-1 flex items-center gap-1 px-1"
+            onSubmit={(e) => {
+              e.preventDefault()
+              void handleRenameConversation(conversation.id, editingTitle)
+            }}
+          >
+            <input
+              autoFocus
+              value={editingTitle}
+              onChange={(e) => setEditingTitle(e.target.value)}
+              onBlur={() => void handleRenameConversation(conversation.id, editingTitle)}
+              onKeyDown={(e) => { if (e.key === 'Escape') setEditingConversationId(null) }}
+              className="min-w-0 flex-1 rounded-md border border-primary/40 bg-background px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-primary/50"
+            />
+            <button type="submit" className="shrink-0 p-1 text-primary">
+              <Check className="h-3 w-3" />
+            </button>
+          </form>
+        ) : (
+          <button
+            className={`min-w-0 flex-1 rounded-[10px] px-3 py-2 text-left transition-colors ${isActive ? 'bg-sidebar-accent text-foreground font-medium' : 'hover:bg-sidebar-accent/50'}`}
+            onClick={() => {
+              if (hits.length > 0) void openSearchHit(conversation.id, hits[0].messageId)
+              else handleConversationSelect(conversation.id)
+            }}
+            onDoubleClick={() => {
+              setEditingConversationId(conversation.id)
+              setEditingTitle(conversation.title || '')
+            }}
+            type="button"
+            title="Double-click to rename"
+          >
+            <div className="truncate text-xs font-medium">
+              {conversation.title || `Chat ${conversation.id.slice(0, 6)}`}
+            </div>
+            <div className="mt-1 flex items-center gap-2 text-[10px] text-muted-foreground">
+              <span className="truncate">{isActive ? 'Current chat' : 'Saved chat'}</span>
+              {timestamp ? <span className="shrink-0">{timestamp}</span> : null}
+              {renderModelBadge(conversation)}
+              {loadingConversationId === conversation.id ? <span className="shrink-0 text-primary">Loading...</span> : null}
+            </div>
+            {renderSearchSnippet(hits)}
+            <ConversationTagList tags={conversation.tags} className="mt-1" />
+          </button>
+        )}
+        {!isEditing && (
+          <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 has-[[data-state=open]]:opacity-100 transition-opacity">
+            <ConversationActionsMenu
+              conversation={conversation}
+              folders={folders}
+              onPatch={handlePatchConversation}
+              onEditTags={() => setTagEditor({ conversationIds: [conversation.id], mode: 'replace' })}
+            />
+            <button
+              className="rounded-full p-1.5 text-muted-foreground transition-colors hover:bg-secondary hover:text-foreground"
+              onClick={(e) => {
+                e.stopPropagation()
+                setEditingConversationId(conversation.id)
+                setEditingTitle(conversation.title || '')
+              }}
+              title="Rename conversation"
+              type="button"
+            >
+              <Pencil className="h-3 w-3" />
+            </button>
+            <button
+              className="rounded-full p-1.5 text-muted-foreground transition-colors hover:bg-destructive/10 hover:text-destructive"
+              onClick={(event) => handleDeleteConversation(conversation.id, event)}
+              title="Delete conversation"
+              type="button"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        )}
+      </div>
+    )
+  }
+
   return (
     <div
       className="relative flex flex-col overflow-hidden bg-background text-foreground transition-[min-height] duration-300 ease-out"
@@ -1555,19 +2859,7 @@ export default function ChatPage() {
                 <button
                   type="button"
                   className={desktopActionClasses}
-                  onClick={() => {
-                    setIsProfileOpen(false)
-                    setIsHistoryOpen((value) => {
-                      const next = !value
-                      if (next && !isHistoryLoading && conversations.length === 0) {
-                        void loadConversations()
-                      }
-                      if (!next) {
-                        setHistoryQuery("")
-                      }
-                      return next
-                    })
-                  }}
+                  onClick={toggleHistory}
                 >
                   <span className="relative z-10 inline-flex items-center gap-2">
                     <Search className="h-4 w-4" />
@@ -1603,6 +2895,7 @@ export default function ChatPage() {
                           className="h-11 rounded-[18px] border border-border/60 bg-background/90 pl-9 pr-3 text-sm shadow-sm focus-visible:ring-2 focus-visible:ring-primary/25"
                         />
                       </div>
+                      <TagFilterBar tags={tagStats} activeTag={activeTag} onChange={setActiveTag} />
                     </div>
 
                     <div className="max-h-[24rem] overflow-y-auto overflow-x-hidden rounded-[24px] border border-border/60 bg-background/65 p-2">
@@ -1616,68 +2909,42 @@ export default function ChatPage() {
                         </div>
                       ) : filteredHistory.length === 0 ? (
                         <div className="px-4 py-6 text-center text-sm text-muted-foreground">
-                          No chats found for “{historyQuery}”
+                          {!historyQuery.trim() && activeTag ? `No chats tagged #${activeTag}` : `No chats found for “${historyQuery}”`}
                         </div>
-                      ) : (
+                      ) : historyQuery.trim() ? (
                         <ul className="py-1">
-                          {filteredHistory.map((conversation) => {
-                            const isActive = currentConversationId === conversation.id
-                            const timestamp = formatConversationDate(conversation.updated_at ?? conversation.created_at)
-                            const initial = (conversation.title || "C").slice(0, 1).toUpperCase()
-
-                            return (
-                              <li key={conversation.id}>
-                                <div className={`group flex items-center gap-3 rounded-[20px] px-2 py-1.5 ${isActive ? 'bg-primary/8' : ''}`}>
-                                  <button
-                                    className={`flex min-w-0 flex-1 items-center gap-3 rounded-[18px] border px-3 py-3 text-left shadow-sm ${isActive ? 'border-primary/25 bg-[linear-gradient(180deg,rgba(37,99,235,0.08),rgba(255,255,255,0.88))] dark:bg-[linear-gradient(180deg,rgba(37,99,235,0.18),rgba(15,23,42,0.88))]' : 'border-border/50 bg-background/70 hover:bg-background/90'}`}
-                                    onClick={() => handleConversationSelect(conversation.id)}
-                                    type="button"
-                                  >
-                                    <div className={`flex h-10 w-10 shrink-0 items-center justify-center rounded-2xl text-sm font-semibold ${isActive ? 'bg-primary text-primary-foreground' : 'bg-slate-100 text-slate-700 dark:bg-white/10 dark:text-slate-200'}`}>
-                                      {initial}
-                                    </div>
-                                    <div className="min-w-0 flex-1">
-                                      <div className="truncate text-sm font-semibold text-foreground">
-                                        {conversation.title || `Chat ${conversation.id.slice(0, 6)}`}
-                                      </div>
-                                      <div className="mt-1 flex items-center gap-2 text-[11px] text-muted-foreground">
-                                        <span className="truncate">{isActive ? 'Current thread' : 'Saved conversation'}</span>
-                                        {timestamp && <span className="shrink-0">{timestamp}</span>}
-                                      </div>
-                                    </div>
-                                    {loadingConversationId === conversation.id && (
-                                      <span className="shrink-0 text-xs text-primary">Loading...</span>
-                                    )}
-                                  </button>
-                                  <button
-                                    className="rounded-full p-2 text-muted-foreground hover:bg-destructive/10 hover:text-destructive"
-                                    onClick={(event) => handleDeleteConversation(conversation.id, event)}
-                                    title="Delete conversation"
-                                    type="button"
-                                  >
-                                    <Trash2 className="h-4 w-4" />
-                                  </button>
-                                </div>
-                              </li>
-                            )
-                          })}
+                          {filteredHistory.map((conversation) => (
+                            <li key={conversation.id}>{renderHeaderHistoryItem(conversation)}</li>
+                          ))}
                         </ul>
+                      ) : (
+                        <ConversationHistorySections
+                          conversations={filteredHistory}
+                          folders={folders}
+                          renderConversation={renderHeaderHistoryItem}
+                          onMoveConversation={handleMoveConversation}
+                          onCreateFolder={(name) => void handleCreateFolder(name)}
+                          onRenameFolder={(folderId, name) => void handleRenameFolder(folderId, name)}
+                          onDeleteFolder={(folderId) => void handleDeleteFolder(folderId)}
+                          className="py-1"
+                        />
                       )}
                     </div>
                   </div>
                 )}
               </div>
 
-              {messages.length > 0 && (
+              {hasMessages && currentConversationId && (
                 <button
                   type="button"
                   className={desktopActionClasses}
-                  onClick={exportConversation}
-                  title="Export conversation as Markdown"
+                  onClick={() => void shareConversation()}
+                  disabled={isSharing}
+                  title="Create a read-only link to this conversation"
                 >
                   <span className="relative z-10 inline-flex items-center gap-2">
-                    <Download className="h-4 w-4" />
-                    <span>Export</span>
+                    {isSharing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Share2 className="h-4 w-4" />}
+                    <span>Share</span>
                   </span>
                   <span
                     aria-hidden="true"
@@ -1686,6 +2953,64 @@ export default function ChatPage() {
                 </button>
               )}
 
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button
+                    type="button"
+                    className={desktopActionClasses}
+                    title="Export or import a conversation"
+                  >
+                    <span className="relative z-10 inline-flex items-center gap-2">
+                      <Download className="h-4 w-4" />
+                      <span>Export</span>
+                    </span>
+                    <span
+                      aria-hidden="true"
+                      className="absolute inset-0 bg-gradient-to-r from-transparent via-foreground/8 to-transparent opacity-0 transition-opacity duration-500 group-hover/nav:opacity-100"
+                    />
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="center" className="w-52">
+                  <DropdownMenuLabel className="text-xs text-muted-foreground">Export conversation</DropdownMenuLabel>
+                  <DropdownMenuItem disabled={!hasMessages} onSelect={() => void exportConversation('markdown')}>
+                    <FileText className="h-4 w-4" />
+                    Markdown
+                  </DropdownMenuItem>
+                  <DropdownMenuItem disabled={!hasMessages} onSelect={() => void exportConversation('json')}>
+                    <FileJson className="h-4 w-4" />
+                    JSON (full backup)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem disabled={!hasMessages} onSelect={() => void exportConversation('html')}>
+                    <FileCode className="h-4 w-4" />
+                    HTML page
+                  </DropdownMenuItem>
+                  <DropdownMenuItem disabled={!hasMessages} onSelect={() => void exportConversation('pdf')}>
+                    <Printer className="h-4 w-4" />
+                    PDF
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onSelect={() => importInputRef.current?.click()}>
+                    <Upload className="h-4 w-4" />
+                    Import from JSON…
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => setIsImportOpen(true)}>
+                    <FileUp className="h-4 w-4" />
+                    Import from other assistants…
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(event) => {
+                  const file = event.target.files?.[0]
+                  event.target.value = ''
+                  if (file) void importConversation(file)
+                }}
+              />
+
               <button
                 type="button"
                 className={desktopActionClasses}
@@ -1764,11 +3089,7 @@ export default function ChatPage() {
 
                     <div className="mt-4 space-y-3">
                       <Button
-                        onClick={() => {
-                          setIsProfileOpen(false)
-                          setSettingsUsername(displayName)
-                          setIsSettingsOpen(true)
-                        }}
+                        onClick={openSettings}
                         variant="ghost"
                         className="w-full justify-between rounded-2xl border border-border/60 bg-background/60 px-4 py-2 text-sm font-medium transition-colors hover:bg-background/80"
                       >
@@ -1778,7 +3099,7 @@ export default function ChatPage() {
                       <Button
                         onClick={() => {
                           setIsProfileOpen(false)
-                          logout()
+                          void logout()
                         }}
                         variant="ghost"
                         className="w-full justify-between rounded-2xl border border-border/60 bg-background/60 px-4 py-2 text-sm font-medium transition-colors hover:bg-background/80"
@@ -1890,13 +3211,27 @@ export default function ChatPage() {
                     <History className="h-3.5 w-3.5" />
                     <span>Recent Chats</span>
                   </div>
-                  <button
-                    type="button"
-                    onClick={() => loadConversations()}
-                    className="hover:text-foreground"
-                  >
-                    <RotateCcw className="h-3 w-3" />
-                  </button>
+                  <div className="flex items-center gap-2.5">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setIsMobileMenuOpen(false)
+                        setIsTrashOpen(true)
+                      }}
+                      className="hover:text-foreground"
+                      title="Trash"
+                      aria-label="Open trash"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => loadConversations()}
+                      className="hover:text-foreground"
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                    </button>
+                  </div>
                 </div>
 
                 {/* History Search inside Drawer */}
@@ -1910,58 +3245,47 @@ export default function ChatPage() {
                   />
                 </div>
 
+                <TagFilterBar tags={tagStats} activeTag={activeTag} onChange={setActiveTag} className="mt-2" />
+
                 {/* History List inside Drawer */}
                 <div className="flex-1 overflow-y-auto mt-3 pr-1">
-                  {isHistoryLoading || isSearching ? (
+                  {isHistoryLoading || (isSearching && visibleHistory.length === 0) ? (
                     <div className="py-6 text-center text-xs text-muted-foreground">
                       {isSearching ? 'Searching...' : 'Loading conversations...'}
                     </div>
-                  ) : conversations.length === 0 ? (
+                  ) : conversations.length === 0 && !historyQuery.trim() ? (
                     <div className="py-6 text-center text-xs text-muted-foreground">
                       No conversations yet
                     </div>
-                  ) : (searchResults ?? filteredHistory).length === 0 ? (
+                  ) : visibleHistory.length === 0 ? (
                     <div className="py-6 text-center text-xs text-muted-foreground">
-                      {searchResults ? `No results for "${historyQuery}"` : `No chats found for "${historyQuery}"`}
+                      {!historyQuery.trim() && activeTag
+                        ? `No chats tagged #${activeTag}`
+                        : searchResults ? `No results for "${historyQuery}"` : `No chats found for "${historyQuery}"`}
                     </div>
-                  ) : (
+                  ) : historyQuery.trim() ? (
                     <ul className="space-y-1">
-                      {(searchResults ?? filteredHistory).map((conversation) => {
-                        const isActive = currentConversationId === conversation.id
-                        const timestamp = formatConversationDate(conversation.updated_at ?? conversation.created_at)
-
-                        return (
-                          <li key={conversation.id}>
-                            <div className="group flex items-center gap-1 rounded-lg py-0.5">
-                              <button
-                                className={`min-w-0 flex-1 rounded-[10px] px-3 py-2 text-left transition-colors ${isActive ? 'bg-sidebar-accent text-foreground font-medium' : 'hover:bg-sidebar-accent/50'}`}
-                                onClick={() => {
-                                  handleConversationSelect(conversation.id)
-                                  setIsMobileMenuOpen(false)
-                                }}
-                                type="button"
-                              >
-                                <div className="truncate text-xs font-medium">
-                                  {conversation.title || `Chat ${conversation.id.slice(0, 6)}`}
-                                </div>
-                                <div className="mt-0.5 flex items-center gap-2 text-[10px] text-muted-foreground">
-                                  {timestamp ? <span className="shrink-0">{timestamp}</span> : null}
-                                  {loadingConversationId === conversation.id ? <span className="shrink-0 text-primary">Loading...</span> : null}
-                                </div>
-                              </button>
-                              <button
-                                className="rounded-full p-1.5 text-muted-foreground transition-colors hover:bg-destructive/10 hover:text-destructive"
-                                onClick={(event) => handleDeleteConversation(conversation.id, event)}
-                                title="Delete conversation"
-                                type="button"
-                              >
-                                <Trash2 className="h-3.5 w-3.5" />
-                              </button>
-                            </div>
-                          </li>
-                        )
-                      })}
+                      {visibleHistory.map((conversation) => (
+                        <li key={conversation.id}>{renderDrawerHistoryItem(conversation)}</li>
+                      ))}
                     </ul>
+                  ) : (
+                    <>
+                      <ConversationHistorySections
+                        conversations={filteredHistory}
+                        folders={folders}
+                        renderConversation={renderDrawerHistoryItem}
+                        onMoveConversation={handleMoveConversation}
+                        onCreateFolder={(name) => void handleCreateFolder(name)}
+                        onRenameFolder={(folderId, name) => void handleRenameFolder(folderId, name)}
+                        onDeleteFolder={(folderId) => void handleDeleteFolder(folderId)}
+                      />
+                      <HistoryLoadMore
+                        hasMore={historyCursor !== null}
+                        isLoading={isLoadingMoreHistory}
+                        onLoadMore={() => void loadMoreConversations()}
+                      />
+                    </>
                   )}
                 </div>
               </div>
@@ -1975,7 +3299,7 @@ export default function ChatPage() {
                 <Button
                   onClick={() => {
                     setIsMobileMenuOpen(false)
-                    logout()
+                    void logout()
                   }}
                   variant="ghost"
                   className="h-8 rounded-xl px-3 text-xs text-muted-foreground hover:text-destructive flex items-center gap-1.5"
@@ -1997,7 +3321,10 @@ export default function ChatPage() {
           onClick={() => setIsSettingsOpen(false)}
         >
           <div
-            className="w-80 rounded-3xl border border-border/60 bg-background/95 p-6 shadow-2xl backdrop-blur-xl"
+            role="dialog"
+            aria-modal="true"
+            aria-label="Settings"
+            className="max-h-[90dvh] w-[min(26rem,calc(100vw-2rem))] overflow-y-auto rounded-3xl border border-border/60 bg-background/95 p-6 shadow-2xl backdrop-blur-xl"
             onClick={(e) => e.stopPropagation()}
           >
             <div className="mb-5 flex items-center justify-between">
@@ -2025,6 +3352,61 @@ export default function ChatPage() {
                 <label className="mb-1.5 block text-xs font-medium text-muted-foreground">Email</label>
                 <Input value={displayEmail} disabled className="rounded-xl text-muted-foreground" />
               </div>
+              <div className="space-y-3 border-t border-border/60 pt-4">
+                <div>
+                  <h3 className="text-sm font-medium">Custom instructions</h3>
+                  <p className="text-xs text-muted-foreground">
+                    Sent with every message. You can turn them off for a single chat from the Tools menu.
+                  </p>
+                </div>
+                <div>
+                  <label htmlFor="settings-about-me" className="mb-1.5 block text-xs font-medium text-muted-foreground">About me</label>
+                  <Textarea
+                    id="settings-about-me"
+                    value={settingsInstructions.aboutMe}
+                    onChange={(e) => setSettingsInstructions((prev) => ({ ...prev, aboutMe: e.target.value }))}
+                    placeholder="What should Luna know about you? Your work, interests, goals…"
+                    maxLength={CUSTOM_INSTRUCTIONS_MAX_LENGTH}
+                    className="min-h-20 rounded-xl text-sm"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="settings-response-style" className="mb-1.5 block text-xs font-medium text-muted-foreground">Response style</label>
+                  <Textarea
+                    id="settings-response-style"
+                    value={settingsInstructions.responseStyle}
+                    onChange={(e) => setSettingsInstructions((prev) => ({ ...prev, responseStyle: e.target.value }))}
+                    placeholder="How should Luna answer? e.g. concise, with examples, bullet points"
+                    maxLength={CUSTOM_INSTRUCTIONS_MAX_LENGTH}
+                    className="min-h-20 rounded-xl text-sm"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="settings-language" className="mb-1.5 block text-xs font-medium text-muted-foreground">Preferred language</label>
+                  <select
+                    id="settings-language"
+                    value={settingsInstructions.preferredLanguage}
+                    onChange={(e) => setSettingsInstructions((prev) => ({ ...prev, preferredLanguage: e.target.value }))}
+                    className="h-9 w-full rounded-xl border border-input bg-transparent px-3 text-sm shadow-xs outline-none dark:bg-input/30 focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50"
+                  >
+                    <option value="">Same as my message</option>
+                    {LANGUAGE_OPTIONS.map((language) => (
+                      <option key={language} value={language}>{language}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="mb-1.5 block text-xs font-medium text-muted-foreground">Keyboard shortcuts</label>
+                <p className="mb-2 text-[11px] text-muted-foreground">
+                  Click a shortcut and press the new keys. Backspace turns it off.
+                </p>
+                <ShortcutSettings bindings={shortcutBindings} onChange={changeShortcut} />
+              </div>
+              <div>
+                <label className="mb-1.5 block text-xs font-medium text-muted-foreground">Shared links</label>
+                <SharedLinksList token={token} />
+              </div>
             </div>
             <div className="mt-5 flex justify-end gap-2">
               <Button variant="ghost" onClick={() => setIsSettingsOpen(false)}>Cancel</Button>
@@ -2078,6 +3460,27 @@ export default function ChatPage() {
                   <Plus className="h-4 w-4" />
                   New chat
                 </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={`h-10 w-10 rounded-full border border-border/60 ${isSelectingHistory ? 'bg-secondary text-foreground' : ''}`}
+                  onClick={() => isSelectingHistory ? exitHistorySelection() : setIsSelectingHistory(true)}
+                  title="Select chats"
+                  aria-pressed={isSelectingHistory}
+                  type="button"
+                >
+                  <ListChecks className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-10 w-10 rounded-full border border-border/60"
+                  onClick={() => setIsTrashOpen(true)}
+                  title="Trash"
+                  type="button"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
                 <Button
                   variant="ghost"
                   size="icon"
@@ -2098,101 +3501,63 @@ export default function ChatPage() {
                   className="h-11 rounded-2xl border border-border/60 bg-background pl-9 pr-3 text-sm"
                 />
               </div>
+
+              <TagFilterBar tags={tagStats} activeTag={activeTag} onChange={setActiveTag} className="mt-3" />
+
+              {isSelectingHistory && (
+                <HistorySelectionBar
+                  selectedCount={selectedConversationIds.size}
+                  totalCount={visibleHistory.length}
+                  isBusy={isBulkBusy}
+                  onSelectAll={() => setSelectedConversationIds(new Set(visibleHistory.map((conversation) => conversation.id)))}
+                  onClearSelection={() => setSelectedConversationIds(new Set())}
+                  onTag={() => setTagEditor({ conversationIds: [...selectedConversationIds], mode: 'add' })}
+                  onArchive={() => void handleBulkArchive()}
+                  onExport={() => void handleBulkExport()}
+                  onDelete={() => void handleBulkDelete()}
+                  onExit={exitHistorySelection}
+                />
+              )}
             </div>
 
             <div className="flex-1 overflow-y-auto px-3 py-3">
-              {isHistoryLoading || isSearching ? (
+              {isHistoryLoading || (isSearching && visibleHistory.length === 0) ? (
                 <div className="rounded-2xl border border-border/60 px-4 py-6 text-center text-sm text-muted-foreground">
                   {isSearching ? 'Searching...' : 'Loading conversations...'}
                 </div>
-              ) : conversations.length === 0 ? (
+              ) : conversations.length === 0 && !historyQuery.trim() ? (
                 <div className="rounded-2xl border border-border/60 px-4 py-6 text-center text-sm text-muted-foreground">
                   No conversations yet
                 </div>
-              ) : (searchResults ?? filteredHistory).length === 0 ? (
+              ) : visibleHistory.length === 0 ? (
                 <div className="rounded-2xl border border-border/60 px-4 py-6 text-center text-sm text-muted-foreground">
-                  {searchResults ? `No results for "${historyQuery}"` : `No chats found for "${historyQuery}"`}
+                  {!historyQuery.trim() && activeTag
+                    ? `No chats tagged #${activeTag}`
+                    : searchResults ? `No results for "${historyQuery}"` : `No chats found for "${historyQuery}"`}
                 </div>
-              ) : (
+              ) : historyQuery.trim() ? (
                 <ul className="space-y-1.5">
-                  {(searchResults ?? filteredHistory).map((conversation) => {
-                    const isActive = currentConversationId === conversation.id
-                    const timestamp = formatConversationDate(conversation.updated_at ?? conversation.created_at)
-                    const isEditing = editingConversationId === conversation.id
-
-                    return (
-                      <li key={conversation.id}>
-                        <div className="group flex items-center gap-1 rounded-lg px-2 py-0.5">
-                          {isEditing ? (
-                            <form
-                              className="min-w-0 flex-1 flex items-center gap-1 px-1"
-                              onSubmit={(e) => {
-                                e.preventDefault()
-                                void handleRenameConversation(conversation.id, editingTitle)
-                              }}
-                            >
-                              <input
-                                autoFocus
-                                value={editingTitle}
-                                onChange={(e) => setEditingTitle(e.target.value)}
-                                onBlur={() => void handleRenameConversation(conversation.id, editingTitle)}
-                                onKeyDown={(e) => { if (e.key === 'Escape') setEditingConversationId(null) }}
-                                className="min-w-0 flex-1 rounded-md border border-primary/40 bg-background px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-primary/50"
-                              />
-                              <button type="submit" className="shrink-0 p-1 text-primary">
-                                <Check className="h-3 w-3" />
-                              </button>
-                            </form>
-                          ) : (
-                            <button
-                              className={`min-w-0 flex-1 rounded-[10px] px-3 py-2 text-left transition-colors ${isActive ? 'bg-sidebar-accent text-foreground font-medium' : 'hover:bg-sidebar-accent/50'}`}
-                              onClick={() => handleConversationSelect(conversation.id)}
-                              onDoubleClick={() => {
-                                setEditingConversationId(conversation.id)
-                                setEditingTitle(conversation.title || '')
-                              }}
-                              type="button"
-                              title="Double-click to rename"
-                            >
-                              <div className="truncate text-xs font-medium">
-                                {conversation.title || `Chat ${conversation.id.slice(0, 6)}`}
-                              </div>
-                              <div className="mt-1 flex items-center gap-2 text-[10px] text-muted-foreground">
-                                <span className="truncate">{isActive ? 'Current chat' : 'Saved chat'}</span>
-                                {timestamp ? <span className="shrink-0">{timestamp}</span> : null}
-                                {loadingConversationId === conversation.id ? <span className="shrink-0 text-primary">Loading...</span> : null}
-                              </div>
-                            </button>
-                          )}
-                          {!isEditing && (
-                            <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
-                              <button
-                                className="rounded-full p-1.5 text-muted-foreground transition-colors hover:bg-secondary hover:text-foreground"
-                                onClick={(e) => {
-                                  e.stopPropagation()
-                                  setEditingConversationId(conversation.id)
-                                  setEditingTitle(conversation.title || '')
-                                }}
-                                title="Rename conversation"
-                                type="button"
-                              >
-                                <Pencil className="h-3 w-3" />
-                              </button>
-                              <button
-                                className="rounded-full p-1.5 text-muted-foreground transition-colors hover:bg-destructive/10 hover:text-destructive"
-                                onClick={(event) => handleDeleteConversation(conversation.id, event)}
-                                title="Delete conversation"
-                                type="button"
-                              >
-                                <Trash2 className="h-3.5 w-3.5" />
-                              </button>
-                            </div>
-                          )}
-                        </div>
-                      </li>
-                    )
-                  })}
+                  {visibleHistory.map((conversation) => (
+                    <li key={conversation.id}>{renderSidebarHistoryItem(conversation)}</li>
+                  ))}
                 </ul>
+              ) : (
+                <>
+                  <ConversationHistorySections
+                    conversations={filteredHistory}
+                    folders={folders}
+                    renderConversation={renderSidebarHistoryItem}
+                    onMoveConversation={handleMoveConversation}
+                    onCreateFolder={(name) => void handleCreateFolder(name)}
+                    onRenameFolder={(folderId, name) => void handleRenameFolder(folderId, name)}
+                    onDeleteFolder={(folderId) => void handleDeleteFolder(folderId)}
+                  />
+                  <HistoryLoadMore
+                    hasMore={historyCursor !== null}
+                    isLoading={isLoadingMoreHistory}
+                    onLoadMore={() => void loadMoreConversations()}
+                  />
+                </>
               )}
             </div>
 
@@ -2235,16 +3600,16 @@ export default function ChatPage() {
         className="flex-1 overflow-hidden"
         style={{
           minHeight: viewportHeight,
-          paddingTop: messages.length > 0 ? `${layoutHeights.header}px` : 0,
-          paddingBottom: messages.length > 0 ? `${layoutHeights.footer}px` : 0,
+          paddingTop: showThread ? `${layoutHeights.header}px` : 0,
+          paddingBottom: showThread ? `${layoutHeights.footer}px` : 0,
           paddingLeft: reservedHistoryWidth ? `${reservedHistoryWidth}px` : 0,
           paddingRight: reservedPreviewWidth ? `${reservedPreviewWidth}px` : 0,
         }}
       >
-        <div className={`h-full ${messages.length > 0 ? 'overflow-y-auto' : 'overflow-hidden'}`}>
-          <div className={`min-h-full px-4 sm:px-6 ${messages.length === 0 ? '' : 'py-6 sm:py-8'}`}>
+        <div ref={setMessageScrollRoot} className={`h-full ${showThread ? 'overflow-y-auto' : 'overflow-hidden'}`}>
+          <div className={`min-h-full px-4 sm:px-6 ${!showThread ? '' : 'py-6 sm:py-8'}`}>
             <div className="mx-auto w-full max-w-4xl">
-              {messages.length === 0 ? (
+              {!showThread ? (
                 <div
                   className="fixed inset-x-0 grid place-items-center px-4 sm:px-6"
                   style={{
@@ -2275,15 +3640,81 @@ export default function ChatPage() {
                       </h2>
                     </div>
 
+                    {starterPrompts.length > 0 && (
+                      <div className="relative space-y-3">
+                        <div className="grid gap-2 sm:grid-cols-2">
+                          {starterPrompts.map((template) => (
+                            <button
+                              key={template.id}
+                              type="button"
+                              onClick={() => pickPromptTemplate(template)}
+                              className="rounded-xl border border-border/60 bg-secondary/40 px-4 py-3 text-left transition-colors hover:bg-secondary"
+                            >
+                              <span className="block truncate text-sm font-medium">{template.title}</span>
+                              <span className="block text-[11px] text-muted-foreground">{template.category}</span>
+                            </button>
+                          ))}
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => setIsPromptLibraryOpen(true)}
+                          className="inline-flex items-center gap-1.5 text-xs text-muted-foreground transition-colors hover:text-foreground"
+                        >
+                          <BookText className="h-3.5 w-3.5" />
+                          Browse the prompt library
+                        </button>
+                      </div>
+                    )}
+
 
                   </div>
                 </div>
               ) : (
                 <div className="relative w-full space-y-6">
-                  <MessageList
-                    messages={messages}
-                    messageOptions={messageOptions}
-                  />
+                  {isFindOpen && hasMessages && (
+                    <ConversationFindBar
+                      query={findQuery}
+                      onQueryChange={(query) => {
+                        setFindQuery(query)
+                        setFindAnchorId(null)
+                      }}
+                      onClose={closeFind}
+                      anchorMessageId={findAnchorId}
+                      inputRef={findInputRef}
+                      className="fixed z-30"
+                      style={{
+                        top: layoutHeights.header + 12,
+                        right: reservedPreviewWidth + 16,
+                      }}
+                    />
+                  )}
+                  <ScrollRootProvider value={messageScrollRoot}>
+                    <ConversationMessageList
+                      messageOptions={messageOptions}
+                    />
+                  </ScrollRootProvider>
+                  {comparison && (
+                    <ModelComparison
+                      key={comparison.id}
+                      request={comparison}
+                      token={token}
+                      includeYouTube={includeYouTube}
+                      includeImageSearch={includeImageSearch}
+                      customInstructions={customInstructionsOption(customInstructions, isInstructionsEnabled)}
+                      systemPrompt={activePersona?.systemPrompt || undefined}
+                      signal={abortControllerRef.current?.signal}
+                      onSettled={handleComparisonSettled}
+                      onKeep={handleKeepComparison}
+                      onDiscard={handleDiscardComparison}
+                    />
+                  )}
+                  {suggestedTags && suggestedTags.conversationId === currentConversationId && !isGenerating && (
+                    <SuggestedTags
+                      tags={suggestedTags.tags}
+                      onAdd={(tag) => addSuggestedTag(suggestedTags.conversationId, tag)}
+                      onDismiss={() => setSuggestedTags(null)}
+                    />
+                  )}
                   {suggestions.length > 0 && !isGenerating && (
                     <div className="flex flex-wrap gap-2 pb-2">
                       {suggestions.map((s, i) => (
@@ -2320,6 +3751,7 @@ export default function ChatPage() {
         <div className="relative mx-auto max-w-4xl px-4 py-4 sm:px-6 pointer-events-auto">
           <ChatForm
             isPending={isGenerating}
+            attachFiles={sharedFiles}
             handleSubmit={handleSubmit}
           >
             {({ files, setFiles }) => (
@@ -2327,7 +3759,7 @@ export default function ChatPage() {
                 {showSuggestions && filteredSuggestions.length > 0 && (
                   <SuggestionDropdown
                     suggestions={filteredSuggestions}
-                    onSelect={handleSuggestionSelect}
+                    onSelect={pickPromptTemplate}
                     inputValue={input}
                     className="w-full"
                   />
@@ -2349,19 +3781,27 @@ export default function ChatPage() {
                   setFiles={setFiles}
                   includeYouTube={includeYouTube}
                   onToggleYouTube={(next: boolean) => {
-                    setIncludeYouTube(next)
+                    updateChatSettings({ includeYouTube: next })
                     localStorage.setItem('luna_yt', next ? '1' : '0')
                   }}
                   includeImageSearch={includeImageSearch}
                   onToggleImageSearch={(next: boolean) => {
-                    setIncludeImageSearch(next)
+                    updateChatSettings({ includeImageSearch: next })
                     localStorage.setItem('luna_img', next ? '1' : '0')
                   }}
+                  includeCustomInstructions={isInstructionsEnabled}
+                  onToggleCustomInstructions={hasCustomInstructions(customInstructions) ? handleToggleInstructions : undefined}
+                  personas={personas}
+                  selectedPersonaId={activePersona?.id ?? null}
+                  onPersonaChange={handlePersonaChange}
+                  onManagePersonas={() => setIsPersonaDialogOpen(true)}
+                  onOpenPromptLibrary={() => setIsPromptLibraryOpen(true)}
+                  slashCommands={SLASH_COMMANDS}
+                  onRunSlashCommand={(command) => void runSlashCommand({ command, argument: '' })}
                   selectedModel={selectedModel}
-                  onModelChange={(model) => {
-                    setSelectedModel(model)
-                    localStorage.setItem('luna_model', model)
-                  }}
+                  onModelChange={changeModel}
+                  compareModels={compareModels}
+                  onCompareModelsChange={changeCompareModels}
                 />
               </div>
             )}
@@ -2382,6 +3822,69 @@ export default function ChatPage() {
         userEmail={displayEmail}
         userId={user ? user.email : null}
       />
+      <ImportConversationsDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        token={token}
+        onImported={loadConversations}
+      />
+      <TrashDialog
+        open={isTrashOpen}
+        onOpenChange={setIsTrashOpen}
+        token={token}
+        onRestored={() => void loadConversations()}
+      />
+      <PersonaDialog
+        open={isPersonaDialogOpen}
+        onOpenChange={setIsPersonaDialogOpen}
+        personas={personas}
+        defaults={{ model: selectedModel, includeYouTube, includeImageSearch }}
+        onSave={handleSavePersona}
+        onDelete={handleDeletePersona}
+      />
+      <PromptLibraryDialog
+        open={isPromptLibraryOpen}
+        onOpenChange={setIsPromptLibraryOpen}
+        templates={promptTemplates}
+        onPick={pickPromptTemplate}
+        onSave={savePromptTemplate}
+        onDelete={(templateId) => void deletePromptTemplate(templateId)}
+      />
+      <CommandPalette
+        open={isPaletteOpen}
+        onOpenChange={setIsPaletteOpen}
+        conversations={conversations}
+        currentConversationId={currentConversationId}
+        templates={promptTemplates}
+        actions={paletteActions}
+        onSelectConversation={(conversationId) => void handleConversationSelect(conversationId)}
+        onPickTemplate={pickPromptTemplate}
+      />
+      <KeyboardShortcutsDialog
+        open={isShortcutHelpOpen}
+        onOpenChange={setIsShortcutHelpOpen}
+        bindings={shortcutBindings}
+        onCustomize={openSettings}
+      />
+      <PromptTemplateFillDialog
+        template={fillingTemplate}
+        onClose={() => setFillingTemplate(null)}
+        onInsert={(text) => {
+          setFillingTemplate(null)
+          insertPrompt(text)
+        }}
+      />
+      <ConversationTagsDialog
+        open={tagEditor !== null}
+        onOpenChange={(open) => !open && setTagEditor(null)}
+        title={tagEditor?.mode === 'add' ? `Tag ${tagEditor.conversationIds.length} chats` : 'Edit tags'}
+        description={tagEditor?.mode === 'add' ? 'These tags are added to every selected chat.' : undefined}
+        initialTags={tagEditor?.mode === 'replace'
+          ? conversations.find((c) => c.id === tagEditor.conversationIds[0])?.tags ?? []
+          : []}
+        knownTags={knownTags}
+        onSave={(tags) => void handleSaveTags(tags)}
+      />
       <LinkPreviewPane
         open={isLinkPreviewOpen}
         url={previewUrl}
@@ -2393,3 +3896,11 @@ export default function ChatPage() {
     </div>
   )
 }
+
+export default function ChatPage() {
+  return (
+    <ConversationStoreProvider>
+      <ChatWorkspace />
+    </ConversationStoreProvider>
+  )
+}
@@ -1,4 +1,4 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono, Playfair_Display, Silkscreen } from "next/font/google";
 import "./globals.css";
 import { ThemeProvider } from "@/components/ui/theme-provider";
@@ -6,6 +6,7 @@ import { AuthProvider } from "@/contexts/auth-context";
 import { Toaster } from "@/components/ui/sonner";
 import { Analytics } from "@vercel/analytics/next";
 import { AnimationProvider } from "@/components/ui/animation-provider";
+import { ServiceWorkerRegistration } from "@/components/ui/service-worker-registration";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -32,6 +33,20 @@ const silkscreen = Silkscreen({
 export const metadata: Metadata = {
   title: "Luna AI",
   description: "Generated by create next app",
+  applicationName: "Luna AI",
+  appleWebApp: {
+    capable: true,
+    title: "Luna",
+    statusBarStyle: "black-translucent",
+  },
+  icons: {
+    apple: "/logo.png",
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#17171a",
+  viewportFit: "cover",
 };
 
 export default function RootLayout({
@@ -60,6 +75,7 @@ export default function RootLayout({
                 {children}
                 <Toaster position="top-center" richColors />
                 <Analytics />
+                <ServiceWorkerRegistration />
               </AuthProvider>
             </div>
           </AnimationProvider>
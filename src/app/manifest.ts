@@ -0,0 +1,37 @@
+import type { MetadataRoute } from "next"
+
+// Served at /manifest.webmanifest. The share target is handled by the service worker (public/sw.js),
+// with src/app/share-target/route.ts as the fallback when no worker is running yet.
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    id: "/chat",
+    name: "Luna AI",
+    short_name: "Luna",
+    description: "Chat with Luna AI",
+    start_url: "/chat",
+    scope: "/",
+    display: "standalone",
+    background_color: "#17171a",
+    theme_color: "#17171a",
+    icons: [
+      { src: "/logo.png", sizes: "500x500", type: "image/png", purpose: "any" },
+      { src: "/logo.png", sizes: "500x500", type: "image/png", purpose: "maskable" },
+    ],
+    share_target: {
+      action: "/share-target",
+      method: "POST",
+      enctype: "multipart/form-data",
+      params: {
+        title: "title",
+        text: "text",
+        url: "url",
+        files: [
+          {
+            name: "files",
+            accept: ["image/*", "application/pdf", "text/*", ".md", ".csv", ".json"],
+          },
+        ],
+      },
+    },
+  }
+}
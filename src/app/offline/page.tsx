@@ -0,0 +1,27 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { WifiOff } from "lucide-react"
+
+export const metadata: Metadata = {
+  title: "Offline · Luna AI",
+  robots: { index: false },
+}
+
+// Served by the service worker for pages that were never cached while offline
+export default function OfflinePage() {
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center gap-4 px-6 text-center">
+      <WifiOff className="h-10 w-10 text-muted-foreground" />
+      <div className="space-y-1">
+        <h1 className="text-lg font-semibold">You&apos;re offline</h1>
+        <p className="max-w-sm text-sm text-muted-foreground">
+          This page is not available without a connection. Conversations you have opened before are
+          still available in the chat, and new messages are sent once you are back online.
+        </p>
+      </div>
+      <Link href="/chat" className="text-sm font-medium text-primary hover:underline">
+        Open chat
+      </Link>
+    </div>
+  )
+}
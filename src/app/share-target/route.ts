@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+
+// Reached only when the service worker has not taken over yet (public/sw.js answers this POST
+// itself and keeps shared files). Files cannot be handed over through a redirect, so only the
+// text fields are passed on to the composer.
+export async function POST(request: Request) {
+  const params = new URLSearchParams();
+
+  try {
+    const formData = await request.formData();
+    for (const field of ['title', 'text', 'url']) {
+      const value = formData.get(field);
+      if (typeof value === 'string' && value.trim()) params.set(field, value);
+    }
+  } catch (error) {
+    console.error('Failed to read shared content', error);
+  }
+
+  const query = params.toString();
+  return NextResponse.redirect(new URL(query ? `/chat?${query}` : '/chat', request.url), 303);
+}
@@ -0,0 +1,15 @@
+import type { Metadata } from "next"
+
+import { SharedConversationView } from "@/components/chat/shared-conversation"
+
+export const metadata: Metadata = {
+  title: "Shared conversation · Luna AI",
+  description: "A read-only conversation shared from Luna AI",
+  robots: { index: false },
+}
+
+// Public on purpose: unlike /chat this route is not wrapped in ProtectedRoute.
+export default async function SharePage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  return <SharedConversationView shareId={id} />
+}
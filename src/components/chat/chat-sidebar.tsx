@@ -8,10 +8,8 @@ import {
   SidebarGroupContent,
   SidebarGroupLabel,
   SidebarHeader,
-  SidebarMenu,
   SidebarMenuAction,
   SidebarMenuButton,
-  SidebarMenuItem,
   SidebarMenuSkeleton,
   SidebarSeparator,
   SidebarTrigger,
@@ -19,13 +17,11 @@ import {
 import { Button } from "@/components/ui/button"
 import { ThemeToggle } from "@/components/ui/theme-toggle"
 import { History, LogOut, Plus, RotateCcw, Sparkles, Trash2 } from "lucide-react"
+import { ConversationActionsMenu, ConversationHistorySections } from "@/components/chat/conversation-history-sections"
+import { ConversationTagList } from "@/components/chat/conversation-tags"
+import type { ConversationFolder, ConversationPatch, ConversationSummary } from "@/lib/conversation-history"
 
-export type ChatSidebarConversation = {
-  id: string
-  title: string
-  updated_at: string | null
-  created_at: string | null
-}
+export type ChatSidebarConversation = ConversationSummary
 
 export type ChatSidebarProps = {
   userName?: string | null
@@ -40,6 +36,11 @@ export type ChatSidebarProps = {
   onSelectConversation: (id: string) => void
   onDeleteConversation: (id: string, event: React.MouseEvent<HTMLButtonElement>) => void
   loadingConversationId: string | null
+  folders?: ConversationFolder[]
+  onPatchConversation?: (id: string, patch: ConversationPatch) => void
+  onCreateFolder?: (name: string) => void
+  onRenameFolder?: (folderId: string, name: string) => void
+  onDeleteFolder?: (folderId: string) => void
 }
 
 export function ChatSidebar({
@@ -55,11 +56,64 @@ export function ChatSidebar({
   onSelectConversation,
   onDeleteConversation,
   loadingConversationId,
+  folders = [],
+  onPatchConversation,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder,
 }: ChatSidebarProps) {
   const userInitial = React.useMemo(() => {
     return (userEmail || userName)?.slice(0, 1)?.toUpperCase() ?? "U"
   }, [userEmail, userName])
 
+  const renderConversation = (conversation: ChatSidebarConversation) => {
+    const timestamp = formatDate(
+      conversation.updated_at ?? conversation.created_at ?? undefined
+    )
+    const isActive = currentConversationId === conversation.id
+
+    return (
+      <>
+        <SidebarMenuButton
+          onClick={() => onSelectConversation(conversation.id)}
+          isActive={isActive}
+          tooltip={conversation.title}
+          className={onPatchConversation ? "items-start gap-2 pr-14 text-left" : "items-start gap-2 text-left"}
+        >
+          <div className="flex flex-1 flex-col overflow-hidden">
+            <span className="truncate text-sm font-medium">
+              {conversation.title || `Chat ${conversation.id.slice(0, 6)}`}
+            </span>
+            {timestamp && (
+              <span className="text-[11px] text-muted-foreground">
+                {timestamp}
+              </span>
+            )}
+            {loadingConversationId === conversation.id && (
+              <span className="text-[11px] text-primary">Loading…</span>
+            )}
+            <ConversationTagList tags={conversation.tags} className="mt-0.5" />
+          </div>
+        </SidebarMenuButton>
+        {onPatchConversation && (
+          <ConversationActionsMenu
+            conversation={conversation}
+            folders={folders}
+            onPatch={onPatchConversation}
+            className="absolute right-7 top-1.5"
+          />
+        )}
+        <SidebarMenuAction
+          aria-label="Delete conversation"
+          title="Delete conversation"
+          onClick={(event) => onDeleteConversation(conversation.id, event)}
+        >
+          <Trash2 className="h-4 w-4" />
+        </SidebarMenuAction>
+      </>
+    )
+  }
+
   return (
     <>
       <SidebarHeader className="border-b border-border/40 px-3 py-4">
@@ -135,46 +189,16 @@ export function ChatSidebar({
                 No conversations yet.
               </div>
             ) : (
-              <SidebarMenu>
-                {conversations.map((conversation) => {
-                  const timestamp = formatDate(
-                    conversation.updated_at ?? conversation.created_at ?? undefined
-                  )
-                  const isActive = currentConversationId === conversation.id
-
-                  return (
-                    <SidebarMenuItem key={conversation.id}>
-                      <SidebarMenuButton
-                        onClick={() => onSelectConversation(conversation.id)}
-                        isActive={isActive}
-                        tooltip={conversation.title}
-                        className="items-start gap-2 text-left"
-                      >
-                        <div className="flex flex-1 flex-col overflow-hidden">
-                          <span className="truncate text-sm font-medium">
-                            {conversation.title || `Chat ${conversation.id.slice(0, 6)}`}
-                          </span>
-                          {timestamp && (
-                            <span className="text-[11px] text-muted-foreground">
-                              {timestamp}
-                            </span>
-                          )}
-                          {loadingConversationId === conversation.id && (
-                            <span className="text-[11px] text-primary">Loading…</span>
-                          )}
-                        </div>
-                      </SidebarMenuButton>
-                      <SidebarMenuAction
-                        aria-label="Delete conversation"
-                        title="Delete conversation"
-                        onClick={(event) => onDeleteConversation(conversation.id, event)}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </SidebarMenuAction>
-                    </SidebarMenuItem>
-                  )
-                })}
-              </SidebarMenu>
+              <ConversationHistorySections
+                conversations={conversations}
+                folders={folders}
+                renderConversation={renderConversation}
+                onMoveConversation={(id, folderId) => onPatchConversation?.(id, { action: "move", folderId })}
+                onCreateFolder={onCreateFolder}
+                onRenameFolder={onRenameFolder}
+                onDeleteFolder={onDeleteFolder}
+                itemClassName="group/menu-item relative"
+              />
             )}
           </SidebarGroupContent>
         </SidebarGroup>
@@ -0,0 +1,202 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import { useTheme } from "next-themes"
+import { BarChart2, BookText, Clock, MessageCircle, Moon, type LucideIcon } from "lucide-react"
+
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command"
+import type { ConversationSummary } from "@/lib/conversation-history"
+import { fuzzyFind, readRecentPaletteItems, rememberPaletteItem, type RecentPaletteItem } from "@/lib/command-palette"
+import { searchPromptTemplates, type PromptTemplate } from "@/lib/prompt-templates"
+
+export interface PaletteAction {
+  id: string
+  label: string
+  icon: LucideIcon
+  // Extra words the action can be found by
+  keywords?: string[]
+  shortcut?: string
+  disabled?: boolean
+  run: () => void
+}
+
+type CommandPaletteProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  conversations: ConversationSummary[]
+  currentConversationId: string | null
+  templates: PromptTemplate[]
+  actions: PaletteAction[]
+  onSelectConversation: (conversationId: string) => void
+  onPickTemplate: (template: PromptTemplate) => void
+}
+
+type RecentEntry =
+  | { kind: "conversation"; conversation: ConversationSummary }
+  | { kind: "action"; action: PaletteAction }
+  | { kind: "template"; template: PromptTemplate }
+
+const ACTION_KEYS = ["label", "keywords"]
+const CONVERSATION_KEYS = ["title", "tags"]
+
+export function CommandPalette({
+  open,
+  onOpenChange,
+  conversations,
+  currentConversationId,
+  templates,
+  actions,
+  onSelectConversation,
+  onPickTemplate,
+}: CommandPaletteProps) {
+  const router = useRouter()
+  const { resolvedTheme, setTheme } = useTheme()
+  const [query, setQuery] = useState("")
+  const [recent, setRecent] = useState<RecentPaletteItem[]>([])
+
+  useEffect(() => {
+    if (open) {
+      setRecent(readRecentPaletteItems())
+    } else {
+      setQuery("")
+    }
+  }, [open])
+
+  // Actions that do not depend on the open chat live here rather than in the chat page
+  const allActions = useMemo<PaletteAction[]>(() => [
+    ...actions,
+    {
+      id: "toggle-theme",
+      label: resolvedTheme === "dark" ? "Switch to light theme" : "Switch to dark theme",
+      icon: Moon,
+      keywords: ["theme", "dark", "light", "appearance"],
+      run: () => setTheme(resolvedTheme === "dark" ? "light" : "dark"),
+    },
+    {
+      id: "open-dashboard",
+      label: "Open dashboard",
+      icon: BarChart2,
+      keywords: ["stats", "usage"],
+      run: () => router.push("/dashboard"),
+    },
+  ], [actions, resolvedTheme, router, setTheme])
+
+  const matches = useMemo(() => ({
+    actions: fuzzyFind(allActions, query, ACTION_KEYS, query ? 6 : allActions.length),
+    conversations: fuzzyFind(conversations, query, CONVERSATION_KEYS, query ? 8 : 5),
+    templates: searchPromptTemplates(templates, query).slice(0, query ? 5 : 3),
+  }), [allActions, conversations, query, templates])
+
+  // Recent items that still exist, shown only before anything is typed
+  const recentItems = useMemo(() => {
+    if (query) return []
+    return recent.flatMap((item): RecentEntry[] => {
+      if (item.kind === "conversation") {
+        const conversation = conversations.find((candidate) => candidate.id === item.id)
+        return conversation ? [{ kind: "conversation", conversation }] : []
+      }
+      if (item.kind === "action") {
+        const action = allActions.find((candidate) => candidate.id === item.id)
+        return action ? [{ kind: "action", action }] : []
+      }
+      const template = templates.find((candidate) => candidate.id === item.id)
+      return template ? [{ kind: "template", template }] : []
+    })
+  }, [allActions, conversations, query, recent, templates])
+
+  const select = (item: RecentPaletteItem, run: () => void) => {
+    rememberPaletteItem(item)
+    onOpenChange(false)
+    run()
+  }
+
+  const renderAction = (action: PaletteAction, group: string) => {
+    const Icon = action.icon
+    return (
+      <CommandItem
+        key={`${group}:${action.id}`}
+        value={`${group}:action:${action.id}`}
+        disabled={action.disabled}
+        onSelect={() => select({ kind: "action", id: action.id }, action.run)}
+      >
+        <Icon />
+        <span className="truncate">{action.label}</span>
+        {action.shortcut && <CommandShortcut>{action.shortcut}</CommandShortcut>}
+      </CommandItem>
+    )
+  }
+
+  const renderConversation = (conversation: ConversationSummary, group: string) => (
+    <CommandItem
+      key={`${group}:${conversation.id}`}
+      value={`${group}:conversation:${conversation.id}`}
+      onSelect={() => select({ kind: "conversation", id: conversation.id }, () => onSelectConversation(conversation.id))}
+    >
+      <MessageCircle />
+      <span className="truncate">{conversation.title || "Untitled chat"}</span>
+      {conversation.id === currentConversationId && <CommandShortcut className="tracking-normal">Open</CommandShortcut>}
+    </CommandItem>
+  )
+
+  const renderTemplate = (template: PromptTemplate, group: string) => (
+    <CommandItem
+      key={`${group}:${template.id}`}
+      value={`${group}:template:${template.id}`}
+      onSelect={() => select({ kind: "template", id: template.id }, () => onPickTemplate(template))}
+    >
+      <BookText />
+      <span className="truncate">{template.title}</span>
+      <CommandShortcut className="tracking-normal">{template.category}</CommandShortcut>
+    </CommandItem>
+  )
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Command palette"
+      description="Jump to a chat, run an action or use a prompt template"
+      shouldFilter={false}
+      showCloseButton={false}
+      className="sm:max-w-xl"
+    >
+      <CommandInput value={query} onValueChange={setQuery} placeholder="Search chats, actions and templates…" />
+      <CommandList className="max-h-[min(60dvh,420px)]">
+        <CommandEmpty>Nothing matches.</CommandEmpty>
+        {recentItems.length > 0 && (
+          <CommandGroup heading={<span className="inline-flex items-center gap-1"><Clock className="size-3" />Recent</span>}>
+            {recentItems.map((item) => {
+              if (item.kind === "conversation") return renderConversation(item.conversation, "recent")
+              if (item.kind === "action") return renderAction(item.action, "recent")
+              return renderTemplate(item.template, "recent")
+            })}
+          </CommandGroup>
+        )}
+        {matches.actions.length > 0 && (
+          <CommandGroup heading="Actions">
+            {matches.actions.map((action) => renderAction(action, "actions"))}
+          </CommandGroup>
+        )}
+        {matches.conversations.length > 0 && (
+          <CommandGroup heading={query ? "Chats" : "Latest chats"}>
+            {matches.conversations.map((conversation) => renderConversation(conversation, "chats"))}
+          </CommandGroup>
+        )}
+        {matches.templates.length > 0 && (
+          <CommandGroup heading="Prompt templates">
+            {matches.templates.map((template) => renderTemplate(template, "templates"))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  )
+}
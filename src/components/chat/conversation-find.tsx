@@ -0,0 +1,173 @@
+"use client"
+
+import { useEffect, useMemo, useState, type CSSProperties, type RefObject } from "react"
+import { ChevronDown, ChevronUp, Search, X } from "lucide-react"
+
+import { messageElementId, scrollToMessage } from "@/components/ui/message-list"
+import { useConversationMessages } from "@/contexts/conversation-context"
+import { findMatches, splitHighlights } from "@/lib/conversation-search"
+import { cn } from "@/lib/utils"
+
+// Renders `text` with every occurrence of `query` marked, e.g. a search result snippet
+export function HighlightedText({ text, query, className }: { text: string; query: string; className?: string }) {
+  return (
+    <span className={className}>
+      {splitHighlights(text, query).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="luna-find-match">{segment.text}</mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </span>
+  )
+}
+
+const MARK_ATTEMPTS = 4
+const MARK_RETRY_DELAY = 150
+
+// Marks the `occurrence`-th highlight of a message as the active one, once the message has mounted
+function focusMatch(messageId: string, occurrence: number) {
+  document.querySelectorAll<HTMLElement>('.luna-find-match[data-active="true"]').forEach((mark) => {
+    delete mark.dataset.active
+  })
+
+  const marks = document.getElementById(messageElementId(messageId))?.querySelectorAll<HTMLElement>("mark[data-find-match]")
+  if (!marks || marks.length === 0) return false
+
+  // The match count is estimated from the markdown source; fall back to the last mark if it overshoots
+  const target = marks[Math.min(occurrence, marks.length - 1)]
+  target.dataset.active = "true"
+  target.scrollIntoView({ block: "center" })
+  return true
+}
+
+type ConversationFindBarProps = {
+  query: string
+  onQueryChange: (query: string) => void
+  onClose: () => void
+  // Start on the first match in this message, e.g. when opened from a search result
+  anchorMessageId?: string | null
+  inputRef?: RefObject<HTMLInputElement | null>
+  className?: string
+  style?: CSSProperties
+}
+
+/**
+ * Ctrl+F for the open conversation. Matches are counted from the messages in the store, so
+ * stepping works even for messages that are currently windowed out of the list.
+ */
+export function ConversationFindBar({
+  query,
+  onQueryChange,
+  onClose,
+  anchorMessageId,
+  inputRef,
+  className,
+  style,
+}: ConversationFindBarProps) {
+  const messages = useConversationMessages()
+  const matches = useMemo(() => findMatches(messages, query), [messages, query])
+  const cursorKey = `${query}\u0000${anchorMessageId ?? ""}`
+  // Only stepping stores a position; until then the bar sits on the anchor
+  const [cursor, setCursor] = useState({ key: "", index: 0 })
+
+  // A new query (or anchor) starts over instead of keeping a stale position
+  const isAtAnchor = cursor.key !== cursorKey
+  const anchorIndex = anchorMessageId ? matches.findIndex((match) => match.messageId === anchorMessageId) : 0
+  const rawIndex = isAtAnchor ? anchorIndex : cursor.index
+  const activeIndex = matches.length > 0 && rawIndex >= 0 ? Math.min(rawIndex, matches.length - 1) : -1
+  const activeMatch = activeIndex >= 0 ? matches[activeIndex] : null
+  const activeMessageId = activeMatch?.messageId
+  const activeOccurrence = activeMatch?.occurrence ?? 0
+
+  useEffect(() => {
+    if (!activeMessageId) {
+      // The anchor matched on the server but not here (e.g. inside code); still show the message
+      if (isAtAnchor && anchorMessageId) scrollToMessage(anchorMessageId)
+      return
+    }
+    if (focusMatch(activeMessageId, activeOccurrence)) return
+
+    scrollToMessage(activeMessageId, "auto")
+    let attempts = 0
+    const timer = window.setInterval(() => {
+      attempts += 1
+      if (focusMatch(activeMessageId, activeOccurrence) || attempts >= MARK_ATTEMPTS) {
+        window.clearInterval(timer)
+      }
+    }, MARK_RETRY_DELAY)
+    return () => window.clearInterval(timer)
+  }, [activeMessageId, activeOccurrence, anchorMessageId, isAtAnchor, query])
+
+  const step = (delta: number) => {
+    if (matches.length === 0) return
+    const index = activeIndex < 0
+      ? (delta > 0 ? 0 : matches.length - 1)
+      : (activeIndex + delta + matches.length) % matches.length
+    setCursor({ key: cursorKey, index })
+  }
+
+  return (
+    <div
+      role="search"
+      className={cn(
+        "flex items-center gap-1 rounded-xl border border-border/60 bg-background/95 px-2 py-1.5 shadow-lg backdrop-blur",
+        className
+      )}
+      style={style}
+    >
+      <Search className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+      <input
+        ref={inputRef}
+        autoFocus
+        value={query}
+        onChange={(event) => onQueryChange(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") {
+            event.preventDefault()
+            step(event.shiftKey ? -1 : 1)
+          } else if (event.key === "Escape") {
+            event.preventDefault()
+            onClose()
+          }
+        }}
+        placeholder="Find in conversation"
+        aria-label="Find in conversation"
+        className="w-44 bg-transparent px-1 text-sm focus:outline-none"
+      />
+      <span className="min-w-12 text-right text-[11px] tabular-nums text-muted-foreground" aria-live="polite">
+        {query.trim() ? (matches.length > 0 ? `${activeIndex + 1}/${matches.length}` : "No results") : ""}
+      </span>
+      <button
+        type="button"
+        onClick={() => step(-1)}
+        disabled={matches.length === 0}
+        className="rounded-full p-1 text-muted-foreground transition-colors hover:bg-secondary hover:text-foreground disabled:opacity-40"
+        aria-label="Previous match"
+        title="Previous (Shift+Enter)"
+      >
+        <ChevronUp className="h-3.5 w-3.5" />
+      </button>
+      <button
+        type="button"
+        onClick={() => step(1)}
+        disabled={matches.length === 0}
+        className="rounded-full p-1 text-muted-foreground transition-colors hover:bg-secondary hover:text-foreground disabled:opacity-40"
+        aria-label="Next match"
+        title="Next (Enter)"
+      >
+        <ChevronDown className="h-3.5 w-3.5" />
+      </button>
+      <button
+        type="button"
+        onClick={onClose}
+        className="rounded-full p-1 text-muted-foreground transition-colors hover:bg-secondary hover:text-foreground"
+        aria-label="Close find"
+        title="Close (Esc)"
+      >
+        <X className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  )
+}
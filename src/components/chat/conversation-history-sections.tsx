@@ -0,0 +1,407 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState, type DragEvent, type ReactNode } from "react"
+import {
+  Archive,
+  ArchiveRestore,
+  ChevronRight,
+  Folder,
+  FolderInput,
+  Loader2,
+  FolderPlus,
+  MoreHorizontal,
+  Pencil,
+  Pin,
+  PinOff,
+  Tag,
+  Trash2,
+} from "lucide-react"
+
+import { cn } from "@/lib/utils"
+import { useInViewport } from "@/hooks/use-in-viewport"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  CONVERSATION_DRAG_TYPE,
+  groupConversationHistory,
+  groupConversationsByDate,
+  type ConversationFolder,
+  type ConversationPatch,
+  type ConversationSummary,
+} from "@/lib/conversation-history"
+
+type ConversationActionsMenuProps = {
+  conversation: ConversationSummary
+  folders: ConversationFolder[]
+  onPatch: (conversationId: string, patch: ConversationPatch) => void
+  onRename?: () => void
+  onEditTags?: () => void
+  onDelete?: () => void
+  className?: string
+}
+
+export function ConversationActionsMenu({
+  conversation,
+  folders,
+  onPatch,
+  onRename,
+  onEditTags,
+  onDelete,
+  className,
+}: ConversationActionsMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            "rounded-full p-1.5 text-muted-foreground transition-colors hover:bg-secondary hover:text-foreground",
+            className
+          )}
+          onClick={(event) => event.stopPropagation()}
+          aria-label="Conversation actions"
+          title="More actions"
+        >
+          <MoreHorizontal className="h-3.5 w-3.5" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-48">
+        {!conversation.archived && (
+          <DropdownMenuItem onSelect={() => onPatch(conversation.id, { action: "pin", pinned: !conversation.pinned })}>
+            {conversation.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+            {conversation.pinned ? "Unpin" : "Pin to top"}
+          </DropdownMenuItem>
+        )}
+        {onRename && (
+          <DropdownMenuItem onSelect={onRename}>
+            <Pencil className="h-4 w-4" />
+            Rename
+          </DropdownMenuItem>
+        )}
+        {onEditTags && (
+          <DropdownMenuItem onSelect={onEditTags}>
+            <Tag className="h-4 w-4" />
+            {conversation.tags.length > 0 ? "Edit tags" : "Add tags"}
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger className="gap-2">
+            <FolderInput className="h-4 w-4" />
+            Move to folder
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className="w-44">
+            <DropdownMenuItem
+              disabled={!conversation.folder_id}
+              onSelect={() => onPatch(conversation.id, { action: "move", folderId: null })}
+            >
+              No folder
+            </DropdownMenuItem>
+            {folders.length > 0 && <DropdownMenuSeparator />}
+            {folders.map((folder) => (
+              <DropdownMenuItem
+                key={folder.id}
+                disabled={conversation.folder_id === folder.id}
+                onSelect={() => onPatch(conversation.id, { action: "move", folderId: folder.id })}
+              >
+                <Folder className="h-4 w-4" />
+                <span className="truncate">{folder.name}</span>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        <DropdownMenuItem onSelect={() => onPatch(conversation.id, { action: "archive", archived: !conversation.archived })}>
+          {conversation.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+          {conversation.archived ? "Restore from archive" : "Archive"}
+        </DropdownMenuItem>
+        {onDelete && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem variant="destructive" onSelect={onDelete}>
+              <Trash2 className="h-4 w-4" />
+              Delete
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+type ConversationHistorySectionsProps = {
+  conversations: ConversationSummary[]
+  folders: ConversationFolder[]
+  renderConversation: (conversation: ConversationSummary) => ReactNode
+  onMoveConversation: (conversationId: string, folderId: string | null) => void
+  onCreateFolder?: (name: string) => void
+  onRenameFolder?: (folderId: string, name: string) => void
+  onDeleteFolder?: (folderId: string) => void
+  className?: string
+  itemClassName?: string
+}
+
+function hasConversationPayload(event: DragEvent) {
+  return Array.from(event.dataTransfer.types).includes(CONVERSATION_DRAG_TYPE)
+}
+
+const sectionLabelClasses = "px-2 pb-1 pt-3 text-[10px] font-semibold uppercase tracking-[0.14em] text-muted-foreground"
+
+/**
+ * Pinned chats, folders, loose chats grouped by date and the archive, in that order. Rows are rendered by the
+ * caller so each history surface keeps its own look; this component owns grouping and drag and drop.
+ */
+export function ConversationHistorySections({
+  conversations,
+  folders,
+  renderConversation,
+  onMoveConversation,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder,
+  className,
+  itemClassName,
+}: ConversationHistorySectionsProps) {
+  const groups = useMemo(() => groupConversationHistory(conversations, folders), [conversations, folders])
+  const unfiledByDate = useMemo(() => groupConversationsByDate(groups.unfiled), [groups.unfiled])
+  const [collapsedFolderIds, setCollapsedFolderIds] = useState<Set<string>>(new Set())
+  const [showArchived, setShowArchived] = useState(false)
+  // Drop target under the pointer: a folder id, "" for "no folder", or null
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [folderDraft, setFolderDraft] = useState<{ folderId: string | null; name: string } | null>(null)
+
+  const dropHandlers = (folderId: string | null) => ({
+    onDragOver: (event: DragEvent) => {
+      if (!hasConversationPayload(event)) return
+      event.preventDefault()
+      event.dataTransfer.dropEffect = "move"
+      setDropTarget(folderId ?? "")
+    },
+    onDragLeave: (event: DragEvent) => {
+      if (event.currentTarget.contains(event.relatedTarget as Node | null)) return
+      setDropTarget((current) => (current === (folderId ?? "") ? null : current))
+    },
+    onDrop: (event: DragEvent) => {
+      const conversationId = event.dataTransfer.getData(CONVERSATION_DRAG_TYPE)
+      setDropTarget(null)
+      if (!conversationId) return
+      event.preventDefault()
+      const conversation = conversations.find((item) => item.id === conversationId)
+      if (conversation && conversation.folder_id !== folderId) {
+        onMoveConversation(conversationId, folderId)
+      }
+    },
+  })
+
+  const renderItems = (items: ConversationSummary[]) => (
+    <ul className="space-y-1">
+      {items.map((conversation) => (
+        <li
+          key={conversation.id}
+          className={itemClassName}
+          draggable
+          onDragStart={(event) => {
+            event.dataTransfer.setData(CONVERSATION_DRAG_TYPE, conversation.id)
+            event.dataTransfer.effectAllowed = "move"
+          }}
+          onDragEnd={() => setDropTarget(null)}
+        >
+          {renderConversation(conversation)}
+        </li>
+      ))}
+    </ul>
+  )
+
+  const submitFolderDraft = () => {
+    if (!folderDraft) return
+    const name = folderDraft.name.trim()
+    if (name) {
+      if (folderDraft.folderId) onRenameFolder?.(folderDraft.folderId, name)
+      else onCreateFolder?.(name)
+    }
+    setFolderDraft(null)
+  }
+
+  const renderFolderInput = () => (
+    <form
+      className="px-2 py-1"
+      onSubmit={(event) => {
+        event.preventDefault()
+        submitFolderDraft()
+      }}
+    >
+      <input
+        autoFocus
+        value={folderDraft?.name ?? ""}
+        onChange={(event) => setFolderDraft((draft) => (draft ? { ...draft, name: event.target.value } : draft))}
+        onBlur={submitFolderDraft}
+        onKeyDown={(event) => {
+          if (event.key === "Escape") setFolderDraft(null)
+        }}
+        placeholder="Folder name"
+        className="w-full rounded-md border border-primary/40 bg-background px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-primary/50"
+      />
+    </form>
+  )
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      {groups.pinned.length > 0 && (
+        <section>
+          <p className={sectionLabelClasses}>Pinned</p>
+          {renderItems(groups.pinned)}
+        </section>
+      )}
+
+      {(groups.folders.length > 0 || onCreateFolder) && (
+        <section>
+          <div className="flex items-center justify-between">
+            <p className={sectionLabelClasses}>Folders</p>
+            {onCreateFolder && (
+              <button
+                type="button"
+                onClick={() => setFolderDraft({ folderId: null, name: "" })}
+                className="mr-1 mt-2 rounded-full p-1 text-muted-foreground transition-colors hover:bg-secondary hover:text-foreground"
+                title="New folder"
+                aria-label="New folder"
+              >
+                <FolderPlus className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+          {folderDraft && folderDraft.folderId === null && renderFolderInput()}
+          {groups.folders.map(({ folder, conversations: items }) => {
+            const isCollapsed = collapsedFolderIds.has(folder.id)
+            const isRenaming = folderDraft?.folderId === folder.id
+
+            return (
+              <div
+                key={folder.id}
+                {...dropHandlers(folder.id)}
+                className={cn(
+                  "rounded-lg transition-colors",
+                  dropTarget === folder.id && "bg-primary/10 ring-1 ring-primary/30"
+                )}
+              >
+                {isRenaming ? renderFolderInput() : (
+                  <div className="group/folder flex items-center gap-1 px-1">
+                    <button
+                      type="button"
+                      onClick={() => setCollapsedFolderIds((prev) => {
+                        const next = new Set(prev)
+                        if (next.has(folder.id)) next.delete(folder.id)
+                        else next.add(folder.id)
+                        return next
+                      })}
+                      className="flex min-w-0 flex-1 items-center gap-1.5 rounded-md px-1 py-1.5 text-left text-xs font-medium text-foreground/80 hover:text-foreground"
+                      aria-expanded={!isCollapsed}
+                    >
+                      <ChevronRight className={cn("h-3 w-3 shrink-0 transition-transform", !isCollapsed && "rotate-90")} />
+                      <Folder className="h-3.5 w-3.5 shrink-0" />
+                      <span className="truncate">{folder.name}</span>
+                      <span className="shrink-0 text-[10px] text-muted-foreground">{items.length}</span>
+                    </button>
+                    {(onRenameFolder || onDeleteFolder) && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <button
+                            type="button"
+                            className="rounded-full p-1 text-muted-foreground opacity-0 transition-opacity hover:bg-secondary hover:text-foreground group-hover/folder:opacity-100 data-[state=open]:opacity-100"
+                            aria-label={`Actions for ${folder.name}`}
+                          >
+                            <MoreHorizontal className="h-3.5 w-3.5" />
+                          </button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end" className="w-40">
+                          {onRenameFolder && (
+                            <DropdownMenuItem onSelect={() => setFolderDraft({ folderId: folder.id, name: folder.name })}>
+                              <Pencil className="h-4 w-4" />
+                              Rename
+                            </DropdownMenuItem>
+                          )}
+                          {onDeleteFolder && (
+                            <DropdownMenuItem variant="destructive" onSelect={() => onDeleteFolder(folder.id)}>
+                              <Trash2 className="h-4 w-4" />
+                              Delete folder
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </div>
+                )}
+                {!isCollapsed && (
+                  <div className="pl-3">
+                    {items.length > 0 ? renderItems(items) : (
+                      <p className="px-2 pb-2 text-[11px] text-muted-foreground">Drag chats here</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </section>
+      )}
+
+      <section
+        {...dropHandlers(null)}
+        className={cn("rounded-lg transition-colors", dropTarget === "" && "bg-primary/10 ring-1 ring-primary/30")}
+      >
+        {unfiledByDate.length > 0 ? unfiledByDate.map(({ label, conversations: items }) => (
+          <div key={label}>
+            <p className={sectionLabelClasses}>{label}</p>
+            {renderItems(items)}
+          </div>
+        )) : (
+          <p className="px-2 py-2 text-[11px] text-muted-foreground">No other chats</p>
+        )}
+      </section>
+
+      {groups.archived.length > 0 && (
+        <section>
+          <button
+            type="button"
+            onClick={() => setShowArchived((value) => !value)}
+            className={cn(sectionLabelClasses, "flex w-full items-center gap-1.5 hover:text-foreground")}
+            aria-expanded={showArchived}
+          >
+            <ChevronRight className={cn("h-3 w-3 transition-transform", showArchived && "rotate-90")} />
+            <Archive className="h-3 w-3" />
+            Archived ({groups.archived.length})
+          </button>
+          {showArchived && renderItems(groups.archived)}
+        </section>
+      )}
+    </div>
+  )
+}
+
+type HistoryLoadMoreProps = {
+  hasMore: boolean
+  isLoading: boolean
+  onLoadMore: () => void
+}
+
+// Sentinel at the end of the history list that fetches the next page as it scrolls into view
+export function HistoryLoadMore({ hasMore, isLoading, onLoadMore }: HistoryLoadMoreProps) {
+  const ref = useRef<HTMLDivElement>(null)
+  const inView = useInViewport(ref, { rootMargin: "200px 0px" })
+
+  useEffect(() => {
+    if (inView && hasMore && !isLoading) onLoadMore()
+  }, [hasMore, inView, isLoading, onLoadMore])
+
+  if (!hasMore) return null
+
+  return (
+    <div ref={ref} className="flex justify-center py-3 text-muted-foreground">
+      {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <span className="text-[11px]">Scroll for older chats</span>}
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+"use client"
+
+import { memo, useMemo } from "react"
+import type { MessageBranchInfo } from "@/components/ui/chat-message"
+import { MessageRow, WindowedMessages, type MessageOptions } from "@/components/ui/message-list"
+import {
+  useConversationMessage,
+  useConversationMessageIds,
+  useConversationStore,
+  useMessageSiblingIds,
+} from "@/contexts/conversation-context"
+
+interface ConversationMessageRowProps {
+  messageId: string
+  showTimeStamps: boolean
+  messageOptions?: MessageOptions
+}
+
+// Subscribes to a single message, so a streaming answer only re-renders its own row.
+const ConversationMessageRow = memo(function ConversationMessageRow({
+  messageId,
+  showTimeStamps,
+  messageOptions,
+}: ConversationMessageRowProps) {
+  const store = useConversationStore()
+  const message = useConversationMessage(messageId)
+  const siblingIds = useMessageSiblingIds(messageId)
+
+  const branch = useMemo<MessageBranchInfo | undefined>(() => {
+    if (siblingIds.length < 2) return undefined
+    return {
+      index: siblingIds.indexOf(messageId),
+      count: siblingIds.length,
+      onSelect: (index) => {
+        const siblingId = siblingIds[index]
+        if (siblingId) store.dispatch({ type: "selectBranch", messageId: siblingId })
+      },
+    }
+  }, [messageId, siblingIds, store])
+
+  if (!message) return null
+
+  return (
+    <MessageRow
+      message={message}
+      showTimeStamps={showTimeStamps}
+      messageOptions={messageOptions}
+      branch={branch}
+    />
+  )
+})
+
+interface ConversationMessageListProps {
+  showTimeStamps?: boolean
+  messageOptions?: MessageOptions
+}
+
+/**
+ * Store-backed counterpart of `MessageList` for pages wrapped in a `ConversationStoreProvider`.
+ */
+function ConversationMessageListComponent({
+  showTimeStamps = true,
+  messageOptions,
+}: ConversationMessageListProps) {
+  const messageIds = useConversationMessageIds()
+
+  return (
+    <WindowedMessages
+      messageIds={messageIds}
+      renderMessage={(messageId) => (
+        <ConversationMessageRow
+          messageId={messageId}
+          showTimeStamps={showTimeStamps}
+          messageOptions={messageOptions}
+        />
+      )}
+    />
+  )
+}
+
+export const ConversationMessageList = memo(ConversationMessageListComponent)
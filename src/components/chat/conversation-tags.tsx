@@ -0,0 +1,221 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Hash, Plus, X } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+import { MAX_TAG_LENGTH, normalizeTag, normalizeTags } from "@/lib/conversation-history"
+
+const chipClasses = "inline-flex max-w-full items-center gap-0.5 rounded-full border border-border/60 bg-secondary/70 px-1.5 py-px text-[10px] font-medium text-foreground/75"
+
+export function ConversationTagList({ tags, className }: { tags: string[]; className?: string }) {
+  if (tags.length === 0) return null
+
+  return (
+    <div className={cn("flex flex-wrap gap-1", className)}>
+      {tags.map((tag) => (
+        <span key={tag} className={chipClasses}>
+          <Hash className="h-2.5 w-2.5 shrink-0 text-muted-foreground" />
+          <span className="truncate">{tag}</span>
+        </span>
+      ))}
+    </div>
+  )
+}
+
+type TagFilterBarProps = {
+  tags: Array<{ tag: string; count: number }>
+  activeTag: string | null
+  onChange: (tag: string | null) => void
+  className?: string
+}
+
+export function TagFilterBar({ tags, activeTag, onChange, className }: TagFilterBarProps) {
+  if (tags.length === 0) return null
+
+  return (
+    <div className={cn("flex flex-wrap gap-1", className)} role="group" aria-label="Filter by tag">
+      {tags.map(({ tag, count }) => {
+        const isActive = activeTag === tag
+        return (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => onChange(isActive ? null : tag)}
+            aria-pressed={isActive}
+            className={cn(
+              "inline-flex items-center gap-0.5 rounded-full border px-2 py-0.5 text-[11px] transition-colors",
+              isActive
+                ? "border-primary/40 bg-primary/10 text-primary"
+                : "border-border/60 text-muted-foreground hover:bg-secondary hover:text-foreground"
+            )}
+          >
+            <Hash className="h-3 w-3" />
+            {tag}
+            <span className="text-[10px] opacity-70">{count}</span>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+type ConversationTagsDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  title: string
+  description?: string
+  initialTags: string[]
+  knownTags: string[]
+  onSave: (tags: string[]) => void
+}
+
+/**
+ * Edits a set of tags. The caller decides what saving means: replacing one conversation's tags
+ * or adding to the tags of every selected conversation.
+ */
+export function ConversationTagsDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  ...editorProps
+}: ConversationTagsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+        {/* Mounted per opening, so the draft always starts from `initialTags` */}
+        <TagsEditor {...editorProps} onCancel={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function TagsEditor({
+  initialTags,
+  knownTags,
+  onSave,
+  onCancel,
+}: Pick<ConversationTagsDialogProps, "initialTags" | "knownTags" | "onSave"> & { onCancel: () => void }) {
+  const [tags, setTags] = useState<string[]>(initialTags)
+  const [draft, setDraft] = useState("")
+
+  const addTags = (value: string) => {
+    const added = normalizeTags(value)
+    if (added.length > 0) setTags((prev) => normalizeTags([...prev, ...added]))
+    setDraft("")
+  }
+
+  const suggestions = useMemo(() => {
+    const query = normalizeTag(draft)
+    return knownTags
+      .filter((tag) => !tags.includes(tag) && (!query || tag.includes(query)))
+      .slice(0, 8)
+  }, [draft, knownTags, tags])
+
+  return (
+    <>
+      <div className="space-y-3">
+        <div className="flex min-h-10 flex-wrap items-center gap-1.5 rounded-xl border border-border/60 px-2 py-1.5 focus-within:ring-1 focus-within:ring-primary/40">
+          {tags.map((tag) => (
+            <span key={tag} className="inline-flex items-center gap-1 rounded-full bg-secondary px-2 py-0.5 text-xs">
+              #{tag}
+              <button
+                type="button"
+                onClick={() => setTags((prev) => prev.filter((item) => item !== tag))}
+                className="rounded-full text-muted-foreground hover:text-foreground"
+                aria-label={`Remove tag ${tag}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          <input
+            autoFocus
+            value={draft}
+            maxLength={MAX_TAG_LENGTH * 2}
+            onChange={(event) => {
+              const value = event.target.value
+              if (value.endsWith(",")) addTags(value)
+              else setDraft(value)
+            }}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") {
+                event.preventDefault()
+                if (draft.trim()) addTags(draft)
+                else onSave(tags)
+              } else if (event.key === "Backspace" && !draft && tags.length > 0) {
+                setTags((prev) => prev.slice(0, -1))
+              }
+            }}
+            placeholder={tags.length === 0 ? "Add a tag and press Enter" : ""}
+            className="min-w-24 flex-1 bg-transparent py-0.5 text-sm focus:outline-none"
+          />
+        </div>
+
+        {suggestions.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {suggestions.map((tag) => (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => addTags(tag)}
+                className="inline-flex items-center gap-0.5 rounded-full border border-dashed border-border/70 px-2 py-0.5 text-[11px] text-muted-foreground transition-colors hover:bg-secondary hover:text-foreground"
+              >
+                <Plus className="h-3 w-3" />
+                {tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button onClick={() => onSave(draft.trim() ? normalizeTags([...tags, draft]) : tags)}>Save tags</Button>
+      </DialogFooter>
+    </>
+  )
+}
+
+type SuggestedTagsProps = {
+  tags: string[]
+  onAdd: (tag: string) => void
+  onDismiss: () => void
+}
+
+// Tags proposed after the first answer of a new conversation; nothing is applied until clicked
+export function SuggestedTags({ tags, onAdd, onDismiss }: SuggestedTagsProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+      <span>Suggested tags</span>
+      {tags.map((tag) => (
+        <button
+          key={tag}
+          type="button"
+          onClick={() => onAdd(tag)}
+          className="inline-flex items-center gap-0.5 rounded-full border border-dashed border-border/70 px-2 py-0.5 text-[11px] transition-colors hover:bg-secondary hover:text-foreground"
+        >
+          <Plus className="h-3 w-3" />
+          {tag}
+        </button>
+      ))}
+      <button
+        type="button"
+        onClick={onDismiss}
+        className="rounded-full p-0.5 hover:bg-secondary hover:text-foreground"
+        aria-label="Dismiss tag suggestions"
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </div>
+  )
+}
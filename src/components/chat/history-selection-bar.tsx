@@ -0,0 +1,112 @@
+"use client"
+
+import { useState } from "react"
+import { Archive, Download, Loader2, Tag, Trash2, X } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { TRASH_RETENTION_DAYS } from "@/lib/conversation-trash"
+
+type HistorySelectionBarProps = {
+  selectedCount: number
+  totalCount: number
+  isBusy?: boolean
+  onSelectAll: () => void
+  onClearSelection: () => void
+  onTag: () => void
+  onArchive: () => void
+  onExport: () => void
+  onDelete: () => void
+  onExit: () => void
+}
+
+const actionClasses = "rounded-full p-1.5 text-muted-foreground transition-colors hover:bg-secondary hover:text-foreground disabled:pointer-events-none disabled:opacity-40"
+
+// Toolbar shown while the history is in multi-select mode. Bulk deletion asks for confirmation first.
+export function HistorySelectionBar({
+  selectedCount,
+  totalCount,
+  isBusy = false,
+  onSelectAll,
+  onClearSelection,
+  onTag,
+  onArchive,
+  onExport,
+  onDelete,
+  onExit,
+}: HistorySelectionBarProps) {
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false)
+  const hasSelection = selectedCount > 0 && !isBusy
+  const allSelected = totalCount > 0 && selectedCount === totalCount
+
+  return (
+    <>
+      <div className="flex items-center gap-1 rounded-xl border border-border/60 bg-secondary/40 px-2 py-1.5">
+        <button
+          type="button"
+          onClick={onExit}
+          className={actionClasses}
+          aria-label="Leave selection mode"
+          title="Done"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-xs font-medium">{selectedCount} selected</p>
+          <button
+            type="button"
+            onClick={allSelected ? onClearSelection : onSelectAll}
+            className="text-[10px] text-muted-foreground hover:text-foreground"
+          >
+            {allSelected ? "Select none" : "Select all"}
+          </button>
+        </div>
+        {isBusy && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
+        <button type="button" onClick={onTag} disabled={!hasSelection} className={actionClasses} title="Add tags" aria-label="Add tags to selected chats">
+          <Tag className="h-3.5 w-3.5" />
+        </button>
+        <button type="button" onClick={onArchive} disabled={!hasSelection} className={actionClasses} title="Archive" aria-label="Archive selected chats">
+          <Archive className="h-3.5 w-3.5" />
+        </button>
+        <button type="button" onClick={onExport} disabled={!hasSelection} className={actionClasses} title="Export as JSON" aria-label="Export selected chats">
+          <Download className="h-3.5 w-3.5" />
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsConfirmingDelete(true)}
+          disabled={!hasSelection}
+          className={`${actionClasses} hover:bg-destructive/10 hover:text-destructive`}
+          title="Delete"
+          aria-label="Delete selected chats"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      <Dialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Move {selectedCount} conversation{selectedCount === 1 ? "" : "s"} to the trash?</DialogTitle>
+            <DialogDescription>
+              You can restore them from the trash for {TRASH_RETENTION_DAYS} days.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setIsConfirmingDelete(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => {
+                setIsConfirmingDelete(false)
+                onDelete()
+              }}
+            >
+              Move to trash
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
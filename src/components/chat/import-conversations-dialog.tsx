@@ -0,0 +1,223 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { FileUp, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+import { importedConversationPayload } from "@/lib/conversation-export"
+import { IMPORT_SOURCE_LABELS, readConversationImport, type ExternalConversation } from "@/lib/conversation-importers"
+
+type ImportConversationsDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  token?: string | null
+  onImported?: () => void
+}
+
+function firstPrompt(conversation: ExternalConversation) {
+  return conversation.messages.find((message) => message.role === "user")?.content ?? ""
+}
+
+export function ImportConversationsDialog({ open, onOpenChange, token, onImported }: ImportConversationsDialogProps) {
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [conversations, setConversations] = useState<ExternalConversation[]>([])
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [isReading, setIsReading] = useState(false)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (!open) {
+      setFileName(null)
+      setConversations([])
+      setSelected(new Set())
+      setProgress(null)
+    }
+  }, [open])
+
+  const handleFile = useCallback(async (file: File) => {
+    setIsReading(true)
+    try {
+      const parsed = await readConversationImport(file)
+      setFileName(file.name)
+      setConversations(parsed)
+      setSelected(new Set(parsed.map((_, index) => index)))
+    } catch (error) {
+      console.error("Failed to read import file", error)
+      toast.error("Unable to read this file", {
+        description: error instanceof Error ? error.message : "Please choose a different export.",
+      })
+    } finally {
+      setIsReading(false)
+    }
+  }, [])
+
+  const toggle = useCallback((index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(index)) next.delete(index)
+      else next.add(index)
+      return next
+    })
+  }, [])
+
+  const handleImport = useCallback(async () => {
+    const chosen = [...selected].sort((a, b) => a - b)
+    if (chosen.length === 0) return
+
+    setProgress({ done: 0, total: chosen.length })
+    let failed = 0
+
+    // One at a time keeps the backend from being flooded by large archives
+    for (const index of chosen) {
+      const conversation = conversations[index]
+      try {
+        const response = await fetch("/api/proxy/conversations", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          },
+          body: JSON.stringify(importedConversationPayload(conversation)),
+        })
+        if (!response.ok) {
+          const errorText = await response.text()
+          throw new Error(errorText || "Failed to create conversation")
+        }
+        // Only what is still selected is imported again on a retry
+        setSelected((prev) => {
+          const next = new Set(prev)
+          next.delete(index)
+          return next
+        })
+      } catch (error) {
+        failed += 1
+        console.error(`Failed to import "${conversation.title}"`, error)
+      }
+      setProgress((prev) => (prev ? { ...prev, done: prev.done + 1 } : prev))
+    }
+
+    const imported = chosen.length - failed
+    if (imported > 0) onImported?.()
+
+    if (failed === 0) {
+      toast.success(`Imported ${imported} conversation${imported === 1 ? "" : "s"}`)
+      onOpenChange(false)
+    } else {
+      toast.error(`${failed} of ${chosen.length} conversations could not be imported`)
+      setProgress(null)
+    }
+  }, [conversations, onImported, onOpenChange, selected, token])
+
+  const isImporting = progress !== null
+  const allSelected = conversations.length > 0 && selected.size === conversations.length
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isImporting && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Import conversations</DialogTitle>
+          <DialogDescription>
+            Bring your history over from ChatGPT, Claude or any OpenAI-style message export. Zip archives work too.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.jsonl,.zip,application/json,application/zip"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0]
+            event.target.value = ""
+            if (file) void handleFile(file)
+          }}
+        />
+
+        {conversations.length === 0 ? (
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isReading}
+            className="flex h-36 w-full flex-col items-center justify-center gap-2 rounded-xl border border-dashed border-border/70 bg-secondary/40 text-sm text-muted-foreground transition-colors hover:bg-secondary/70"
+          >
+            {isReading ? <Loader2 className="h-5 w-5 animate-spin" /> : <FileUp className="h-5 w-5" />}
+            {isReading ? "Reading export…" : "Choose conversations.json or an export .zip"}
+          </button>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span className="truncate">
+                {fileName} · {conversations.length} conversation{conversations.length === 1 ? "" : "s"}
+              </span>
+              <button
+                type="button"
+                className="shrink-0 font-medium text-foreground/80 hover:text-foreground"
+                disabled={isImporting}
+                onClick={() => setSelected(allSelected ? new Set() : new Set(conversations.map((_, index) => index)))}
+              >
+                {allSelected ? "Select none" : "Select all"}
+              </button>
+            </div>
+            <ul className="max-h-80 space-y-1 overflow-y-auto rounded-xl border border-border/60 p-1">
+              {conversations.map((conversation, index) => (
+                <li key={index}>
+                  <label
+                    className={cn(
+                      "flex cursor-pointer items-start gap-3 rounded-lg px-3 py-2 transition-colors hover:bg-secondary/70",
+                      selected.has(index) && "bg-secondary/50"
+                    )}
+                  >
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={selected.has(index)}
+                      disabled={isImporting}
+                      onChange={() => toggle(index)}
+                    />
+                    <span className="min-w-0 flex-1">
+                      <span className="block truncate text-sm font-medium">{conversation.title}</span>
+                      <span className="block truncate text-xs text-muted-foreground">{firstPrompt(conversation)}</span>
+                      <span className="mt-0.5 block text-[11px] text-muted-foreground">
+                        {IMPORT_SOURCE_LABELS[conversation.source]} · {conversation.messages.length} messages
+                        {conversation.createdAt ? ` · ${conversation.createdAt.toLocaleDateString()}` : ""}
+                      </span>
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter>
+          {conversations.length > 0 && (
+            <Button
+              type="button"
+              variant="ghost"
+              disabled={isImporting}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Choose another file
+            </Button>
+          )}
+          <Button type="button" disabled={selected.size === 0 || isImporting} onClick={() => void handleImport()}>
+            {progress ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Importing {progress.done}/{progress.total}
+              </>
+            ) : selected.size > 0 ? (
+              `Import ${selected.size} conversation${selected.size === 1 ? "" : "s"}`
+            ) : (
+              "Import"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,72 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+import { SHORTCUTS, SHORTCUT_GROUPS, shortcutKeyLabels, type ShortcutBindings } from "@/lib/keyboard-shortcuts"
+
+export function ShortcutKeys({ keys, className }: { keys: string; className?: string }) {
+  if (!keys) return <span className={cn("text-xs text-muted-foreground", className)}>Off</span>
+
+  return (
+    <span className={cn("inline-flex items-center gap-1", className)}>
+      {shortcutKeyLabels(keys).map((label, index) => (
+        <kbd
+          key={index}
+          className="min-w-6 rounded-md border border-border/60 bg-secondary/60 px-1.5 py-0.5 text-center font-sans text-[11px] font-medium text-foreground"
+        >
+          {label}
+        </kbd>
+      ))}
+    </span>
+  )
+}
+
+type KeyboardShortcutsDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  bindings: ShortcutBindings
+  // Opens the settings, where shortcuts can be remapped
+  onCustomize: () => void
+}
+
+export function KeyboardShortcutsDialog({ open, onOpenChange, bindings, onCustomize }: KeyboardShortcutsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>Enter sends a message and Shift+Enter adds a new line.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid max-h-[60dvh] gap-6 overflow-y-auto pr-1 sm:grid-cols-2">
+          {SHORTCUT_GROUPS.map((group) => (
+            <section key={group}>
+              <h3 className="mb-2 text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">{group}</h3>
+              <ul className="space-y-1.5">
+                {SHORTCUTS.filter((shortcut) => shortcut.group === group).map((shortcut) => (
+                  <li key={shortcut.id} className="flex items-center justify-between gap-3 text-sm">
+                    <span>{shortcut.label}</span>
+                    <ShortcutKeys keys={bindings[shortcut.id]} className="flex-shrink-0" />
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            onClick={() => {
+              onOpenChange(false)
+              onCustomize()
+            }}
+          >
+            Customize shortcuts
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,318 @@
+"use client"
+
+import { useEffect, useReducer, useRef } from "react"
+import { Check, Clock, Loader2, Trophy, X } from "lucide-react"
+
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { MarkdownRenderer } from "@/components/ui/markdown-renderer"
+import { MODEL_OPTIONS } from "@/components/ui/message-input"
+import type { ImageResult, Message } from "@/components/ui/chat-message"
+import { ChatStreamError, streamChatWithResume } from "@/lib/chat-stream"
+import type { CustomInstructions } from "@/lib/custom-instructions"
+
+export interface ComparisonRequest {
+  id: string
+  prompt: string
+  models: string[]
+  conversationId: string | null
+  parentMessageId: string | null
+}
+
+export interface ComparisonResult {
+  model: string
+  // A stopped answer is cut short, so it can be neither kept nor the fastest
+  status: "streaming" | "done" | "stopped" | "error"
+  content: string
+  sources?: Message["sources"]
+  images?: ImageResult[]
+  videos?: Message["videos"]
+  // Label of the step the backend is currently working on
+  activity?: string
+  error?: string
+  // Time to the first text chunk and to the end of the stream, in milliseconds
+  firstTokenMs?: number
+  totalMs?: number
+}
+
+type ComparisonAction =
+  | { type: "start"; models: string[] }
+  | { type: "update"; model: string; patch: Partial<ComparisonResult> }
+  | { type: "appendText"; model: string; text: string; firstTokenMs: number }
+
+function comparisonReducer(state: ComparisonResult[], action: ComparisonAction): ComparisonResult[] {
+  switch (action.type) {
+    case "start":
+      return action.models.map((model) => ({ model, status: "streaming", content: "" }))
+    case "update":
+      return state.map((result) => (result.model === action.model ? { ...result, ...action.patch } : result))
+    case "appendText":
+      return state.map((result) =>
+        result.model === action.model
+          ? {
+            ...result,
+            content: result.content + action.text,
+            firstTokenMs: result.firstTokenMs ?? action.firstTokenMs,
+          }
+          : result
+      )
+    default:
+      return state
+  }
+}
+
+export function modelLabel(model: string) {
+  return MODEL_OPTIONS.find((option) => option.value === model)?.label ?? model
+}
+
+function countWords(text: string) {
+  const trimmed = text.trim()
+  return trimmed ? trimmed.split(/\s+/).length : 0
+}
+
+function formatSeconds(ms?: number) {
+  return typeof ms === "number" ? `${(ms / 1000).toFixed(1)}s` : "–"
+}
+
+interface ModelComparisonProps {
+  request: ComparisonRequest
+  token?: string | null
+  includeYouTube?: boolean
+  includeImageSearch?: boolean
+  // Sent as is; undefined when they are off for this conversation
+  customInstructions?: CustomInstructions
+  // Instructions of the conversation's preset
+  systemPrompt?: string
+  // Aborting it stops every column, e.g. from the input's stop button
+  signal?: AbortSignal
+  onSettled?: () => void
+  onKeep: (winner: ComparisonResult, results: ComparisonResult[]) => void
+  onDiscard: () => void
+}
+
+/**
+ * Streams one prompt to several models side by side, without saving any of the answers.
+ * The conversation only grows once the user keeps one of them.
+ */
+export function ModelComparison({
+  request,
+  token,
+  includeYouTube,
+  includeImageSearch,
+  customInstructions,
+  systemPrompt,
+  signal,
+  onSettled,
+  onKeep,
+  onDiscard,
+}: ModelComparisonProps) {
+  const [results, dispatch] = useReducer(
+    comparisonReducer,
+    request.models,
+    (models) => comparisonReducer([], { type: "start", models })
+  )
+
+  // Options are read once per request; changing tools mid-comparison should not restart it
+  const optionsRef = useRef({ token, includeYouTube, includeImageSearch, customInstructions, systemPrompt, signal, onSettled })
+  useEffect(() => {
+    optionsRef.current = { token, includeYouTube, includeImageSearch, customInstructions, systemPrompt, signal, onSettled }
+  })
+
+  useEffect(() => {
+    const { token, includeYouTube, includeImageSearch, customInstructions, systemPrompt, signal } = optionsRef.current
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    signal?.addEventListener("abort", abort, { once: true })
+    dispatch({ type: "start", models: request.models })
+
+    const runModel = async (model: string) => {
+      const startedAt = performance.now()
+      let pendingText = ""
+      let flushTimer: ReturnType<typeof setTimeout> | null = null
+
+      const flush = () => {
+        if (flushTimer) clearTimeout(flushTimer)
+        flushTimer = null
+        if (!pendingText) return
+        dispatch({ type: "appendText", model, text: pendingText, firstTokenMs: performance.now() - startedAt })
+        pendingText = ""
+      }
+
+      try {
+        const events = streamChatWithResume(
+          {
+            prompt: request.prompt,
+            conversationId: request.conversationId,
+            options: { includeYouTube, includeImageSearch, model, customInstructions, systemPrompt, persist: false },
+            streamId: `${request.id}-${model}`,
+            parentMessageId: request.parentMessageId,
+          },
+          { token, signal: controller.signal }
+        )
+
+        for await (const event of events) {
+          switch (event.type) {
+            case "message":
+              pendingText += event.text
+              if (!flushTimer) flushTimer = setTimeout(flush, 50)
+              break
+            case "status":
+              dispatch({ type: "update", model, patch: { activity: event.step.state === "running" ? event.step.label : undefined } })
+              break
+            case "sources":
+              dispatch({ type: "update", model, patch: { sources: event.sources } })
+              break
+            case "images":
+              dispatch({ type: "update", model, patch: { images: event.images } })
+              break
+            case "youtubeResults":
+              dispatch({ type: "update", model, patch: { videos: event.videos } })
+              break
+            case "error":
+              throw new ChatStreamError(event.error, "backend", { event: "error" })
+            default:
+              break
+          }
+        }
+
+        flush()
+        dispatch({ type: "update", model, patch: { status: "done", activity: undefined, totalMs: performance.now() - startedAt } })
+      } catch (error) {
+        flush()
+        if (controller.signal.aborted) {
+          dispatch({ type: "update", model, patch: { status: "stopped", activity: undefined, totalMs: performance.now() - startedAt } })
+          return
+        }
+        console.error(`Comparison stream for ${model} failed:`, error)
+        dispatch({
+          type: "update",
+          model,
+          patch: {
+            status: "error",
+            activity: undefined,
+            error: error instanceof Error ? error.message : "Something went wrong",
+            totalMs: performance.now() - startedAt,
+          },
+        })
+      }
+    }
+
+    void Promise.allSettled(request.models.map(runModel)).then(() => {
+      if (!controller.signal.aborted) optionsRef.current.onSettled?.()
+    })
+
+    return () => {
+      signal?.removeEventListener("abort", abort)
+      controller.abort()
+    }
+  }, [request])
+
+  const isStreaming = results.some((result) => result.status === "streaming")
+  const finished = results.filter((result) => result.status === "done" && result.content)
+  const fastest = finished.reduce<ComparisonResult | null>(
+    (best, result) => (best && (best.totalMs ?? Infinity) <= (result.totalMs ?? Infinity) ? best : result),
+    null
+  )
+
+  return (
+    <section className="space-y-4" aria-label="Model comparison">
+      <div className="flex justify-end">
+        <div className="max-w-[85%] rounded-2xl bg-secondary px-4 py-2.5 text-[13px] sm:text-sm">
+          {request.prompt}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          {isStreaming ? "Comparing answers…" : "Keep the answer you prefer. The others are discarded."}
+        </p>
+        <Button size="sm" variant="ghost" className="h-7 gap-1 text-xs" onClick={onDiscard}>
+          <X className="h-3.5 w-3.5" />
+          {isStreaming ? "Cancel" : "Discard all"}
+        </Button>
+      </div>
+
+      <div
+        className={cn(
+          "grid gap-3",
+          results.length >= 3 ? "lg:grid-cols-3" : "md:grid-cols-2"
+        )}
+      >
+        {results.map((result) => (
+          <article
+            key={result.model}
+            className="flex min-w-0 flex-col rounded-xl border border-border/60 bg-card/80 shadow-sm"
+          >
+            <header className="flex items-center justify-between gap-2 border-b border-border/50 px-3 py-2">
+              <div className="min-w-0">
+                <p className="flex items-center gap-1.5 text-sm font-semibold">
+                  {modelLabel(result.model)}
+                  {fastest?.model === result.model && finished.length > 1 && (
+                    <span className="rounded-full bg-emerald-500/15 px-1.5 py-0.5 text-[10px] font-medium text-emerald-600 dark:text-emerald-400">
+                      fastest
+                    </span>
+                  )}
+                </p>
+                <p className="truncate font-mono text-[10px] text-muted-foreground">{result.model}</p>
+              </div>
+              <dl className="flex shrink-0 items-center gap-3 text-[11px] text-muted-foreground">
+                <div className="flex items-center gap-1" title="Time to first token / total time">
+                  <dt>
+                    <Clock className="h-3 w-3" aria-hidden="true" />
+                    <span className="sr-only">Time to first token / total time</span>
+                  </dt>
+                  <dd className="tabular-nums">
+                    {formatSeconds(result.firstTokenMs)} / {formatSeconds(result.totalMs)}
+                  </dd>
+                </div>
+                <div title="Words / characters">
+                  <dt className="sr-only">Words / characters</dt>
+                  <dd className="tabular-nums">
+                    {countWords(result.content)}w · {result.content.length}c
+                  </dd>
+                </div>
+              </dl>
+            </header>
+
+            <div className="min-h-[8rem] flex-1 overflow-hidden px-3 py-3 text-[13px] leading-relaxed">
+              {result.status === "error" ? (
+                <p className="text-sm text-destructive">{result.error}</p>
+              ) : result.content ? (
+                <MarkdownRenderer>{result.content}</MarkdownRenderer>
+              ) : result.status === "stopped" ? (
+                <p className="text-xs text-muted-foreground">Stopped before the first token.</p>
+              ) : (
+                <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                  {result.activity ?? "Waiting for the first token…"}
+                </p>
+              )}
+            </div>
+
+            <footer className="flex items-center justify-between gap-2 border-t border-border/50 px-3 py-2">
+              <span className="text-[11px] text-muted-foreground">
+                {result.status === "streaming"
+                  ? result.activity ?? "Streaming…"
+                  : result.status === "stopped"
+                    ? "Stopped"
+                    : result.sources?.length
+                    ? `${result.sources.length} sources`
+                    : null}
+              </span>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 gap-1 text-xs"
+                disabled={result.status !== "done" || !result.content}
+                onClick={() => onKeep(result, results)}
+              >
+                {result.status === "done" ? <Trophy className="h-3.5 w-3.5" /> : <Check className="h-3.5 w-3.5" />}
+                Keep this answer
+              </Button>
+            </footer>
+          </article>
+        ))}
+      </div>
+    </section>
+  )
+}
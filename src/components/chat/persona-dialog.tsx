@@ -0,0 +1,172 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Image as ImageIcon, Pencil, Plus, Trash2, Youtube } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { MODEL_OPTIONS } from "@/components/ui/message-input"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { modelLabel } from "@/components/chat/model-comparison"
+import { PERSONA_PROMPT_MAX_LENGTH, type Persona } from "@/lib/personas"
+
+type PersonaDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  personas: Persona[]
+  // Settings a new preset starts from, usually the ones the open chat uses
+  defaults: Pick<Persona, "model" | "includeYouTube" | "includeImageSearch">
+  onSave: (persona: Persona) => void
+  onDelete: (personaId: string) => void
+}
+
+export function PersonaDialog({ open, onOpenChange, personas, defaults, onSave, onDelete }: PersonaDialogProps) {
+  // The preset being created or edited; null shows the list
+  const [draft, setDraft] = useState<Persona | null>(null)
+
+  useEffect(() => {
+    if (!open) setDraft(null)
+  }, [open])
+
+  const startNew = () => {
+    setDraft({ id: crypto.randomUUID(), name: "", systemPrompt: "", ...defaults })
+  }
+
+  const save = () => {
+    if (!draft || !draft.name.trim()) return
+    onSave({ ...draft, name: draft.name.trim(), systemPrompt: draft.systemPrompt.trim() })
+    setDraft(null)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{draft ? (personas.some((persona) => persona.id === draft.id) ? "Edit preset" : "New preset") : "Presets"}</DialogTitle>
+          <DialogDescription>
+            A preset bundles instructions with a model and tools. Chats remember the preset they use.
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="persona-name" className="mb-1.5 block text-xs font-medium text-muted-foreground">Name</label>
+              <Input
+                id="persona-name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. Writing coach"
+                maxLength={40}
+                className="rounded-xl"
+                autoFocus
+              />
+            </div>
+            <div>
+              <label htmlFor="persona-prompt" className="mb-1.5 block text-xs font-medium text-muted-foreground">Instructions</label>
+              <Textarea
+                id="persona-prompt"
+                value={draft.systemPrompt}
+                onChange={(e) => setDraft({ ...draft, systemPrompt: e.target.value })}
+                placeholder="How should Luna behave with this preset?"
+                maxLength={PERSONA_PROMPT_MAX_LENGTH}
+                className="min-h-28 rounded-xl text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="persona-model" className="mb-1.5 block text-xs font-medium text-muted-foreground">Model</label>
+              <select
+                id="persona-model"
+                value={draft.model}
+                onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+                className="h-9 w-full rounded-xl border border-input bg-transparent px-3 text-sm shadow-xs outline-none dark:bg-input/30 focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50"
+              >
+                {MODEL_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <label htmlFor="persona-youtube" className="flex items-center gap-2 font-medium">
+                <Youtube className="h-4 w-4" />
+                YouTube
+              </label>
+              <Switch
+                id="persona-youtube"
+                checked={draft.includeYouTube}
+                onCheckedChange={(checked: boolean) => setDraft({ ...draft, includeYouTube: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <label htmlFor="persona-images" className="flex items-center gap-2 font-medium">
+                <ImageIcon className="h-4 w-4" />
+                Web Images
+              </label>
+              <Switch
+                id="persona-images"
+                checked={draft.includeImageSearch}
+                onCheckedChange={(checked: boolean) => setDraft({ ...draft, includeImageSearch: checked })}
+              />
+            </div>
+          </div>
+        ) : (
+          <ul className="max-h-80 space-y-1 overflow-y-auto rounded-xl border border-border/60 p-1">
+            {personas.map((persona) => (
+              <li key={persona.id} className="flex items-center gap-2 rounded-lg px-3 py-2 hover:bg-secondary/50">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium">{persona.name}</p>
+                  <p className="text-[11px] text-muted-foreground">
+                    {[
+                      modelLabel(persona.model),
+                      persona.includeYouTube && "YouTube",
+                      persona.includeImageSearch && "images",
+                      persona.builtIn && "built in",
+                    ].filter(Boolean).join(" · ")}
+                  </p>
+                </div>
+                {!persona.builtIn && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => setDraft(persona)}
+                      className="rounded-full p-1.5 text-muted-foreground transition-colors hover:bg-secondary hover:text-foreground"
+                      title="Edit"
+                      aria-label={`Edit ${persona.name}`}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDelete(persona.id)}
+                      className="rounded-full p-1.5 text-muted-foreground transition-colors hover:bg-destructive/10 hover:text-destructive"
+                      title="Delete"
+                      aria-label={`Delete ${persona.name}`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <DialogFooter>
+          {draft ? (
+            <>
+              <Button variant="ghost" onClick={() => setDraft(null)}>Back</Button>
+              <Button onClick={save} disabled={!draft.name.trim()}>Save preset</Button>
+            </>
+          ) : (
+            <Button onClick={startNew}>
+              <Plus className="mr-1 h-4 w-4" />
+              New preset
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,257 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Loader2, Pencil, Plus, Trash2, Users } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { cn } from "@/lib/utils"
+import {
+  PROMPT_CATEGORIES,
+  PROMPT_TEMPLATE_MAX_LENGTH,
+  promptCategories,
+  searchPromptTemplates,
+  templateVariables,
+  type PromptTemplate,
+  type PromptTemplateDraft,
+} from "@/lib/prompt-templates"
+
+type ScopeFilter = "all" | "team" | "personal"
+
+type PromptLibraryDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  templates: PromptTemplate[]
+  onPick: (template: PromptTemplate) => void
+  onSave: (draft: PromptTemplateDraft, templateId?: string) => Promise<boolean>
+  onDelete: (templateId: string) => void
+}
+
+const SCOPE_FILTERS: Array<{ value: ScopeFilter; label: string }> = [
+  { value: "all", label: "All" },
+  { value: "team", label: "Team" },
+  { value: "personal", label: "Mine" },
+]
+
+const EMPTY_DRAFT: PromptTemplateDraft = { title: "", body: "", category: PROMPT_CATEGORIES[0], scope: "personal" }
+
+export function PromptLibraryDialog({ open, onOpenChange, templates, onPick, onSave, onDelete }: PromptLibraryDialogProps) {
+  const [query, setQuery] = useState("")
+  const [scope, setScope] = useState<ScopeFilter>("all")
+  const [category, setCategory] = useState<string | null>(null)
+  // The template being created (no id) or edited; null shows the library
+  const [editing, setEditing] = useState<{ id?: string; draft: PromptTemplateDraft } | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) return
+    setEditing(null)
+    setQuery("")
+    setCategory(null)
+  }, [open])
+
+  const categories = useMemo(() => promptCategories(templates), [templates])
+
+  const visible = useMemo(() => {
+    const inScope = templates.filter((template) =>
+      (scope === "all" || template.scope === scope) && (!category || template.category === category)
+    )
+    return searchPromptTemplates(inScope, query)
+  }, [category, query, scope, templates])
+
+  const save = async () => {
+    if (!editing) return
+    const { draft } = editing
+    if (!draft.title.trim() || !draft.body.trim()) return
+    setIsSaving(true)
+    const saved = await onSave({ ...draft, category: draft.category.trim() || "Other" }, editing.id)
+    setIsSaving(false)
+    if (saved) setEditing(null)
+  }
+
+  const variables = editing ? templateVariables(editing.draft.body) : []
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{editing ? (editing.id ? "Edit template" : "New template") : "Prompt library"}</DialogTitle>
+          <DialogDescription>
+            Reusable prompts for you and your team. Write <code className="rounded bg-secondary px-1">{"{{name}}"}</code> for the parts to fill in each time.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing ? (
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-[1fr_12rem]">
+              <div>
+                <label htmlFor="template-title" className="mb-1.5 block text-xs font-medium text-muted-foreground">Title</label>
+                <Input
+                  id="template-title"
+                  value={editing.draft.title}
+                  onChange={(e) => setEditing({ ...editing, draft: { ...editing.draft, title: e.target.value } })}
+                  placeholder="e.g. Weekly status update"
+                  maxLength={80}
+                  className="rounded-xl"
+                  autoFocus
+                />
+              </div>
+              <div>
+                <label htmlFor="template-category" className="mb-1.5 block text-xs font-medium text-muted-foreground">Category</label>
+                <Input
+                  id="template-category"
+                  list="template-categories"
+                  value={editing.draft.category}
+                  onChange={(e) => setEditing({ ...editing, draft: { ...editing.draft, category: e.target.value } })}
+                  maxLength={30}
+                  className="rounded-xl"
+                />
+                <datalist id="template-categories">
+                  {[...new Set([...PROMPT_CATEGORIES, ...categories])].map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="template-body" className="mb-1.5 block text-xs font-medium text-muted-foreground">Prompt</label>
+              <Textarea
+                id="template-body"
+                value={editing.draft.body}
+                onChange={(e) => setEditing({ ...editing, draft: { ...editing.draft, body: e.target.value } })}
+                placeholder="Summarize {{text}} for {{audience}}"
+                maxLength={PROMPT_TEMPLATE_MAX_LENGTH}
+                className="min-h-32 rounded-xl text-sm"
+              />
+              <p className="mt-1.5 text-[11px] text-muted-foreground">
+                {variables.length > 0 ? `Fill-in fields: ${variables.join(", ")}` : "No fill-in fields; the prompt is inserted as written."}
+              </p>
+            </div>
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <label htmlFor="template-team" className="flex items-center gap-2 font-medium">
+                <Users className="h-4 w-4" />
+                Share with my team
+              </label>
+              <Switch
+                id="template-team"
+                checked={editing.draft.scope === "team"}
+                onCheckedChange={(checked: boolean) =>
+                  setEditing({ ...editing, draft: { ...editing.draft, scope: checked ? "team" : "personal" } })
+                }
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search templates…"
+                className="rounded-xl sm:flex-1"
+                aria-label="Search templates"
+              />
+              <div className="flex rounded-xl border border-border/60 p-0.5">
+                {SCOPE_FILTERS.map((filter) => (
+                  <button
+                    key={filter.value}
+                    type="button"
+                    onClick={() => setScope(filter.value)}
+                    className={cn(
+                      "rounded-lg px-3 py-1 text-xs font-medium transition-colors",
+                      scope === filter.value ? "bg-secondary text-foreground" : "text-muted-foreground hover:text-foreground"
+                    )}
+                    aria-pressed={scope === filter.value}
+                  >
+                    {filter.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {categories.map((name) => (
+                <button
+                  key={name}
+                  type="button"
+                  onClick={() => setCategory(category === name ? null : name)}
+                  className={cn(
+                    "rounded-full border px-2.5 py-1 text-[11px] transition-colors",
+                    category === name
+                      ? "border-primary/60 bg-primary/10 text-foreground"
+                      : "border-border/60 text-muted-foreground hover:text-foreground"
+                  )}
+                  aria-pressed={category === name}
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+            <ul className="max-h-80 space-y-1 overflow-y-auto rounded-xl border border-border/60 p-1">
+              {visible.length === 0 && (
+                <li className="px-3 py-6 text-center text-sm text-muted-foreground">No templates match.</li>
+              )}
+              {visible.map((template) => (
+                <li key={template.id} className="group flex items-start gap-2 rounded-lg px-3 py-2 hover:bg-secondary/50">
+                  <button type="button" onClick={() => onPick(template)} className="min-w-0 flex-1 text-left">
+                    <p className="truncate text-sm font-medium">{template.title}</p>
+                    <p className="line-clamp-2 text-xs text-muted-foreground">{template.body}</p>
+                    <p className="mt-1 text-[11px] text-muted-foreground">
+                      {[
+                        template.category,
+                        template.scope === "team" ? "Team" : "Personal",
+                        template.usageCount > 0 && `used ${template.usageCount}×`,
+                        template.builtIn && "built in",
+                      ].filter(Boolean).join(" · ")}
+                    </p>
+                  </button>
+                  {!template.builtIn && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => setEditing({ id: template.id, draft: { title: template.title, body: template.body, category: template.category, scope: template.scope } })}
+                        className="rounded-full p-1.5 text-muted-foreground transition-colors hover:bg-secondary hover:text-foreground"
+                        title="Edit"
+                        aria-label={`Edit ${template.title}`}
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onDelete(template.id)}
+                        className="rounded-full p-1.5 text-muted-foreground transition-colors hover:bg-destructive/10 hover:text-destructive"
+                        title="Delete"
+                        aria-label={`Delete ${template.title}`}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter>
+          {editing ? (
+            <>
+              <Button variant="ghost" onClick={() => setEditing(null)}>Back</Button>
+              <Button onClick={() => void save()} disabled={isSaving || !editing.draft.title.trim() || !editing.draft.body.trim()}>
+                {isSaving && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+                Save template
+              </Button>
+            </>
+          ) : (
+            <Button onClick={() => setEditing({ draft: { ...EMPTY_DRAFT, category: category ?? EMPTY_DRAFT.category } })}>
+              <Plus className="mr-1 h-4 w-4" />
+              New template
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
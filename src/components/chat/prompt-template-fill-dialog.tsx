@@ -0,0 +1,81 @@
+"use client"
+
+import { useEffect, useMemo, useState, type ChangeEvent } from "react"
+
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { fillTemplate, templateVariables, type PromptTemplate } from "@/lib/prompt-templates"
+
+type PromptTemplateFillDialogProps = {
+  // The template being filled in; null closes the dialog
+  template: PromptTemplate | null
+  onClose: () => void
+  onInsert: (text: string) => void
+}
+
+// A variable that starts its own line usually stands for pasted text, so it gets a textarea
+function isBlockVariable(body: string, name: string) {
+  return new RegExp(`(^|\\n)\\s*\\{\\{\\s*${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\s*\\}\\}`).test(body)
+}
+
+export function PromptTemplateFillDialog({ template, onClose, onInsert }: PromptTemplateFillDialogProps) {
+  const [values, setValues] = useState<Record<string, string>>({})
+  const variables = useMemo(() => (template ? templateVariables(template.body) : []), [template])
+
+  useEffect(() => {
+    setValues({})
+  }, [template])
+
+  if (!template) return null
+
+  const preview = fillTemplate(template.body, values)
+  const isComplete = variables.every((name) => values[name]?.trim())
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{template.title}</DialogTitle>
+          <DialogDescription>Fill in the blanks. Anything left empty stays as a placeholder you can edit later.</DialogDescription>
+        </DialogHeader>
+
+        <form
+          id="prompt-template-fill"
+          className="max-h-[50dvh] space-y-3 overflow-y-auto pr-1"
+          onSubmit={(e) => {
+            e.preventDefault()
+            onInsert(preview)
+          }}
+        >
+          {variables.map((name, index) => {
+            const id = `prompt-variable-${index}`
+            const Field = isBlockVariable(template.body, name) ? Textarea : Input
+            return (
+              <div key={name}>
+                <label htmlFor={id} className="mb-1.5 block text-xs font-medium capitalize text-muted-foreground">{name}</label>
+                <Field
+                  id={id}
+                  value={values[name] ?? ""}
+                  onChange={(e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                  className={Field === Textarea ? "min-h-24 rounded-xl text-sm" : "rounded-xl"}
+                  autoFocus={index === 0}
+                />
+              </div>
+            )
+          })}
+          <div>
+            <p className="mb-1.5 text-xs font-medium text-muted-foreground">Preview</p>
+            <p className="whitespace-pre-wrap break-words rounded-xl border border-border/60 bg-secondary/40 px-3 py-2 text-sm">{preview}</p>
+          </div>
+        </form>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button type="submit" form="prompt-template-fill" variant={isComplete ? "default" : "secondary"}>Insert prompt</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,117 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { Link2Off, Loader2 } from "lucide-react"
+
+import { ChatMessage } from "@/components/ui/chat-message"
+import { LinkPreviewPane } from "@/components/ui/link-preview-pane"
+import { parseSharedConversation, type SharedConversation } from "@/lib/conversation-shares"
+
+type LoadState =
+  | { status: "loading" }
+  | { status: "error"; message: string }
+  | { status: "ready"; conversation: SharedConversation }
+
+/**
+ * Read-only view of a shared snapshot. It needs no session, so it must not rely on `useAuth`.
+ */
+export function SharedConversationView({ shareId }: { shareId: string }) {
+  const [state, setState] = useState<LoadState>({ status: "loading" })
+  const [preview, setPreview] = useState<{ url: string; title?: string } | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const resp = await fetch(`/api/proxy/shares/${encodeURIComponent(shareId)}`)
+        if (!resp.ok) {
+          throw new Error(resp.status === 404 || resp.status === 410
+            ? "This link has been revoked or never existed."
+            : "The shared conversation could not be loaded.")
+        }
+        const conversation = parseSharedConversation(await resp.json())
+        if (!cancelled) setState({ status: "ready", conversation })
+      } catch (error) {
+        console.error("Failed to load shared conversation", error)
+        if (!cancelled) {
+          setState({ status: "error", message: error instanceof Error ? error.message : "Something went wrong" })
+        }
+      }
+    }
+
+    void load()
+    return () => {
+      cancelled = true
+    }
+  }, [shareId])
+
+  const openPreview = useCallback((url: string, title?: string) => {
+    setPreview({ url, title })
+  }, [])
+
+  if (state.status === "loading") {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    )
+  }
+
+  if (state.status === "error") {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-3 px-6 text-center">
+        <Link2Off className="h-8 w-8 text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">{state.message}</p>
+        <Link href="/" className="text-sm font-medium text-primary hover:underline">
+          Go to Luna
+        </Link>
+      </div>
+    )
+  }
+
+  const { conversation } = state
+
+  return (
+    <div className="min-h-screen">
+      <header className="sticky top-0 z-20 border-b border-border/60 bg-background/85 backdrop-blur-xl">
+        <div className="mx-auto flex max-w-4xl items-center justify-between gap-4 px-4 py-3 sm:px-6">
+          <div className="min-w-0">
+            <h1 className="truncate text-base font-semibold">{conversation.title}</h1>
+            <p className="text-xs text-muted-foreground">
+              Shared conversation · read-only
+              {conversation.createdAt ? ` · ${conversation.createdAt.toLocaleDateString()}` : ""}
+            </p>
+          </div>
+          <Link
+            href="/chat"
+            className="shrink-0 rounded-full border border-border/60 bg-secondary/80 px-4 py-1.5 text-xs font-medium text-foreground/80 transition-colors hover:bg-secondary hover:text-foreground"
+          >
+            Try Luna
+          </Link>
+        </div>
+      </header>
+
+      <main className="mx-auto w-full max-w-4xl space-y-4 px-4 py-6 sm:px-6 sm:py-8">
+        {conversation.messages.map((message) => (
+          <ChatMessage
+            key={message.id}
+            {...message}
+            showTimeStamp
+            animation="none"
+            onOpenExternalPreview={openPreview}
+          />
+        ))}
+      </main>
+
+      <LinkPreviewPane
+        open={preview !== null}
+        url={preview?.url ?? null}
+        title={preview?.title}
+        topOffset={0}
+        onClose={() => setPreview(null)}
+      />
+    </div>
+  )
+}
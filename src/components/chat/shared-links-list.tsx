@@ -0,0 +1,121 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Link2, Loader2, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { CopyButton } from "@/components/ui/copy-button"
+import { normalizeShareSummary, shareUrl, type ShareSummary } from "@/lib/conversation-shares"
+
+type SharedLinksListProps = {
+  token?: string | null
+}
+
+// Active share links of the signed-in user, each of which can be revoked.
+export function SharedLinksList({ token }: SharedLinksListProps) {
+  const [shares, setShares] = useState<ShareSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const resp = await fetch("/api/proxy/shares", {
+          headers: {
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          },
+        })
+        if (!resp.ok) {
+          const errorText = await resp.text()
+          throw new Error(errorText || "Failed to load shared links")
+        }
+        const data = await resp.json()
+        const list = Array.isArray(data) ? data : Array.isArray(data?.shares) ? data.shares : []
+        if (!cancelled) {
+          setShares(list.map(normalizeShareSummary).filter((share: ShareSummary | null): share is ShareSummary => share !== null))
+        }
+      } catch (error) {
+        console.error("Failed to load shared links", error)
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    void load()
+    return () => {
+      cancelled = true
+    }
+  }, [token])
+
+  const revoke = useCallback(async (shareId: string) => {
+    setRevokingId(shareId)
+    try {
+      const resp = await fetch(`/api/proxy/shares/${encodeURIComponent(shareId)}`, {
+        method: "DELETE",
+        headers: {
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+      })
+      if (!resp.ok) {
+        const errorText = await resp.text()
+        throw new Error(errorText || "Failed to revoke link")
+      }
+      setShares((prev) => prev.filter((share) => share.id !== shareId))
+      toast.success("Link revoked")
+    } catch (error) {
+      console.error("Failed to revoke share", error)
+      toast.error("Failed to revoke link")
+    } finally {
+      setRevokingId(null)
+    }
+  }, [token])
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 py-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Loading shared links…
+      </div>
+    )
+  }
+
+  if (shares.length === 0) {
+    return <p className="py-2 text-xs text-muted-foreground">You haven&apos;t shared any conversations.</p>
+  }
+
+  return (
+    <ul className="max-h-48 space-y-1 overflow-y-auto">
+      {shares.map((share) => (
+        <li key={share.id} className="flex items-center gap-2 rounded-xl border border-border/60 px-3 py-2">
+          <Link2 className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+          <div className="min-w-0 flex-1">
+            <a
+              href={shareUrl(share.id)}
+              target="_blank"
+              rel="noreferrer"
+              className="block truncate text-xs font-medium hover:underline"
+            >
+              {share.title}
+            </a>
+            {share.createdAt && (
+              <p className="text-[10px] text-muted-foreground">Shared {share.createdAt.toLocaleDateString()}</p>
+            )}
+          </div>
+          <CopyButton content={shareUrl(share.id)} copyMessage="Link copied" />
+          <button
+            type="button"
+            onClick={() => void revoke(share.id)}
+            disabled={revokingId === share.id}
+            className="rounded-full p-1 text-muted-foreground transition-colors hover:bg-muted hover:text-destructive"
+            aria-label={`Revoke link to ${share.title}`}
+            title="Revoke link"
+          >
+            {revokingId === share.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Trash2 className="h-3.5 w-3.5" />}
+          </button>
+        </li>
+      ))}
+    </ul>
+  )
+}
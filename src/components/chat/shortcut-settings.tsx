@@ -0,0 +1,96 @@
+"use client"
+
+import { useState, type KeyboardEvent } from "react"
+
+import { ShortcutKeys } from "@/components/chat/keyboard-shortcuts-dialog"
+import { cn } from "@/lib/utils"
+import {
+  SHORTCUTS,
+  eventToKeys,
+  findShortcut,
+  validateShortcutKeys,
+  type ShortcutBindings,
+  type ShortcutId,
+} from "@/lib/keyboard-shortcuts"
+
+type ShortcutSettingsProps = {
+  bindings: ShortcutBindings
+  // Keys to use for the shortcut: an empty string turns it off and undefined restores the default
+  onChange: (id: ShortcutId, keys: string | undefined) => void
+}
+
+export function ShortcutSettings({ bindings, onChange }: ShortcutSettingsProps) {
+  // The shortcut waiting for its new keys
+  const [recordingId, setRecordingId] = useState<ShortcutId | null>(null)
+  const [error, setError] = useState<{ id: ShortcutId; message: string } | null>(null)
+
+  const record = (id: ShortcutId, event: KeyboardEvent<HTMLButtonElement>) => {
+    // Keys pressed here are never shortcuts themselves
+    event.preventDefault()
+    event.stopPropagation()
+
+    if (event.key === "Escape" && !event.shiftKey) {
+      setRecordingId(null)
+      return
+    }
+    if (event.key === "Backspace" || event.key === "Delete") {
+      onChange(id, "")
+      setRecordingId(null)
+      return
+    }
+
+    const keys = eventToKeys(event.nativeEvent)
+    if (!keys) return
+    const problem = validateShortcutKeys(bindings, id, keys)
+    if (problem) {
+      setError({ id, message: problem })
+      return
+    }
+    onChange(id, keys)
+    setRecordingId(null)
+  }
+
+  return (
+    <ul className="space-y-1">
+      {SHORTCUTS.map((shortcut) => {
+        const isRecording = recordingId === shortcut.id
+        const isDefault = bindings[shortcut.id] === findShortcut(shortcut.id).defaultKeys
+        return (
+          <li key={shortcut.id}>
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="min-w-0 truncate">{shortcut.label}</span>
+              <div className="flex flex-shrink-0 items-center gap-1">
+                {!isDefault && !isRecording && (
+                  <button
+                    type="button"
+                    onClick={() => onChange(shortcut.id, undefined)}
+                    className="rounded-md px-1.5 py-0.5 text-[11px] text-muted-foreground hover:text-foreground"
+                  >
+                    Reset
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => {
+                    setError(null)
+                    setRecordingId(isRecording ? null : shortcut.id)
+                  }}
+                  onKeyDown={(event) => isRecording && record(shortcut.id, event)}
+                  onBlur={() => isRecording && setRecordingId(null)}
+                  className={cn(
+                    "flex min-h-7 min-w-20 items-center justify-center rounded-lg border px-2 transition-colors",
+                    isRecording ? "border-primary/60 bg-primary/10 text-xs" : "border-border/60 hover:bg-secondary/60"
+                  )}
+                  aria-label={`Change the shortcut for ${shortcut.label}`}
+                >
+                  {isRecording ? "Press keys…" : <ShortcutKeys keys={bindings[shortcut.id]} />}
+                </button>
+              </div>
+            </div>
+            {error?.id === shortcut.id && <p className="mt-0.5 text-right text-[11px] text-destructive">{error.message}</p>}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -0,0 +1,219 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { ArchiveRestore, Loader2, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  TRASH_RETENTION_DAYS,
+  daysUntilPurge,
+  normalizeTrashedConversation,
+  visibleTrash,
+  type TrashedConversation,
+} from "@/lib/conversation-trash"
+
+type TrashDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  token?: string | null
+  onRestored?: (conversationId: string) => void
+}
+
+export function TrashDialog({ open, onOpenChange, token, onRestored }: TrashDialogProps) {
+  const [items, setItems] = useState<TrashedConversation[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  // Permanent deletion is confirmed inline: the id being confirmed, or "all" for emptying the trash
+  const [confirming, setConfirming] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) {
+      setConfirming(null)
+      return
+    }
+
+    let cancelled = false
+    const load = async () => {
+      setIsLoading(true)
+      try {
+        const resp = await fetch("/api/proxy/trash", {
+          headers: {
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          },
+        })
+        if (!resp.ok) {
+          const errorText = await resp.text()
+          throw new Error(errorText || "Failed to load trash")
+        }
+        const data = await resp.json()
+        const list = Array.isArray(data) ? data : Array.isArray(data?.conversations) ? data.conversations : []
+        if (!cancelled) {
+          setItems(visibleTrash(
+            list
+              .map(normalizeTrashedConversation)
+              .filter((item: TrashedConversation | null): item is TrashedConversation => item !== null)
+          ))
+        }
+      } catch (error) {
+        console.error("Failed to load trash", error)
+        if (!cancelled) toast.error("Failed to load trash")
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    void load()
+    return () => {
+      cancelled = true
+    }
+  }, [open, token])
+
+  const request = useCallback(async (path: string, method: "POST" | "DELETE") => {
+    const resp = await fetch(path, {
+      method,
+      headers: {
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    })
+    if (!resp.ok) {
+      const errorText = await resp.text()
+      throw new Error(errorText || "Request failed")
+    }
+  }, [token])
+
+  const restore = useCallback(async (item: TrashedConversation) => {
+    setPendingId(item.id)
+    try {
+      await request(`/api/proxy/trash/${encodeURIComponent(item.id)}`, "POST")
+      setItems((prev) => prev.filter((entry) => entry.id !== item.id))
+      onRestored?.(item.id)
+      toast.success(`Restored "${item.title}"`)
+    } catch (error) {
+      console.error("Failed to restore conversation", error)
+      toast.error("Failed to restore conversation")
+    } finally {
+      setPendingId(null)
+    }
+  }, [onRestored, request])
+
+  const purge = useCallback(async (item: TrashedConversation) => {
+    setConfirming(null)
+    setPendingId(item.id)
+    try {
+      await request(`/api/proxy/trash/${encodeURIComponent(item.id)}`, "DELETE")
+      setItems((prev) => prev.filter((entry) => entry.id !== item.id))
+    } catch (error) {
+      console.error("Failed to delete conversation permanently", error)
+      toast.error("Failed to delete conversation")
+    } finally {
+      setPendingId(null)
+    }
+  }, [request])
+
+  const emptyTrash = useCallback(async () => {
+    setConfirming(null)
+    setPendingId("all")
+    try {
+      await request("/api/proxy/trash", "DELETE")
+      setItems([])
+      toast.success("Trash emptied")
+    } catch (error) {
+      console.error("Failed to empty trash", error)
+      toast.error("Failed to empty trash")
+    } finally {
+      setPendingId(null)
+    }
+  }, [request])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted chats are kept for {TRASH_RETENTION_DAYS} days before they are removed for good.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading trash…
+          </div>
+        ) : items.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">The trash is empty.</p>
+        ) : (
+          <ul className="max-h-80 space-y-1 overflow-y-auto rounded-xl border border-border/60 p-1">
+            {items.map((item) => {
+              const daysLeft = daysUntilPurge(item)
+              const isPending = pendingId === item.id || pendingId === "all"
+
+              return (
+                <li key={item.id} className="flex items-center gap-2 rounded-lg px-3 py-2 hover:bg-secondary/50">
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium">{item.title}</p>
+                    <p className="text-[11px] text-muted-foreground">
+                      Deleted {item.deletedAt.toLocaleDateString()} · {daysLeft === 0 ? "removed today" : `${daysLeft} day${daysLeft === 1 ? "" : "s"} left`}
+                    </p>
+                  </div>
+                  {confirming === item.id ? (
+                    <>
+                      <Button size="sm" variant="ghost" onClick={() => setConfirming(null)}>
+                        Keep
+                      </Button>
+                      <Button size="sm" variant="destructive" onClick={() => void purge(item)}>
+                        Delete forever
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => void restore(item)}
+                        disabled={isPending}
+                        className="rounded-full p-1.5 text-muted-foreground transition-colors hover:bg-secondary hover:text-foreground"
+                        title="Restore"
+                        aria-label={`Restore ${item.title}`}
+                      >
+                        {pendingId === item.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <ArchiveRestore className="h-3.5 w-3.5" />}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setConfirming(item.id)}
+                        disabled={isPending}
+                        className="rounded-full p-1.5 text-muted-foreground transition-colors hover:bg-destructive/10 hover:text-destructive"
+                        title="Delete forever"
+                        aria-label={`Delete ${item.title} forever`}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    </>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+
+        <DialogFooter>
+          {items.length > 0 && (
+            confirming === "all" ? (
+              <Button variant="destructive" onClick={() => void emptyTrash()} disabled={pendingId !== null}>
+                Delete {items.length} chat{items.length === 1 ? "" : "s"} forever
+              </Button>
+            ) : (
+              <Button variant="ghost" onClick={() => setConfirming("all")} disabled={pendingId !== null}>
+                Empty trash
+              </Button>
+            )
+          )}
+          <Button variant="secondary" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -3,7 +3,7 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { cva, type VariantProps } from "class-variance-authority"
 import { motion } from "framer-motion"
-import { AlertTriangle, Ban, BarChart3, Check, CheckCircle2, ChevronRight, Code2, Download, ExternalLink, FileText, Globe, Image as ImageIcon, Loader2, Pencil, RefreshCw, Sparkles, Terminal, X as XIcon, Youtube } from "lucide-react"
+import { AlertTriangle, Ban, BarChart3, Check, CheckCircle2, ChevronLeft, ChevronRight, Clock, Code2, Download, ExternalLink, FileText, Globe, Image as ImageIcon, Loader2, Pencil, RefreshCw, Sparkles, Terminal, X as XIcon, Youtube } from "lucide-react"
 
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
@@ -24,6 +24,7 @@ import { FilePreview } from "@/components/ui/file-preview"
 import { MarkdownRenderer } from "@/components/ui/markdown-renderer"
 import { ExcalidrawViewer } from "@/components/ui/excalidraw-viewer"
 import { CustomPDFViewer } from "@/components/ui/pdf-viewer"
+import { LazyMount } from "@/components/ui/lazy-mount"
 import { LunaIcon } from "@/components/ui/luna-icon"
 
 const chatBubbleVariants = cva(
@@ -144,18 +145,20 @@ const StreamingContent = ({
   content,
   isComplete,
   onLinkClick,
+  highlight,
 }: {
   content: string
   isComplete?: boolean
   onLinkClick?: (url: string) => void
+  highlight?: string
 }) => {
   if (isComplete || !content) {
-    return <MarkdownRenderer onLinkClick={onLinkClick}>{content}</MarkdownRenderer>
+    return <MarkdownRenderer onLinkClick={onLinkClick} highlight={highlight}>{content}</MarkdownRenderer>
   }
   const { stable, active } = splitAtLastParagraph(content)
   return (
     <div>
-      {stable && <MarkdownRenderer onLinkClick={onLinkClick}>{stable}</MarkdownRenderer>}
+      {stable && <MarkdownRenderer onLinkClick={onLinkClick} highlight={highlight}>{stable}</MarkdownRenderer>}
       <StreamingParagraph text={active} />
     </div>
   )
@@ -191,6 +194,10 @@ const MinimalAssistantLoader = () => (
   </motion.div>
 )
 
+// Heavy embeds are only mounted near the viewport; these reserve their space meanwhile
+const CANVAS_PLACEHOLDER_HEIGHT = 560
+const PDF_PLACEHOLDER_HEIGHT = 600
+
 export type AgentStepState = "queued" | "running" | "complete" | "error"
 
 export interface AgentActivityStep {
@@ -199,6 +206,8 @@ export interface AgentActivityStep {
   state: AgentStepState
   detail?: string
   updatedAt?: number
+  // Keep showing the step while it runs, even after answer text has started streaming
+  sticky?: boolean
 }
 
 const agentStepIcon = (step: AgentActivityStep) => {
@@ -206,6 +215,7 @@ const agentStepIcon = (step: AgentActivityStep) => {
   if (step.state === "error") return <AlertTriangle className="h-3.5 w-3.5 text-destructive" />
   if (step.state === "running") return <Loader2 className="h-3.5 w-3.5 animate-spin text-primary" />
 
+  if (step.id.includes("offline")) return <Clock className="h-3.5 w-3.5" />
   if (step.id.includes("image")) return <ImageIcon className="h-3.5 w-3.5" />
   if (step.id.includes("youtube")) return <Youtube className="h-3.5 w-3.5" />
   if (step.id.includes("source")) return <Globe className="h-3.5 w-3.5" />
@@ -215,12 +225,13 @@ const agentStepIcon = (step: AgentActivityStep) => {
 }
 
 const AgentActivity = ({ steps, isComplete, hasContent }: { steps?: AgentActivityStep[]; isComplete?: boolean; hasContent?: boolean }) => {
-  if (isComplete || hasContent) return null
+  if (isComplete) return null
 
   const visibleSteps = Array.isArray(steps)
     ? steps
       .filter((step) => step?.id && step?.label)
       .filter((step) => step.state === "running" || step.state === "queued")
+      .filter((step) => !hasContent || step.sticky)
       .slice(-1)
     : []
 
@@ -241,6 +252,37 @@ const AgentActivity = ({ steps, isComplete, hasContent }: { steps?: AgentActivit
   )
 }
 
+// Position of a message among its siblings, i.e. the other versions of the same turn
+export interface MessageBranchInfo {
+  index: number
+  count: number
+  onSelect: (index: number) => void
+}
+
+const BranchSwitcher = ({ index, count, onSelect }: MessageBranchInfo) => (
+  <div className="flex items-center gap-0.5 text-[11px] text-muted-foreground">
+    <button
+      type="button"
+      aria-label="Previous version"
+      disabled={index <= 0}
+      onClick={() => onSelect(index - 1)}
+      className="rounded p-0.5 transition-colors hover:text-foreground disabled:pointer-events-none disabled:opacity-40"
+    >
+      <ChevronLeft className="h-3.5 w-3.5" />
+    </button>
+    <span className="tabular-nums">{index + 1}/{count}</span>
+    <button
+      type="button"
+      aria-label="Next version"
+      disabled={index >= count - 1}
+      onClick={() => onSelect(index + 1)}
+      className="rounded p-0.5 transition-colors hover:text-foreground disabled:pointer-events-none disabled:opacity-40"
+    >
+      <ChevronRight className="h-3.5 w-3.5" />
+    </button>
+  </div>
+)
+
 const OutputSectionHeader = ({
   count,
   icon,
@@ -383,7 +425,14 @@ export interface Message {
   }> | null
   // Optional title for assistant responses, typically the user's prompt.
   promptTitle?: string
+  // Previous message on the same branch; null for the first message of a conversation
+  parentId?: string | null
+  // Regenerated answers. The active one is mirrored in the top-level fields while it is shown.
+  variants?: MessageVariant[]
+  activeVariant?: number
   isComplete?: boolean
+  // Queued in the offline outbox and not sent yet, either the prompt or its answer placeholder
+  isPending?: boolean
   codeSnippets?: CodeSnippet[]
   executionOutputs?: ExecutionOutput[]
   mermaidBlocks?: MermaidBlockUpdate[]
@@ -408,6 +457,25 @@ export interface ImageResult {
   thumbnailUrl?: string | null
 }
 
+export type MessageVariant = Pick<
+  Message,
+  | "content"
+  | "sources"
+  | "images"
+  | "videos"
+  | "agentSteps"
+  | "chartUrl"
+  | "chartUrls"
+  | "codeSnippets"
+  | "executionOutputs"
+  | "mermaidBlocks"
+  | "excalidrawData"
+  | "createdAt"
+> & {
+  // Model the variant was generated with, when it differs from the conversation default
+  model?: string
+}
+
 export interface ChatMessageProps extends Message {
   showTimeStamp?: boolean
   animation?: Animation
@@ -417,6 +485,11 @@ export interface ChatMessageProps extends Message {
   onRegenerateChart?: (previousUrl: string) => Promise<string | null | undefined> | void
   onRegenerateFlowchart?: (index: number) => Promise<void> | void
   authToken?: string
+  branch?: MessageBranchInfo
+  onSelectVariant?: (index: number) => void
+  // Terms of the in-conversation find bar, highlighted in the rendered markdown
+  highlightQuery?: string
+  onCancelPending?: () => void
 }
 
 export const ChatMessage: React.FC<ChatMessageProps> = ({
@@ -446,6 +519,13 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
   onRegenerateChart,
   onRegenerateFlowchart,
   authToken,
+  branch,
+  variants,
+  activeVariant,
+  onSelectVariant,
+  highlightQuery,
+  isPending,
+  onCancelPending,
 }) => {
   const [isEditing, setIsEditing] = useState(false)
   const [editValue, setEditValue] = useState(content)
@@ -471,6 +551,14 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
   }, [onOpenExternalPreview])
 
   const isUser = role === "user"
+  const variantCount = variants?.length ?? 0
+  const variantSwitcher = !isUser && onSelectVariant && variantCount > 1 ? (
+    <BranchSwitcher
+      index={Math.min(activeVariant ?? variantCount - 1, variantCount - 1)}
+      count={variantCount}
+      onSelect={onSelectVariant}
+    />
+  ) : null
   const [downloadingChartUrl, setDownloadingChartUrl] = useState<string | null>(null)
   const [regeneratingChartUrl, setRegeneratingChartUrl] = useState<string | null>(null)
   const [expandedChartUrl, setExpandedChartUrl] = useState<string | null>(null)
@@ -796,7 +884,9 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
             <div className="space-y-4">
               {excalidrawData.map((diagram, index) => (
                 <div key={index} className="luna-chart-card">
-                  <ExcalidrawViewer data={diagram} />
+                  <LazyMount estimatedHeight={CANVAS_PLACEHOLDER_HEIGHT}>
+                    <ExcalidrawViewer data={diagram} />
+                  </LazyMount>
                 </div>
               ))}
             </div>
@@ -808,7 +898,9 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
                 .map((source) => typeof source === 'string' ? source : source.url)
                 .filter((url) => url.toLowerCase().endsWith('.pdf'))
                 .map((url, idx) => (
-                  <CustomPDFViewer key={`pdf-${idx}`} url={url} className="mt-2" />
+                  <LazyMount key={`pdf-${idx}`} estimatedHeight={PDF_PLACEHOLDER_HEIGHT}>
+                    <CustomPDFViewer url={url} className="mt-2" />
+                  </LazyMount>
                 ))}
               <div className="grid gap-2 sm:grid-cols-2">
                 {sources.map((source, index) => {
@@ -1078,12 +1170,14 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
             <div className="space-y-4">
               {excalidrawData?.map((diagram, index) => (
                 <div key={index} className="luna-chart-card">
-                  <ExcalidrawViewer
-                    data={diagram}
-                    messageId={id}
-                    token={authToken}
-                    onRegenerate={onRegenerateFlowchart ? () => onRegenerateFlowchart(index) : undefined}
-                  />
+                  <LazyMount estimatedHeight={CANVAS_PLACEHOLDER_HEIGHT}>
+                    <ExcalidrawViewer
+                      data={diagram}
+                      messageId={id}
+                      token={authToken}
+                      onRegenerate={onRegenerateFlowchart ? () => onRegenerateFlowchart(index) : undefined}
+                    />
+                  </LazyMount>
                 </div>
               ))}
             </div>
@@ -1219,7 +1313,7 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
             {shouldShowMinimalLoader ? (
               <MinimalAssistantLoader />
             ) : text?.trim() ? (
-              <StreamingContent content={text} isComplete={isComplete} onLinkClick={(url) => openExternalPreview(url)} />
+              <StreamingContent content={text} isComplete={isComplete} onLinkClick={(url) => openExternalPreview(url)} highlight={highlightQuery} />
             ) : !isComplete ? null : (
               <div className="flex items-center gap-2 rounded-lg border border-amber-500/20 bg-amber-500/10 px-3 py-2 text-sm text-amber-700 dark:text-amber-300">
                 <AlertTriangle className="h-4 w-4" />
@@ -1285,7 +1379,9 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
       </div>
 
       {actions && (isComplete === undefined || isComplete) && (
-        <div className="mt-3 flex space-x-1 rounded-lg border bg-background/95 p-1 text-foreground shadow-sm">
+        <div className="mt-3 flex items-center space-x-1 rounded-lg border bg-background/95 p-1 text-foreground shadow-sm">
+          {branch && !isUser && <BranchSwitcher {...branch} />}
+          {variantSwitcher}
           {actions}
         </div>
       )}
@@ -1500,21 +1596,39 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
               initial={{ opacity: 0, y: 10 }}
               animate={{ opacity: 1, y: 0 }}
               transition={{ duration: 0.5, delay: 0.4, ease: "easeOut" }}
-              className="relative min-h-[1.5em] overflow-hidden text-[13px] sm:text-sm leading-relaxed"
+              className={cn("relative min-h-[1.5em] overflow-hidden text-[13px] sm:text-sm leading-relaxed", isPending && "opacity-60")}
             >
-              <MarkdownRenderer onLinkClick={(url) => openExternalPreview(url)}>
+              <MarkdownRenderer onLinkClick={(url) => openExternalPreview(url)} highlight={highlightQuery}>
                 {content}
               </MarkdownRenderer>
             </motion.div>
-            {isUser && onEdit && (
-              <button
-                type="button"
-                onClick={() => { setEditValue(content); setIsEditing(true) }}
-                className="mt-1.5 ml-auto flex items-center gap-1 text-[11px] text-muted-foreground opacity-0 transition-opacity group-hover/message:opacity-100 hover:text-foreground"
-              >
-                <Pencil className="h-3 w-3" />
-                Edit
-              </button>
+            {isUser && isPending && (
+              <div className="mt-1.5 ml-auto flex items-center gap-2 text-[11px] text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  <Clock className="h-3 w-3" />
+                  Pending, sends when you are back online
+                </span>
+                {onCancelPending && (
+                  <button type="button" onClick={onCancelPending} className="hover:text-foreground">
+                    Cancel
+                  </button>
+                )}
+              </div>
+            )}
+            {isUser && !isPending && (onEdit || branch) && (
+              <div className="mt-1.5 ml-auto flex items-center gap-2">
+                {branch && <BranchSwitcher {...branch} />}
+                {onEdit && (
+                  <button
+                    type="button"
+                    onClick={() => { setEditValue(content); setIsEditing(true) }}
+                    className="flex items-center gap-1 text-[11px] text-muted-foreground opacity-0 transition-opacity group-hover/message:opacity-100 hover:text-foreground"
+                  >
+                    <Pencil className="h-3 w-3" />
+                    Edit
+                  </button>
+                )}
+              </div>
             )}
           </>
         )}
@@ -1699,7 +1813,9 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
               .map((source) => typeof source === 'string' ? source : source.url)
               .filter(url => url.toLowerCase().endsWith('.pdf'))
               .map((url, idx) => (
-                <CustomPDFViewer key={`pdf-${idx}`} url={url} className="mt-4" />
+                <LazyMount key={`pdf-${idx}`} estimatedHeight={PDF_PLACEHOLDER_HEIGHT}>
+                  <CustomPDFViewer url={url} className="mt-4" />
+                </LazyMount>
               ))
             }
 
@@ -1787,7 +1903,9 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
         {excalidrawData && excalidrawData.length > 0 && (
           <div className="mt-4">
             {excalidrawData.map((diagram, index) => (
-              <ExcalidrawViewer key={index} data={diagram} />
+              <LazyMount key={index} estimatedHeight={CANVAS_PLACEHOLDER_HEIGHT}>
+                <ExcalidrawViewer data={diagram} />
+              </LazyMount>
             ))}
           </div>
         )}
@@ -2012,6 +2130,8 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
               isUser ? "self-end" : "self-start"
             )}
           >
+            {branch && !isUser && <BranchSwitcher {...branch} />}
+            {variantSwitcher}
             {actions}
           </div>
         )
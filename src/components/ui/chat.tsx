@@ -15,6 +15,7 @@ import { useAutoScroll } from "@/hooks/use-auto-scroll"
 import { Button } from "@/components/ui/button"
 import { type Message, type MessagePart } from "@/components/ui/chat-message"
 import { CopyButton } from "@/components/ui/copy-button"
+import { ScrollRootProvider } from "@/components/ui/lazy-mount"
 import { MessageInput } from "@/components/ui/message-input"
 import { MessageList } from "@/components/ui/message-list"
 import { PromptSuggestions } from "@/components/ui/prompt-suggestions"
@@ -260,6 +261,12 @@ export function ChatMessages({
   } = useAutoScroll([messages])
 
   const scrollToBottomRef = useRef<HTMLDivElement>(null)
+  const [scrollRoot, setScrollRoot] = useState<HTMLDivElement | null>(null)
+
+  const setContainerRef = useCallback((node: HTMLDivElement | null) => {
+    containerRef.current = node
+    setScrollRoot(node)
+  }, [containerRef])
 
   const handleScrollToBottom = useCallback(() => {
     if (scrollToBottomRef.current) {
@@ -269,7 +276,7 @@ export function ChatMessages({
 
   return (
     <div
-      ref={containerRef}
+      ref={setContainerRef}
       onScroll={handleScroll}
       onTouchStart={handleTouchStart}
       className="flex-1 overflow-y-auto min-h-0"
@@ -280,7 +287,9 @@ export function ChatMessages({
       }}
     >
       <div className="min-h-full flex flex-col">
-        {children}
+        <ScrollRootProvider value={scrollRoot}>
+          {children}
+        </ScrollRootProvider>
         <div ref={scrollToBottomRef} />
       </div>
       {!shouldAutoScroll && (
@@ -322,6 +331,8 @@ ChatContainer.displayName = "ChatContainer"
 interface ChatFormProps {
   className?: string
   isPending: boolean
+  // Added to the attachments whenever it changes, e.g. files shared from another app
+  attachFiles?: File[] | null
   handleSubmit: (
     event?: { preventDefault?: () => void },
     options?: { experimental_attachments?: FileList }
@@ -333,9 +344,14 @@ interface ChatFormProps {
 }
 
 export const ChatForm = forwardRef<HTMLFormElement, ChatFormProps>(
-  ({ children, handleSubmit, isPending, className }, ref) => {
+  ({ children, handleSubmit, isPending, attachFiles, className }, ref) => {
     const [files, setFiles] = useState<File[] | null>(null)
 
+    useEffect(() => {
+      if (!attachFiles?.length) return
+      setFiles((current) => [...(current ?? []), ...attachFiles])
+    }, [attachFiles])
+
     const onSubmit = (event: React.FormEvent) => {
       if (!files) {
         handleSubmit(event)
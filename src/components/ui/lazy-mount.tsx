@@ -0,0 +1,63 @@
+"use client"
+
+import { createContext, useContext, useEffect, useRef, useState, type ReactNode } from "react"
+import { useInViewport } from "@/hooks/use-in-viewport"
+
+// The element that scrolls the chat. Children observe against it so `rootMargin` is honoured.
+const ScrollRootContext = createContext<Element | null>(null)
+
+export const ScrollRootProvider = ScrollRootContext.Provider
+
+interface LazyMountProps {
+  children: ReactNode
+  id?: string
+  className?: string
+  // Render regardless of visibility, e.g. the message that is still streaming
+  keepMounted?: boolean
+  // Placeholder height used until the content has been measured once
+  estimatedHeight?: number
+  rootMargin?: string
+}
+
+/**
+ * Mounts its children only while they are near the scroll viewport.
+ *
+ * Off-screen content is replaced by an empty box of its last measured height,
+ * so the scroll position does not jump when it is unmounted or mounted again.
+ */
+export function LazyMount({
+  children,
+  id,
+  className,
+  keepMounted = false,
+  estimatedHeight = 240,
+  rootMargin = "800px 0px",
+}: LazyMountProps) {
+  const ref = useRef<HTMLDivElement>(null)
+  const root = useContext(ScrollRootContext)
+  const inView = useInViewport(ref, { root, rootMargin, initialInView: keepMounted })
+  const [measuredHeight, setMeasuredHeight] = useState<number | null>(null)
+  const isMounted = keepMounted || inView
+
+  useEffect(() => {
+    const node = ref.current
+    if (!isMounted || !node || typeof ResizeObserver === "undefined") return
+
+    const observer = new ResizeObserver(() => {
+      setMeasuredHeight(node.offsetHeight)
+    })
+    observer.observe(node)
+    return () => observer.disconnect()
+  }, [isMounted])
+
+  return (
+    <div
+      ref={ref}
+      id={id}
+      className={className}
+      style={isMounted ? undefined : { height: measuredHeight ?? estimatedHeight }}
+    >
+      {isMounted ? children : null}
+    </div>
+  )
+}
@@ -6,7 +6,9 @@ import remarkGfm from "remark-gfm"
 import { AlertTriangle, CheckCircle2, Download, Lightbulb, ListChecks, Maximize2, Minus, RefreshCcw, TrendingDown, TrendingUp, ZoomIn, ZoomOut } from "lucide-react"
 
 import { cn } from "@/lib/utils"
+import { splitHighlights } from "@/lib/conversation-search"
 import { CopyButton } from "@/components/ui/copy-button"
+import { LazyMount } from "@/components/ui/lazy-mount"
 import type { PanZoom } from "panzoom"
 
 type MermaidSyntaxError = Error & { details?: string }
@@ -338,18 +340,63 @@ const ToolbarButton = ({
 interface MarkdownRendererProps {
   children: string
   onLinkClick?: (url: string) => void
+  // Find-in-conversation query; matching text outside of code is wrapped in <mark>
+  highlight?: string
 }
 
-export function MarkdownRenderer({ children, onLinkClick }: MarkdownRendererProps) {
+export function MarkdownRenderer({ children, onLinkClick, highlight }: MarkdownRendererProps) {
+  const query = highlight?.trim()
+
   return (
     <div className="luna-editorial">
-      <Markdown remarkPlugins={[remarkGfm]} components={getComponents(onLinkClick) as unknown as Components}>
+      <Markdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={query ? [[rehypeFindHighlight, query]] : undefined}
+        components={getComponents(onLinkClick) as unknown as Components}
+      >
         {children}
       </Markdown>
     </div>
   )
 }
 
+type HastNode = {
+  type: string
+  tagName?: string
+  value?: string
+  properties?: Record<string, unknown>
+  children?: HastNode[]
+}
+
+// Code blocks are re-tokenised from their string content, so marks inside them would be lost
+const UNMARKED_TAGS = new Set(["code", "pre", "script", "style"])
+
+function rehypeFindHighlight(query: string) {
+  const visit = (node: HastNode) => {
+    if (!node.children || (node.tagName && UNMARKED_TAGS.has(node.tagName))) return
+
+    node.children = node.children.flatMap((child): HastNode[] => {
+      if (child.type !== "text" || !child.value) {
+        visit(child)
+        return [child]
+      }
+
+      const segments = splitHighlights(child.value, query)
+      if (segments.length === 1 && !segments[0].match) return [child]
+      return segments.map((segment) => segment.match
+        ? {
+          type: "element",
+          tagName: "mark",
+          properties: { className: ["luna-find-match"], dataFindMatch: "" },
+          children: [{ type: "text", value: segment.text }],
+        }
+        : { type: "text", value: segment.text })
+    })
+  }
+
+  return (tree: HastNode) => visit(tree)
+}
+
 interface HighlightedPre extends React.HTMLAttributes<HTMLPreElement> {
   children: string
   language: string
@@ -449,7 +496,9 @@ function CodeBlock({
           </span>
         </div>
         <div className="p-4">
-          <MermaidDiagram code={normalizedCode} />
+          <LazyMount estimatedHeight={320}>
+            <MermaidDiagram code={normalizedCode} />
+          </LazyMount>
           <details className="mt-3 text-xs text-muted-foreground">
             <summary className="cursor-pointer select-none">View source</summary>
             <pre className="mt-2 overflow-x-auto whitespace-pre-wrap rounded-lg bg-muted p-3 font-mono text-[0.72rem]">
@@ -626,6 +675,25 @@ async function resolveMermaidCodeForRender(mermaidLib: MermaidModule, code: stri
   throw finalError
 }
 
+/**
+ * Renders a diagram to an SVG string outside of React, e.g. for exports.
+ * Returns null when the code cannot be repaired into valid Mermaid.
+ */
+export async function renderMermaidToSvg(code: string): Promise<string | null> {
+  const { default: mermaid } = await import("mermaid")
+  mermaid.initialize({ startOnLoad: false, theme: "neutral", securityLevel: "loose" })
+
+  try {
+    const repairedCode = await resolveMermaidCodeForRender(mermaid, normalizeMermaidCode(code))
+    const renderId = `mermaid-export-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    const renderResult = await mermaid.render(renderId, repairedCode)
+    const svg = typeof renderResult === "string" ? renderResult : renderResult?.svg
+    return svg && !isMermaidErrorSvg(svg) ? svg : null
+  } catch {
+    return null
+  }
+}
+
 function normalizeMermaidCode(code: string) {
   return code
     .replace(/[“”]/g, '"')
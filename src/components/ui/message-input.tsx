@@ -2,7 +2,7 @@
 
 import React, { useEffect, useRef, useState } from "react"
 import { AnimatePresence, motion } from "framer-motion"
-import { ArrowUp, Check, ChevronDown, Image as ImageIcon, Info, Loader2, Mic, Paperclip, Square, Youtube } from "lucide-react"
+import { ArrowUp, BookText, Check, ChevronDown, Columns3, Image as ImageIcon, Info, Loader2, Mic, Paperclip, Settings2, Square, UserRound, Youtube } from "lucide-react"
 import { omit } from "remeda"
 
 import { cn } from "@/lib/utils"
@@ -12,7 +12,10 @@ import { AudioVisualizer } from "@/components/ui/audio-visualizer"
 import { Button } from "@/components/ui/button"
 import { FilePreview } from "@/components/ui/file-preview"
 import { InterruptPrompt } from "@/components/ui/interrupt-prompt"
+import { SlashCommandMenu } from "@/components/ui/slash-command-menu"
 import { Switch } from "@/components/ui/switch"
+import type { Persona } from "@/lib/personas"
+import { matchSlashCommands, type SlashCommand } from "@/lib/slash-commands"
 
 interface MessageInputBaseProps
   extends Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'ref'> {
@@ -27,8 +30,24 @@ interface MessageInputBaseProps
   onToggleYouTube?: (next: boolean) => void
   includeImageSearch?: boolean
   onToggleImageSearch?: (next: boolean) => void
+  // Whether the user's custom instructions go with this conversation; the switch shows only with a handler
+  includeCustomInstructions?: boolean
+  onToggleCustomInstructions?: (next: boolean) => void
   selectedModel?: string
   onModelChange?: (model: string) => void
+  // Two or more models turn on compare mode, which sends each prompt to all of them
+  compareModels?: string[]
+  onCompareModelsChange?: (models: string[]) => void
+  // Presets the conversation can run with; picking one also sets its model and tools
+  personas?: Persona[]
+  selectedPersonaId?: string | null
+  onPersonaChange?: (personaId: string | null) => void
+  onManagePersonas?: () => void
+  onOpenPromptLibrary?: () => void
+  // `/` commands offered while the composer starts with a slash
+  slashCommands?: SlashCommand[]
+  // Runs a command that takes no argument; commands with one are completed into the composer instead
+  onRunSlashCommand?: (command: SlashCommand) => void
 }
 
 interface MessageInputWithoutAttachmentProps extends MessageInputBaseProps {
@@ -47,7 +66,7 @@ type MessageInputProps =
   | MessageInputWithoutAttachmentProps
   | MessageInputWithAttachmentsProps
 
-const MODEL_OPTIONS = [
+export const MODEL_OPTIONS = [
   { value: 'gemini-2.5-flash-lite', label: 'Fast' },
   { value: 'gemini-2.5-flash', label: 'Smart' },
   { value: 'gemini-2.5-pro', label: 'Best' },
@@ -66,14 +85,46 @@ export function MessageInput({
   onToggleYouTube,
   includeImageSearch = true,
   onToggleImageSearch,
+  includeCustomInstructions = true,
+  onToggleCustomInstructions,
   selectedModel = 'gemini-2.5-flash-lite',
   onModelChange,
+  compareModels = [],
+  onCompareModelsChange,
+  personas = [],
+  selectedPersonaId = null,
+  onPersonaChange,
+  onManagePersonas,
+  onOpenPromptLibrary,
+  slashCommands,
+  onRunSlashCommand,
   inputRef,
   ...props
 }: MessageInputProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [showInterruptPrompt, setShowInterruptPrompt] = useState(false)
   const [showYouTubeMenu, setShowYouTubeMenu] = useState(false)
+  const isComparing = compareModels.length >= 2
+  const selectedPersona = personas.find((persona) => persona.id === selectedPersonaId)
+  const [slashIndex, setSlashIndex] = useState(0)
+  // Value the command menu was closed at with Escape; typing reopens it
+  const [dismissedSlashValue, setDismissedSlashValue] = useState<string | null>(null)
+  const inputValue = typeof props.value === "string" ? props.value : ""
+  const slashMatches = slashCommands && dismissedSlashValue !== inputValue
+    ? matchSlashCommands(inputValue, slashCommands)
+    : []
+
+  useEffect(() => {
+    setSlashIndex(0)
+  }, [inputValue])
+
+  const selectSlashCommand = (command: SlashCommand) => {
+    if (!command.argument && onRunSlashCommand) {
+      onRunSlashCommand(command)
+      return
+    }
+    props.onChange?.({ target: { value: `/${command.name} ` } } as unknown as React.ChangeEvent<HTMLTextAreaElement>)
+  }
 
   const {
     isListening,
@@ -160,6 +211,23 @@ export function MessageInput({
   }
 
   const onKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (slashMatches.length > 0) {
+      if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+        event.preventDefault()
+        const step = event.key === "ArrowDown" ? 1 : -1
+        setSlashIndex((index) => (index + step + slashMatches.length) % slashMatches.length)
+        return
+      }
+      if (event.key === "Tab" || (event.key === "Enter" && !event.shiftKey)) {
+        event.preventDefault()
+        selectSlashCommand(slashMatches[slashIndex] ?? slashMatches[0])
+        return
+      }
+      if (event.key === "Escape") {
+        setDismissedSlashValue(inputValue)
+      }
+    }
+
     if (submitOnEnter && event.key === "Enter" && !event.shiftKey) {
       event.preventDefault()
 
@@ -262,6 +330,13 @@ export function MessageInput({
         onStopRecording={stopRecording}
       />
 
+      <SlashCommandMenu
+        commands={slashMatches}
+        activeIndex={slashIndex}
+        onActiveIndexChange={setSlashIndex}
+        onSelect={selectSlashCommand}
+      />
+
       <div className="relative flex w-full items-center space-x-2">
         <div className="relative flex-1">
           <textarea
@@ -316,7 +391,7 @@ export function MessageInput({
       </div>
 
       <div className="absolute right-3 top-3 z-20 flex gap-2">
-        {(onToggleYouTube || onToggleImageSearch) && (
+        {(onToggleYouTube || onToggleImageSearch || onToggleCustomInstructions || onPersonaChange) && (
           <div ref={youTubeMenuRef} className="relative">
             <Button
               type="button"
@@ -333,14 +408,14 @@ export function MessageInput({
               aria-pressed={includeYouTube}
               onClick={() => setShowYouTubeMenu((value) => !value)}
             >
-              <span className="text-sm font-medium">Tools</span>
+              <span className="max-w-28 truncate text-sm font-medium">{selectedPersona?.name ?? "Tools"}</span>
               <ChevronDown className="h-3 w-3" />
             </Button>
             {showYouTubeMenu && (
               <div
                 role="menu"
                 aria-label="Tools"
-                className="absolute bottom-full left-1/2 z-30 mb-2 w-48 -translate-x-1/2 rounded-xl border border-border/80 bg-background p-2 text-popover-foreground shadow-[0_12px_32px_rgba(0,0,0,0.1)] dark:border-[#3a3935] dark:bg-[#201f23] dark:shadow-[0_16px_32px_rgba(0,0,0,0.3)]"
+                className="absolute bottom-full left-1/2 z-30 mb-2 max-h-[60dvh] w-48 -translate-x-1/2 overflow-y-auto rounded-xl border border-border/80 bg-background p-2 text-popover-foreground shadow-[0_12px_32px_rgba(0,0,0,0.1)] dark:border-[#3a3935] dark:bg-[#201f23] dark:shadow-[0_16px_32px_rgba(0,0,0,0.3)]"
               >
                 {onToggleYouTube && (
                   <div
@@ -386,6 +461,28 @@ export function MessageInput({
                     />
                   </div>
                 )}
+                {onToggleCustomInstructions && (
+                  <div
+                    role="menuitem"
+                    className="mt-1 flex w-full items-center justify-between gap-2 rounded-sm px-2 py-1.5 text-sm"
+                  >
+                    <label
+                      htmlFor="message-input-instructions-switch"
+                      className="flex items-center gap-2 font-medium"
+                    >
+                      <UserRound className="h-4 w-4" />
+                      <span>Instructions</span>
+                    </label>
+                    <Switch
+                      id="message-input-instructions-switch"
+                      checked={includeCustomInstructions}
+                      onCheckedChange={(checked: boolean) => {
+                        onToggleCustomInstructions(checked)
+                      }}
+                      aria-label="Use custom instructions in this chat"
+                    />
+                  </div>
+                )}
                 {props.allowAttachments && (
                   <button
                     type="button"
@@ -402,27 +499,122 @@ export function MessageInput({
                     <span>Upload files</span>
                   </button>
                 )}
-                {onModelChange && (
+                {onCompareModelsChange && (
+                  <div
+                    role="menuitem"
+                    className="mt-1 flex w-full items-center justify-between gap-2 rounded-sm px-2 py-1.5 text-sm"
+                  >
+                    <label
+                      htmlFor="message-input-compare-switch"
+                      className="flex items-center gap-2 font-medium"
+                    >
+                      <Columns3 className="h-4 w-4" />
+                      <span>Compare</span>
+                    </label>
+                    <Switch
+                      id="message-input-compare-switch"
+                      checked={isComparing}
+                      onCheckedChange={(checked: boolean) => {
+                        onCompareModelsChange(checked ? MODEL_OPTIONS.map((opt) => opt.value) : [])
+                      }}
+                      aria-label="Toggle model comparison"
+                    />
+                  </div>
+                )}
+                {(onModelChange || (onCompareModelsChange && isComparing)) && (
                   <div className="mt-1 border-t border-border/60 pt-1">
-                    <p className="px-2 pb-1 pt-0.5 text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">Model</p>
-                    {MODEL_OPTIONS.map((opt) => (
+                    <p className="px-2 pb-1 pt-0.5 text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">
+                      {isComparing ? "Compare models" : "Model"}
+                    </p>
+                    {MODEL_OPTIONS.map((opt) => {
+                      const isSelected = isComparing ? compareModels.includes(opt.value) : selectedModel === opt.value
+                      return (
+                        <button
+                          key={opt.value}
+                          type="button"
+                          role={isComparing ? "menuitemcheckbox" : "menuitem"}
+                          aria-checked={isComparing ? isSelected : undefined}
+                          className={cn(
+                            "flex w-full items-center justify-between rounded-sm px-2 py-1.5 text-sm transition-colors hover:bg-accent hover:text-accent-foreground",
+                            isSelected && "bg-accent text-accent-foreground font-medium"
+                          )}
+                          onClick={() => {
+                            if (isComparing) {
+                              const next = isSelected
+                                ? compareModels.filter((model) => model !== opt.value)
+                                : [...compareModels, opt.value]
+                              // A comparison needs at least two models
+                              if (next.length >= 2) onCompareModelsChange?.(next)
+                              return
+                            }
+                            onModelChange?.(opt.value)
+                            setShowYouTubeMenu(false)
+                          }}
+                        >
+                          <span>{opt.label}</span>
+                          {isSelected && <Check className="h-3.5 w-3.5" />}
+                        </button>
+                      )
+                    })}
+                  </div>
+                )}
+                {onPersonaChange && (
+                  <div className="mt-1 border-t border-border/60 pt-1">
+                    <p className="px-2 pb-1 pt-0.5 text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">
+                      Preset
+                    </p>
+                    {[null, ...personas].map((persona) => {
+                      const isSelected = (persona?.id ?? null) === (selectedPersona?.id ?? null)
+                      return (
+                        <button
+                          key={persona?.id ?? "none"}
+                          type="button"
+                          role="menuitemradio"
+                          aria-checked={isSelected}
+                          className={cn(
+                            "flex w-full items-center justify-between rounded-sm px-2 py-1.5 text-sm transition-colors hover:bg-accent hover:text-accent-foreground",
+                            isSelected && "bg-accent text-accent-foreground font-medium"
+                          )}
+                          onClick={() => {
+                            onPersonaChange(persona?.id ?? null)
+                            setShowYouTubeMenu(false)
+                          }}
+                        >
+                          <span className="truncate">{persona?.name ?? "None"}</span>
+                          {isSelected && <Check className="h-3.5 w-3.5" />}
+                        </button>
+                      )
+                    })}
+                    {onManagePersonas && (
                       <button
-                        key={opt.value}
                         type="button"
                         role="menuitem"
-                        className={cn(
-                          "flex w-full items-center justify-between rounded-sm px-2 py-1.5 text-sm transition-colors hover:bg-accent hover:text-accent-foreground",
-                          selectedModel === opt.value && "bg-accent text-accent-foreground font-medium"
-                        )}
+                        className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground"
                         onClick={() => {
-                          onModelChange(opt.value)
+                          onManagePersonas()
                           setShowYouTubeMenu(false)
                         }}
                       >
-                        <span>{opt.label}</span>
-                        {selectedModel === opt.value && <Check className="h-3.5 w-3.5" />}
+                        <Settings2 className="h-4 w-4" />
+                        <span>Manage presets…</span>
                       </button>
-                    ))}
+                    )}
+                  </div>
+                )}
+                {onOpenPromptLibrary && (
+                  <div className="mt-1 border-t border-border/60 pt-1">
+                    <button
+                      type="button"
+                      role="menuitem"
+                      className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm transition-colors hover:bg-accent hover:text-accent-foreground"
+                      onClick={() => {
+                        onOpenPromptLibrary()
+                        setShowYouTubeMenu(false)
+                      }}
+                    >
+                      <BookText className="h-4 w-4" />
+                      <span>Prompt library…</span>
+                    </button>
                   </div>
                 )}
               </div>
@@ -1,63 +1,135 @@
-import { memo, useEffect, useRef } from "react"
+import { memo, useEffect, useRef, type ReactNode } from "react"
 import {
   ChatMessage,
   type ChatMessageProps,
   type Message,
+  type MessageBranchInfo,
 } from "@/components/ui/chat-message"
+import { LazyMount } from "@/components/ui/lazy-mount"
+
+// The newest messages stay mounted so streaming and auto-scroll never hit a placeholder
+export const ALWAYS_MOUNTED_TAIL = 3
+export const ESTIMATED_MESSAGE_HEIGHT = 220
+
+export function messageElementId(messageId: string) {
+  return `message-${messageId}`
+}
+
+// Scrolls to a message even when it is currently windowed out.
+export function scrollToMessage(messageId: string, behavior: ScrollBehavior = "smooth") {
+  const element = document.getElementById(messageElementId(messageId))
+  if (!element) return false
+
+  element.scrollIntoView({ behavior, block: "center" })
+  // The placeholder may be shorter or taller than the real message; settle once it has mounted
+  window.setTimeout(() => {
+    document.getElementById(messageElementId(messageId))?.scrollIntoView({ behavior: "auto", block: "center" })
+  }, behavior === "smooth" ? 400 : 50)
+  return true
+}
+
+const FLASH_DURATION = 2400
+
+// Briefly outlines a message, e.g. the one a search result pointed at
+export function flashMessage(messageId: string) {
+  const element = document.getElementById(messageElementId(messageId))
+  if (!element) return
+
+  element.dataset.flash = "true"
+  window.setTimeout(() => {
+    delete element.dataset.flash
+  }, FLASH_DURATION)
+}
 
 type AdditionalMessageOptions = Omit<ChatMessageProps, keyof Message>
 
-interface MessageListProps {
-  messages: Message[]
-  showTimeStamps?: boolean
-  messageOptions?:
-    | AdditionalMessageOptions
-    | ((message: Message) => AdditionalMessageOptions)
+export type MessageOptions =
+  | AdditionalMessageOptions
+  | ((message: Message) => AdditionalMessageOptions)
+
+interface MessageRowProps {
+  message: Message
+  showTimeStamps: boolean
+  messageOptions?: MessageOptions
+  branch?: MessageBranchInfo
 }
 
-function MessageListComponent({
-  messages,
-  showTimeStamps = true,
-  messageOptions,
-}: MessageListProps) {
-  const messagesEndRef = useRef<HTMLDivElement>(null)
-  const previousMessageCountRef = useRef<number>(messages.length)
+export function MessageRow({ message, showTimeStamps, messageOptions, branch }: MessageRowProps) {
+  const additionalOptions =
+    typeof messageOptions === "function"
+      ? messageOptions(message)
+      : messageOptions
+
+  return (
+    <ChatMessage
+      showTimeStamp={showTimeStamps}
+      {...message}
+      branch={branch}
+      {...additionalOptions}
+    />
+  )
+}
 
-  const scrollToBottom = (behavior: ScrollBehavior = "auto") => {
-    messagesEndRef.current?.scrollIntoView({ behavior })
-  }
+interface WindowedMessagesProps {
+  messageIds: string[]
+  renderMessage: (messageId: string, index: number) => ReactNode
+}
+
+/**
+ * Lays out a thread: older messages are only mounted near the viewport, and the end of the
+ * thread is scrolled into view whenever messages are added.
+ */
+export function WindowedMessages({ messageIds, renderMessage }: WindowedMessagesProps) {
+  const messagesEndRef = useRef<HTMLDivElement>(null)
+  const previousMessageCountRef = useRef<number>(messageIds.length)
 
   useEffect(() => {
     const prevCount = previousMessageCountRef.current
-    const nextCount = messages.length
+    const nextCount = messageIds.length
 
     if (nextCount > prevCount) {
-      scrollToBottom(nextCount - prevCount === 1 ? "smooth" : "auto")
+      messagesEndRef.current?.scrollIntoView({ behavior: nextCount - prevCount === 1 ? "smooth" : "auto" })
     }
-//dddddds
+
     previousMessageCountRef.current = nextCount
-  }, [messages.length])
+  }, [messageIds.length])
 
   return (
     <div className="space-y-4 overflow-visible">
-      {messages.map((message) => {
-        const additionalOptions =
-          typeof messageOptions === "function"
-            ? messageOptions(message)
-            : messageOptions
-
-        return (
-          <ChatMessage
-            key={message.id}
-            showTimeStamp={showTimeStamps}
-            {...message}
-            {...additionalOptions}
-          />
-        )
-      })}
+      {messageIds.map((messageId, index) => (
+        <LazyMount
+          key={messageId}
+          id={messageElementId(messageId)}
+          keepMounted={index >= messageIds.length - ALWAYS_MOUNTED_TAIL}
+          estimatedHeight={ESTIMATED_MESSAGE_HEIGHT}
+        >
+          {renderMessage(messageId, index)}
+        </LazyMount>
+      ))}
       <div ref={messagesEndRef} />
     </div>
   )
 }
 
+interface MessageListProps {
+  messages: Message[]
+  showTimeStamps?: boolean
+  messageOptions?: MessageOptions
+}
+
+function MessageListComponent({
+  messages,
+  showTimeStamps = true,
+  messageOptions,
+}: MessageListProps) {
+  return (
+    <WindowedMessages
+      messageIds={messages.map((message) => message.id)}
+      renderMessage={(_, index) => (
+        <MessageRow message={messages[index]} showTimeStamps={showTimeStamps} messageOptions={messageOptions} />
+      )}
+    />
+  )
+}
+
 export const MessageList = memo(MessageListComponent)
@@ -26,7 +26,7 @@ export function Navbar() {
                 variant="ghost"
                 size="sm"
                 onClick={() => {
-                  logout();
+                  void logout();
                 }}
                 className="gap-1"
               >
@@ -0,0 +1,27 @@
+"use client"
+
+import { useEffect } from "react"
+
+// Registers public/sw.js in production builds; in development it would serve stale bundles
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return
+
+    navigator.serviceWorker
+      .register("/sw.js", { scope: "/" })
+      .then(() => navigator.serviceWorker.ready)
+      .then((registration) => {
+        // The bundles of this first visit loaded before the worker existed, so hand them over for the shell
+        const urls = performance
+          .getEntriesByType("resource")
+          .map((entry) => entry.name)
+          .filter((url) => url.startsWith(`${location.origin}/_next/static/`))
+        registration.active?.postMessage({ type: "cache-urls", urls })
+      })
+      .catch((error) => {
+        console.error("Service worker registration failed", error)
+      })
+  }, [])
+
+  return null
+}
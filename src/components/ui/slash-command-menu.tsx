@@ -0,0 +1,53 @@
+"use client"
+
+import * as React from "react"
+import { Command, CommandItem, CommandList } from "@/components/ui/command"
+import { cn } from "@/lib/utils"
+import type { SlashCommand } from "@/lib/slash-commands"
+
+interface SlashCommandMenuProps {
+  commands: SlashCommand[]
+  // Highlighted command; the composer moves it with the arrow keys while focus stays in the textarea
+  activeIndex: number
+  onActiveIndexChange: (index: number) => void
+  onSelect: (command: SlashCommand) => void
+  className?: string
+}
+
+export function SlashCommandMenu({ commands, activeIndex, onActiveIndexChange, onSelect, className }: SlashCommandMenuProps) {
+  if (commands.length === 0) return null
+
+  return (
+    <div
+      className={cn(
+        "absolute bottom-full left-0 right-0 z-50 mb-2 rounded-lg border bg-popover shadow-lg",
+        className
+      )}
+    >
+      <Command
+        className="rounded-lg"
+        shouldFilter={false}
+        value={commands[activeIndex]?.name ?? ""}
+        onValueChange={(value) => onActiveIndexChange(Math.max(0, commands.findIndex((command) => command.name === value)))}
+      >
+        <CommandList id="slash-command-menu" role="listbox" aria-label="Commands">
+          <div className="max-h-[300px] overflow-y-auto">
+            {commands.map((command) => (
+              <CommandItem
+                key={command.name}
+                value={command.name}
+                onMouseDown={(event) => event.preventDefault()}
+                onSelect={() => onSelect(command)}
+                className="flex cursor-pointer items-baseline gap-2 px-4 py-2 text-sm"
+              >
+                <span className="font-mono font-medium">/{command.name}</span>
+                {command.argument && <span className="font-mono text-xs text-muted-foreground">{command.argument}</span>}
+                <span className="ml-auto truncate pl-4 text-xs text-muted-foreground">{command.description}</span>
+              </CommandItem>
+            ))}
+          </div>
+        </CommandList>
+      </Command>
+    </div>
+  )
+}
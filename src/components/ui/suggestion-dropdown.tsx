@@ -3,11 +3,13 @@
 import * as React from "react"
 import { Command, CommandList, CommandItem } from "@/components/ui/command"
 import { cn } from "@/lib/utils"
-import { Search } from "lucide-react" // Import the search icon
+import type { PromptTemplate } from "@/lib/prompt-templates"
+import { BookText } from "lucide-react"
 
 interface SuggestionDropdownProps {
-  suggestions: string[]
-  onSelect: (suggestion: string) => void
+  // Prompt library templates matching what has been typed so far
+  suggestions: PromptTemplate[]
+  onSelect: (suggestion: PromptTemplate) => void
   inputValue: string
   className?: string
 }
@@ -37,8 +39,8 @@ export function SuggestionDropdown({
           <div className="max-h-[300px] overflow-y-auto">
             {filtered.map((suggestion) => (
               <CommandItem
-                key={suggestion}
-                value={suggestion}
+                key={suggestion.id}
+                value={suggestion.id}
                 onSelect={() => onSelect(suggestion)}
                 className={cn(
                   "px-4 py-2 text-sm cursor-pointer flex items-center gap-2",
@@ -46,8 +48,9 @@ export function SuggestionDropdown({
                   "transition-colors duration-150"
                 )}
               >
-                <Search className="h-4 w-4 text-muted-foreground" />
-                <span>{suggestion}</span>
+                <BookText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                <span className="truncate">{suggestion.title}</span>
+                <span className="ml-auto flex-shrink-0 text-[11px] text-muted-foreground">{suggestion.category}</span>
               </CommandItem>
             ))}
           </div>
@@ -3,6 +3,8 @@
 import { createContext, useContext, useEffect, useState, useMemo, useCallback, ReactNode } from 'react';
 import { useRouter } from 'next/navigation';
 import { toast } from "sonner";
+import type { CustomInstructions } from "@/lib/custom-instructions";
+import { clearOfflineData } from "@/lib/offline-cache";
 
 type User = {
   email: string;
@@ -11,6 +13,7 @@ type User = {
   username?: string;
   profileImageUrl?: string;
   avatarUrl?: string;
+  customInstructions?: CustomInstructions;
   // Add other user properties as needed
 };
 
@@ -19,7 +22,7 @@ type AuthContextType = {
   token: string | null;
   login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
   loginWithGoogle: (code: string) => Promise<{ success: boolean; error?: string }>;
-  logout: () => void;
+  logout: () => Promise<void>;
   updateUser: (updates: Partial<User>) => void;
   isLoading: boolean;
 };
@@ -116,13 +119,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, [handleAuthSuccess, toast]);
 
-  const logout = useCallback(() => {
+  // Offline data is cleared before signing out, so nothing of this account is left for the next one
+  const logout = useCallback(async () => {
+    if (user?.email) {
+      await clearOfflineData(user.email).catch((error) => {
+        console.error('Failed to clear offline data', error);
+      });
+    }
     localStorage.removeItem('user');
     localStorage.removeItem('token');
     setUser(null);
     setToken(null);
     router.push('/login');
-  }, [router]);
+  }, [router, user]);
 
   const updateUser = useCallback((updates: Partial<User>) => {
     setUser(prev => {
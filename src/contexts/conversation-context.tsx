@@ -0,0 +1,55 @@
+"use client"
+
+import { createContext, useCallback, useContext, useState, useSyncExternalStore, type ReactNode } from "react"
+import type { Message } from "@/components/ui/chat-message"
+import { createConversationStore, getSiblingIds, type ConversationStore } from "@/lib/conversation-store"
+
+const ConversationStoreContext = createContext<ConversationStore | undefined>(undefined)
+
+export function ConversationStoreProvider({ children }: { children: ReactNode }) {
+  const [store] = useState(() => createConversationStore())
+
+  return (
+    <ConversationStoreContext.Provider value={store}>
+      {children}
+    </ConversationStoreContext.Provider>
+  )
+}
+
+export function useConversationStore() {
+  const context = useContext(ConversationStoreContext)
+  if (context === undefined) {
+    throw new Error("useConversationStore must be used within a ConversationStoreProvider")
+  }
+  return context
+}
+
+// Changes only when messages are added, removed or reordered, not while one is streaming.
+export function useConversationMessageIds(): string[] {
+  const store = useConversationStore()
+  const getSnapshot = useCallback(() => store.getState().messageIds, [store])
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot)
+}
+
+export function useConversationMessage(messageId: string): Message | undefined {
+  const store = useConversationStore()
+  const subscribe = useCallback(
+    (listener: () => void) => store.subscribeToMessage(messageId, listener),
+    [store, messageId]
+  )
+  const getSnapshot = useCallback(() => store.getState().messagesById[messageId], [store, messageId])
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot)
+}
+
+// Other versions of the same turn, including `messageId` itself, in creation order.
+export function useMessageSiblingIds(messageId: string): string[] {
+  const store = useConversationStore()
+  const getSnapshot = useCallback(() => getSiblingIds(store.getState(), messageId), [store, messageId])
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot)
+}
+
+// Re-renders on every update; prefer the narrower hooks in anything rendered per message.
+export function useConversationMessages(): Message[] {
+  const store = useConversationStore()
+  return useSyncExternalStore(store.subscribe, store.getMessages, store.getMessages)
+}
@@ -0,0 +1,85 @@
+import { useMemo, useState } from "react"
+import { BookText, FileCode, FileJson, FileText, Keyboard, Plus, Printer, Settings, Sparkles } from "lucide-react"
+import { toast } from "sonner"
+
+import type { PaletteAction } from "@/components/chat/command-palette"
+import { MODEL_OPTIONS } from "@/components/ui/message-input"
+import type { ExportFormat } from "@/lib/conversation-export"
+import { formatShortcut, type ShortcutBindings } from "@/lib/keyboard-shortcuts"
+
+type UseCommandPaletteOptions = {
+  bindings: ShortcutBindings
+  // Whether the open chat has anything to export
+  hasMessages: boolean
+  selectedModel: string
+  onNewChat: () => void
+  onShowShortcuts: () => void
+  onOpenPromptLibrary: () => void
+  onOpenSettings: () => void
+  onChangeModel: (model: string) => void
+  onExport: (format: ExportFormat) => Promise<void> | void
+}
+
+const EXPORT_ACTIONS = [
+  ["markdown", "Export chat as Markdown", FileText],
+  ["json", "Export chat as JSON", FileJson],
+  ["html", "Export chat as HTML", FileCode],
+  ["pdf", "Export chat as PDF", Printer],
+] as const
+
+// Whether the Ctrl/Cmd+K palette is open and the app actions it lists next to chats and templates
+export function useCommandPalette({
+  bindings,
+  hasMessages,
+  selectedModel,
+  onNewChat,
+  onShowShortcuts,
+  onOpenPromptLibrary,
+  onOpenSettings,
+  onChangeModel,
+  onExport,
+}: UseCommandPaletteOptions) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  const actions = useMemo<PaletteAction[]>(() => [
+    {
+      id: "new-chat",
+      label: "New chat",
+      icon: Plus,
+      keywords: ["start", "clear"],
+      shortcut: formatShortcut(bindings["new-chat"]),
+      run: onNewChat,
+    },
+    {
+      id: "keyboard-shortcuts",
+      label: "Show keyboard shortcuts",
+      icon: Keyboard,
+      keywords: ["keys", "hotkeys", "help"],
+      shortcut: formatShortcut(bindings["show-shortcuts"]),
+      run: onShowShortcuts,
+    },
+    { id: "prompt-library", label: "Open prompt library", icon: BookText, keywords: ["templates", "prompts"], run: onOpenPromptLibrary },
+    { id: "settings", label: "Open settings", icon: Settings, keywords: ["profile", "instructions", "preferences"], run: onOpenSettings },
+    ...MODEL_OPTIONS.map((option) => ({
+      id: `model-${option.value}`,
+      label: `Switch to the ${option.label} model`,
+      icon: Sparkles,
+      keywords: ["model", option.value],
+      disabled: option.value === selectedModel,
+      run: () => {
+        onChangeModel(option.value)
+        toast.success(`Switched to ${option.label}`)
+      },
+    })),
+    ...EXPORT_ACTIONS.map(([format, label, icon]) => ({
+      id: `export-${format}`,
+      label,
+      icon,
+      keywords: ["export", "download", "save"],
+      disabled: !hasMessages,
+      run: () => void onExport(format),
+    })),
+  ], [bindings, hasMessages, onChangeModel, onExport, onNewChat, onOpenPromptLibrary, onOpenSettings, onShowShortcuts, selectedModel])
+
+  return { isOpen, setIsOpen, actions }
+}
@@ -0,0 +1,28 @@
+import { useEffect } from "react"
+
+import { useConversationStore } from "@/contexts/conversation-context"
+import { watchConversation, type ConversationState } from "@/lib/conversation-store"
+import { cacheConversation, createCachedConversation, isOfflineCacheAvailable } from "@/lib/offline-cache"
+
+const CACHE_DELAY = 1500
+
+/**
+ * Keeps the offline copy of the open conversation current, including answers as they stream
+ * in, so it can be shown instantly (or without a connection) the next time it is opened.
+ */
+export function useConversationCache({ account, conversationId }: { account?: string | null; conversationId: string | null }) {
+  const store = useConversationStore()
+
+  useEffect(() => {
+    if (!account || !conversationId || !isOfflineCacheAvailable()) return
+
+    const save = (state: ConversationState) => {
+      cacheConversation(account, createCachedConversation(conversationId, state)).catch((error) => {
+        console.error("Failed to cache conversation", error)
+      })
+    }
+
+    save(store.getState())
+    return watchConversation(store, save, CACHE_DELAY)
+  }, [account, conversationId, store])
+}
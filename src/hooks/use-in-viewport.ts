@@ -0,0 +1,34 @@
+import { useEffect, useState, type RefObject } from "react"
+
+type UseInViewportOptions = {
+  // Scroll container to observe against; defaults to the browser viewport
+  root?: Element | null
+  rootMargin?: string
+  initialInView?: boolean
+}
+
+export function useInViewport(
+  ref: RefObject<Element | null>,
+  { root = null, rootMargin = "0px", initialInView = false }: UseInViewportOptions = {}
+) {
+  const [inView, setInView] = useState(initialInView)
+
+  useEffect(() => {
+    const node = ref.current
+    if (!node) return
+
+    if (typeof IntersectionObserver === "undefined") {
+      setInView(true)
+      return
+    }
+
+    const observer = new IntersectionObserver(
+      ([entry]) => setInView(entry.isIntersecting),
+      { root, rootMargin }
+    )
+    observer.observe(node)
+    return () => observer.disconnect()
+  }, [ref, root, rootMargin])
+
+  return inView
+}
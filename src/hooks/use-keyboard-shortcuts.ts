@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+
+import {
+  eventToKeys,
+  findShortcut,
+  readShortcutOverrides,
+  resolveShortcutBindings,
+  writeShortcutOverrides,
+  type ShortcutBindings,
+  type ShortcutId,
+} from "@/lib/keyboard-shortcuts"
+
+// Returning false leaves the key to the browser, e.g. Ctrl+F when there is nothing to search
+export type ShortcutHandlers = Partial<Record<ShortcutId, () => boolean | void>>
+
+function isEditableTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+}
+
+/**
+ * Runs the handler bound to each keydown through a single window listener. Handlers can change
+ * every render without re-subscribing; only remapped bindings rebuild the lookup.
+ */
+export function useKeyboardShortcuts(bindings: ShortcutBindings, handlers: ShortcutHandlers) {
+  const handlersRef = useRef(handlers)
+
+  useEffect(() => {
+    handlersRef.current = handlers
+  })
+
+  useEffect(() => {
+    const idsByKeys = new Map<string, ShortcutId>()
+    Object.entries(bindings).forEach(([id, keys]) => {
+      if (keys) idsByKeys.set(keys, id as ShortcutId)
+    })
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.isComposing) return
+      const keys = eventToKeys(event)
+      const id = keys ? idsByKeys.get(keys) : undefined
+      if (!id) return
+
+      const shortcut = findShortcut(id)
+      const target = event.target instanceof Element ? event.target : null
+      if (!shortcut.allowInDialogs && target?.closest("[role='dialog'], [role='alertdialog']")) return
+      if (!shortcut.allowInInputs && isEditableTarget(event.target)) return
+
+      const handler = handlersRef.current[id]
+      if (!handler || handler() === false) return
+      event.preventDefault()
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [bindings])
+}
+
+/**
+ * The bindings in effect, with the user's remappings saved in localStorage, and whether the
+ * shortcut help dialog is open. Passing `undefined` to `changeShortcut` restores the default.
+ */
+export function useShortcutBindings() {
+  const [overrides, setOverrides] = useState<Partial<ShortcutBindings>>(() => {
+    if (typeof window === "undefined") return {}
+    return readShortcutOverrides()
+  })
+  const [isHelpOpen, setIsHelpOpen] = useState(false)
+  const bindings = useMemo(() => resolveShortcutBindings(overrides), [overrides])
+
+  const changeShortcut = useCallback((id: ShortcutId, keys: string | undefined) => {
+    setOverrides((prev) => {
+      const next = { ...prev }
+      if (keys === undefined) {
+        delete next[id]
+      } else {
+        next[id] = keys
+      }
+      writeShortcutOverrides(next)
+      return next
+    })
+  }, [])
+
+  return { bindings, changeShortcut, isHelpOpen, setIsHelpOpen }
+}
@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import { useConversationStore } from "@/contexts/conversation-context"
+import type { ConversationSummary } from "@/lib/conversation-history"
+import { watchConversation, type ConversationState } from "@/lib/conversation-store"
+import { createMessagesDocument, createSummaryDocument, type SearchDocument } from "@/lib/local-search"
+import {
+  deleteSearchDocuments,
+  isSearchIndexAvailable,
+  loadSearchDocuments,
+  saveSearchDocuments,
+} from "@/lib/local-search-db"
+import type { Message } from "@/components/ui/chat-message"
+
+type UseLocalSearchIndexOptions = {
+  // Key of the signed-in account; nothing is read or written without one
+  account?: string | null
+  conversations: ConversationSummary[]
+  conversationId: string | null
+  // Model answers are currently generated with
+  model?: string
+}
+
+// Streaming changes are batched into one re-index and one write per interval
+const INDEX_DELAY = 1000
+const PERSIST_DELAY = 800
+
+const SUMMARY_FIELDS = ["title", "updated_at", "created_at", "pinned", "archived", "folder_id"] as const
+
+function sameSummary(a: ConversationSummary, b: ConversationSummary) {
+  return SUMMARY_FIELDS.every((field) => a[field] === b[field])
+    && a.tags.join() === b.tags.join()
+    && a.settings?.model === b.settings?.model
+}
+
+// Stand-in summary for a conversation that is not in the loaded history yet, e.g. a brand new chat
+function draftSummary(conversationId: string, messages: Message[]): ConversationSummary {
+  const firstPrompt = messages.find((message) => message.role === "user")?.content.trim() ?? ""
+  return {
+    id: conversationId,
+    title: firstPrompt.slice(0, 80) || `Chat ${conversationId.slice(0, 6)}`,
+    updated_at: null,
+    created_at: null,
+    pinned: false,
+    archived: false,
+    folder_id: null,
+    tags: [],
+    settings: null,
+  }
+}
+
+/**
+ * Client-side full-text index over the conversations this browser has seen, persisted in
+ * IndexedDB so searching is instant and keeps working offline. History summaries are indexed as
+ * they load; the open conversation's messages are re-indexed while they stream in.
+ */
+export function useLocalSearchIndex({ account, conversations, conversationId, model }: UseLocalSearchIndexOptions) {
+  const store = useConversationStore()
+  const documentsRef = useRef(new Map<string, SearchDocument>())
+  const [documents, setDocuments] = useState<SearchDocument[]>([])
+  const pendingWritesRef = useRef(new Map<string, SearchDocument>())
+  const writeTimerRef = useRef<number | null>(null)
+
+  const publish = useCallback(() => {
+    setDocuments([...documentsRef.current.values()])
+  }, [])
+
+  const upsert = useCallback((changed: SearchDocument[]) => {
+    if (changed.length === 0) return
+    changed.forEach((document) => documentsRef.current.set(document.id, document))
+    publish()
+
+    if (!account || !isSearchIndexAvailable()) return
+    changed.forEach((document) => pendingWritesRef.current.set(document.id, document))
+    if (writeTimerRef.current !== null) return
+    writeTimerRef.current = window.setTimeout(() => {
+      writeTimerRef.current = null
+      const batch = [...pendingWritesRef.current.values()]
+      pendingWritesRef.current.clear()
+      saveSearchDocuments(account, batch).catch((error) => {
+        console.error("Failed to update the search index", error)
+      })
+    }, PERSIST_DELAY)
+  }, [account, publish])
+
+  // Returns what was removed, so it can be put back with `restoreDocuments`, e.g. on Undo
+  const removeDocuments = useCallback((ids: string[]) => {
+    const removed = ids.flatMap((id) => documentsRef.current.get(id) ?? [])
+    ids.forEach((id) => {
+      documentsRef.current.delete(id)
+      pendingWritesRef.current.delete(id)
+    })
+    publish()
+
+    if (account && isSearchIndexAvailable()) {
+      deleteSearchDocuments(account, ids).catch((error) => {
+        console.error("Failed to update the search index", error)
+      })
+    }
+    return removed
+  }, [account, publish])
+
+  // Stored documents fill in what the loaded history does not know yet: messages, and
+  // conversations beyond the pages fetched so far (or everything, when offline)
+  useEffect(() => {
+    documentsRef.current = new Map()
+    publish()
+    if (!account || !isSearchIndexAvailable()) return
+
+    let cancelled = false
+    loadSearchDocuments(account)
+      .then((stored) => {
+        if (cancelled) return
+        for (const document of stored) {
+          const current = documentsRef.current.get(document.id)
+          documentsRef.current.set(document.id, current
+            ? { ...document, summary: current.summary, updatedAt: Math.max(current.updatedAt, document.updatedAt) }
+            : document)
+        }
+        publish()
+      })
+      .catch((error) => {
+        console.error("Failed to load the search index", error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [account, publish])
+
+  useEffect(() => {
+    const changed = conversations.flatMap((summary) => {
+      const previous = documentsRef.current.get(summary.id)
+      return previous && sameSummary(previous.summary, summary) ? [] : [createSummaryDocument(summary, previous)]
+    })
+    upsert(changed)
+  }, [conversations, upsert])
+
+  useEffect(() => {
+    if (!conversationId) return
+
+    const index = (state: ConversationState) => {
+      const messages = Object.values(state.messagesById)
+      if (messages.length === 0) return
+      const previous = documentsRef.current.get(conversationId)
+        ?? createSummaryDocument(draftSummary(conversationId, messages))
+      upsert([createMessagesDocument(previous, messages, model)])
+    }
+
+    index(store.getState())
+    return watchConversation(store, index, INDEX_DELAY)
+  }, [conversationId, model, store, upsert])
+
+  return { documents, removeDocuments, restoreDocuments: upsert }
+}
@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { toast } from "sonner"
+
+import { useConversationStore } from "@/contexts/conversation-context"
+import { modelLabel, type ComparisonRequest, type ComparisonResult } from "@/components/chat/model-comparison"
+import type { Message } from "@/components/ui/chat-message"
+
+type UseModelComparisonOptions = {
+  token?: string | null
+  // Open conversation, which a kept answer is saved to when the comparison did not start in another one
+  conversationId: string | null
+  // Called once a kept answer is saved, with the conversation it was saved to or started.
+  // `isNewConversation` is set when the new chat that is still open was saved as that conversation.
+  onSaved?: (conversationId: string, prompt: string, isNewConversation: boolean) => void
+}
+
+const COMPARE_MODELS_STORAGE_KEY = "luna_compare_models"
+// The comparison view has room for this many columns
+const MAX_COMPARED_MODELS = 3
+
+function readCompareModels() {
+  try {
+    const stored = JSON.parse(localStorage.getItem(COMPARE_MODELS_STORAGE_KEY) || "[]")
+    return Array.isArray(stored) ? stored.filter((model): model is string => typeof model === "string") : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Compare mode: the models picked in the composer, the comparison on screen and keeping one of its
+ * answers. A kept answer only joins the thread once it is saved, so a failed save can be retried.
+ */
+export function useModelComparison({ token, conversationId, onSaved }: UseModelComparisonOptions) {
+  const store = useConversationStore()
+  const [models, setModels] = useState<string[]>(() => {
+    if (typeof window === "undefined") return []
+    return readCompareModels()
+  })
+  const [comparison, setComparison] = useState<ComparisonRequest | null>(null)
+  // Set while a kept answer is being saved, so a second click does not save it twice
+  const isKeepingRef = useRef(false)
+  const onSavedRef = useRef(onSaved)
+  // What is open once a save finishes, which may no longer be where the comparison started
+  const conversationIdRef = useRef(conversationId)
+  const comparisonRef = useRef(comparison)
+
+  useEffect(() => {
+    onSavedRef.current = onSaved
+    conversationIdRef.current = conversationId
+    comparisonRef.current = comparison
+  })
+
+  const changeModels = useCallback((next: string[]) => {
+    setModels(next)
+    localStorage.setItem(COMPARE_MODELS_STORAGE_KEY, JSON.stringify(next))
+  }, [])
+
+  const start = useCallback((request: Omit<ComparisonRequest, "id" | "models">) => {
+    setComparison({ ...request, id: crypto.randomUUID(), models: models.slice(0, MAX_COMPARED_MODELS) })
+  }, [models])
+
+  const dismiss = useCallback(() => {
+    setComparison(null)
+  }, [])
+
+  // Adds the winning answer to the thread as if it had been generated normally and saves the pair
+  const keep = useCallback(async (winner: ComparisonResult, results: ComparisonResult[]) => {
+    if (!comparison || isKeepingRef.current) return
+    isKeepingRef.current = true
+
+    const userMessage: Message = {
+      id: crypto.randomUUID(),
+      role: "user",
+      content: comparison.prompt,
+      createdAt: new Date(),
+    }
+    const assistantMessage: Message = {
+      id: crypto.randomUUID(),
+      role: "assistant",
+      content: winner.content,
+      createdAt: new Date(),
+      sources: winner.sources ?? [],
+      images: winner.images ?? [],
+      videos: winner.videos,
+      promptTitle: comparison.prompt,
+      isComplete: true,
+      variants: [{ content: winner.content, sources: winner.sources, images: winner.images, videos: winner.videos, model: winner.model }],
+      activeVariant: 0,
+    }
+
+    const payload = {
+      messages: [
+        { id: userMessage.id, role: "user", content: userMessage.content, parentId: comparison.parentMessageId },
+        { id: assistantMessage.id, role: "model", content: winner.content, parentId: userMessage.id, sources: winner.sources ?? [], model: winner.model },
+      ],
+      comparison: {
+        winner: winner.model,
+        results: results.map(({ model, status, content, firstTokenMs, totalMs }) => ({
+          model,
+          status,
+          firstTokenMs: firstTokenMs ?? null,
+          totalMs: totalMs ?? null,
+          characters: content.length,
+        })),
+      },
+    }
+
+    try {
+      const targetId = comparison.conversationId ?? conversationId
+      const resp = await fetch(
+        targetId ? `/api/proxy/conversations/${targetId}/messages` : "/api/proxy/conversations",
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          },
+          body: JSON.stringify(targetId ? payload : { ...payload, title: comparison.prompt.slice(0, 80) }),
+        }
+      )
+
+      if (!resp.ok) {
+        const errorText = await resp.text()
+        throw new Error(errorText || "Failed to save the answer")
+      }
+
+      let savedId = targetId
+      if (!targetId) {
+        const data = await resp.json()
+        const createdId = data?.id ?? data?.conversationId ?? data?.conversation?.id
+        if (createdId) savedId = String(createdId)
+      }
+
+      // The pair only joins the thread on screen when that is where it was saved; switching
+      // chats dismisses the comparison, so a new chat opened meanwhile does not count
+      const isShown = conversationIdRef.current === targetId && comparisonRef.current?.id === comparison.id
+      if (isShown) store.dispatch({ type: "appendMessages", messages: [userMessage, assistantMessage] })
+      setComparison(null)
+      toast.success(`Kept the ${modelLabel(winner.model)} answer`)
+      if (savedId) onSavedRef.current?.(savedId, comparison.prompt, isShown && savedId !== targetId)
+    } catch (error) {
+      console.error("Failed to save comparison answer", error)
+      toast.error(error instanceof Error ? error.message : "Failed to save the answer")
+    } finally {
+      isKeepingRef.current = false
+    }
+  }, [comparison, conversationId, store, token])
+
+  return { models, changeModels, comparison, start, dismiss, keep }
+}
@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from "react"
+
+function subscribe(listener: () => void) {
+  window.addEventListener("online", listener)
+  window.addEventListener("offline", listener)
+  return () => {
+    window.removeEventListener("online", listener)
+    window.removeEventListener("offline", listener)
+  }
+}
+
+// `navigator.onLine` as state; the server render assumes a connection
+export function useOnlineStatus() {
+  return useSyncExternalStore(subscribe, () => navigator.onLine, () => true)
+}
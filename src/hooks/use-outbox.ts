@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { toast } from "sonner"
+
+import { useConversationStore } from "@/contexts/conversation-context"
+import {
+  deleteOutboxEntry,
+  isOfflineCacheAvailable,
+  outboxEntryMessages,
+  pendingAnswerMessage,
+  putOutboxEntry,
+  readOutbox,
+  type OutboxEntry,
+} from "@/lib/offline-cache"
+import type { Message } from "@/components/ui/chat-message"
+
+type UseOutboxOptions = {
+  // Key of the signed-in account; without one the outbox only lives until a reload
+  account?: string | null
+  isOnline: boolean
+  // Streams the answer to a queued prompt and resolves with its conversation id. Rejects when the
+  // prompt could not be sent; `isVisible` is set when the answer's placeholder is in the open thread.
+  send: (entry: OutboxEntry, isVisible: boolean) => Promise<string | null | undefined>
+}
+
+/**
+ * Prompts written while offline. They are shown as pending in the thread, kept in IndexedDB so
+ * they survive a reload, and sent one at a time, in order, once the browser is back online.
+ */
+export function useOutbox({ account, isOnline, send }: UseOutboxOptions) {
+  const store = useConversationStore()
+  const entriesRef = useRef<OutboxEntry[]>([])
+  const [entries, setEntries] = useState<OutboxEntry[]>([])
+  const isFlushingRef = useRef(false)
+  const sendRef = useRef(send)
+
+  useEffect(() => {
+    sendRef.current = send
+  })
+
+  const replaceEntries = useCallback((next: OutboxEntry[]) => {
+    entriesRef.current = next
+    setEntries(next)
+  }, [])
+
+  // Prompts of a chat that never reached the server show up in a new chat
+  useEffect(() => {
+    replaceEntries([])
+    if (!account || !isOfflineCacheAvailable()) return
+
+    let cancelled = false
+    readOutbox(account)
+      .then((stored) => {
+        if (cancelled) return
+        replaceEntries(stored)
+        const drafts = stored.filter((entry) => entry.conversationId === null)
+        if (drafts.length > 0 && store.getMessages().length === 0) {
+          store.dispatch({ type: "reset", messages: drafts.flatMap(outboxEntryMessages) })
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to read the outbox", error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [account, replaceEntries, store])
+
+  // Adds the prompt to the thread as pending, with a placeholder for its answer
+  const queue = useCallback((entry: OutboxEntry, prompt: Message) => {
+    store.dispatch({
+      type: "appendMessages",
+      messages: [{ ...prompt, isPending: true }, pendingAnswerMessage(entry.assistantMessageId, entry.content)],
+    })
+    replaceEntries([...entriesRef.current, entry])
+    if (!account || !isOfflineCacheAvailable()) return
+    putOutboxEntry(account, entry).catch((error) => {
+      console.error("Failed to save the message to the outbox", error)
+    })
+  }, [account, replaceEntries, store])
+
+  // Removes a pending prompt along with everything queued after it on the same branch
+  const cancel = useCallback((messageId: string) => {
+    const before = store.getState().messagesById
+    store.dispatch({ type: "removeMessage", messageId })
+    const { messagesById } = store.getState()
+    const cancelled = entriesRef.current.filter((entry) => entry.id in before && !(entry.id in messagesById))
+    replaceEntries(entriesRef.current.filter((entry) => !cancelled.includes(entry)))
+    if (!account || !isOfflineCacheAvailable()) return
+    cancelled.forEach((entry) => {
+      deleteOutboxEntry(account, entry.id).catch((error) => {
+        console.error("Failed to update the outbox", error)
+      })
+    })
+  }, [account, replaceEntries, store])
+
+  // Messages still waiting to be sent in a conversation, to show along with its history
+  const pendingMessages = useCallback((conversationId: string) => (
+    entriesRef.current
+      .filter((entry) => entry.conversationId === conversationId)
+      .flatMap(outboxEntryMessages)
+  ), [])
+
+  // A prompt that fails stays queued, with everything after it, until the browser comes back online
+  const flush = useCallback(async () => {
+    if (isFlushingRef.current) return
+    isFlushingRef.current = true
+
+    try {
+      while (entriesRef.current.length > 0 && navigator.onLine) {
+        const entry = entriesRef.current[0]
+        const isVisible = entry.assistantMessageId in store.getState().messagesById
+
+        store.dispatch({ type: "patchMessage", messageId: entry.id, patch: { isPending: false } })
+        store.dispatch({
+          type: "patchMessage",
+          messageId: entry.assistantMessageId,
+          patch: {
+            isPending: false,
+            agentSteps: [{ id: "request-context", label: "Preparing context", state: "running", updatedAt: Date.now() }],
+          },
+        })
+
+        let conversationId: string | null | undefined
+        try {
+          conversationId = await sendRef.current(entry, isVisible)
+        } catch {
+          store.dispatch({ type: "patchMessage", messageId: entry.id, patch: { isPending: true } })
+          store.dispatch({
+            type: "patchMessage",
+            messageId: entry.assistantMessageId,
+            patch: pendingAnswerMessage(entry.assistantMessageId, entry.content),
+          })
+          toast.error("A queued message could not be sent", { description: "It will be sent again once you are back online" })
+          return
+        }
+
+        // Prompts that follow up on this one belong to the conversation it started, even if they are retried later
+        const followUps = conversationId
+          ? entriesRef.current
+            .filter((queued) => !queued.conversationId && queued.parentMessageId === entry.assistantMessageId)
+            .map((queued) => ({ ...queued, conversationId }))
+          : []
+        replaceEntries(entriesRef.current
+          .filter((queued) => queued.id !== entry.id)
+          .map((queued) => followUps.find((followUp) => followUp.id === queued.id) ?? queued))
+        if (account && isOfflineCacheAvailable()) {
+          await Promise.all([
+            deleteOutboxEntry(account, entry.id),
+            ...followUps.map((followUp) => putOutboxEntry(account, followUp)),
+          ]).catch((error) => {
+            console.error("Failed to update the outbox", error)
+          })
+        }
+      }
+    } finally {
+      isFlushingRef.current = false
+    }
+  }, [account, replaceEntries, store])
+
+  useEffect(() => {
+    if (isOnline && entries.length > 0) void flush()
+  }, [entries.length, flush, isOnline])
+
+  return { entries, queue, cancel, pendingMessages }
+}
@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { toast } from "sonner"
+
+import {
+  normalizePromptTemplate,
+  recordStarterUsage,
+  starterTemplates,
+  type PromptTemplate,
+  type PromptTemplateDraft,
+} from "@/lib/prompt-templates"
+
+/**
+ * The prompt library: team and personal templates from the backend, followed by the starter
+ * templates shipped with the app. Saving and deleting only apply to backend templates.
+ */
+export function usePromptTemplates({ token }: { token?: string | null }) {
+  const [remoteTemplates, setRemoteTemplates] = useState<PromptTemplate[]>([])
+  const [starters, setStarters] = useState<PromptTemplate[]>([])
+
+  const authHeaders = useMemo(() => {
+    const headers: Record<string, string> = {}
+    if (token) headers.Authorization = `Bearer ${token}`
+    return headers
+  }, [token])
+
+  useEffect(() => {
+    setStarters(starterTemplates())
+  }, [])
+
+  useEffect(() => {
+    if (!token) return
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const resp = await fetch("/api/proxy/prompts", { headers: authHeaders })
+        if (!resp.ok) {
+          const errorText = await resp.text()
+          throw new Error(errorText || "Failed to load prompt library")
+        }
+        const data = await resp.json()
+        const list = Array.isArray(data) ? data : Array.isArray(data?.prompts) ? data.prompts : []
+        if (!cancelled) {
+          setRemoteTemplates(list.map(normalizePromptTemplate).filter((template: PromptTemplate | null): template is PromptTemplate => template !== null))
+        }
+      } catch (error) {
+        // The starter templates still work without the backend
+        console.error("Failed to load prompt library", error)
+      }
+    }
+
+    void load()
+    return () => {
+      cancelled = true
+    }
+  }, [authHeaders, token])
+
+  const templates = useMemo(() => [...remoteTemplates, ...starters], [remoteTemplates, starters])
+
+  const saveTemplate = useCallback(async (draft: PromptTemplateDraft, templateId?: string) => {
+    try {
+      const resp = await fetch(templateId ? `/api/proxy/prompts/${encodeURIComponent(templateId)}` : "/api/proxy/prompts", {
+        method: templateId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders },
+        body: JSON.stringify(draft),
+      })
+      if (!resp.ok) {
+        const errorText = await resp.text()
+        throw new Error(errorText || "Failed to save template")
+      }
+      const saved = normalizePromptTemplate(await resp.json().catch(() => null))
+      setRemoteTemplates((prev) => {
+        const previous = prev.find((template) => template.id === templateId)
+        const next = saved ?? (previous ? { ...previous, ...draft } : null)
+        if (!next) return prev
+        return previous ? prev.map((template) => (template.id === templateId ? next : template)) : [next, ...prev]
+      })
+      return true
+    } catch (error) {
+      console.error("Failed to save template", error)
+      toast.error("Failed to save template")
+      return false
+    }
+  }, [authHeaders])
+
+  const deleteTemplate = useCallback(async (templateId: string) => {
+    const previous = remoteTemplates
+    setRemoteTemplates((prev) => prev.filter((template) => template.id !== templateId))
+    try {
+      const resp = await fetch(`/api/proxy/prompts/${encodeURIComponent(templateId)}`, {
+        method: "DELETE",
+        headers: authHeaders,
+      })
+      if (!resp.ok) {
+        const errorText = await resp.text()
+        throw new Error(errorText || "Failed to delete template")
+      }
+    } catch (error) {
+      console.error("Failed to delete template", error)
+      setRemoteTemplates(previous)
+      toast.error("Failed to delete template")
+    }
+  }, [authHeaders, remoteTemplates])
+
+  // Usage is counted optimistically; a failed count is not worth interrupting the user for
+  const recordUsage = useCallback((template: PromptTemplate) => {
+    const bump = (list: PromptTemplate[]) =>
+      list.map((item) => (item.id === template.id ? { ...item, usageCount: item.usageCount + 1 } : item))
+
+    if (template.builtIn) {
+      recordStarterUsage(template.id)
+      setStarters(bump)
+      return
+    }
+
+    setRemoteTemplates(bump)
+    fetch(`/api/proxy/prompts/${encodeURIComponent(template.id)}/use`, {
+      method: "POST",
+      headers: authHeaders,
+    }).catch((error) => {
+      console.error("Failed to record template usage", error)
+    })
+  }, [authHeaders])
+
+  return { templates, saveTemplate, deleteTemplate, recordUsage }
+}
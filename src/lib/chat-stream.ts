@@ -0,0 +1,595 @@
+import type {
+  AgentActivityStep,
+  CodeSnippet,
+  ExecutionOutput,
+  ImageResult,
+  Message,
+  MermaidBlockUpdate,
+} from "@/components/ui/chat-message"
+import {
+  normalizeExcalidraw,
+  normalizeImageResults,
+  normalizeSources,
+  normalizeVideos,
+} from "@/lib/message-normalizers"
+
+export const CHAT_STREAM_ENDPOINT = "/api/proxy/chat/stream"
+
+// A single dispatched Server-Sent Event, before any JSON decoding.
+export interface SseMessage {
+  event: string
+  data: string
+  // Last event id seen on the stream when this event was dispatched (sticky, per the SSE spec)
+  lastEventId: string
+  // Reconnection delay most recently announced by the server, in milliseconds
+  retry?: number
+}
+
+/**
+ * Incremental parser for the `text/event-stream` format.
+ *
+ * Feed it decoded text as it arrives; it returns every event completed by that chunk.
+ * Handles CRLF/CR/LF line endings, multi-line `data:` fields, comments, `id:` and `retry:`.
+ */
+export class SseParser {
+  lastEventId = ""
+  retry: number | undefined
+
+  private buffer = ""
+  private eventName = ""
+  private dataLines: string[] = []
+  private pendingCarriageReturn = false
+
+  feed(chunk: string): SseMessage[] {
+    let text = chunk
+    // A chunk may split a CRLF pair; drop the LF that completes a CR we already consumed
+    if (this.pendingCarriageReturn && text.startsWith("\n")) {
+      text = text.slice(1)
+    }
+    this.pendingCarriageReturn = false
+    this.buffer += text
+
+    const messages: SseMessage[] = []
+    let lineStart = 0
+
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i]
+      if (char !== "\n" && char !== "\r") continue
+
+      const line = this.buffer.slice(lineStart, i)
+      if (char === "\r") {
+        if (i + 1 === this.buffer.length) {
+          this.pendingCarriageReturn = true
+        } else if (this.buffer[i + 1] === "\n") {
+          i++
+        }
+      }
+      lineStart = i + 1
+
+      const message = this.processLine(line)
+      if (message) messages.push(message)
+    }
+
+    this.buffer = this.buffer.slice(lineStart)
+    return messages
+  }
+
+  // Dispatches whatever is left once the stream has ended, even without a trailing blank line.
+  flush(): SseMessage[] {
+    const messages: SseMessage[] = []
+    if (this.buffer.length > 0) {
+      const message = this.processLine(this.buffer)
+      if (message) messages.push(message)
+      this.buffer = ""
+    }
+    const last = this.dispatch()
+    if (last) messages.push(last)
+    return messages
+  }
+
+  private processLine(line: string): SseMessage | null {
+    if (line === "") return this.dispatch()
+    if (line.startsWith(":")) return null
+
+    const colon = line.indexOf(":")
+    const field = colon === -1 ? line : line.slice(0, colon)
+    let value = colon === -1 ? "" : line.slice(colon + 1)
+    if (value.startsWith(" ")) value = value.slice(1)
+
+    switch (field) {
+      case "event":
+        this.eventName = value
+        break
+      case "data":
+        this.dataLines.push(value)
+        break
+      case "id":
+        if (!value.includes("\0")) this.lastEventId = value
+        break
+      case "retry":
+        if (/^\d+$/.test(value)) this.retry = Number(value)
+        break
+      default:
+        break
+    }
+    return null
+  }
+
+  private dispatch(): SseMessage | null {
+    const eventName = this.eventName
+    const dataLines = this.dataLines
+    this.eventName = ""
+    this.dataLines = []
+
+    if (dataLines.length === 0) return null
+
+    return {
+      event: eventName || "message",
+      data: dataLines.join("\n"),
+      lastEventId: this.lastEventId,
+      retry: this.retry,
+    }
+  }
+}
+
+export type ChatStreamErrorKind = "http" | "backend" | "malformed" | "network"
+
+export class ChatStreamError extends Error {
+  readonly kind: ChatStreamErrorKind
+  readonly status?: number
+  readonly event?: string
+
+  constructor(message: string, kind: ChatStreamErrorKind, details: { status?: number; event?: string } = {}) {
+    super(message)
+    this.name = "ChatStreamError"
+    this.kind = kind
+    this.status = details.status
+    this.event = details.event
+  }
+}
+
+export type ChatStreamEventPayload =
+  | { type: "conversationId"; conversationId: string }
+  | { type: "message"; text: string }
+  | { type: "status"; step: AgentActivityStep }
+  | { type: "images"; images: ImageResult[] }
+  | { type: "sources"; sources: NonNullable<Message["sources"]> }
+  | { type: "code"; snippet: CodeSnippet }
+  | { type: "codeResult"; result: ExecutionOutput }
+  | { type: "mermaid"; blocks: MermaidBlockUpdate[] }
+  | { type: "youtubeResults"; videos: NonNullable<Message["videos"]> }
+  | { type: "excalidraw"; excalidrawData: NonNullable<Message["excalidrawData"]> }
+  | { type: "finish"; finishReason: string }
+  | { type: "error"; error: string }
+
+export type ChatStreamEventType = ChatStreamEventPayload["type"]
+
+export type ChatStreamEvent = ChatStreamEventPayload & {
+  // The SSE `id:` in effect for this event, used to resume an interrupted stream
+  eventId?: string
+}
+
+const CHAT_STREAM_EVENT_TYPES: ReadonlySet<string> = new Set<ChatStreamEventType>([
+  "conversationId",
+  "message",
+  "status",
+  "images",
+  "sources",
+  "code",
+  "codeResult",
+  "mermaid",
+  "youtubeResults",
+  "excalidraw",
+  "finish",
+  "error",
+])
+
+function malformed(message: SseMessage, reason: string) {
+  return new ChatStreamError(`Malformed "${message.event}" event: ${reason}`, "malformed", { event: message.event })
+}
+
+/**
+ * Decodes one SSE message into a typed chat event.
+ *
+ * Returns null for keep-alives, the `[DONE]` sentinel and event names this client does not know.
+ * Throws a `ChatStreamError` of kind "malformed" when a known event carries an unusable payload.
+ */
+export function parseChatStreamEvent(message: SseMessage): ChatStreamEvent | null {
+  const raw = message.data.trim()
+  if (!raw || raw === "[DONE]") return null
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    throw malformed(message, "data is not valid JSON")
+  }
+
+  if (!parsed || typeof parsed !== "object") {
+    throw malformed(message, "data is not an object")
+  }
+
+  const data = parsed as Record<string, unknown>
+  const eventId = message.lastEventId || undefined
+  const name = message.event
+
+  // The backend also tags other payloads with the conversation id; only treat those as
+  // conversationId events when the event name itself is not one we otherwise understand.
+  if (name === "conversationId" || (!CHAT_STREAM_EVENT_TYPES.has(name) && typeof data.conversationId === "string")) {
+    if (typeof data.conversationId !== "string" && typeof data.conversationId !== "number") {
+      throw malformed(message, "missing conversationId")
+    }
+    return { type: "conversationId", conversationId: String(data.conversationId), eventId }
+  }
+
+  switch (name) {
+    case "message":
+      if (typeof data.text !== "string") throw malformed(message, "missing text")
+      return { type: "message", text: data.text, eventId }
+    case "status": {
+      if (!data.id || !data.label) throw malformed(message, "missing id or label")
+      const state = data.state === "queued" || data.state === "complete" || data.state === "error"
+        ? data.state
+        : "running"
+      return {
+        type: "status",
+        step: {
+          id: String(data.id),
+          label: String(data.label),
+          state,
+          detail: typeof data.detail === "string" ? data.detail : undefined,
+        },
+        eventId,
+      }
+    }
+    case "images": {
+      if (!Array.isArray(data.images)) throw malformed(message, "images is not an array")
+      return { type: "images", images: normalizeImageResults(data.images) ?? [], eventId }
+    }
+    case "sources": {
+      if (!Array.isArray(data.sources)) throw malformed(message, "sources is not an array")
+      return { type: "sources", sources: normalizeSources(data.sources) ?? [], eventId }
+    }
+    case "code":
+      if (!data.code) throw malformed(message, "missing code")
+      return {
+        type: "code",
+        snippet: {
+          language: typeof data.language === "string" ? data.language : undefined,
+          code: String(data.code),
+        },
+        eventId,
+      }
+    case "codeResult":
+      if (!data.output) throw malformed(message, "missing output")
+      return {
+        type: "codeResult",
+        result: {
+          outcome: typeof data.outcome === "string" ? data.outcome : undefined,
+          output: String(data.output),
+        },
+        eventId,
+      }
+    case "mermaid":
+      if (!Array.isArray(data.blocks)) throw malformed(message, "blocks is not an array")
+      return { type: "mermaid", blocks: data.blocks as MermaidBlockUpdate[], eventId }
+    case "youtubeResults":
+      if (!Array.isArray(data.videos)) throw malformed(message, "videos is not an array")
+      return { type: "youtubeResults", videos: normalizeVideos(data.videos) ?? [], eventId }
+    case "excalidraw": {
+      const excalidrawData = normalizeExcalidraw(data.excalidrawData)
+      if (!excalidrawData) throw malformed(message, "excalidrawData is not an array")
+      return { type: "excalidraw", excalidrawData, eventId }
+    }
+    case "finish":
+      return { type: "finish", finishReason: typeof data.finishReason === "string" ? data.finishReason : "STOP", eventId }
+    case "error":
+      return {
+        type: "error",
+        error: typeof data.error === "string" && data.error.trim() ? data.error : "The assistant failed to respond",
+        eventId,
+      }
+    default:
+      return null
+  }
+}
+
+export interface ReadChatStreamOptions {
+  signal?: AbortSignal
+  // Called instead of throwing when an event cannot be decoded, so the rest of the answer still streams
+  onMalformedEvent?: (error: ChatStreamError) => void
+  // Receives every raw SSE message, including ones that decode to nothing
+  onSseMessage?: (message: SseMessage) => void
+}
+
+/**
+ * Reads a chat SSE body and yields typed events in order.
+ *
+ * `error` events are yielded like any other; callers decide whether to throw on them.
+ */
+export async function* readChatStream(
+  body: ReadableStream<Uint8Array>,
+  { signal, onMalformedEvent, onSseMessage }: ReadChatStreamOptions = {}
+): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  const parser = new SseParser()
+
+  const decode = function* (messages: SseMessage[]) {
+    for (const message of messages) {
+      onSseMessage?.(message)
+      try {
+        const event = parseChatStreamEvent(message)
+        if (event) yield event
+      } catch (error) {
+        if (error instanceof ChatStreamError && onMalformedEvent) {
+          onMalformedEvent(error)
+          continue
+        }
+        throw error
+      }
+    }
+  }
+
+  try {
+    while (true) {
+      if (signal?.aborted) {
+        throw new DOMException("The stream was aborted", "AbortError")
+      }
+
+      let result: ReadableStreamReadResult<Uint8Array>
+      try {
+        result = await reader.read()
+      } catch (error) {
+        if (signal?.aborted || isAbortError(error)) throw error
+        throw new ChatStreamError(error instanceof Error ? error.message : "The connection was interrupted", "network")
+      }
+
+      const { done, value } = result
+      if (done) {
+        yield* decode(parser.feed(decoder.decode()))
+        yield* decode(parser.flush())
+        return
+      }
+
+      yield* decode(parser.feed(decoder.decode(value, { stream: true })))
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+export interface ChatStreamOptions {
+  includeYouTube?: boolean
+  includeImageSearch?: boolean
+  model?: string
+  // When false the backend streams the answer without saving it, e.g. for model comparisons
+  persist?: boolean
+  [key: string]: unknown
+}
+
+export interface ChatStreamRequest {
+  prompt: string
+  conversationId?: string | null
+  options?: ChatStreamOptions
+  files?: File[] | FileList
+  // Client-chosen id the backend keys the generation by, so a dropped stream can be resumed
+  streamId?: string
+  // Message the new prompt replies to; a message that already has replies starts a new branch
+  parentMessageId?: string | null
+  // Assistant message being regenerated; the backend stores the answer as another variant of it
+  regenerateMessageId?: string
+}
+
+export interface OpenChatStreamInit {
+  token?: string | null
+  signal?: AbortSignal
+  endpoint?: string
+  fetchImpl?: typeof fetch
+}
+
+// POSTs a prompt to the chat stream endpoint and returns the SSE body.
+export async function openChatStream(
+  request: ChatStreamRequest,
+  { token, signal, endpoint = CHAT_STREAM_ENDPOINT, fetchImpl = fetch }: OpenChatStreamInit = {}
+): Promise<ReadableStream<Uint8Array>> {
+  const authHeaders: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {}
+  const files = request.files ? Array.from(request.files) : []
+
+  let response: Response
+  if (files.length > 0) {
+    const formData = new FormData()
+    formData.append("prompt", request.prompt)
+    if (request.conversationId) formData.append("conversationId", request.conversationId)
+    if (request.streamId) formData.append("streamId", request.streamId)
+    if (request.parentMessageId) formData.append("parentMessageId", request.parentMessageId)
+    if (request.regenerateMessageId) formData.append("regenerateMessageId", request.regenerateMessageId)
+    formData.append("options", JSON.stringify(request.options ?? {}))
+    files.forEach((file) => {
+      formData.append("files", file, file.name)
+    })
+
+    response = await fetchImpl(endpoint, {
+      method: "POST",
+      body: formData,
+      headers: authHeaders,
+      signal,
+    })
+  } else {
+    response = await fetchImpl(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...authHeaders,
+      },
+      body: JSON.stringify({
+        prompt: request.prompt,
+        conversationId: request.conversationId || undefined,
+        options: request.options,
+        streamId: request.streamId,
+        parentMessageId: request.parentMessageId || undefined,
+        regenerateMessageId: request.regenerateMessageId,
+      }),
+      signal,
+    })
+  }
+
+  return responseBody(response)
+}
+
+async function responseBody(response: Response): Promise<ReadableStream<Uint8Array>> {
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new ChatStreamError(errorText || "Failed to get response from the API", "http", { status: response.status })
+  }
+
+  if (!response.body) {
+    throw new ChatStreamError("No response body reader available", "network")
+  }
+
+  return response.body
+}
+
+// Reattaches to a generation that is still running on the backend, replaying events after `lastEventId`.
+export async function resumeChatStream(
+  streamId: string,
+  lastEventId: string,
+  { token, signal, endpoint = CHAT_STREAM_ENDPOINT, fetchImpl = fetch }: OpenChatStreamInit = {}
+): Promise<ReadableStream<Uint8Array>> {
+  const response = await fetchImpl(`${endpoint}/${encodeURIComponent(streamId)}`, {
+    method: "GET",
+    headers: {
+      Accept: "text/event-stream",
+      "Last-Event-ID": lastEventId,
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    signal,
+  })
+
+  return responseBody(response)
+}
+
+// Convenience wrapper: open the stream and yield its typed events.
+export async function* streamChat(
+  request: ChatStreamRequest,
+  init: OpenChatStreamInit & Omit<ReadChatStreamOptions, "signal"> = {}
+): AsyncGenerator<ChatStreamEvent> {
+  const body = await openChatStream(request, init)
+  yield* readChatStream(body, { ...init, signal: init.signal })
+}
+
+const DEFAULT_RECONNECT_DELAY_MS = 1000
+const DEFAULT_MAX_RECONNECT_ATTEMPTS = 5
+
+export interface ResumableChatStreamInit extends OpenChatStreamInit, Omit<ReadChatStreamOptions, "signal"> {
+  maxReconnectAttempts?: number
+  // Called before each reconnection attempt, after the connection dropped
+  onReconnect?: (attempt: number, lastEventId: string) => void
+  // Called once the first event arrives on a resumed connection
+  onResumed?: (lastEventId: string) => void
+}
+
+function isAbortError(error: unknown) {
+  return typeof error === "object" && error !== null && "name" in error && (error as { name?: unknown }).name === "AbortError"
+}
+
+function isRecoverable(error: unknown) {
+  if (isAbortError(error)) return false
+  if (error instanceof ChatStreamError) {
+    return error.kind === "network" || (error.kind === "http" && (error.status ?? 0) >= 500)
+  }
+  // fetch and ReadableStream reads reject with TypeError when the connection drops
+  return error instanceof TypeError
+}
+
+// Events replayed after a reconnect can overlap what we already saw when ids are sequential.
+function isReplayed(eventId: string, lastEventId: string) {
+  if (!lastEventId) return false
+  if (!/^\d+$/.test(eventId) || !/^\d+$/.test(lastEventId)) return false
+  return Number(eventId) <= Number(lastEventId)
+}
+
+// The abort listener is removed once the timer fires, so reconnects do not pile listeners onto a long-lived signal
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new DOMException("The stream was aborted", "AbortError"))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+/**
+ * Like `streamChat`, but survives dropped connections.
+ *
+ * When the body errors or closes before a `finish`/`error` event, it reconnects with
+ * `Last-Event-ID` and keeps yielding from where it left off. Streams without SSE ids
+ * cannot be resumed, so errors on those are rethrown as before.
+ */
+export async function* streamChatWithResume(
+  request: ChatStreamRequest & { streamId: string },
+  {
+    maxReconnectAttempts = DEFAULT_MAX_RECONNECT_ATTEMPTS,
+    onReconnect,
+    onResumed,
+    onSseMessage,
+    ...init
+  }: ResumableChatStreamInit
+): AsyncGenerator<ChatStreamEvent> {
+  let lastEventId = ""
+  let reconnectDelay = DEFAULT_RECONNECT_DELAY_MS
+  let attempt = 0
+  let isResuming = false
+
+  while (true) {
+    let finished = false
+
+    try {
+      const body = isResuming
+        ? await resumeChatStream(request.streamId, lastEventId, init)
+        : await openChatStream(request, init)
+
+      const events = readChatStream(body, {
+        ...init,
+        onSseMessage: (message) => {
+          if (typeof message.retry === "number") reconnectDelay = message.retry
+          onSseMessage?.(message)
+        },
+      })
+
+      for await (const event of events) {
+        if (event.eventId) {
+          if (isReplayed(event.eventId, lastEventId)) continue
+          lastEventId = event.eventId
+        }
+        if (isResuming) {
+          isResuming = false
+          onResumed?.(lastEventId)
+        }
+        attempt = 0
+        if (event.type === "finish" || event.type === "error") finished = true
+        yield event
+      }
+
+      // A clean close without a terminal event means the connection was cut mid-answer
+      if (finished || !lastEventId) return
+    } catch (error) {
+      if (!lastEventId || !isRecoverable(error)) throw error
+      console.warn("Chat stream interrupted:", error)
+    }
+
+    if (attempt >= maxReconnectAttempts) {
+      throw new ChatStreamError("Lost connection to the assistant and could not resume the answer", "network")
+    }
+
+    attempt++
+    isResuming = true
+    onReconnect?.(attempt, lastEventId)
+    await wait(reconnectDelay * attempt, init.signal)
+  }
+}
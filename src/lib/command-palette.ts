@@ -0,0 +1,48 @@
+import Fuse, { type IFuseOptions } from "fuse.js"
+
+// Ctrl/Cmd+K palette: fuzzy matching and the items picked most recently
+
+export type PaletteItemKind = "conversation" | "action" | "template"
+
+export interface RecentPaletteItem {
+  kind: PaletteItemKind
+  id: string
+}
+
+const RECENT_STORAGE_KEY = "luna_palette_recent"
+const MAX_RECENT_ITEMS = 6
+
+export function readRecentPaletteItems(): RecentPaletteItem[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_STORAGE_KEY) ?? "null")
+    return Array.isArray(stored)
+      ? stored.filter((item): item is RecentPaletteItem =>
+        Boolean(item) && typeof item.id === "string" && ["conversation", "action", "template"].includes(item.kind)
+      )
+      : []
+  } catch {
+    return []
+  }
+}
+
+// Moves the item to the front of the recent list and returns the new list
+export function rememberPaletteItem(item: RecentPaletteItem) {
+  const next = [
+    item,
+    ...readRecentPaletteItems().filter((recent) => recent.kind !== item.kind || recent.id !== item.id),
+  ].slice(0, MAX_RECENT_ITEMS)
+  localStorage.setItem(RECENT_STORAGE_KEY, JSON.stringify(next))
+  return next
+}
+
+/**
+ * Best matches first. The palette filters itself rather than leaving it to cmdk, so that long
+ * histories only ever render a handful of items.
+ */
+export function fuzzyFind<T>(items: T[], query: string, keys: IFuseOptions<T>["keys"], limit: number) {
+  const trimmed = query.trim()
+  if (!trimmed) return items.slice(0, limit)
+  return new Fuse(items, { keys, threshold: 0.4, ignoreLocation: true })
+    .search(trimmed, { limit })
+    .map((result) => result.item)
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest"
+
+import type { Message } from "@/components/ui/chat-message"
+import {
+  ConversationImportError,
+  conversationToJson,
+  createConversationExport,
+  createConversationExportFromState,
+  parseConversationExport,
+  parseConversationExports,
+  toStoredMessage,
+} from "@/lib/conversation-export"
+import { conversationReducer, initialConversationState } from "@/lib/conversation-store"
+
+function message(id: string, role: Message["role"], fields: Partial<Message> = {}): Message {
+  return { id, role, content: id, ...fields }
+}
+
+// u1 → a1, then an edited prompt u1b with its answer a1b on a second, active branch
+function branchedState() {
+  const state = conversationReducer(initialConversationState, {
+    type: "reset",
+    messages: [
+      message("u1", "user", { createdAt: new Date("2024-05-01T10:00:00Z") }),
+      message("a1", "assistant", {
+        createdAt: new Date("2024-05-01T10:00:05Z"),
+        variants: [{ content: "a1", model: "gemini-2.5-flash", createdAt: new Date("2024-05-01T10:00:05Z") }],
+        activeVariant: 0,
+      }),
+    ],
+  })
+  return conversationReducer(state, {
+    type: "addBranch",
+    parentId: null,
+    messages: [message("u1b", "user"), message("a1b", "assistant")],
+  })
+}
+
+describe("conversation export round trip", () => {
+  it("restores every branch under fresh ids", () => {
+    const exported = createConversationExportFromState({ conversationId: "c1", title: "Trip", state: branchedState() })
+    const imported = parseConversationExport(conversationToJson(exported))
+
+    expect(imported.title).toBe("Trip")
+    expect(imported.messages.map((entry) => entry.content)).toEqual(["u1", "a1", "u1b", "a1b"])
+    for (const entry of imported.messages) {
+      expect(["u1", "a1", "u1b", "a1b"]).not.toContain(entry.id)
+    }
+
+    const [u1, a1, u1b, a1b] = imported.messages
+    expect(u1.parentId).toBeNull()
+    expect(a1.parentId).toBe(u1.id)
+    expect(u1b.parentId).toBeNull()
+    expect(a1b.parentId).toBe(u1b.id)
+    expect(imported.activePath).toEqual([u1b.id, a1b.id])
+  })
+
+  it("revives dates on messages and variants", () => {
+    const exported = createConversationExportFromState({ conversationId: null, title: "Dates", state: branchedState() })
+    const [, a1] = parseConversationExport(conversationToJson(exported)).messages
+
+    expect(a1.createdAt).toEqual(new Date("2024-05-01T10:00:05Z"))
+    expect(a1.variants?.[0].createdAt).toEqual(new Date("2024-05-01T10:00:05Z"))
+    expect(a1.variants?.[0].model).toBe("gemini-2.5-flash")
+  })
+
+  it("moves children listed before their parent after it", () => {
+    const exported = createConversationExport({
+      conversationId: null,
+      title: "Out of order",
+      messages: [message("a1", "assistant", { parentId: "u1" }), message("u1", "user", { parentId: null })],
+      activePath: ["u1", "a1"],
+    })
+    const imported = parseConversationExport(conversationToJson(exported))
+
+    expect(imported.messages.map((entry) => entry.content)).toEqual(["u1", "a1"])
+    expect(imported.messages[1].parentId).toBe(imported.messages[0].id)
+  })
+
+  it("falls back to a default title", () => {
+    const exported = createConversationExport({
+      conversationId: null,
+      title: "  ",
+      messages: [message("u1", "user")],
+      activePath: ["u1"],
+    })
+
+    expect(parseConversationExport(conversationToJson(exported)).title).toBe("Imported conversation")
+  })
+})
+
+describe("parseConversationExport", () => {
+  const valid = createConversationExport({
+    conversationId: null,
+    title: "Valid",
+    messages: [message("u1", "user")],
+    activePath: ["u1"],
+  })
+
+  it.each([
+    ["invalid JSON", "{", "The file is not valid JSON"],
+    ["another format", JSON.stringify({ format: "other" }), "The file is not a Luna conversation export"],
+    ["a newer version", JSON.stringify({ ...valid, version: 99 }), "The export was made by a newer version of Luna"],
+    ["no messages", JSON.stringify({ ...valid, messages: [] }), "The export does not contain any messages"],
+    ["a malformed message", JSON.stringify({ ...valid, messages: [{ id: 1 }] }), "The export contains a malformed message"],
+    ["an unknown role", JSON.stringify({ ...valid, messages: [{ id: "x", role: "tool", content: "" }] }), 'Unknown message role "tool"'],
+  ])("rejects %s", (_case, text, error) => {
+    expect(() => parseConversationExport(text)).toThrow(new ConversationImportError(error))
+  })
+
+  it("reads the array a bulk export writes", () => {
+    const imported = parseConversationExports(JSON.stringify([valid, { ...valid, conversation: { id: null, title: "Second" } }]))
+
+    expect(imported.map((conversation) => conversation.title)).toEqual(["Valid", "Second"])
+  })
+
+  it("rejects an empty bulk export", () => {
+    expect(() => parseConversationExports("[]")).toThrow("The file does not contain any conversations")
+  })
+})
+
+describe("toStoredMessage", () => {
+  it("uses the backend role name and collects charts once", () => {
+    const stored = toStoredMessage(message("a1", "assistant", {
+      chartUrl: "/chart.png",
+      chartUrls: ["/chart.png", "/other.png"],
+      createdAt: new Date("2024-05-01T10:00:00Z"),
+    }))
+
+    expect(stored.role).toBe("model")
+    expect(stored.parentId).toBeNull()
+    expect(stored.charts).toEqual(["/chart.png", "/other.png"])
+    expect(stored.createdAt).toBe("2024-05-01T10:00:00.000Z")
+  })
+})
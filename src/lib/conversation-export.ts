@@ -0,0 +1,317 @@
+import type { Message, MessageVariant } from "@/components/ui/chat-message"
+import type { ConversationState } from "@/lib/conversation-store"
+
+export const CONVERSATION_EXPORT_FORMAT = "luna.conversation"
+export const CONVERSATION_EXPORT_VERSION = 1
+
+export type ExportFormat = "markdown" | "json" | "html" | "pdf"
+
+type Serialized<T> = Omit<T, "createdAt"> & { createdAt?: string }
+
+export type SerializedVariant = Serialized<MessageVariant>
+
+export type SerializedMessage = Omit<Serialized<Message>, "variants"> & {
+  variants?: SerializedVariant[]
+}
+
+/**
+ * Lossless snapshot of a conversation. `messages` holds every branch in creation order,
+ * `activePath` the ids of the branch that was on screen.
+ */
+export interface ConversationExport {
+  format: typeof CONVERSATION_EXPORT_FORMAT
+  version: number
+  exportedAt: string
+  conversation: {
+    id: string | null
+    title: string
+  }
+  activePath: string[]
+  messages: SerializedMessage[]
+}
+
+export interface ImportedConversation {
+  title: string
+  messages: Message[]
+  activePath: string[]
+}
+
+export class ConversationImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ConversationImportError"
+  }
+}
+
+function serializeDate(date: Date | undefined) {
+  if (!(date instanceof Date) || Number.isNaN(date.getTime())) return undefined
+  return date.toISOString()
+}
+
+function parseDate(value: unknown) {
+  if (typeof value !== "string" && typeof value !== "number") return undefined
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+function serializeMessage(message: Message): SerializedMessage {
+  return {
+    ...message,
+    createdAt: serializeDate(message.createdAt),
+    variants: message.variants?.map((variant) => ({ ...variant, createdAt: serializeDate(variant.createdAt) })),
+  }
+}
+
+// A message as the conversations proxy stores it: the export shape with the backend's role name,
+// plus the `charts` list that history is read back from
+export type StoredMessage = Omit<SerializedMessage, "role"> & {
+  role: "user" | "model" | "system"
+  charts?: string[]
+}
+
+export function toStoredMessage(message: Message): StoredMessage {
+  const charts = [...new Set([message.chartUrl, ...(message.chartUrls ?? [])].filter((url): url is string => Boolean(url)))]
+  return {
+    ...serializeMessage(message),
+    role: message.role === "assistant" ? "model" : message.role,
+    parentId: message.parentId ?? null,
+    charts: charts.length ? charts : undefined,
+  }
+}
+
+/**
+ * Body of `POST /api/proxy/conversations` for an imported conversation. Backups and exports from
+ * other assistants both go through here, so nothing a message carries is lost on the way.
+ */
+export function importedConversationPayload({
+  title,
+  messages,
+  activePath,
+  source,
+  createdAt,
+}: ImportedConversation & { source?: string; createdAt?: Date }) {
+  return {
+    title,
+    source,
+    created_at: serializeDate(createdAt),
+    messages: messages.map(toStoredMessage),
+    activePath,
+  }
+}
+
+export function createConversationExport({
+  conversationId,
+  title,
+  messages,
+  activePath,
+}: {
+  conversationId: string | null
+  title: string
+  messages: Message[]
+  activePath: string[]
+}): ConversationExport {
+  return {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: { id: conversationId, title },
+    activePath,
+    // Half-streamed answers are exported as they are; isComplete tells them apart
+    messages: messages.map(serializeMessage),
+  }
+}
+
+// Every branch and regenerated answer goes into the export, not only what is on screen
+export function createConversationExportFromState({
+  conversationId,
+  title,
+  state,
+}: {
+  conversationId: string | null
+  title: string
+  state: ConversationState
+}): ConversationExport {
+  return createConversationExport({
+    conversationId,
+    title,
+    // Messages added as branches do not carry their parent themselves
+    messages: Object.values(state.messagesById).map((message) => ({
+      ...message,
+      parentId: state.parentById[message.id] ?? null,
+    })),
+    activePath: state.messageIds,
+  })
+}
+
+export function conversationToJson(data: ConversationExport) {
+  return JSON.stringify(data, null, 2)
+}
+
+// The tree is rebuilt in list order, so each message is moved after its parent where needed
+function parentsFirst(messages: Message[]) {
+  const byId = new Map(messages.map((message) => [message.id, message]))
+  const placed = new Set<string>()
+  const ordered: Message[] = []
+
+  for (const message of messages) {
+    const chain: Message[] = []
+    const seen = new Set<string>()
+    let current: Message | undefined = message
+    while (current && !placed.has(current.id) && !seen.has(current.id)) {
+      seen.add(current.id)
+      chain.push(current)
+      current = current.parentId ? byId.get(current.parentId) : undefined
+    }
+    chain.reverse().forEach((entry) => {
+      placed.add(entry.id)
+      ordered.push(entry)
+    })
+  }
+  return ordered
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new ConversationImportError("The file is not valid JSON")
+  }
+}
+
+/**
+ * Validates an exported file and restores its messages under fresh ids, so the same
+ * file can be imported more than once without clashing with the original conversation.
+ */
+export function parseConversationExport(text: string): ImportedConversation {
+  return readConversationExport(parseJson(text))
+}
+
+// Accepts a single backup as well as the array of backups a bulk export writes
+export function parseConversationExports(text: string): ImportedConversation[] {
+  const data = parseJson(text)
+  const items = Array.isArray(data) ? data : [data]
+  if (items.length === 0) {
+    throw new ConversationImportError("The file does not contain any conversations")
+  }
+  return items.map(readConversationExport)
+}
+
+// Same as `parseConversationExport`, for a backup that has already been decoded
+export function readConversationExport(data: unknown): ImportedConversation {
+  if (!data || typeof data !== "object" || (data as ConversationExport).format !== CONVERSATION_EXPORT_FORMAT) {
+    throw new ConversationImportError("The file is not a Luna conversation export")
+  }
+
+  const exported = data as ConversationExport
+  if (typeof exported.version !== "number" || exported.version > CONVERSATION_EXPORT_VERSION) {
+    throw new ConversationImportError("The export was made by a newer version of Luna")
+  }
+  if (!Array.isArray(exported.messages)) {
+    throw new ConversationImportError("The export does not contain any messages")
+  }
+
+  // Ids are mapped before any parent is resolved, since a child may be listed before its parent
+  const idMap = new Map<string, string>()
+  for (const raw of exported.messages) {
+    if (!raw || typeof raw !== "object" || typeof raw.id !== "string" || typeof raw.content !== "string") {
+      throw new ConversationImportError("The export contains a malformed message")
+    }
+    if (raw.role !== "user" && raw.role !== "assistant" && raw.role !== "system") {
+      throw new ConversationImportError(`Unknown message role "${String(raw.role)}"`)
+    }
+    idMap.set(raw.id, crypto.randomUUID())
+  }
+
+  const messages = parentsFirst(exported.messages.map((raw): Message => ({
+    ...raw,
+    id: idMap.get(raw.id) as string,
+    parentId: raw.parentId ? idMap.get(raw.parentId) ?? null : raw.parentId,
+    createdAt: parseDate(raw.createdAt),
+    variants: Array.isArray(raw.variants)
+      ? raw.variants.map((variant) => ({ ...variant, createdAt: parseDate(variant.createdAt) }))
+      : undefined,
+  })))
+
+  if (messages.length === 0) {
+    throw new ConversationImportError("The export does not contain any messages")
+  }
+
+  const activePath = Array.isArray(exported.activePath)
+    ? exported.activePath.map((id) => idMap.get(id)).filter((id): id is string => Boolean(id))
+    : []
+
+  return {
+    title: typeof exported.conversation?.title === "string" && exported.conversation.title.trim()
+      ? exported.conversation.title.trim()
+      : "Imported conversation",
+    messages,
+    activePath,
+  }
+}
+
+function sourceLink(source: NonNullable<Message["sources"]>[number]) {
+  return typeof source === "string" ? { url: source, title: source } : { url: source.url, title: source.title || source.url }
+}
+
+export function conversationToMarkdown(title: string, messages: Message[]) {
+  const lines: string[] = [`# ${title}`, ""]
+
+  for (const message of messages) {
+    if (message.role === "user") {
+      lines.push(`**You:** ${message.content}`, "")
+      message.experimental_attachments?.forEach((attachment) => {
+        lines.push(`- Attachment: ${attachment.name ?? attachment.contentType ?? "file"}`)
+      })
+      continue
+    }
+    if (message.role !== "assistant") continue
+
+    lines.push(`**Luna:** ${message.content}`, "")
+
+    message.codeSnippets?.forEach((snippet) => {
+      lines.push(`\`\`\`${snippet.language ?? ""}`, snippet.code, "```", "")
+    })
+    message.executionOutputs?.forEach((output) => {
+      lines.push(`Output${output.outcome ? ` (${output.outcome})` : ""}:`, "```", output.output, "```", "")
+    })
+
+    const charts = [...new Set([message.chartUrl, ...(message.chartUrls ?? [])].filter(Boolean))]
+    charts.forEach((url, index) => lines.push(`![Chart ${index + 1}](${url})`))
+    message.images?.forEach((image) => {
+      const url = image.imageUrl ?? image.thumbnailUrl
+      if (url) lines.push(`![${image.title ?? "Image"}](${url})`)
+    })
+    message.videos?.forEach((video) => {
+      const url = video.url ?? (video.videoId ? `https://www.youtube.com/watch?v=${video.videoId}` : null)
+      if (url) lines.push(`- Video: [${video.title ?? url}](${url})`)
+    })
+    if (charts.length || message.images?.length || message.videos?.length) lines.push("")
+
+    if (message.sources && message.sources.length > 0) {
+      lines.push("**Sources:**")
+      message.sources.map(sourceLink).forEach((source) => {
+        lines.push(`- [${source.title}](${source.url})`)
+      })
+      lines.push("")
+    }
+  }
+
+  return lines.join("\n")
+}
+
+export function exportFileName(title: string, extension: string) {
+  const slug = title.replace(/[^a-z0-9]+/gi, "-").replace(/^-+|-+$/g, "").toLowerCase()
+  return `${slug || "conversation"}.${extension}`
+}
+
+export function downloadFile(contents: BlobPart, fileName: string, type: string) {
+  const blob = new Blob([contents], { type })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
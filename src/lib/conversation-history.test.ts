@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest"
+
+import { groupConversationsByDate, historyDateLabel, type ConversationSummary } from "@/lib/conversation-history"
+
+function summary(id: string, updatedAt: Date | null): ConversationSummary {
+  return {
+    id,
+    title: id,
+    updated_at: updatedAt?.toISOString() ?? null,
+    created_at: null,
+    pinned: false,
+    archived: false,
+    folder_id: null,
+    tags: [],
+    settings: null,
+  }
+}
+
+// Local times, since the buckets follow the user's calendar days
+const now = new Date(2024, 5, 15, 9, 30)
+
+describe("historyDateLabel", () => {
+  it.each([
+    ["earlier today", new Date(2024, 5, 15, 0, 5), "Today"],
+    ["yesterday evening", new Date(2024, 5, 14, 23, 59), "Yesterday"],
+    ["yesterday at midnight", new Date(2024, 5, 14, 0, 0), "Yesterday"],
+    ["six days ago", new Date(2024, 5, 9, 12, 0), "Last 7 days"],
+  ])("labels a chat from %s", (_case, date, label) => {
+    expect(historyDateLabel(summary("c", date), now)).toBe(label)
+  })
+
+  it("names the month for older chats, with the year once it differs", () => {
+    expect(historyDateLabel(summary("c", new Date(2024, 1, 3)), now)).toBe(
+      new Date(2024, 1, 3).toLocaleString(undefined, { month: "long" })
+    )
+    expect(historyDateLabel(summary("c", new Date(2023, 11, 3)), now)).toBe(
+      new Date(2023, 11, 3).toLocaleString(undefined, { month: "long", year: "numeric" })
+    )
+  })
+
+  it("puts chats without a date under Older", () => {
+    expect(historyDateLabel(summary("c", null), now)).toBe("Older")
+  })
+})
+
+describe("groupConversationsByDate", () => {
+  it("groups consecutive chats with the same label", () => {
+    const groups = groupConversationsByDate([
+      summary("a", new Date(2024, 5, 15, 8)),
+      summary("b", new Date(2024, 5, 15, 7)),
+      summary("c", new Date(2024, 5, 14, 20)),
+      summary("d", new Date(2024, 5, 12)),
+      summary("e", null),
+    ], now)
+
+    expect(groups.map(({ label, conversations }) => [label, conversations.map((conversation) => conversation.id)])).toEqual([
+      ["Today", ["a", "b"]],
+      ["Yesterday", ["c"]],
+      ["Last 7 days", ["d"]],
+      ["Older", ["e"]],
+    ])
+  })
+})
@@ -0,0 +1,250 @@
+export type ConversationSummary = {
+  id: string
+  title: string
+  updated_at: string | null
+  created_at: string | null
+  pinned: boolean
+  archived: boolean
+  folder_id: string | null
+  tags: string[]
+  // Null for chats saved before settings were stored with them
+  settings: ConversationSettings | null
+}
+
+// How a conversation sends its prompts; restored whenever it is opened again
+export type ConversationSettings = {
+  model: string
+  includeYouTube: boolean
+  includeImageSearch: boolean
+  personaId: string | null
+  // Whether the user's custom instructions are sent with this conversation
+  customInstructions: boolean
+}
+
+export type ConversationFolder = {
+  id: string
+  name: string
+  created_at: string | null
+}
+
+// Mirrors the actions accepted by PATCH /api/proxy/conversations/[id]
+export type ConversationPatch =
+  | { action: "rename"; title: string }
+  | { action: "pin"; pinned: boolean }
+  | { action: "archive"; archived: boolean }
+  | { action: "move"; folderId: string | null }
+  | { action: "tag"; tags: string[] }
+  | { action: "settings"; settings: ConversationSettings }
+
+export type ConversationHistoryGroups = {
+  pinned: ConversationSummary[]
+  folders: Array<{ folder: ConversationFolder; conversations: ConversationSummary[] }>
+  unfiled: ConversationSummary[]
+  archived: ConversationSummary[]
+}
+
+// dataTransfer type used when dragging a conversation onto a folder
+export const CONVERSATION_DRAG_TYPE = "application/x-luna-conversation"
+
+export const MAX_TAG_LENGTH = 32
+
+/**
+ * Tags are compared case-insensitively, so they are stored lower-cased, without a leading `#`
+ * and with inner whitespace collapsed to single hyphens.
+ */
+export function normalizeTag(value: string) {
+  return value
+    .trim()
+    .replace(/^#+/, "")
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .slice(0, MAX_TAG_LENGTH)
+}
+
+export function normalizeTags(values: unknown): string[] {
+  const list = Array.isArray(values) ? values : typeof values === "string" ? values.split(",") : []
+  const tags = new Set<string>()
+  for (const value of list) {
+    if (typeof value !== "string") continue
+    const tag = normalizeTag(value)
+    if (tag) tags.add(tag)
+  }
+  return [...tags]
+}
+
+// Every tag in use, most used first, for the filter bar and tag suggestions
+export function collectTags(conversations: ConversationSummary[]) {
+  const counts = new Map<string, number>()
+  for (const conversation of conversations) {
+    for (const tag of conversation.tags) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1)
+    }
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag, count]) => ({ tag, count }))
+}
+
+// Booleans, 0/1 and their string forms; any other non-empty string is a timestamp such as `pinned_at`
+// `fallback` is used when the flag is missing altogether
+function asFlag(value: unknown, fallback = false) {
+  if (value === undefined || value === null) return fallback
+  if (typeof value === "string") {
+    const text = value.trim().toLowerCase()
+    return text !== "" && text !== "0" && text !== "false"
+  }
+  return value === true || value === 1
+}
+
+/**
+ * Reads the organisation fields of a raw conversation. The backend reports archiving either
+ * as a boolean or as an `archived_at` timestamp.
+ */
+export function readConversationOrganization(raw: Record<string, unknown>) {
+  const folderId = raw.folder_id ?? raw.folderId
+  return {
+    pinned: asFlag(raw.pinned ?? raw.is_pinned ?? raw.pinned_at),
+    archived: asFlag(raw.archived ?? raw.is_archived ?? raw.archived_at),
+    folder_id: typeof folderId === "string" || typeof folderId === "number" ? String(folderId) : null,
+    tags: normalizeTags(raw.tags),
+    settings: readConversationSettings(raw.settings),
+  }
+}
+
+// Accepts either casing; anything without a model is treated as no settings at all
+export function readConversationSettings(raw: unknown): ConversationSettings | null {
+  if (!raw || typeof raw !== "object") return null
+  const value = raw as Record<string, unknown>
+  if (typeof value.model !== "string" || !value.model) return null
+  const personaId = value.personaId ?? value.persona_id
+  return {
+    model: value.model,
+    includeYouTube: asFlag(value.includeYouTube ?? value.include_youtube),
+    includeImageSearch: asFlag(value.includeImageSearch ?? value.include_image_search),
+    personaId: typeof personaId === "string" && personaId ? personaId : null,
+    customInstructions: asFlag(value.customInstructions ?? value.custom_instructions, true),
+  }
+}
+
+export function normalizeFolder(raw: unknown): ConversationFolder | null {
+  if (!raw || typeof raw !== "object") return null
+  const folder = raw as Record<string, unknown>
+  if (typeof folder.id !== "string" && typeof folder.id !== "number") return null
+  const name = typeof folder.name === "string" ? folder.name.trim() : ""
+  return {
+    id: String(folder.id),
+    name: name || "Untitled folder",
+    created_at: typeof folder.created_at === "string" ? folder.created_at : null,
+  }
+}
+
+export function applyConversationPatch(conversation: ConversationSummary, patch: ConversationPatch): ConversationSummary {
+  switch (patch.action) {
+    case "rename":
+      return { ...conversation, title: patch.title }
+    case "pin":
+      return { ...conversation, pinned: patch.pinned }
+    case "archive":
+      // Archived chats drop their pin so they do not resurface at the top when restored
+      return { ...conversation, archived: patch.archived, pinned: patch.archived ? false : conversation.pinned }
+    case "move":
+      return { ...conversation, folder_id: patch.folderId }
+    case "tag":
+      return { ...conversation, tags: normalizeTags(patch.tags) }
+    case "settings":
+      return { ...conversation, settings: patch.settings }
+    default:
+      return conversation
+  }
+}
+
+/**
+ * Splits the history into the sidebar sections. Pinned chats are listed once, at the top,
+ * whatever folder they live in; archived chats appear only in the archive.
+ * The input order is kept within each section.
+ */
+export function groupConversationHistory(
+  conversations: ConversationSummary[],
+  folders: ConversationFolder[]
+): ConversationHistoryGroups {
+  const byFolder = new Map<string, ConversationSummary[]>(folders.map((folder) => [folder.id, []]))
+  const groups: ConversationHistoryGroups = { pinned: [], folders: [], unfiled: [], archived: [] }
+
+  for (const conversation of conversations) {
+    if (conversation.archived) {
+      groups.archived.push(conversation)
+    } else if (conversation.pinned) {
+      groups.pinned.push(conversation)
+    } else if (conversation.folder_id && byFolder.has(conversation.folder_id)) {
+      byFolder.get(conversation.folder_id)?.push(conversation)
+    } else {
+      groups.unfiled.push(conversation)
+    }
+  }
+
+  groups.folders = [...folders]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((folder) => ({ folder, conversations: byFolder.get(folder.id) ?? [] }))
+
+  return groups
+}
+
+export const HISTORY_PAGE_SIZE = 30
+
+/**
+ * Reads one page of `/api/proxy/conversations`. Older backends answer with a bare array,
+ * which is treated as a single, final page.
+ */
+export function readConversationPage(data: unknown): { items: unknown[]; nextCursor: string | null } {
+  if (Array.isArray(data)) return { items: data, nextCursor: null }
+  if (!data || typeof data !== "object") return { items: [], nextCursor: null }
+
+  const page = data as Record<string, unknown>
+  const items = Array.isArray(page.conversations) ? page.conversations : Array.isArray(page.items) ? page.items : []
+  const cursor = page.nextCursor ?? page.next_cursor
+  return { items, nextCursor: typeof cursor === "string" && cursor ? cursor : null }
+}
+
+export function conversationTime(conversation: ConversationSummary) {
+  const time = new Date(conversation.updated_at ?? conversation.created_at ?? "").getTime()
+  return Number.isNaN(time) ? 0 : time
+}
+
+// Upserts `incoming` by id and keeps the most recently updated chats first
+export function mergeConversations(existing: ConversationSummary[], incoming: ConversationSummary[]) {
+  const byId = new Map(existing.map((conversation) => [conversation.id, conversation]))
+  for (const conversation of incoming) {
+    byId.set(conversation.id, conversation)
+  }
+  return [...byId.values()].sort((a, b) => conversationTime(b) - conversationTime(a))
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function historyDateLabel(conversation: ConversationSummary, now = new Date()) {
+  const time = conversationTime(conversation)
+  if (!time) return "Older"
+
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()
+  if (time >= startOfToday) return "Today"
+  if (time >= startOfToday - DAY_MS) return "Yesterday"
+  if (time >= startOfToday - 6 * DAY_MS) return "Last 7 days"
+
+  const date = new Date(time)
+  return date.toLocaleString(undefined, {
+    month: "long",
+    ...(date.getFullYear() === now.getFullYear() ? {} : { year: "numeric" }),
+  })
+}
+
+// Consecutive date buckets for a list that is already sorted newest first
+export function groupConversationsByDate(conversations: ConversationSummary[], now = new Date()) {
+  const groups: Array<{ label: string; conversations: ConversationSummary[] }> = []
+  for (const conversation of conversations) {
+    const label = historyDateLabel(conversation, now)
+    const last = groups[groups.length - 1]
+    if (last?.label === label) last.conversations.push(conversation)
+    else groups.push({ label, conversations: [conversation] })
+  }
+  return groups
+}
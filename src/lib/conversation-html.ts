@@ -0,0 +1,277 @@
+import { createElement, type ReactNode } from "react"
+import type { Components, ExtraProps } from "react-markdown"
+import type { Message } from "@/components/ui/chat-message"
+
+type HastElement = NonNullable<ExtraProps["node"]>
+type ExcalidrawScene = NonNullable<Message["excalidrawData"]>[number]
+
+const MERMAID_FENCE = /```mermaid[^\n]*\n([\s\S]*?)```/g
+
+const EXPORT_STYLES = `
+  :root { color-scheme: light; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 15px/1.6 ui-sans-serif, system-ui, -apple-system, "Segoe UI", sans-serif; color: #111827; background: #f9fafb; }
+  main { max-width: 860px; margin: 0 auto; padding: 40px 24px 64px; }
+  header { border-bottom: 1px solid #e5e7eb; margin-bottom: 32px; padding-bottom: 16px; }
+  header h1 { margin: 0 0 4px; font-size: 26px; }
+  header p { margin: 0; color: #6b7280; font-size: 13px; }
+  .message { margin: 0 0 24px; padding: 16px 20px; border-radius: 14px; background: #fff; border: 1px solid #e5e7eb; break-inside: avoid-page; }
+  .message.user { background: #eef2ff; border-color: #c7d2fe; }
+  .role { margin: 0 0 8px; font-size: 12px; font-weight: 600; letter-spacing: .04em; text-transform: uppercase; color: #6b7280; }
+  .role time { font-weight: 400; text-transform: none; letter-spacing: 0; margin-left: 8px; }
+  pre { overflow-x: auto; padding: 12px 14px; border-radius: 10px; background: #111827; color: #f9fafb; font-size: 13px; white-space: pre-wrap; word-break: break-word; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+  :not(pre) > code { padding: 1px 5px; border-radius: 5px; background: #f3f4f6; font-size: 13px; }
+  table { border-collapse: collapse; width: 100%; margin: 12px 0; font-size: 14px; }
+  th, td { border: 1px solid #e5e7eb; padding: 6px 10px; text-align: left; }
+  img { max-width: 100%; height: auto; border-radius: 10px; }
+  .diagram { margin: 12px 0; padding: 12px; border: 1px solid #e5e7eb; border-radius: 10px; background: #fff; overflow-x: auto; text-align: center; }
+  .diagram svg { max-width: 100%; height: auto; }
+  .section-label { margin: 16px 0 6px; font-size: 12px; font-weight: 600; color: #6b7280; }
+  .gallery { display: grid; grid-template-columns: repeat(auto-fill, minmax(160px, 1fr)); gap: 8px; }
+  .gallery figure { margin: 0; }
+  .gallery figcaption { font-size: 12px; color: #6b7280; }
+  .videos, .sources, .attachments { margin: 0; padding-left: 18px; font-size: 14px; }
+  .variant-note { font-size: 12px; color: #6b7280; }
+  a { color: #2563eb; }
+  @media print {
+    body { background: #fff; }
+    main { padding: 0; max-width: none; }
+    .message { border-color: #d1d5db; }
+    pre { background: #f3f4f6; color: #111827; border: 1px solid #e5e7eb; }
+    a { color: inherit; }
+  }
+`
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+// Falls back to the remote URL when the host does not allow cross-origin reads.
+async function inlineImage(url: string) {
+  if (url.startsWith("data:")) return url
+  try {
+    const response = await fetch(url)
+    if (!response.ok) return url
+    const blob = await response.blob()
+    return await new Promise<string>((resolve) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(typeof reader.result === "string" ? reader.result : url)
+      reader.onerror = () => resolve(url)
+      reader.readAsDataURL(blob)
+    })
+  } catch {
+    return url
+  }
+}
+
+async function renderMermaidDiagrams(messages: Message[]) {
+  const sources = new Set<string>()
+  for (const message of messages) {
+    for (const match of message.content.matchAll(MERMAID_FENCE)) {
+      sources.add(match[1].trim())
+    }
+  }
+
+  const svgs = new Map<string, string>()
+  if (sources.size === 0) return svgs
+
+  const { renderMermaidToSvg } = await import("@/components/ui/markdown-renderer")
+  for (const source of sources) {
+    const svg = await renderMermaidToSvg(source)
+    if (svg) svgs.set(source, svg)
+  }
+  return svgs
+}
+
+async function renderExcalidrawScene(scene: ExcalidrawScene) {
+  try {
+    const { exportToSvg } = await import("@excalidraw/excalidraw")
+    const svg = await exportToSvg({
+      elements: scene.elements as Parameters<typeof exportToSvg>[0]["elements"],
+      appState: {
+        ...scene.appState,
+        exportBackground: true,
+        viewBackgroundColor: scene.appState?.viewBackgroundColor || "#ffffff",
+      },
+      files: scene.files as Parameters<typeof exportToSvg>[0]["files"],
+    })
+    return svg.outerHTML
+  } catch (error) {
+    console.error("Failed to render Excalidraw scene for export:", error)
+    return null
+  }
+}
+
+function codeText(node: HastElement | undefined): string {
+  if (!node) return ""
+  return node.children
+    .map((child) => (child.type === "text" ? child.value : child.type === "element" ? codeText(child) : ""))
+    .join("")
+}
+
+async function renderMarkdown(content: string, mermaidSvgs: Map<string, string>) {
+  const [{ renderToStaticMarkup }, { default: Markdown }, { default: remarkGfm }] = await Promise.all([
+    import("react-dom/server"),
+    import("react-markdown"),
+    import("remark-gfm"),
+  ])
+
+  const components: Components = {
+    pre: ({ node, children }) => {
+      const code = node?.children.find((child): child is HastElement => child.type === "element" && child.tagName === "code")
+      const className = code?.properties?.className
+      const isMermaid = Array.isArray(className) && className.includes("language-mermaid")
+      const svg = isMermaid ? mermaidSvgs.get(codeText(code).trim()) : undefined
+      if (svg) {
+        return createElement("div", { className: "diagram", dangerouslySetInnerHTML: { __html: svg } })
+      }
+      return createElement("pre", null, children as ReactNode)
+    },
+  }
+
+  return renderToStaticMarkup(createElement(Markdown, { remarkPlugins: [remarkGfm], components }, content))
+}
+
+async function renderMessage(message: Message, mermaidSvgs: Map<string, string>) {
+  const role = message.role === "user" ? "You" : message.role === "assistant" ? "Luna" : "System"
+  const parts: string[] = []
+
+  const time = message.createdAt instanceof Date && !Number.isNaN(message.createdAt.getTime())
+    ? `<time datetime="${message.createdAt.toISOString()}">${escapeHtml(message.createdAt.toLocaleString())}</time>`
+    : ""
+  parts.push(`<p class="role">${role}${time}</p>`)
+  parts.push(await renderMarkdown(message.content, mermaidSvgs))
+
+  if (message.experimental_attachments?.length) {
+    const items = message.experimental_attachments
+      .map((attachment) => `<li>${escapeHtml(attachment.name ?? attachment.contentType ?? "file")}</li>`)
+      .join("")
+    parts.push(`<p class="section-label">Attachments</p><ul class="attachments">${items}</ul>`)
+  }
+
+  message.codeSnippets?.forEach((snippet) => {
+    parts.push(`<p class="section-label">Code${snippet.language ? ` · ${escapeHtml(snippet.language)}` : ""}</p><pre><code>${escapeHtml(snippet.code)}</code></pre>`)
+  })
+  message.executionOutputs?.forEach((output) => {
+    parts.push(`<p class="section-label">Output${output.outcome ? ` · ${escapeHtml(output.outcome)}` : ""}</p><pre><code>${escapeHtml(output.output)}</code></pre>`)
+  })
+
+  const charts = [...new Set([message.chartUrl, ...(message.chartUrls ?? [])].filter((url): url is string => Boolean(url)))]
+  for (const url of charts) {
+    parts.push(`<div class="diagram"><img src="${escapeHtml(await inlineImage(url))}" alt="Chart" /></div>`)
+  }
+
+  for (const scene of message.excalidrawData ?? []) {
+    const svg = await renderExcalidrawScene(scene)
+    if (svg) parts.push(`<div class="diagram">${svg}</div>`)
+  }
+
+  const images = (message.images ?? []).filter((image) => image.imageUrl || image.thumbnailUrl)
+  if (images.length) {
+    const figures = await Promise.all(images.map(async (image) => {
+      const src = await inlineImage((image.thumbnailUrl ?? image.imageUrl) as string)
+      const caption = image.title ? `<figcaption>${escapeHtml(image.title)}</figcaption>` : ""
+      const img = `<img src="${escapeHtml(src)}" alt="${escapeHtml(image.title ?? "Image")}" />`
+      return `<figure>${image.pageUrl ? `<a href="${escapeHtml(image.pageUrl)}">${img}</a>` : img}${caption}</figure>`
+    }))
+    parts.push(`<p class="section-label">Images</p><div class="gallery">${figures.join("")}</div>`)
+  }
+
+  const videos = (message.videos ?? [])
+    .map((video) => ({ ...video, url: video.url ?? (video.videoId ? `https://www.youtube.com/watch?v=${video.videoId}` : undefined) }))
+    .filter((video) => video.url)
+  if (videos.length) {
+    const items = videos
+      .map((video) => `<li><a href="${escapeHtml(video.url as string)}">${escapeHtml(video.title ?? (video.url as string))}</a>${video.channelTitle ? ` · ${escapeHtml(video.channelTitle)}` : ""}</li>`)
+      .join("")
+    parts.push(`<p class="section-label">Videos</p><ul class="videos">${items}</ul>`)
+  }
+
+  if (message.sources?.length) {
+    const items = message.sources
+      .map((source) => (typeof source === "string" ? { url: source, title: source } : { url: source.url, title: source.title || source.url }))
+      .map((source) => `<li><a href="${escapeHtml(source.url)}">${escapeHtml(source.title)}</a></li>`)
+      .join("")
+    parts.push(`<p class="section-label">Sources</p><ol class="sources">${items}</ol>`)
+  }
+
+  if ((message.variants?.length ?? 0) > 1) {
+    parts.push(`<p class="variant-note">Answer ${(message.activeVariant ?? 0) + 1} of ${message.variants?.length}</p>`)
+  }
+
+  return `<article class="message ${message.role}">${parts.join("\n")}</article>`
+}
+
+/**
+ * Builds a standalone HTML page for the given branch of a conversation. Diagrams are
+ * embedded as SVG and images as data URLs where their hosts allow it.
+ */
+export async function conversationToHtml(title: string, messages: Message[]) {
+  const mermaidSvgs = await renderMermaidDiagrams(messages)
+  const articles: string[] = []
+  for (const message of messages) {
+    articles.push(await renderMessage(message, mermaidSvgs))
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(title)}</title>
+<style>${EXPORT_STYLES}</style>
+</head>
+<body>
+<main>
+<header>
+<h1>${escapeHtml(title)}</h1>
+<p>Exported from Luna on ${escapeHtml(new Date().toLocaleString())}</p>
+</header>
+${articles.join("\n")}
+</main>
+</body>
+</html>`
+}
+
+/**
+ * Opens the browser's print dialog for an HTML document, where it can be saved as a PDF.
+ */
+export function printHtml(html: string) {
+  return new Promise<void>((resolve, reject) => {
+    const frame = document.createElement("iframe")
+    frame.setAttribute("aria-hidden", "true")
+    frame.style.position = "fixed"
+    frame.style.width = "0"
+    frame.style.height = "0"
+    frame.style.border = "0"
+
+    const cleanup = () => {
+      window.setTimeout(() => frame.remove(), 1000)
+    }
+
+    frame.onload = () => {
+      const frameWindow = frame.contentWindow
+      if (!frameWindow) {
+        cleanup()
+        reject(new Error("Could not open the print preview"))
+        return
+      }
+      frameWindow.addEventListener("afterprint", cleanup, { once: true })
+      frameWindow.focus()
+      frameWindow.print()
+      resolve()
+    }
+
+    // Message content must never run as script with the app's origin: without allow-scripts
+    // nothing in the frame executes, and allow-same-origin only lets this page call print()
+    frame.setAttribute("sandbox", "allow-modals allow-same-origin")
+    frame.srcdoc = html
+    document.body.appendChild(frame)
+  })
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest"
+
+import { conversationToJson, createConversationExport } from "@/lib/conversation-export"
+import { parseConversationsJson, readConversationImport } from "@/lib/conversation-importers"
+
+// An edited prompt gives the ChatGPT tree two branches; current_node picks the second one
+const chatGptConversation = {
+  title: "Trip ideas",
+  create_time: 1714557600,
+  current_node: "a2",
+  mapping: {
+    root: { id: "root", parent: null, children: ["system", "u1", "u2"], message: null },
+    system: {
+      id: "system",
+      parent: "root",
+      children: [],
+      message: { author: { role: "system" }, content: { content_type: "text", parts: ["hidden"] }, metadata: { is_visually_hidden_from_conversation: true } },
+    },
+    u1: { id: "u1", parent: "root", children: ["a1"], message: { author: { role: "user" }, content: { content_type: "text", parts: ["Where to go?"] } } },
+    a1: { id: "a1", parent: "u1", children: [], message: { author: { role: "assistant" }, content: { content_type: "text", parts: ["Lisbon"] } } },
+    u2: { id: "u2", parent: "root", children: ["code"], message: { author: { role: "user" }, content: { content_type: "text", parts: ["Plot it"] } } },
+    code: {
+      id: "code",
+      parent: "u2",
+      children: ["output"],
+      message: { author: { role: "assistant" }, content: { content_type: "code", language: "python", text: "plot()" } },
+    },
+    output: {
+      id: "output",
+      parent: "code",
+      children: ["a2"],
+      message: { author: { role: "tool" }, content: { content_type: "execution_output", text: "done" } },
+    },
+    a2: { id: "a2", parent: "output", children: [], message: { author: { role: "assistant" }, content: { content_type: "text", parts: ["Here it is"] } } },
+  },
+}
+
+describe("parseConversationsJson", () => {
+  it("rebuilds ChatGPT branches and folds tool output into the next answer", () => {
+    const [conversation] = parseConversationsJson(JSON.stringify([chatGptConversation]))
+
+    expect(conversation.source).toBe("chatgpt")
+    expect(conversation.title).toBe("Trip ideas")
+    expect(conversation.createdAt).toEqual(new Date(1714557600 * 1000))
+    expect(conversation.messages.map((message) => message.content)).toEqual(["Where to go?", "Lisbon", "Plot it", "Here it is"])
+
+    const [u1, a1, u2, a2] = conversation.messages
+    expect(u1.parentId).toBeNull()
+    expect(a1.parentId).toBe(u1.id)
+    expect(u2.parentId).toBeNull()
+    expect(a2.parentId).toBe(u2.id)
+    expect(a2.codeSnippets).toEqual([{ language: "python", code: "plot()" }])
+    expect(a2.executionOutputs).toEqual([{ outcome: "OUTCOME_OK", output: "done" }])
+    expect(conversation.activePath).toEqual([u2.id, a2.id])
+  })
+
+  it("reads Claude messages and their parents", () => {
+    const [conversation] = parseConversationsJson(JSON.stringify([{
+      name: "",
+      created_at: "2024-05-01T10:00:00Z",
+      chat_messages: [
+        { uuid: "h1", sender: "human", text: "Hi", parent_message_uuid: "00000000-0000-4000-8000-000000000000" },
+        { uuid: "b1", sender: "assistant", content: [{ type: "text", text: "Hello" }, { type: "tool_use" }], parent_message_uuid: "h1" },
+        { uuid: "h2", sender: "human", text: "Retry", parent_message_uuid: "00000000-0000-4000-8000-000000000000" },
+      ],
+    }]))
+
+    expect(conversation.source).toBe("claude")
+    expect(conversation.title).toBe("Claude conversation")
+    const [h1, b1, h2] = conversation.messages
+    expect(b1).toMatchObject({ role: "assistant", content: "Hello", parentId: h1.id })
+    expect(h2.parentId).toBeNull()
+  })
+
+  it("reads OpenAI message lists and JSON Lines datasets", () => {
+    const lines = [
+      { messages: [{ role: "system", content: "Be brief" }, { role: "user", content: "2+2?" }, { role: "assistant", content: "4" }] },
+      { messages: [{ role: "user", content: [{ type: "text", text: "Name a color" }] }, { role: "assistant", content: "Blue" }] },
+    ].map((line) => JSON.stringify(line)).join("\n")
+
+    const conversations = parseConversationsJson(lines)
+
+    expect(conversations.map((conversation) => conversation.source)).toEqual(["openai", "openai"])
+    expect(conversations.map((conversation) => conversation.title)).toEqual(["2+2?", "Name a color"])
+    expect(conversations[0].messages.map((message) => message.role)).toEqual(["user", "assistant"])
+    expect(conversations[0].messages[1].parentId).toBe(conversations[0].messages[0].id)
+  })
+
+  it("reads Luna backups on their own and in bulk exports", () => {
+    const backup = createConversationExport({
+      conversationId: "c1",
+      title: "Backup",
+      messages: [{ id: "u1", role: "user", content: "Hi" }],
+      activePath: ["u1"],
+    })
+
+    expect(parseConversationsJson(conversationToJson(backup))).toMatchObject([{ source: "luna", title: "Backup" }])
+    expect(parseConversationsJson(JSON.stringify([backup, backup]))).toHaveLength(2)
+  })
+
+  it("rejects files without conversations", () => {
+    expect(() => parseConversationsJson(JSON.stringify({ users: [] }))).toThrow("No conversations were found in this file")
+    expect(() => parseConversationsJson("not json\nat all")).toThrow("The file is neither JSON nor JSON Lines")
+  })
+})
+
+describe("readConversationImport", () => {
+  it("reads a plain JSON file", async () => {
+    const file = new File([JSON.stringify([chatGptConversation])], "conversations.json", { type: "application/json" })
+
+    const conversations = await readConversationImport(file)
+    expect(conversations).toHaveLength(1)
+    expect(conversations[0].source).toBe("chatgpt")
+  })
+})
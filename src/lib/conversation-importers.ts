@@ -0,0 +1,376 @@
+import type { CodeSnippet, ExecutionOutput, Message } from "@/components/ui/chat-message"
+import {
+  CONVERSATION_EXPORT_FORMAT,
+  ConversationImportError,
+  readConversationExport,
+  type ImportedConversation,
+} from "@/lib/conversation-export"
+import { isZipFile, readZipEntries } from "@/lib/zip-reader"
+
+export type ImportSource = "luna" | "chatgpt" | "claude" | "openai"
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  luna: "Luna",
+  chatgpt: "ChatGPT",
+  claude: "Claude",
+  openai: "OpenAI messages",
+}
+
+export interface ExternalConversation extends ImportedConversation {
+  source: ImportSource
+  createdAt?: Date
+}
+
+type UnknownRecord = Record<string, unknown>
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function asText(value: unknown) {
+  return typeof value === "string" ? value : ""
+}
+
+function toDate(value: unknown, unit: "s" | "ms" = "ms") {
+  if (typeof value === "number" && Number.isFinite(value)) return new Date(unit === "s" ? value * 1000 : value)
+  if (typeof value === "string" && value.trim()) {
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? undefined : date
+  }
+  return undefined
+}
+
+function untitled(title: unknown, fallback: string) {
+  const text = asText(title).trim()
+  return text || fallback
+}
+
+
+interface ChatGptNode {
+  id: string
+  parent?: string | null
+  children?: string[]
+  message?: {
+    author?: { role?: string }
+    content?: { content_type?: string; parts?: unknown[]; text?: string; language?: string }
+    create_time?: number | null
+    metadata?: UnknownRecord
+  } | null
+}
+
+function isChatGptConversation(value: unknown): value is UnknownRecord & { mapping: Record<string, ChatGptNode> } {
+  return isRecord(value) && isRecord(value.mapping)
+}
+
+function chatGptText(content: NonNullable<ChatGptNode["message"]>["content"]) {
+  if (!content) return ""
+  if (Array.isArray(content.parts)) {
+    return content.parts.filter((part): part is string => typeof part === "string").join("\n").trim()
+  }
+  return asText(content.text).trim()
+}
+
+// A node still to visit, with the message it hangs under and tool output waiting for the next answer
+interface ChatGptVisit {
+  nodeId: string
+  parentId: string | null
+  pending: { codeSnippets: CodeSnippet[]; executionOutputs: ExecutionOutput[] }
+}
+
+/**
+ * ChatGPT keeps every edit and regeneration as a tree in `mapping`. Visible user and assistant
+ * turns become messages; code and tool output are folded into the next assistant answer.
+ */
+function fromChatGpt(conversation: UnknownRecord & { mapping: Record<string, ChatGptNode> }): ExternalConversation {
+  const { mapping } = conversation
+  const messages: Message[] = []
+  const idMap = new Map<string, string>()
+
+  // Depth-first with an explicit stack, since long conversations are thousands of nodes deep
+  const roots = Object.values(mapping).filter((node) => !node.parent || !mapping[node.parent])
+  const stack: ChatGptVisit[] = roots
+    .reverse()
+    .map((root) => ({ nodeId: root.id, parentId: null, pending: { codeSnippets: [], executionOutputs: [] } }))
+  const visited = new Set<string>()
+
+  while (stack.length > 0) {
+    const { nodeId, parentId, pending } = stack.pop() as ChatGptVisit
+    const node = mapping[nodeId]
+    if (!node || visited.has(nodeId)) continue
+    visited.add(nodeId)
+
+    const message = node.message
+    const role = message?.author?.role
+    const contentType = message?.content?.content_type
+    // Custom instructions travel as a hidden user message
+    const hidden = Boolean(message?.metadata?.is_visually_hidden_from_conversation) || contentType === "user_editable_context"
+    let nextParentId = parentId
+    let nextPending = pending
+
+    if (message && !hidden) {
+      if (contentType === "code" && role === "assistant") {
+        nextPending = {
+          ...pending,
+          codeSnippets: [...pending.codeSnippets, { language: message.content?.language, code: asText(message.content?.text) }],
+        }
+      } else if (contentType === "execution_output") {
+        nextPending = {
+          ...pending,
+          executionOutputs: [...pending.executionOutputs, { outcome: "OUTCOME_OK", output: asText(message.content?.text) }],
+        }
+      } else if (role === "user" || role === "assistant") {
+        const content = chatGptText(message.content)
+        const attachments = Array.isArray(message.metadata?.attachments) ? message.metadata.attachments : []
+        const citations = Array.isArray(message.metadata?.citations) ? message.metadata.citations : []
+
+        if (content || attachments.length) {
+          const id = crypto.randomUUID()
+          idMap.set(nodeId, id)
+          messages.push({
+            id,
+            role,
+            content,
+            parentId,
+            createdAt: toDate(message.create_time, "s"),
+            isComplete: true,
+            experimental_attachments: attachments.length
+              ? attachments.filter(isRecord).map((attachment) => ({
+                name: asText(attachment.name) || undefined,
+                contentType: asText(attachment.mime_type) || undefined,
+                url: "",
+              }))
+              : undefined,
+            sources: role === "assistant" && citations.length
+              ? citations
+                .map((citation) => (isRecord(citation) && isRecord(citation.metadata) ? citation.metadata : null))
+                .filter((meta): meta is UnknownRecord => Boolean(meta && asText(meta.url)))
+                .map((meta) => ({ url: asText(meta.url), title: asText(meta.title) || undefined }))
+              : undefined,
+            codeSnippets: role === "assistant" && pending.codeSnippets.length ? pending.codeSnippets : undefined,
+            executionOutputs: role === "assistant" && pending.executionOutputs.length ? pending.executionOutputs : undefined,
+          })
+          nextParentId = id
+          if (role === "assistant") nextPending = { codeSnippets: [], executionOutputs: [] }
+        }
+      }
+    }
+
+    // Pushed last to first, so children are still visited in order
+    const children = node.children ?? []
+    for (let index = children.length - 1; index >= 0; index--) {
+      stack.push({ nodeId: children[index], parentId: nextParentId, pending: nextPending })
+    }
+  }
+
+  // Walk up from the node that was on screen to recover the selected branch
+  const activePath: string[] = []
+  let cursor = typeof conversation.current_node === "string" ? conversation.current_node : null
+  while (cursor && mapping[cursor]) {
+    const id = idMap.get(cursor)
+    if (id) activePath.unshift(id)
+    cursor = mapping[cursor].parent ?? null
+  }
+
+  return {
+    source: "chatgpt",
+    title: untitled(conversation.title, "ChatGPT conversation"),
+    createdAt: toDate(conversation.create_time, "s"),
+    messages,
+    activePath,
+  }
+}
+
+
+// Claude marks the first message of a conversation with this parent instead of null
+const CLAUDE_ROOT_PARENT = "00000000-0000-4000-8000-000000000000"
+
+function isClaudeConversation(value: unknown): value is UnknownRecord & { chat_messages: unknown[] } {
+  return isRecord(value) && Array.isArray(value.chat_messages)
+}
+
+function claudeText(message: UnknownRecord) {
+  if (Array.isArray(message.content)) {
+    const text = message.content
+      .filter((block): block is UnknownRecord => isRecord(block) && block.type === "text")
+      .map((block) => asText(block.text))
+      .join("\n\n")
+      .trim()
+    if (text) return text
+  }
+  return asText(message.text).trim()
+}
+
+function fromClaude(conversation: UnknownRecord & { chat_messages: unknown[] }): ExternalConversation {
+  const messages: Message[] = []
+  const idMap = new Map<string, string>()
+  let previousId: string | null = null
+
+  for (const raw of conversation.chat_messages) {
+    if (!isRecord(raw)) continue
+    const role = raw.sender === "human" ? "user" : raw.sender === "assistant" ? "assistant" : null
+    if (!role) continue
+
+    const files = [
+      ...(Array.isArray(raw.attachments) ? raw.attachments : []),
+      ...(Array.isArray(raw.files) ? raw.files : []),
+    ].filter(isRecord)
+    const content = claudeText(raw)
+    if (!content && files.length === 0) continue
+
+    const parentUuid = asText(raw.parent_message_uuid)
+    const parentId = parentUuid
+      ? parentUuid === CLAUDE_ROOT_PARENT ? null : idMap.get(parentUuid) ?? previousId
+      : previousId
+
+    const id = crypto.randomUUID()
+    if (typeof raw.uuid === "string") idMap.set(raw.uuid, id)
+    messages.push({
+      id,
+      role,
+      content,
+      parentId,
+      createdAt: toDate(raw.created_at),
+      isComplete: true,
+      experimental_attachments: files.length
+        ? files.map((file) => ({
+          name: asText(file.file_name) || undefined,
+          contentType: asText(file.file_type) || undefined,
+          url: "",
+        }))
+        : undefined,
+    })
+    previousId = id
+  }
+
+  return {
+    source: "claude",
+    title: untitled(conversation.name, "Claude conversation"),
+    createdAt: toDate(conversation.created_at),
+    messages,
+    activePath: [],
+  }
+}
+
+
+function isOpenAiMessage(value: unknown): value is UnknownRecord & { role: string } {
+  return isRecord(value) && typeof value.role === "string" && "content" in value
+}
+
+function isOpenAiMessageList(value: unknown): value is UnknownRecord[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isOpenAiMessage)
+}
+
+function openAiText(content: unknown) {
+  if (typeof content === "string") return content.trim()
+  if (!Array.isArray(content)) return ""
+  return content
+    .filter(isRecord)
+    .map((part) => asText(part.text))
+    .filter(Boolean)
+    .join("\n\n")
+    .trim()
+}
+
+function fromOpenAiMessages(list: UnknownRecord[], title: unknown, index: number): ExternalConversation {
+  const messages: Message[] = []
+  let previousId: string | null = null
+
+  for (const raw of list) {
+    // System, developer and tool turns have no place in Luna's thread
+    const role = raw.role === "user" ? "user" : raw.role === "assistant" ? "assistant" : null
+    const content = openAiText(raw.content)
+    if (!role || !content) continue
+
+    const id = crypto.randomUUID()
+    messages.push({ id, role, content, parentId: previousId, isComplete: true })
+    previousId = id
+  }
+
+  const firstPrompt = messages.find((message) => message.role === "user")?.content.slice(0, 80)
+  return {
+    source: "openai",
+    title: untitled(title, firstPrompt || `Imported conversation ${index + 1}`),
+    messages,
+    activePath: [],
+  }
+}
+
+
+function fromJsonValue(value: unknown): ExternalConversation[] {
+  if (isRecord(value) && value.format === CONVERSATION_EXPORT_FORMAT) {
+    return [{ ...readConversationExport(value), source: "luna" }]
+  }
+  if (isOpenAiMessageList(value)) {
+    return [fromOpenAiMessages(value, undefined, 0)]
+  }
+
+  const items = Array.isArray(value) ? value : [value]
+  return items.flatMap((item, index): ExternalConversation[] => {
+    // Bulk exports from the history sidebar are arrays of Luna backups
+    if (isRecord(item) && item.format === CONVERSATION_EXPORT_FORMAT) {
+      return [{ ...readConversationExport(item), source: "luna" }]
+    }
+    if (isChatGptConversation(item)) return [fromChatGpt(item)]
+    if (isClaudeConversation(item)) return [fromClaude(item)]
+    if (isRecord(item) && isOpenAiMessageList(item.messages)) {
+      return [fromOpenAiMessages(item.messages, item.title ?? item.name, index)]
+    }
+    return []
+  })
+}
+
+function parseJsonOrJsonLines(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    // Fine-tuning datasets are JSON Lines with one `{ messages }` record per line
+    const lines = text.split(/\r?\n/).filter((line) => line.trim())
+    try {
+      return lines.map((line) => JSON.parse(line))
+    } catch {
+      throw new ConversationImportError("The file is neither JSON nor JSON Lines")
+    }
+  }
+}
+
+export function parseConversationsJson(text: string): ExternalConversation[] {
+  const conversations = fromJsonValue(parseJsonOrJsonLines(text)).filter(
+    (conversation) => conversation.messages.length > 0
+  )
+  if (conversations.length === 0) {
+    throw new ConversationImportError("No conversations were found in this file")
+  }
+  return conversations
+}
+
+/**
+ * Reads a `.json`, `.jsonl` or export `.zip` from another assistant. Archives are searched
+ * for their `conversations.json`, falling back to any JSON file they contain.
+ */
+export async function readConversationImport(file: File): Promise<ExternalConversation[]> {
+  const data = await file.arrayBuffer()
+
+  if (!isZipFile(data)) {
+    return parseConversationsJson(new TextDecoder().decode(data))
+  }
+
+  let entries: Map<string, Uint8Array>
+  try {
+    entries = await readZipEntries(data, (name) => /\.jsonl?$/i.test(name))
+  } catch (error) {
+    throw new ConversationImportError(error instanceof Error ? error.message : "The archive could not be read")
+  }
+
+  const names = [...entries.keys()]
+  const preferred = names.filter((name) => /(^|\/)conversations\.json$/i.test(name))
+  const decoder = new TextDecoder()
+
+  for (const name of preferred.length ? preferred : names) {
+    try {
+      return parseConversationsJson(decoder.decode(entries.get(name)))
+    } catch {
+      // Archives also hold users.json, projects.json and the like; keep looking
+    }
+  }
+  throw new ConversationImportError("No conversations were found in this archive")
+}
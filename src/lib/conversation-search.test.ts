@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest"
+
+import { buildSnippet, findMatches, readSearchHits, splitHighlights } from "@/lib/conversation-search"
+
+describe("splitHighlights", () => {
+  it("marks every case-insensitive match", () => {
+    expect(splitHighlights("Cats and cats", "cat")).toEqual([
+      { text: "Cat", match: true },
+      { text: "s and ", match: false },
+      { text: "cat", match: true },
+      { text: "s", match: false },
+    ])
+  })
+
+  it("treats the query as literal text", () => {
+    expect(splitHighlights("a.b axb", "a.b")).toEqual([
+      { text: "a.b", match: true },
+      { text: " axb", match: false },
+    ])
+  })
+
+  it("leaves the text alone for a blank query", () => {
+    expect(splitHighlights("text", "  ")).toEqual([{ text: "text", match: false }])
+  })
+})
+
+describe("findMatches", () => {
+  it("numbers the matches of each message in order", () => {
+    const messages = [
+      { id: "m1", content: "one fish, two fish" },
+      { id: "m2", content: "no match" },
+      { id: "m3", content: "Fish" },
+    ]
+
+    expect(findMatches(messages, "fish")).toEqual([
+      { messageId: "m1", occurrence: 0 },
+      { messageId: "m1", occurrence: 1 },
+      { messageId: "m3", occurrence: 0 },
+    ])
+  })
+
+  it("skips code, link targets and image alt text", () => {
+    const content = "fish `fish` [link](https://fish.example) ![fish](/fish.png)\n```\nfish\n```"
+
+    expect(findMatches([{ id: "m1", content }], "fish")).toEqual([{ messageId: "m1", occurrence: 0 }])
+  })
+
+  it("finds nothing for a blank query", () => {
+    expect(findMatches([{ id: "m1", content: "text" }], "")).toEqual([])
+  })
+})
+
+describe("readSearchHits", () => {
+  it("reads hits from `matches` with ready-made snippets", () => {
+    const raw = { matches: [{ message_id: 12, snippet: "  found it  " }, { snippet: "no id" }, null] }
+
+    expect(readSearchHits(raw, "found")).toEqual([{ messageId: "12", snippet: "found it" }])
+  })
+
+  it("builds a snippet from full messages listed under `messages`", () => {
+    const content = `${"a ".repeat(50)}**needle** ${"b ".repeat(50)}`
+    const [hit] = readSearchHits({ messages: [{ id: "m1", content }] }, "needle")
+
+    expect(hit.messageId).toBe("m1")
+    expect(hit.snippet).toBe(buildSnippet(content, "needle"))
+    expect(hit.snippet.startsWith("…")).toBe(true)
+    expect(hit.snippet.endsWith("…")).toBe(true)
+    expect(hit.snippet).toContain("needle")
+  })
+
+  it("ignores results that are not objects", () => {
+    expect(readSearchHits(null, "x")).toEqual([])
+    expect(readSearchHits({ matches: "none" }, "x")).toEqual([])
+  })
+})
@@ -0,0 +1,116 @@
+export interface MessageSearchHit {
+  messageId: string
+  snippet: string
+}
+
+export interface FindMatch {
+  messageId: string
+  // Position of the match among the matches of its message, in document order
+  occurrence: number
+}
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+const SNIPPET_RADIUS = 60
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+// Case-insensitive literal pattern for a find query, or null when there is nothing to look for
+export function createFindPattern(query: string) {
+  const trimmed = query.trim()
+  if (!trimmed) return null
+  return new RegExp(escapeRegExp(trimmed), "gi")
+}
+
+export function splitHighlights(text: string, query: string): HighlightSegment[] {
+  const pattern = createFindPattern(query)
+  if (!pattern || !text) return [{ text, match: false }]
+
+  const segments: HighlightSegment[] = []
+  let lastIndex = 0
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0
+    if (start > lastIndex) segments.push({ text: text.slice(lastIndex, start), match: false })
+    segments.push({ text: match[0], match: true })
+    lastIndex = start + match[0].length
+  }
+  if (lastIndex < text.length) segments.push({ text: text.slice(lastIndex), match: false })
+  return segments
+}
+
+/**
+ * Approximates the text `MarkdownRenderer` highlights: code is never marked and link targets
+ * and image alt texts are not text nodes, so none of them count as a match.
+ */
+export function searchableText(markdown: string) {
+  return markdown
+    .replace(/```[\s\S]*?(```|$)/g, " ")
+    .replace(/`[^`\n]*`/g, " ")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, " ")
+}
+
+export function findMatches(messages: Array<{ id: string; content: string }>, query: string): FindMatch[] {
+  const pattern = createFindPattern(query)
+  if (!pattern) return []
+
+  const matches: FindMatch[] = []
+  for (const message of messages) {
+    const count = searchableText(message.content ?? "").match(pattern)?.length ?? 0
+    for (let occurrence = 0; occurrence < count; occurrence += 1) {
+      matches.push({ messageId: message.id, occurrence })
+    }
+  }
+  return matches
+}
+
+// Markdown flattened to a single line of readable text
+export function plainText(markdown: string) {
+  return searchableText(markdown).replace(/[#*_>~|]+/g, "").replace(/\s+/g, " ").trim()
+}
+
+// Excerpt of `plain` around the `length` characters starting at `index`
+export function snippetAt(plain: string, index: number, length: number) {
+  if (index < 0) return plain.slice(0, SNIPPET_RADIUS * 2)
+
+  const start = Math.max(0, index - SNIPPET_RADIUS)
+  const end = Math.min(plain.length, index + length + SNIPPET_RADIUS)
+  return `${start > 0 ? "…" : ""}${plain.slice(start, end)}${end < plain.length ? "…" : ""}`
+}
+
+// A short excerpt centred on the first match, used when the backend sends whole messages
+export function buildSnippet(text: string, query: string) {
+  const plain = plainText(text)
+  const index = query.trim() ? plain.toLowerCase().indexOf(query.trim().toLowerCase()) : -1
+  return snippetAt(plain, index, query.trim().length)
+}
+
+/**
+ * Message-level hits of a search result. The backend may name the list `matches` or `messages`
+ * and send either a ready-made snippet or the full message content.
+ */
+export function readSearchHits(raw: unknown, query: string): MessageSearchHit[] {
+  if (!raw || typeof raw !== "object") return []
+  const result = raw as Record<string, unknown>
+  const list = Array.isArray(result.matches) ? result.matches : Array.isArray(result.messages) ? result.messages : []
+
+  return list.flatMap((item): MessageSearchHit[] => {
+    if (!item || typeof item !== "object") return []
+    const hit = item as Record<string, unknown>
+    const messageId = hit.message_id ?? hit.messageId ?? hit.id
+    if (typeof messageId !== "string" && typeof messageId !== "number") return []
+
+    const snippet = typeof hit.snippet === "string" && hit.snippet.trim()
+      ? hit.snippet.trim()
+      : typeof hit.content === "string"
+        ? buildSnippet(hit.content, query)
+        : ""
+    return [{ messageId: String(messageId), snippet }]
+  })
+}
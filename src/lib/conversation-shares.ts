@@ -0,0 +1,88 @@
+import type { Message } from "@/components/ui/chat-message"
+import {
+  createConversationExport,
+  parseConversationExport,
+  type ConversationExport,
+  type ImportedConversation,
+} from "@/lib/conversation-export"
+
+export interface ShareSummary {
+  id: string
+  conversationId: string | null
+  title: string
+  createdAt: Date | null
+}
+
+export interface SharedConversation extends ImportedConversation {
+  id: string
+  createdAt: Date | null
+}
+
+export function shareUrl(shareId: string) {
+  const origin = typeof window === "undefined" ? "" : window.location.origin
+  return `${origin}/share/${shareId}`
+}
+
+/**
+ * Snapshot of the branch that is on screen. Other branches and unselected answer variants
+ * stay private to the owner.
+ */
+export function createShareSnapshot({
+  conversationId,
+  title,
+  messages,
+}: {
+  conversationId: string
+  title: string
+  messages: Message[]
+}): ConversationExport {
+  const visible = messages
+    .filter((message) => message.isComplete !== false)
+    .map((message) => ({ ...message, variants: undefined, activeVariant: undefined }))
+
+  return createConversationExport({
+    conversationId,
+    title,
+    messages: visible,
+    activePath: visible.map((message) => message.id),
+  })
+}
+
+function toDate(value: unknown) {
+  if (typeof value !== "string" && typeof value !== "number") return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+export function normalizeShareSummary(raw: unknown): ShareSummary | null {
+  if (!raw || typeof raw !== "object") return null
+  const share = raw as Record<string, unknown>
+  const id = share.id ?? share.shareId
+  if (typeof id !== "string" && typeof id !== "number") return null
+
+  const conversationId = share.conversation_id ?? share.conversationId
+  return {
+    id: String(id),
+    conversationId: typeof conversationId === "string" ? conversationId : null,
+    title: typeof share.title === "string" && share.title.trim() ? share.title : "Untitled conversation",
+    createdAt: toDate(share.created_at ?? share.createdAt),
+  }
+}
+
+export function parseSharedConversation(raw: unknown): SharedConversation {
+  const summary = normalizeShareSummary(raw)
+  const share = raw as Record<string, unknown> | null
+  if (!summary || !share?.snapshot) {
+    throw new Error("This share link is invalid")
+  }
+
+  const conversation = parseConversationExport(
+    typeof share.snapshot === "string" ? share.snapshot : JSON.stringify(share.snapshot)
+  )
+  return {
+    ...conversation,
+    id: summary.id,
+    title: typeof share.title === "string" && share.title.trim() ? share.title : conversation.title,
+    createdAt: summary.createdAt,
+  }
+}
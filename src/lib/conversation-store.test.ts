@@ -0,0 +1,305 @@
+import { describe, expect, it } from "vitest"
+
+import type { Message } from "@/components/ui/chat-message"
+import {
+  ROOT_PARENT_KEY,
+  chatStreamEventToAction,
+  conversationReducer,
+  createConversationStore,
+  getSiblingIds,
+  initialConversationState,
+  type ConversationAction,
+  type ConversationState,
+} from "@/lib/conversation-store"
+
+function message(id: string, role: Message["role"], content = id, fields: Partial<Message> = {}): Message {
+  return { id, role, content, ...fields }
+}
+
+function reduce(actions: ConversationAction[], state: ConversationState = initialConversationState) {
+  return actions.reduce(conversationReducer, state)
+}
+
+function contents(state: ConversationState) {
+  return state.messageIds.map((id) => state.messagesById[id].content)
+}
+
+const linearHistory = [
+  message("u1", "user"),
+  message("a1", "assistant"),
+  message("u2", "user"),
+  message("a2", "assistant"),
+]
+
+describe("conversationReducer", () => {
+  describe("reset", () => {
+    it("chains a linear history in order", () => {
+      const state = reduce([{ type: "reset", messages: linearHistory }])
+
+      expect(state.messageIds).toEqual(["u1", "a1", "u2", "a2"])
+      expect(state.parentById).toEqual({ u1: null, a1: "u1", u2: "a1", a2: "u2" })
+      expect(state.childIdsById[ROOT_PARENT_KEY]).toEqual(["u1"])
+    })
+
+    it("keeps an explicit null parent as a second root", () => {
+      const state = reduce([{
+        type: "reset",
+        messages: [message("u1", "user"), message("a1", "assistant"), message("u1b", "user", "u1b", { parentId: null })],
+      }])
+
+      expect(state.parentById.u1b).toBeNull()
+      expect(state.childIdsById[ROOT_PARENT_KEY]).toEqual(["u1", "u1b"])
+      expect(state.messageIds).toEqual(["u1b"])
+    })
+
+    it("follows the previous message when the parent is unknown", () => {
+      const state = reduce([{
+        type: "reset",
+        messages: [message("u1", "user"), message("a1", "assistant", "a1", { parentId: "missing" })],
+      }])
+
+      expect(state.parentById.a1).toBe("u1")
+    })
+
+    it("replaces the whole conversation", () => {
+      const state = reduce([
+        { type: "reset", messages: linearHistory },
+        { type: "reset", messages: [message("x", "user")] },
+      ])
+
+      expect(state.messageIds).toEqual(["x"])
+      expect(Object.keys(state.messagesById)).toEqual(["x"])
+    })
+  })
+
+  it("appends messages below the end of the active branch", () => {
+    const state = reduce([
+      { type: "reset", messages: linearHistory.slice(0, 2) },
+      { type: "appendMessages", messages: [message("u2", "user"), message("a2", "assistant")] },
+    ])
+
+    expect(state.messageIds).toEqual(["u1", "a1", "u2", "a2"])
+    expect(state.parentById.u2).toBe("a1")
+  })
+
+  describe("branches", () => {
+    const edited = reduce([
+      { type: "reset", messages: linearHistory },
+      { type: "addBranch", parentId: "a1", messages: [message("u2b", "user"), message("a2b", "assistant")] },
+    ])
+
+    it("makes a new branch active and keeps the old one", () => {
+      expect(edited.messageIds).toEqual(["u1", "a1", "u2b", "a2b"])
+      expect(getSiblingIds(edited, "u2b")).toEqual(["u2", "u2b"])
+      expect(edited.messagesById.a2).toBeDefined()
+    })
+
+    it("switches back to a sibling with its own descendants", () => {
+      const state = conversationReducer(edited, { type: "selectBranch", messageId: "u2" })
+
+      expect(state.messageIds).toEqual(["u1", "a1", "u2", "a2"])
+    })
+
+    it("returns the same state when the branch is already selected", () => {
+      expect(conversationReducer(edited, { type: "selectBranch", messageId: "u2b" })).toBe(edited)
+      expect(conversationReducer(edited, { type: "selectBranch", messageId: "missing" })).toBe(edited)
+    })
+
+    it("reveals a nested message by switching every ancestor", () => {
+      const state = reduce([
+        { type: "addBranch", parentId: null, messages: [message("u1b", "user"), message("a1b", "assistant")] },
+        { type: "revealMessage", messageId: "a2" },
+      ], edited)
+
+      expect(state.messageIds).toEqual(["u1", "a1", "u2", "a2"])
+    })
+
+    it("adds a branch under the root when the parent is unknown", () => {
+      const state = conversationReducer(edited, { type: "addBranch", parentId: "missing", messages: [message("r", "user")] })
+
+      expect(state.parentById.r).toBeNull()
+      expect(state.messageIds).toEqual(["r"])
+    })
+  })
+
+  it("removes a message with everything below it and falls back to a sibling", () => {
+    const state = reduce([
+      { type: "reset", messages: linearHistory },
+      { type: "addBranch", parentId: "a1", messages: [message("u2b", "user"), message("a2b", "assistant")] },
+      { type: "removeMessage", messageId: "u2b" },
+    ])
+
+    expect(state.messageIds).toEqual(["u1", "a1", "u2", "a2"])
+    expect(state.messagesById.a2b).toBeUndefined()
+    expect(state.parentById.a2b).toBeUndefined()
+    expect(getSiblingIds(state, "u2")).toEqual(["u2"])
+  })
+
+  it("keeps the messageIds array when the active path does not move", () => {
+    const state = reduce([{ type: "reset", messages: linearHistory }])
+    const patched = conversationReducer(state, { type: "patchMessage", messageId: "a2", patch: { isPending: true } })
+
+    expect(patched.messageIds).toBe(state.messageIds)
+    expect(patched.messagesById.a2.isPending).toBe(true)
+  })
+
+  describe("streaming", () => {
+    const streaming = reduce([{ type: "reset", messages: [message("u1", "user"), message("a1", "assistant", "")] }])
+
+    it("appends deltas and marks the answer incomplete", () => {
+      const state = reduce([
+        { type: "appendDelta", messageId: "a1", text: "Hello" },
+        { type: "appendDelta", messageId: "a1", text: ", world" },
+      ], streaming)
+
+      expect(state.messagesById.a1.content).toBe("Hello, world")
+      expect(state.messagesById.a1.isComplete).toBe(false)
+    })
+
+    it("ignores empty deltas and unknown messages", () => {
+      expect(conversationReducer(streaming, { type: "appendDelta", messageId: "a1", text: "" })).toBe(streaming)
+      expect(conversationReducer(streaming, { type: "appendDelta", messageId: "missing", text: "x" })).toBe(streaming)
+    })
+
+    it("updates an agent step in place", () => {
+      const state = reduce([
+        { type: "upsertAgentStep", messageId: "a1", step: { id: "search", label: "Searching", state: "running" } },
+        { type: "upsertAgentStep", messageId: "a1", step: { id: "read", label: "Reading", state: "running" } },
+        { type: "upsertAgentStep", messageId: "a1", step: { id: "search", label: "Searched", state: "complete" } },
+      ], streaming)
+
+      expect(state.messagesById.a1.agentSteps).toEqual([
+        { id: "search", label: "Searched", state: "complete" },
+        { id: "read", label: "Reading", state: "running" },
+      ])
+    })
+
+    it("applies mermaid replacements to the streamed text", () => {
+      const blocks = [{ index: 0, status: "corrected" as const, original: "graph X", replacement: "graph TD" }]
+      const state = reduce([
+        { type: "appendDelta", messageId: "a1", text: "```mermaid\ngraph X\n```" },
+        { type: "applyMermaidBlocks", messageId: "a1", blocks },
+      ], streaming)
+
+      expect(state.messagesById.a1.content).toBe("```mermaid\ngraph TD\n```")
+      expect(state.messagesById.a1.mermaidBlocks).toBe(blocks)
+    })
+
+    it("keeps chart urls unique and replaces a regenerated one", () => {
+      const state = reduce([
+        { type: "addChartUrl", messageId: "a1", url: "/chart-1.png" },
+        { type: "addChartUrl", messageId: "a1", url: "/chart-1.png" },
+        { type: "addChartUrl", messageId: "a1", url: "/chart-2.png" },
+        { type: "replaceChartUrl", messageId: "a1", previousUrl: "/chart-1.png", url: "/chart-3.png" },
+      ], streaming)
+
+      expect(state.messagesById.a1.chartUrls).toEqual(["/chart-3.png", "/chart-2.png"])
+      expect(state.messagesById.a1.chartUrl).toBe("/chart-2.png")
+    })
+
+    it("completes with the fallback text when nothing was streamed", () => {
+      const state = conversationReducer(streaming, { type: "completeMessage", messageId: "a1", fallbackContent: "No answer" })
+
+      expect(state.messagesById.a1).toMatchObject({ content: "No answer", chartUrls: [], isComplete: true })
+    })
+
+    it("keeps streamed text over the fallback", () => {
+      const state = reduce([
+        { type: "appendDelta", messageId: "a1", text: "Streamed" },
+        { type: "completeMessage", messageId: "a1", fallbackContent: "No answer" },
+      ], streaming)
+
+      expect(state.messagesById.a1.content).toBe("Streamed")
+    })
+  })
+
+  describe("variants", () => {
+    const answered = reduce([{
+      type: "reset",
+      messages: [message("u1", "user"), message("a1", "assistant", "First answer", { isComplete: true, sources: [] })],
+    }])
+
+    const regenerated = reduce([
+      { type: "startVariant", messageId: "a1", model: "gemini-2.5-pro" },
+      { type: "appendDelta", messageId: "a1", text: "Second answer" },
+      { type: "completeMessage", messageId: "a1" },
+    ], answered)
+
+    it("keeps the previous answer and streams the new one into a fresh variant", () => {
+      const started = conversationReducer(answered, { type: "startVariant", messageId: "a1", model: "gemini-2.5-pro" })
+
+      expect(started.messagesById.a1).toMatchObject({ content: "", activeVariant: 1, isComplete: false })
+      expect(started.messagesById.a1.variants?.map((variant) => variant.content)).toEqual(["First answer", ""])
+      expect(started.messagesById.a1.variants?.[1].model).toBe("gemini-2.5-pro")
+    })
+
+    it("saves the streamed answer into its variant on completion", () => {
+      expect(regenerated.messagesById.a1.variants?.map((variant) => variant.content)).toEqual(["First answer", "Second answer"])
+      expect(contents(regenerated)).toEqual(["u1", "Second answer"])
+    })
+
+    it("switches between variants", () => {
+      const state = conversationReducer(regenerated, { type: "selectVariant", messageId: "a1", index: 0 })
+
+      expect(state.messagesById.a1).toMatchObject({ content: "First answer", activeVariant: 0 })
+      expect(state.messagesById.a1.variants?.[1].content).toBe("Second answer")
+    })
+
+    it("does not switch while an answer is streaming or to a missing variant", () => {
+      const streaming = reduce([
+        { type: "startVariant", messageId: "a1" },
+        { type: "appendDelta", messageId: "a1", text: "Partial" },
+      ], answered)
+
+      expect(conversationReducer(streaming, { type: "selectVariant", messageId: "a1", index: 0 })).toBe(streaming)
+      expect(conversationReducer(regenerated, { type: "selectVariant", messageId: "a1", index: 5 })).toBe(regenerated)
+    })
+  })
+})
+
+describe("chatStreamEventToAction", () => {
+  it("maps message events onto the answer", () => {
+    expect(chatStreamEventToAction("a1", { type: "message", text: "Hi" }))
+      .toEqual({ type: "appendDelta", messageId: "a1", text: "Hi" })
+    expect(chatStreamEventToAction("a1", { type: "status", step: { id: "search", label: "Searching", state: "running" } }))
+      .toEqual({ type: "upsertAgentStep", messageId: "a1", step: { id: "search", label: "Searching", state: "running" } })
+    expect(chatStreamEventToAction("a1", { type: "sources", sources: [] }))
+      .toEqual({ type: "setSources", messageId: "a1", sources: [] })
+    expect(chatStreamEventToAction("a1", { type: "code", snippet: { language: "python", code: "print(1)" } }))
+      .toEqual({ type: "appendCodeSnippet", messageId: "a1", snippet: { language: "python", code: "print(1)" } })
+    expect(chatStreamEventToAction("a1", { type: "codeResult", result: { outcome: "OK", output: "1" } }))
+      .toEqual({ type: "appendExecutionOutput", messageId: "a1", output: { outcome: "OK", output: "1" } })
+    expect(chatStreamEventToAction("a1", { type: "mermaid", blocks: [] }))
+      .toEqual({ type: "applyMermaidBlocks", messageId: "a1", blocks: [] })
+    expect(chatStreamEventToAction("a1", { type: "youtubeResults", videos: [] }))
+      .toEqual({ type: "patchMessage", messageId: "a1", patch: { videos: [] } })
+  })
+
+  it("skips an empty image list", () => {
+    expect(chatStreamEventToAction("a1", { type: "images", images: [] })).toBeNull()
+  })
+
+  it("returns null for events that do not touch the message", () => {
+    expect(chatStreamEventToAction("a1", { type: "conversationId", conversationId: "c1" })).toBeNull()
+    expect(chatStreamEventToAction("a1", { type: "finish", finishReason: "stop" })).toBeNull()
+    expect(chatStreamEventToAction("a1", { type: "error", error: "Failed" })).toBeNull()
+  })
+
+  it("streams an answer through the store", () => {
+    const store = createConversationStore([message("u1", "user"), message("a1", "assistant", "")])
+    const events = [
+      { type: "status", step: { id: "search", label: "Searching", state: "running" } },
+      { type: "message", text: "Hello" },
+      { type: "message", text: " there" },
+      { type: "finish", finishReason: "stop" },
+    ] as const
+
+    events.forEach((event) => {
+      const action = chatStreamEventToAction("a1", event)
+      if (action) store.dispatch(action)
+    })
+
+    expect(store.getMessages().map((item) => item.content)).toEqual(["u1", "Hello there"])
+    expect(store.getState().messagesById.a1.agentSteps).toHaveLength(1)
+  })
+})
@@ -0,0 +1,486 @@
+import type {
+  AgentActivityStep,
+  CodeSnippet,
+  ExecutionOutput,
+  Message,
+  MessageVariant,
+  MermaidBlockUpdate,
+} from "@/components/ui/chat-message"
+import type { ChatStreamEvent } from "@/lib/chat-stream"
+
+// Parent key used for the first message(s) of a conversation
+export const ROOT_PARENT_KEY = ""
+
+/**
+ * Messages form a tree: editing a prompt adds a sibling instead of overwriting it.
+ * `messageIds` is the active branch from the root to the newest message, which is
+ * what the chat renders; the other maps keep every branch around for switching.
+ */
+export interface ConversationState {
+  messageIds: string[]
+  messagesById: Record<string, Message>
+  parentById: Record<string, string | null>
+  childIdsById: Record<string, string[]>
+  activeChildById: Record<string, string>
+}
+
+export const initialConversationState: ConversationState = {
+  messageIds: [],
+  messagesById: {},
+  parentById: {},
+  childIdsById: {},
+  activeChildById: {},
+}
+
+export type ConversationAction =
+  | { type: "reset"; messages: Message[] }
+  | { type: "appendMessages"; messages: Message[] }
+  // Adds `messages` as a chain below `parentId` and makes it the active branch
+  | { type: "addBranch"; parentId: string | null; messages: Message[] }
+  // Shows the branch that contains `messageId`
+  | { type: "selectBranch"; messageId: string }
+  // Like `selectBranch`, but also switches every ancestor so a deeply nested message becomes visible
+  | { type: "revealMessage"; messageId: string }
+  // Drops a message together with everything below it, e.g. a cancelled offline prompt
+  | { type: "removeMessage"; messageId: string }
+  | { type: "patchMessage"; messageId: string; patch: Partial<Message> }
+  | { type: "appendDelta"; messageId: string; text: string }
+  | { type: "setSources"; messageId: string; sources: NonNullable<Message["sources"]> }
+  | { type: "upsertAgentStep"; messageId: string; step: AgentActivityStep }
+  | { type: "appendCodeSnippet"; messageId: string; snippet: CodeSnippet }
+  | { type: "appendExecutionOutput"; messageId: string; output: ExecutionOutput }
+  | { type: "applyMermaidBlocks"; messageId: string; blocks: MermaidBlockUpdate[] }
+  | { type: "addChartUrl"; messageId: string; url: string }
+  | { type: "replaceChartUrl"; messageId: string; previousUrl: string; url: string }
+  // Keeps the current answer as a variant and clears the message for a regenerated one
+  | { type: "startVariant"; messageId: string; model?: string; agentSteps?: AgentActivityStep[]; createdAt?: Date }
+  | { type: "selectVariant"; messageId: string; index: number }
+  // Marks the answer finished; `fallbackContent` is used when nothing was streamed
+  | { type: "completeMessage"; messageId: string; fallbackContent?: string; patch?: Partial<Message> }
+
+export function applyMermaidReplacements(content: string, blocks: MermaidBlockUpdate[] | undefined) {
+  if (typeof content !== "string" || !Array.isArray(blocks) || blocks.length === 0) {
+    return content
+  }
+
+  return blocks.reduce((acc, block) => {
+    if (typeof block.original === "string" && typeof block.replacement === "string") {
+      return acc.replace(block.original, block.replacement)
+    }
+    return acc
+  }, content)
+}
+
+function parentKey(parentId: string | null | undefined) {
+  return parentId ?? ROOT_PARENT_KEY
+}
+
+function resolveActivePath(state: Omit<ConversationState, "messageIds">, previous: string[]): string[] {
+  const path: string[] = []
+  let key = ROOT_PARENT_KEY
+  while (true) {
+    const children = state.childIdsById[key]
+    if (!children || children.length === 0) break
+    const next = state.activeChildById[key] ?? children[children.length - 1]
+    path.push(next)
+    key = next
+  }
+
+  // Keep the previous array when nothing moved so list subscribers can bail out
+  const unchanged = path.length === previous.length && path.every((id, index) => previous[index] === id)
+  return unchanged ? previous : path
+}
+
+function insertChain(state: ConversationState, parentId: string | null, messages: Message[]): ConversationState {
+  if (messages.length === 0) return state
+
+  const messagesById = { ...state.messagesById }
+  const parentById = { ...state.parentById }
+  const childIdsById = { ...state.childIdsById }
+  const activeChildById = { ...state.activeChildById }
+
+  let parent = parentId && parentId in messagesById ? parentId : null
+  for (const message of messages) {
+    const key = parentKey(parent)
+    if (!(message.id in messagesById)) {
+      childIdsById[key] = [...(childIdsById[key] ?? []), message.id]
+      parentById[message.id] = parent
+    }
+    messagesById[message.id] = message
+    activeChildById[key] = message.id
+    parent = message.id
+  }
+
+  const next = { messagesById, parentById, childIdsById, activeChildById }
+  return { ...next, messageIds: resolveActivePath(next, state.messageIds) }
+}
+
+// Builds the tree from a flat, oldest-first list. Messages without a known `parentId`
+// continue the previous message, so plain linear histories stay linear.
+function fromMessages(messages: Message[]): ConversationState {
+  let state = initialConversationState
+  let previousId: string | null = null
+  for (const message of messages) {
+    const parentId = message.parentId && message.parentId in state.messagesById
+      ? message.parentId
+      : message.parentId === null ? null : previousId
+    state = insertChain(state, parentId, [message])
+    previousId = message.id
+  }
+  return state
+}
+
+const NO_SIBLINGS: string[] = []
+
+export function getSiblingIds(state: ConversationState, messageId: string): string[] {
+  if (!(messageId in state.parentById)) return NO_SIBLINGS
+  return state.childIdsById[parentKey(state.parentById[messageId])] ?? NO_SIBLINGS
+}
+
+function removeSubtree(state: ConversationState, messageId: string): ConversationState {
+  if (!(messageId in state.parentById)) return state
+
+  const removed = new Set<string>()
+  const queue = [messageId]
+  while (queue.length > 0) {
+    const id = queue.pop() as string
+    removed.add(id)
+    queue.push(...(state.childIdsById[id] ?? []))
+  }
+
+  const messagesById = { ...state.messagesById }
+  const parentById = { ...state.parentById }
+  const childIdsById = { ...state.childIdsById }
+  const activeChildById = { ...state.activeChildById }
+  const key = parentKey(state.parentById[messageId])
+
+  removed.forEach((id) => {
+    delete messagesById[id]
+    delete parentById[id]
+    delete childIdsById[id]
+    delete activeChildById[id]
+  })
+  childIdsById[key] = (childIdsById[key] ?? []).filter((id) => id !== messageId)
+  if (childIdsById[key].length === 0) delete childIdsById[key]
+  if (activeChildById[key] === messageId) delete activeChildById[key]
+
+  const next = { messagesById, parentById, childIdsById, activeChildById }
+  return { ...next, messageIds: resolveActivePath(next, state.messageIds) }
+}
+
+function updateMessage(
+  state: ConversationState,
+  messageId: string,
+  update: (message: Message) => Message
+): ConversationState {
+  const message = state.messagesById[messageId]
+  if (!message) return state
+  const next = update(message)
+  if (next === message) return state
+  return { ...state, messagesById: { ...state.messagesById, [messageId]: next } }
+}
+
+function snapshotVariant(message: Message): MessageVariant {
+  const model = message.variants?.[message.activeVariant ?? -1]?.model
+  return {
+    content: message.content,
+    sources: message.sources,
+    images: message.images,
+    videos: message.videos,
+    agentSteps: message.agentSteps,
+    chartUrl: message.chartUrl,
+    chartUrls: message.chartUrls,
+    codeSnippets: message.codeSnippets,
+    executionOutputs: message.executionOutputs,
+    mermaidBlocks: message.mermaidBlocks,
+    excalidrawData: message.excalidrawData,
+    createdAt: message.createdAt,
+    ...(model ? { model } : {}),
+  }
+}
+
+// Variants with the active slot refreshed from the fields currently on the message
+function syncedVariants(message: Message): MessageVariant[] {
+  const variants = message.variants ?? []
+  if (variants.length === 0) return [snapshotVariant(message)]
+  const active = message.activeVariant ?? variants.length - 1
+  return variants.map((variant, index) => (index === active ? snapshotVariant(message) : variant))
+}
+
+function variantFields(variant: MessageVariant): Partial<Message> {
+  const fields: Partial<Message> & { model?: string } = { ...variant }
+  delete fields.model
+  return fields
+}
+
+function upsertStep(steps: AgentActivityStep[] | undefined, step: AgentActivityStep) {
+  const existing = Array.isArray(steps) ? steps : []
+  const index = existing.findIndex((item) => item.id === step.id)
+  return index >= 0
+    ? existing.map((item, i) => (i === index ? { ...item, ...step } : item))
+    : [...existing, step]
+}
+
+export function conversationReducer(state: ConversationState, action: ConversationAction): ConversationState {
+  switch (action.type) {
+    case "reset":
+      return fromMessages(action.messages)
+    case "appendMessages":
+      return insertChain(state, state.messageIds[state.messageIds.length - 1] ?? null, action.messages)
+    case "addBranch":
+      return insertChain(state, action.parentId, action.messages)
+    case "selectBranch": {
+      if (!(action.messageId in state.parentById)) return state
+      const key = parentKey(state.parentById[action.messageId])
+      if (state.activeChildById[key] === action.messageId) return state
+      const activeChildById = { ...state.activeChildById, [key]: action.messageId }
+      const next = { ...state, activeChildById }
+      return { ...next, messageIds: resolveActivePath(next, state.messageIds) }
+    }
+    case "revealMessage": {
+      if (!(action.messageId in state.parentById)) return state
+      const activeChildById = { ...state.activeChildById }
+      let messageId: string | null = action.messageId
+      while (messageId !== null && messageId in state.parentById) {
+        activeChildById[parentKey(state.parentById[messageId])] = messageId
+        messageId = state.parentById[messageId]
+      }
+      const next = { ...state, activeChildById }
+      return { ...next, messageIds: resolveActivePath(next, state.messageIds) }
+    }
+    case "removeMessage":
+      return removeSubtree(state, action.messageId)
+    case "patchMessage":
+      return updateMessage(state, action.messageId, (message) => ({ ...message, ...action.patch }))
+    case "appendDelta":
+      if (!action.text) return state
+      return updateMessage(state, action.messageId, (message) => ({
+        ...message,
+        content: message.content + action.text,
+        isComplete: false,
+      }))
+    case "setSources":
+      return updateMessage(state, action.messageId, (message) => ({ ...message, sources: action.sources }))
+    case "upsertAgentStep":
+      return updateMessage(state, action.messageId, (message) => ({
+        ...message,
+        agentSteps: upsertStep(message.agentSteps, action.step),
+      }))
+    case "appendCodeSnippet":
+      return updateMessage(state, action.messageId, (message) => ({
+        ...message,
+        codeSnippets: [...(message.codeSnippets ?? []), action.snippet],
+      }))
+    case "appendExecutionOutput":
+      return updateMessage(state, action.messageId, (message) => ({
+        ...message,
+        executionOutputs: [...(message.executionOutputs ?? []), action.output],
+      }))
+    case "applyMermaidBlocks":
+      return updateMessage(state, action.messageId, (message) => ({
+        ...message,
+        content: applyMermaidReplacements(message.content, action.blocks),
+        mermaidBlocks: action.blocks,
+        isComplete: false,
+      }))
+    case "addChartUrl":
+      return updateMessage(state, action.messageId, (message) => ({
+        ...message,
+        chartUrl: action.url,
+        chartUrls: Array.from(new Set([...(message.chartUrls ?? []), action.url])),
+      }))
+    case "replaceChartUrl":
+      return updateMessage(state, action.messageId, (message) => ({
+        ...message,
+        chartUrl: message.chartUrl === action.previousUrl ? action.url : message.chartUrl,
+        chartUrls: (message.chartUrls ?? []).map((url) => (url === action.previousUrl ? action.url : url)),
+      }))
+    case "startVariant":
+      return updateMessage(state, action.messageId, (message) => {
+        const variants = syncedVariants(message)
+        const fresh: MessageVariant = {
+          content: "",
+          sources: [],
+          images: [],
+          videos: undefined,
+          agentSteps: action.agentSteps ?? [],
+          chartUrl: null,
+          chartUrls: [],
+          codeSnippets: [],
+          executionOutputs: [],
+          mermaidBlocks: undefined,
+          excalidrawData: undefined,
+          createdAt: action.createdAt,
+          ...(action.model ? { model: action.model } : {}),
+        }
+        return {
+          ...message,
+          ...variantFields(fresh),
+          variants: [...variants, fresh],
+          activeVariant: variants.length,
+          isComplete: false,
+        }
+      })
+    case "selectVariant":
+      return updateMessage(state, action.messageId, (message) => {
+        // Switching mid-stream would write the rest of the answer into the wrong variant
+        if (message.isComplete === false) return message
+        const variants = message.variants ?? []
+        if (action.index === message.activeVariant || !variants[action.index]) return message
+        const synced = syncedVariants(message)
+        return {
+          ...message,
+          ...variantFields(synced[action.index]),
+          variants: synced,
+          activeVariant: action.index,
+        }
+      })
+    case "completeMessage":
+      return updateMessage(state, action.messageId, (message) => {
+        const completed: Message = {
+          ...message,
+          content: message.content || action.fallbackContent || "",
+          chartUrls: message.chartUrls ?? [],
+          ...action.patch,
+          isComplete: true,
+        }
+        return completed.variants?.length ? { ...completed, variants: syncedVariants(completed) } : completed
+      })
+    default:
+      return state
+  }
+}
+
+/**
+ * Maps a decoded stream event onto the store action that applies it to `messageId`.
+ *
+ * Returns null for events that do not touch the message itself (conversation ids, finish, errors).
+ */
+export function chatStreamEventToAction(messageId: string, event: ChatStreamEvent): ConversationAction | null {
+  switch (event.type) {
+    case "message":
+      return { type: "appendDelta", messageId, text: event.text }
+    case "status":
+      return { type: "upsertAgentStep", messageId, step: event.step }
+    case "images":
+      return event.images.length > 0 ? { type: "patchMessage", messageId, patch: { images: event.images } } : null
+    case "sources":
+      return { type: "setSources", messageId, sources: event.sources }
+    case "code":
+      return { type: "appendCodeSnippet", messageId, snippet: event.snippet }
+    case "codeResult":
+      return { type: "appendExecutionOutput", messageId, output: event.result }
+    case "mermaid":
+      return { type: "applyMermaidBlocks", messageId, blocks: event.blocks }
+    case "youtubeResults":
+      return { type: "patchMessage", messageId, patch: { videos: event.videos } }
+    case "excalidraw":
+      return { type: "patchMessage", messageId, patch: { excalidrawData: event.excalidrawData } }
+    default:
+      return null
+  }
+}
+
+export interface ConversationStore {
+  getState: () => ConversationState
+  // Ordered message list, rebuilt only when the state changes
+  getMessages: () => Message[]
+  dispatch: (action: ConversationAction) => void
+  subscribe: (listener: () => void) => () => void
+  // Notifies only when this message object is replaced, so rows can skip unrelated updates
+  subscribeToMessage: (messageId: string, listener: () => void) => () => void
+}
+
+export function createConversationStore(initialMessages: Message[] = []): ConversationStore {
+  let state = initialMessages.length > 0 ? fromMessages(initialMessages) : initialConversationState
+  let messagesSnapshot: { state: ConversationState; messages: Message[] } | null = null
+  const listeners = new Set<() => void>()
+  const messageListeners = new Map<string, Set<() => void>>()
+
+  const getMessages = () => {
+    if (messagesSnapshot?.state !== state) {
+      messagesSnapshot = { state, messages: state.messageIds.map((id) => state.messagesById[id]) }
+    }
+    return messagesSnapshot.messages
+  }
+
+  const dispatch = (action: ConversationAction) => {
+    const previous = state
+    state = conversationReducer(state, action)
+    if (state === previous) return
+
+    messageListeners.forEach((subscribers, messageId) => {
+      if (previous.messagesById[messageId] !== state.messagesById[messageId]) {
+        subscribers.forEach((listener) => listener())
+      }
+    })
+    listeners.forEach((listener) => listener())
+  }
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+
+  const subscribeToMessage = (messageId: string, listener: () => void) => {
+    const subscribers = messageListeners.get(messageId) ?? new Set<() => void>()
+    subscribers.add(listener)
+    messageListeners.set(messageId, subscribers)
+    return () => {
+      subscribers.delete(listener)
+      if (subscribers.size === 0) messageListeners.delete(messageId)
+    }
+  }
+
+  return {
+    getState: () => state,
+    getMessages,
+    dispatch,
+    subscribe,
+    subscribeToMessage,
+  }
+}
+
+/**
+ * Reports changes to the conversation held by `store`, batched to at most one call per `delay`.
+ * A reset to another conversation ends the reporting, since what follows no longer belongs to
+ * it; a change still pending when the returned function is called is flushed first.
+ */
+export function watchConversation(
+  store: ConversationStore,
+  onChange: (state: ConversationState) => void,
+  delay: number
+) {
+  let latest = store.getState()
+  // Any message of the watched conversation; messages are only ever dropped by a reset
+  let anchorId: string | undefined = Object.keys(latest.messagesById)[0]
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const unsubscribe = store.subscribe(() => {
+    const state = store.getState()
+    if (anchorId !== undefined && !(anchorId in state.messagesById)) {
+      if (timer !== null) clearTimeout(timer)
+      timer = null
+      unsubscribe()
+      return
+    }
+    anchorId = anchorId ?? Object.keys(state.messagesById)[0]
+    latest = state
+    if (timer !== null) return
+    timer = setTimeout(() => {
+      timer = null
+      onChange(latest)
+    }, delay)
+  })
+
+  return () => {
+    unsubscribe()
+    if (timer !== null) {
+      clearTimeout(timer)
+      timer = null
+      onChange(latest)
+    }
+  }
+}
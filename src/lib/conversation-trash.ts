@@ -0,0 +1,48 @@
+export const TRASH_RETENTION_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface TrashedConversation {
+  id: string
+  title: string
+  deletedAt: Date
+  purgeAt: Date
+}
+
+function toDate(value: unknown) {
+  if (typeof value !== "string" && typeof value !== "number") return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * The backend reports when a conversation was deleted and, optionally, when it will be purged.
+ * Without a purge date the retention window is assumed.
+ */
+export function normalizeTrashedConversation(raw: unknown): TrashedConversation | null {
+  if (!raw || typeof raw !== "object") return null
+  const item = raw as Record<string, unknown>
+  if (typeof item.id !== "string" && typeof item.id !== "number") return null
+
+  const deletedAt = toDate(item.deleted_at ?? item.deletedAt) ?? new Date()
+  const purgeAt = toDate(item.purge_at ?? item.purgeAt) ?? new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS)
+  const title = typeof item.title === "string" ? item.title.trim() : ""
+
+  return {
+    id: String(item.id),
+    title: title || `Chat ${String(item.id).slice(0, 6)}`,
+    deletedAt,
+    purgeAt,
+  }
+}
+
+export function daysUntilPurge(item: TrashedConversation, now = Date.now()) {
+  return Math.max(0, Math.ceil((item.purgeAt.getTime() - now) / DAY_MS))
+}
+
+// Newest deletions first, with anything past its purge date dropped in case the backend lags behind
+export function visibleTrash(items: TrashedConversation[], now = Date.now()) {
+  return items
+    .filter((item) => item.purgeAt.getTime() > now)
+    .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime())
+}
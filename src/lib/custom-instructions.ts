@@ -0,0 +1,64 @@
+// Personal instructions stored in the user profile and sent with every chat request
+
+export interface CustomInstructions {
+  // What Luna should know about the user
+  aboutMe: string
+  // How answers should be written: tone, length, format
+  responseStyle: string
+  // Language answers should be written in; empty means the language of the prompt
+  preferredLanguage: string
+}
+
+export const EMPTY_CUSTOM_INSTRUCTIONS: CustomInstructions = {
+  aboutMe: "",
+  responseStyle: "",
+  preferredLanguage: "",
+}
+
+export const CUSTOM_INSTRUCTIONS_MAX_LENGTH = 1500
+
+export const LANGUAGE_OPTIONS = [
+  "English",
+  "Hindi",
+  "Marathi",
+  "Spanish",
+  "French",
+  "German",
+  "Portuguese",
+  "Italian",
+  "Japanese",
+  "Korean",
+  "Chinese",
+  "Arabic",
+]
+
+const asText = (value: unknown) => (typeof value === "string" ? value : "")
+
+// Accepts the profile field in either casing, as the backend and older clients store it
+export function readCustomInstructions(raw: unknown): CustomInstructions {
+  if (!raw || typeof raw !== "object") return EMPTY_CUSTOM_INSTRUCTIONS
+  const value = raw as Record<string, unknown>
+  return {
+    aboutMe: asText(value.aboutMe ?? value.about_me),
+    responseStyle: asText(value.responseStyle ?? value.response_style),
+    preferredLanguage: asText(value.preferredLanguage ?? value.preferred_language),
+  }
+}
+
+export function normalizeCustomInstructions(instructions: CustomInstructions): CustomInstructions {
+  return {
+    aboutMe: instructions.aboutMe.trim().slice(0, CUSTOM_INSTRUCTIONS_MAX_LENGTH),
+    responseStyle: instructions.responseStyle.trim().slice(0, CUSTOM_INSTRUCTIONS_MAX_LENGTH),
+    preferredLanguage: instructions.preferredLanguage.trim(),
+  }
+}
+
+export function hasCustomInstructions(instructions: CustomInstructions) {
+  return Boolean(instructions.aboutMe.trim() || instructions.responseStyle.trim() || instructions.preferredLanguage.trim())
+}
+
+// The `customInstructions` chat stream option; omitted entirely when there is nothing to send
+export function customInstructionsOption(instructions: CustomInstructions, enabled: boolean) {
+  if (!enabled || !hasCustomInstructions(instructions)) return undefined
+  return normalizeCustomInstructions(instructions)
+}
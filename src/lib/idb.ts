@@ -0,0 +1,85 @@
+// Minimal promise wrappers around IndexedDB for the client-side databases
+
+export function isIndexedDbAvailable() {
+  return typeof indexedDB !== "undefined"
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Creates any of `storeNames` that do not exist yet; every store is keyed by `id`
+function openDatabase(name: string, version: number, storeNames: string[]) {
+  const request = indexedDB.open(name, version)
+  request.onupgradeneeded = () => {
+    storeNames.forEach((storeName) => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName, { keyPath: "id" })
+      }
+    })
+  }
+  return requestToPromise(request).then((db) => {
+    // Lets a delete or upgrade from another tab go ahead instead of waiting on this connection
+    db.onversionchange = () => db.close()
+    return db
+  })
+}
+
+// How long a delete waits on connections other tabs keep open before it stops waiting
+const BLOCKED_DELETE_TIMEOUT = 2000
+
+/**
+ * Resolves once the database is gone. When another tab still holds it open past the timeout, it
+ * resolves anyway: the browser keeps the delete queued and finishes it once that tab lets go.
+ */
+export function deleteDatabase(name: string) {
+  return new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(name)
+    let timer: ReturnType<typeof setTimeout> | null = null
+    const settle = () => {
+      if (timer !== null) clearTimeout(timer)
+      resolve()
+    }
+    request.onsuccess = settle
+    request.onerror = () => {
+      if (timer !== null) clearTimeout(timer)
+      reject(request.error)
+    }
+    request.onblocked = () => {
+      timer ??= setTimeout(settle, BLOCKED_DELETE_TIMEOUT)
+    }
+  })
+}
+
+export type IdbDatabase = {
+  name: string
+  version: number
+  storeNames: string[]
+}
+
+/**
+ * Runs `run` in a single transaction on one store and resolves with the result of the request
+ * it returns once the transaction has committed.
+ */
+export async function withStore<T>(
+  database: IdbDatabase,
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+) {
+  const db = await openDatabase(database.name, database.version, database.storeNames)
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode)
+      const request = run(transaction.objectStore(storeName))
+      transaction.oncomplete = () => resolve(request ? request.result : undefined)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
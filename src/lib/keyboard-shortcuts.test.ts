@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  SHORTCUTS,
+  eventToKeys,
+  formatShortcut,
+  resolveShortcutBindings,
+  shortcutKeyLabels,
+  validateShortcutKeys,
+} from "@/lib/keyboard-shortcuts"
+
+function keyEvent(key: string, code: string, modifiers: Partial<Record<"ctrlKey" | "metaKey" | "altKey" | "shiftKey", boolean>> = {}) {
+  return { key, code, ctrlKey: false, metaKey: false, altKey: false, shiftKey: false, ...modifiers }
+}
+
+describe("eventToKeys", () => {
+  it("maps Ctrl to Mod elsewhere and Cmd to Mod on Apple devices", () => {
+    expect(eventToKeys(keyEvent("k", "KeyK", { ctrlKey: true }), false)).toBe("Mod+K")
+    expect(eventToKeys(keyEvent("k", "KeyK", { metaKey: true }), true)).toBe("Mod+K")
+    expect(eventToKeys(keyEvent("k", "KeyK", { ctrlKey: true }), true)).toBe("Ctrl+K")
+  })
+
+  it("reads letters from the physical key when Alt types a symbol", () => {
+    expect(eventToKeys(keyEvent("®", "KeyR", { altKey: true }), true)).toBe("Alt+R")
+  })
+
+  it("leaves Shift out of characters that already imply it", () => {
+    expect(eventToKeys(keyEvent("?", "Slash", { shiftKey: true }), false)).toBe("?")
+    expect(eventToKeys(keyEvent("O", "KeyO", { ctrlKey: true, shiftKey: true }), false)).toBe("Mod+Shift+O")
+    expect(eventToKeys(keyEvent("ArrowUp", "ArrowUp", { altKey: true, shiftKey: true }), false)).toBe("Alt+Shift+ArrowUp")
+  })
+
+  it("ignores lone modifiers and the Windows key", () => {
+    expect(eventToKeys(keyEvent("Shift", "ShiftLeft", { shiftKey: true }), false)).toBeNull()
+    expect(eventToKeys(keyEvent("k", "KeyK", { metaKey: true }), false)).toBeNull()
+    expect(eventToKeys(keyEvent("Unidentified", ""), false)).toBeNull()
+  })
+})
+
+describe("formatShortcut", () => {
+  it("uses symbols on Apple devices and names elsewhere", () => {
+    expect(formatShortcut("Mod+Shift+O", true)).toBe("⌘⇧O")
+    expect(formatShortcut("Mod+Shift+O", false)).toBe("Ctrl+Shift+O")
+  })
+
+  it("keeps the plus key itself", () => {
+    expect(shortcutKeyLabels("Mod++", false)).toEqual(["Ctrl", "+"])
+    expect(shortcutKeyLabels("", false)).toEqual([])
+  })
+})
+
+describe("validateShortcutKeys", () => {
+  const bindings = resolveShortcutBindings({})
+
+  it("accepts free keys", () => {
+    expect(validateShortcutKeys(bindings, "new-chat", "Mod+Shift+M")).toBeNull()
+  })
+
+  it("rejects keys the browser keeps", () => {
+    expect(validateShortcutKeys(bindings, "new-chat", "Mod+T")).toBe("The browser keeps this shortcut for itself")
+  })
+
+  it("needs a modifier for shortcuts that fire while typing", () => {
+    expect(validateShortcutKeys(bindings, "new-chat", "N")).toBe("Add Ctrl, Alt or ⌘ so it does not get in the way of typing")
+    expect(validateShortcutKeys(bindings, "focus-composer", "Shift+Enter")).toBeNull()
+    expect(validateShortcutKeys(bindings, "show-shortcuts", "H")).toBeNull()
+  })
+
+  it("names the action already using the keys", () => {
+    expect(validateShortcutKeys(bindings, "new-chat", "Mod+K")).toBe('Already used for "Open the command palette"')
+  })
+})
+
+describe("resolveShortcutBindings", () => {
+  it("fills in defaults around the overrides", () => {
+    const bindings = resolveShortcutBindings({ "new-chat": "Alt+N", "toggle-history": "" })
+
+    expect(bindings["new-chat"]).toBe("Alt+N")
+    expect(bindings["toggle-history"]).toBe("")
+    expect(Object.keys(bindings)).toHaveLength(SHORTCUTS.length)
+    expect(bindings["command-palette"]).toBe("Mod+K")
+  })
+})
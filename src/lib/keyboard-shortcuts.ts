@@ -0,0 +1,192 @@
+// Keyboard shortcuts: the registry of actions, their default keys and the user's remappings.
+// Keys are stored as "Mod+Shift+O", where Mod is Cmd on Apple devices and Ctrl elsewhere.
+
+export type ShortcutId =
+  | "command-palette"
+  | "show-shortcuts"
+  | "new-chat"
+  | "focus-composer"
+  | "stop-generation"
+  | "regenerate"
+  | "copy-last-answer"
+  | "find-in-chat"
+  | "previous-message"
+  | "next-message"
+  | "toggle-history"
+  | "toggle-preview"
+  | "previous-conversation"
+  | "next-conversation"
+
+export type ShortcutGroup = "General" | "Conversation" | "Navigation"
+
+export interface ShortcutDefinition {
+  id: ShortcutId
+  label: string
+  group: ShortcutGroup
+  defaultKeys: string
+  // Also fires while typing in a text field, so it needs a modifier to stay out of the way
+  allowInInputs?: boolean
+  // Also fires while a dialog has focus
+  allowInDialogs?: boolean
+}
+
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { id: "command-palette", label: "Open the command palette", group: "General", defaultKeys: "Mod+K", allowInInputs: true, allowInDialogs: true },
+  { id: "show-shortcuts", label: "Show keyboard shortcuts", group: "General", defaultKeys: "?" },
+  { id: "new-chat", label: "New chat", group: "General", defaultKeys: "Mod+Shift+O", allowInInputs: true },
+  { id: "focus-composer", label: "Focus the message box", group: "General", defaultKeys: "Shift+Escape", allowInInputs: true },
+  { id: "stop-generation", label: "Stop generating", group: "Conversation", defaultKeys: "Mod+.", allowInInputs: true },
+  { id: "regenerate", label: "Regenerate the last answer", group: "Conversation", defaultKeys: "Alt+R", allowInInputs: true },
+  { id: "copy-last-answer", label: "Copy the last answer", group: "Conversation", defaultKeys: "Alt+C", allowInInputs: true },
+  { id: "find-in-chat", label: "Find in this chat", group: "Conversation", defaultKeys: "Mod+F", allowInInputs: true },
+  { id: "previous-message", label: "Previous message", group: "Navigation", defaultKeys: "Alt+ArrowUp" },
+  { id: "next-message", label: "Next message", group: "Navigation", defaultKeys: "Alt+ArrowDown" },
+  { id: "previous-conversation", label: "Previous chat in history", group: "Navigation", defaultKeys: "Alt+Shift+ArrowUp" },
+  { id: "next-conversation", label: "Next chat in history", group: "Navigation", defaultKeys: "Alt+Shift+ArrowDown" },
+  { id: "toggle-history", label: "Show or hide chat history", group: "Navigation", defaultKeys: "Mod+B", allowInInputs: true },
+  { id: "toggle-preview", label: "Show or hide the link preview", group: "Navigation", defaultKeys: "Mod+Shift+L", allowInInputs: true },
+]
+
+export const SHORTCUT_GROUPS: ShortcutGroup[] = ["General", "Conversation", "Navigation"]
+
+// Shortcut keys by action; an empty string turns the shortcut off
+export type ShortcutBindings = Record<ShortcutId, string>
+
+const NAMED_KEYS = new Set([
+  "ArrowUp",
+  "ArrowDown",
+  "ArrowLeft",
+  "ArrowRight",
+  "Enter",
+  "Escape",
+  "Backspace",
+  "Delete",
+  "Tab",
+  "Home",
+  "End",
+  "PageUp",
+  "PageDown",
+])
+
+// Browsers keep these for themselves, so a page never sees them
+const RESERVED_KEYS = new Set(["Mod+N", "Mod+T", "Mod+W", "Mod+Q", "Mod+Shift+N", "Mod+Shift+T", "Mod+Shift+W"])
+
+export function isApplePlatform() {
+  return typeof navigator !== "undefined" && /Mac|iPhone|iPad/i.test(navigator.platform || navigator.userAgent)
+}
+
+type KeyEventLike = Pick<KeyboardEvent, "key" | "code" | "ctrlKey" | "metaKey" | "altKey" | "shiftKey">
+
+/**
+ * The keys of a keydown event in binding form, or null for a lone modifier. Letters and digits
+ * are read from the physical key so Alt combinations work on layouts where Alt types a symbol.
+ * Other characters are taken as typed, so "?" already implies Shift.
+ */
+export function eventToKeys(event: KeyEventLike, apple = isApplePlatform()): string | null {
+  if (["Control", "Meta", "Alt", "Shift", "CapsLock"].includes(event.key)) return null
+  // The Windows key is not a modifier Luna binds
+  if (!apple && event.metaKey) return null
+
+  let key: string
+  let includesShift = true
+  if (/^Key[A-Z]$/.test(event.code)) {
+    key = event.code.slice(3)
+  } else if (/^Digit\d$/.test(event.code)) {
+    key = event.code.slice(5)
+  } else if (event.key === " ") {
+    key = "Space"
+  } else if (NAMED_KEYS.has(event.key) || /^F\d{1,2}$/.test(event.key)) {
+    key = event.key
+  } else if (event.key.length === 1) {
+    key = event.key.toUpperCase()
+    includesShift = false
+  } else {
+    return null
+  }
+
+  const parts = [
+    (apple ? event.metaKey : event.ctrlKey) && "Mod",
+    apple && event.ctrlKey && "Ctrl",
+    event.altKey && "Alt",
+    includesShift && event.shiftKey && "Shift",
+    key,
+  ]
+  return parts.filter(Boolean).join("+")
+}
+
+const KEY_LABELS: Record<string, [apple: string, other: string]> = {
+  Mod: ["⌘", "Ctrl"],
+  Ctrl: ["⌃", "Ctrl"],
+  Alt: ["⌥", "Alt"],
+  Shift: ["⇧", "Shift"],
+  ArrowUp: ["↑", "↑"],
+  ArrowDown: ["↓", "↓"],
+  ArrowLeft: ["←", "←"],
+  ArrowRight: ["→", "→"],
+  Escape: ["Esc", "Esc"],
+  Backspace: ["⌫", "Backspace"],
+  Enter: ["↵", "Enter"],
+}
+
+function splitKeys(keys: string) {
+  // "Mod++" binds the plus key itself
+  return keys.endsWith("++") ? [...keys.slice(0, -2).split("+"), "+"] : keys.split("+")
+}
+
+// One label per key, for rendering each in its own <kbd>
+export function shortcutKeyLabels(keys: string, apple = isApplePlatform()) {
+  if (!keys) return []
+  return splitKeys(keys).map((key) => KEY_LABELS[key]?.[apple ? 0 : 1] ?? key)
+}
+
+export function formatShortcut(keys: string, apple = isApplePlatform()) {
+  return shortcutKeyLabels(keys, apple).join(apple ? "" : "+")
+}
+
+export function findShortcut(id: ShortcutId) {
+  return SHORTCUTS.find((shortcut) => shortcut.id === id) as ShortcutDefinition
+}
+
+/**
+ * Why `keys` cannot be used for `id`, or null when it can. Shortcuts that also fire in text
+ * fields need a modifier (or Shift with a non-character key) so they never swallow typing.
+ */
+export function validateShortcutKeys(bindings: ShortcutBindings, id: ShortcutId, keys: string) {
+  if (RESERVED_KEYS.has(keys)) return "The browser keeps this shortcut for itself"
+  const parts = splitKeys(keys)
+  const key = parts[parts.length - 1]
+  const hasModifier = parts.some((part) => part === "Mod" || part === "Ctrl" || part === "Alt")
+  const isSafeAlone = /^F\d{1,2}$/.test(key) || (parts.includes("Shift") && NAMED_KEYS.has(key))
+  if (findShortcut(id).allowInInputs && !hasModifier && !isSafeAlone) {
+    return "Add Ctrl, Alt or ⌘ so it does not get in the way of typing"
+  }
+  const taken = SHORTCUTS.find((shortcut) => shortcut.id !== id && bindings[shortcut.id] === keys)
+  return taken ? `Already used for "${taken.label}"` : null
+}
+
+const SHORTCUTS_STORAGE_KEY = "luna_shortcuts"
+
+// Remapped shortcuts only; everything else keeps its default
+export function readShortcutOverrides(): Partial<ShortcutBindings> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SHORTCUTS_STORAGE_KEY) ?? "null")
+    if (!stored || typeof stored !== "object") return {}
+    return Object.fromEntries(
+      SHORTCUTS
+        .filter((shortcut) => typeof stored[shortcut.id] === "string")
+        .map((shortcut) => [shortcut.id, stored[shortcut.id]])
+    )
+  } catch {
+    return {}
+  }
+}
+
+export function writeShortcutOverrides(overrides: Partial<ShortcutBindings>) {
+  localStorage.setItem(SHORTCUTS_STORAGE_KEY, JSON.stringify(overrides))
+}
+
+export function resolveShortcutBindings(overrides: Partial<ShortcutBindings>): ShortcutBindings {
+  return Object.fromEntries(
+    SHORTCUTS.map((shortcut) => [shortcut.id, overrides[shortcut.id] ?? shortcut.defaultKeys])
+  ) as ShortcutBindings
+}
@@ -0,0 +1,36 @@
+import { deleteDatabase, isIndexedDbAvailable, withStore, type IdbDatabase } from "@/lib/idb"
+import type { SearchDocument } from "@/lib/local-search"
+
+const STORE_NAME = "documents"
+
+// One database per account, so a shared browser never mixes up two people's conversations
+function searchDatabase(account: string): IdbDatabase {
+  return { name: `luna-search:${account}`, version: 1, storeNames: [STORE_NAME] }
+}
+
+export function isSearchIndexAvailable() {
+  return isIndexedDbAvailable()
+}
+
+export async function loadSearchDocuments(account: string): Promise<SearchDocument[]> {
+  const documents = await withStore<SearchDocument[]>(searchDatabase(account), STORE_NAME, "readonly", (store) => store.getAll())
+  return documents ?? []
+}
+
+export async function saveSearchDocuments(account: string, documents: SearchDocument[]) {
+  if (documents.length === 0) return
+  await withStore(searchDatabase(account), STORE_NAME, "readwrite", (store) => {
+    documents.forEach((document) => store.put(document))
+  })
+}
+
+export async function deleteSearchDocuments(account: string, ids: string[]) {
+  if (ids.length === 0) return
+  await withStore(searchDatabase(account), STORE_NAME, "readwrite", (store) => {
+    ids.forEach((id) => store.delete(id))
+  })
+}
+
+export async function deleteSearchIndex(account: string) {
+  await deleteDatabase(searchDatabase(account).name)
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest"
+
+import type { ConversationSummary } from "@/lib/conversation-history"
+import { createMessagesDocument, createSummaryDocument, parseSearchQuery, searchDocuments } from "@/lib/local-search"
+
+function summary(id: string, title: string, updatedAt: string): ConversationSummary {
+  return {
+    id,
+    title,
+    updated_at: updatedAt,
+    created_at: updatedAt,
+    pinned: false,
+    archived: false,
+    folder_id: null,
+    tags: [],
+    settings: null,
+  }
+}
+
+describe("parseSearchQuery", () => {
+  it("splits filters off the text", () => {
+    expect(parseSearchQuery('budget model:"Gemini-2.5-Pro" has:chart  plan')).toEqual({
+      text: "budget plan",
+      models: ["gemini-2.5-pro"],
+      features: ["chart"],
+      before: null,
+      after: null,
+    })
+  })
+
+  it("reads dates, counting `after:` from the end of that day", () => {
+    const parsed = parseSearchQuery("before:2024-05-10 after:2024-05-01")
+
+    expect(parsed.text).toBe("")
+    expect(parsed.before).toBe(new Date("2024-05-10").getTime())
+    expect(parsed.after).toBe(new Date("2024-05-02").getTime())
+  })
+
+  it("drops unknown features and unparsable dates", () => {
+    expect(parseSearchQuery("has:spreadsheet before:someday notes")).toEqual({
+      text: "notes",
+      models: [],
+      features: [],
+      before: null,
+      after: null,
+    })
+  })
+})
+
+describe("searchDocuments", () => {
+  const trip = createMessagesDocument(createSummaryDocument(summary("c1", "Lisbon trip", "2024-05-01T10:00:00Z")), [
+    { id: "m1", role: "user", content: "Plan three days in Lisbon" },
+    { id: "m2", role: "assistant", content: "```python\nprint('itinerary')\n```", variants: [{ content: "", model: "gemini-2.5-pro" }] },
+  ])
+  const budget = createSummaryDocument(summary("c2", "Monthly budget", "2024-06-01T10:00:00Z"))
+
+  it("finds conversations by title and message text", () => {
+    const [result] = searchDocuments([trip, budget], "three days")
+
+    expect(result.conversationId).toBe("c1")
+    expect(result.hits.map((hit) => hit.messageId)).toEqual(["m1"])
+  })
+
+  it("lists filter-only matches newest first", () => {
+    expect(searchDocuments([trip, budget], "before:2025-01-01").map((result) => result.conversationId)).toEqual(["c2", "c1"])
+    expect(searchDocuments([trip, budget], "has:code model:pro").map((result) => result.conversationId)).toEqual(["c1"])
+  })
+
+  it("returns nothing for an empty query", () => {
+    expect(searchDocuments([trip, budget], "  ")).toEqual([])
+  })
+})
@@ -0,0 +1,227 @@
+import Fuse, { type IFuseOptions } from "fuse.js"
+
+import type { Message } from "@/components/ui/chat-message"
+import type { ConversationSummary } from "@/lib/conversation-history"
+import { plainText, snippetAt, type MessageSearchHit } from "@/lib/conversation-search"
+
+export const SEARCH_FEATURES = ["chart", "video", "image", "code", "source", "diagram"] as const
+
+export type SearchFeature = (typeof SEARCH_FEATURES)[number]
+
+/**
+ * Everything the local index knows about a conversation. Conversations that were never opened
+ * only carry their summary; messages are added once the conversation has been loaded.
+ */
+export interface SearchDocument {
+  id: string
+  summary: ConversationSummary
+  updatedAt: number
+  // Models seen generating answers here, lower-cased
+  models: string[]
+  features: SearchFeature[]
+  messages: Array<{ id: string; role: Message["role"]; text: string }>
+  sourceTitles: string[]
+}
+
+export interface ParsedSearchQuery {
+  text: string
+  models: string[]
+  features: SearchFeature[]
+  before: number | null
+  after: number | null
+}
+
+export interface LocalSearchResult {
+  conversationId: string
+  summary: ConversationSummary
+  hits: MessageSearchHit[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const FILTER_PATTERN = /(?:^|\s)(model|has|before|after):("[^"]*"|\S+)/gi
+
+function parseDay(value: string) {
+  const time = new Date(value).getTime()
+  return Number.isNaN(time) ? null : time
+}
+
+/**
+ * Splits `model:`, `has:`, `before:` and `after:` filters off a search query. Unknown `has:`
+ * values and unparsable dates are ignored rather than matching nothing.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { text: "", models: [], features: [], before: null, after: null }
+
+  parsed.text = query.replace(FILTER_PATTERN, (_match, key: string, rawValue: string) => {
+    const value = rawValue.replace(/^"|"$/g, "").toLowerCase()
+    switch (key.toLowerCase()) {
+      case "model":
+        if (value) parsed.models.push(value)
+        break
+      case "has":
+        if ((SEARCH_FEATURES as readonly string[]).includes(value)) parsed.features.push(value as SearchFeature)
+        break
+      case "before":
+        parsed.before = parseDay(value)
+        break
+      case "after": {
+        const day = parseDay(value)
+        parsed.after = day === null ? null : day + DAY_MS
+        break
+      }
+    }
+    return " "
+  }).replace(/\s+/g, " ").trim()
+
+  return parsed
+}
+
+export function hasSearchFilters(query: ParsedSearchQuery) {
+  return query.models.length > 0 || query.features.length > 0 || query.before !== null || query.after !== null
+}
+
+function sourceTitle(source: NonNullable<Message["sources"]>[number]) {
+  return typeof source === "string" ? "" : source.title?.trim() ?? ""
+}
+
+function messageFeatures(message: Message): SearchFeature[] {
+  const features: SearchFeature[] = []
+  if (message.chartUrl || (message.chartUrls?.length ?? 0) > 0) features.push("chart")
+  if ((message.videos?.length ?? 0) > 0) features.push("video")
+  if (
+    (message.images?.length ?? 0) > 0 ||
+    message.experimental_attachments?.some((attachment) => attachment.contentType?.startsWith("image/"))
+  ) {
+    features.push("image")
+  }
+  if ((message.codeSnippets?.length ?? 0) > 0 || /```(?!mermaid)/.test(message.content)) features.push("code")
+  if ((message.sources?.length ?? 0) > 0) features.push("source")
+  if ((message.mermaidBlocks?.length ?? 0) > 0 || (message.excalidrawData?.length ?? 0) > 0 || message.content.includes("```mermaid")) {
+    features.push("diagram")
+  }
+  return features
+}
+
+export function createSummaryDocument(summary: ConversationSummary, previous?: SearchDocument): SearchDocument {
+  return {
+    id: summary.id,
+    summary,
+    updatedAt: new Date(summary.updated_at ?? summary.created_at ?? 0).getTime() || previous?.updatedAt || 0,
+    // The model saved with the conversation makes it findable with `model:` before it is opened
+    models: [...new Set([...(previous?.models ?? []), ...(summary.settings ? [summary.settings.model] : [])])],
+    features: previous?.features ?? [],
+    messages: previous?.messages ?? [],
+    sourceTitles: previous?.sourceTitles ?? [],
+  }
+}
+
+/**
+ * Re-indexes the messages of a loaded conversation. `model` is added to the known models when an
+ * answer is being generated right now, since stored messages do not say which model wrote them.
+ */
+export function createMessagesDocument(
+  previous: SearchDocument,
+  messages: Message[],
+  model?: string
+): SearchDocument {
+  const models = new Set(previous.models)
+  const features = new Set<SearchFeature>()
+  const sourceTitles = new Set<string>()
+
+  for (const message of messages) {
+    messageFeatures(message).forEach((feature) => features.add(feature))
+    message.sources?.forEach((source) => {
+      const title = sourceTitle(source)
+      if (title) sourceTitles.add(title)
+    })
+    message.variants?.forEach((variant) => {
+      if (variant.model) models.add(variant.model.toLowerCase())
+    })
+    if (model && message.role === "assistant" && message.isComplete === false) models.add(model.toLowerCase())
+  }
+
+  const latest = messages.reduce((time, message) => Math.max(time, message.createdAt?.getTime() ?? 0), 0)
+
+  return {
+    ...previous,
+    updatedAt: Math.max(previous.updatedAt, latest),
+    models: [...models],
+    features: [...features],
+    messages: messages
+      .filter((message) => message.role !== "system" && message.content.trim())
+      .map((message) => ({ id: message.id, role: message.role, text: plainText(message.content) })),
+    sourceTitles: [...sourceTitles],
+  }
+}
+
+function matchesFilters(document: SearchDocument, query: ParsedSearchQuery) {
+  if (query.models.length > 0 && !query.models.some((model) => document.models.some((known) => known.includes(model)))) {
+    return false
+  }
+  if (!query.features.every((feature) => document.features.includes(feature))) return false
+  if (query.before !== null && !(document.updatedAt < query.before)) return false
+  if (query.after !== null && !(document.updatedAt >= query.after)) return false
+  return true
+}
+
+type SearchRecord = {
+  conversationId: string
+  messageId: string | null
+  text: string
+}
+
+const FUSE_OPTIONS: IFuseOptions<SearchRecord> = {
+  keys: ["text"],
+  includeScore: true,
+  includeMatches: true,
+  ignoreLocation: true,
+  threshold: 0.3,
+  minMatchCharLength: 2,
+}
+
+/**
+ * Fuzzy search over titles, message text and source titles of the indexed conversations.
+ * Results are ordered by their best match; a filter-only query lists matching conversations
+ * newest first.
+ */
+export function searchDocuments(documents: SearchDocument[], rawQuery: string): LocalSearchResult[] {
+  const query = parseSearchQuery(rawQuery)
+  const candidates = documents.filter((document) => matchesFilters(document, query))
+
+  if (!query.text) {
+    if (!hasSearchFilters(query)) return []
+    return candidates
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map((document) => ({ conversationId: document.id, summary: document.summary, hits: [] }))
+  }
+
+  const records = candidates.flatMap((document): SearchRecord[] => [
+    { conversationId: document.id, messageId: null, text: document.summary.title },
+    ...document.sourceTitles.map((text) => ({ conversationId: document.id, messageId: null, text })),
+    ...document.messages.map((message) => ({ conversationId: document.id, messageId: message.id, text: message.text })),
+  ])
+
+  const byId = new Map(candidates.map((document) => [document.id, document]))
+  const results = new Map<string, LocalSearchResult & { score: number }>()
+
+  for (const { item, score = 1, matches } of new Fuse(records, FUSE_OPTIONS).search(query.text)) {
+    const document = byId.get(item.conversationId)
+    if (!document) continue
+
+    const result = results.get(item.conversationId) ?? { conversationId: document.id, summary: document.summary, hits: [], score }
+    result.score = Math.min(result.score, score)
+    if (item.messageId) {
+      // Fuzzy matches come as several ranges; the longest one is the most telling to show
+      const [start, end] = (matches?.[0]?.indices ?? []).reduce<readonly [number, number]>(
+        (longest, range) => (range[1] - range[0] > longest[1] - longest[0] ? range : longest),
+        [-1, -2]
+      )
+      result.hits.push({ messageId: item.messageId, snippet: snippetAt(item.text, start, end - start + 1) })
+    }
+    results.set(item.conversationId, result)
+  }
+
+  return [...results.values()]
+    .sort((a, b) => a.score - b.score)
+    .map(({ conversationId, summary, hits }) => ({ conversationId, summary, hits }))
+}
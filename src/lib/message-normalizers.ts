@@ -0,0 +1,123 @@
+import type { ImageResult, Message, MessageVariant } from "@/components/ui/chat-message"
+
+export type VideoResult = NonNullable<Message["videos"]>[number]
+
+export function normalizeImageResults(raw: unknown): ImageResult[] | undefined {
+  if (!Array.isArray(raw)) return undefined
+
+  const normalized = raw
+    .map((item): ImageResult | null => {
+      if (!item || typeof item !== "object") return null
+
+      const data = item as Record<string, unknown>
+      const imageUrl = typeof data.imageUrl === "string" ? data.imageUrl : null
+      const pageUrl = typeof data.pageUrl === "string" ? data.pageUrl : null
+      const title = typeof data.title === "string" ? data.title : null
+      const thumbnailUrl = typeof data.thumbnailUrl === "string" ? data.thumbnailUrl : null
+
+      if (!imageUrl) return null
+
+      return { title, imageUrl, pageUrl, thumbnailUrl }
+    })
+    .filter((entry): entry is ImageResult => entry !== null)
+
+  return normalized.length > 0 ? normalized : undefined
+}
+
+export function normalizeSources(value: unknown): Message["sources"] | undefined {
+  if (!Array.isArray(value)) return undefined
+  const normalized = value
+    .map((entry): string | { url: string; title?: string } | null => {
+      if (typeof entry === "string") return entry
+      if (entry && typeof entry === "object") {
+        const obj = entry as Record<string, unknown>
+        const url = typeof obj.url === "string" ? obj.url : ""
+        if (!url) return null
+        const title = typeof obj.title === "string" ? obj.title : undefined
+        return title ? { url, title } : { url }
+      }
+      return null
+    })
+    .filter((x): x is string | { url: string; title?: string } => x !== null)
+
+  return normalized.length > 0 ? normalized : undefined
+}
+
+export function normalizeVideos(value: unknown): Message["videos"] | undefined {
+  if (!Array.isArray(value)) return undefined
+  const normalized = value
+    .map((entry): VideoResult | null => {
+      if (!entry || typeof entry !== "object") return null
+      const obj = entry as Record<string, unknown>
+      const url = typeof obj.url === "string" ? obj.url : undefined
+      const videoId = typeof obj.videoId === "string" ? obj.videoId : undefined
+      const title = typeof obj.title === "string" ? obj.title : undefined
+      const description = typeof obj.description === "string" ? obj.description : undefined
+      const channelTitle =
+        typeof obj.channelTitle === "string" ? obj.channelTitle : undefined
+      const thumbnails = (obj.thumbnails && typeof obj.thumbnails === "object"
+        ? (obj.thumbnails as VideoResult["thumbnails"])
+        : undefined)
+
+      if (!url && !videoId) return null
+      return { url, videoId, title, description, channelTitle, thumbnails }
+    })
+    .filter((x): x is VideoResult => x !== null)
+
+  return normalized.length > 0 ? normalized : undefined
+}
+
+export function normalizeExcalidraw(value: unknown): Message["excalidrawData"] | undefined {
+  if (!Array.isArray(value)) return undefined
+  return value as Message["excalidrawData"]
+}
+
+function normalizeChartUrls(value: unknown): string[] {
+  const charts = Array.isArray(value) ? value : [value]
+  return charts.filter((url): url is string => typeof url === "string" && url.trim().length > 0)
+}
+
+function normalizeDate(value: unknown): Date | undefined {
+  if (typeof value !== "string" && typeof value !== "number") return undefined
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * Regenerated answers as the chat store keeps them: every variant, the active one included.
+ * Stored variants may use the history's field names (`charts`, `created_at`) or the store's.
+ * Without a stored index, the variant matching the message's own content is the active one.
+ */
+export function normalizeVariants(
+  value: unknown,
+  activeIndex: unknown,
+  activeContent: string
+): Pick<Message, "variants" | "activeVariant"> {
+  if (!Array.isArray(value)) return {}
+  const variants = value
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === "object")
+    .map((variant): MessageVariant => {
+      const chartUrls = normalizeChartUrls(variant.charts ?? variant.chartUrls ?? variant.chartUrl)
+      const model = typeof variant.model === "string" && variant.model ? variant.model : undefined
+      return {
+        content: typeof variant.content === "string" ? variant.content : "",
+        createdAt: normalizeDate(variant.created_at ?? variant.createdAt),
+        sources: normalizeSources(variant.sources),
+        images: normalizeImageResults(variant.images),
+        videos: normalizeVideos(variant.videos),
+        chartUrl: chartUrls[0],
+        chartUrls: chartUrls.length > 0 ? chartUrls : undefined,
+        excalidrawData: normalizeExcalidraw(variant.excalidraw ?? variant.excalidraw_data ?? variant.excalidrawData),
+        ...(model ? { model } : {}),
+      }
+    })
+  // A single variant is just the answer itself
+  if (variants.length < 2) return {}
+
+  const stored = typeof activeIndex === "number" ? activeIndex : Number.NaN
+  const matching = variants.map((variant) => variant.content).lastIndexOf(activeContent)
+  const activeVariant = Number.isInteger(stored) && stored >= 0 && stored < variants.length
+    ? stored
+    : matching !== -1 ? matching : variants.length - 1
+  return { variants, activeVariant }
+}
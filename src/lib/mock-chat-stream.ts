@@ -0,0 +1,81 @@
+// Dev-only stand-in for the backend chat stream, used to exercise reconnection locally.
+// Every stream replays the same script, so a resume only needs the stream id and Last-Event-ID.
+
+interface MockEvent {
+  event: string
+  data: Record<string, unknown>
+}
+
+const MOCK_ANSWER =
+  "This answer comes from the local mock stream. It is sent in small chunks so you can watch " +
+  "the client reconnect when the connection drops, and then pick up exactly where it stopped " +
+  "instead of starting over. If every sentence arrives once and in order, resuming works."
+
+const EVENT_DELAY_MS = 150
+const RETRY_MS = 500
+
+function buildScript(streamId: string): MockEvent[] {
+  const chunks = MOCK_ANSWER.match(/\S+\s*/g) ?? [MOCK_ANSWER]
+  return [
+    { event: "conversationId", data: { conversationId: `mock-${streamId}` } },
+    { event: "status", data: { id: "mock-think", label: "Thinking", state: "running" } },
+    { event: "status", data: { id: "mock-think", label: "Thinking", state: "complete" } },
+    ...chunks.map((text) => ({ event: "message", data: { text } })),
+    { event: "sources", data: { sources: [{ url: "https://example.com", title: "Mock source" }] } },
+    { event: "finish", data: { finishReason: "STOP" } },
+  ]
+}
+
+// MOCK_STREAM_DROP_AFTER=n cuts every connection after n events; 0 or unset never drops.
+function dropAfter() {
+  const value = Number(process.env.MOCK_STREAM_DROP_AFTER)
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : 0
+}
+
+export function isMockChatStreamEnabled() {
+  return process.env.NODE_ENV !== "production"
+}
+
+export function createMockChatStream(streamId: string, lastEventId = ""): ReadableStream<Uint8Array> {
+  const script = buildScript(streamId)
+  const resumeFrom = /^\d+$/.test(lastEventId) ? Number(lastEventId) : 0
+  const limit = dropAfter()
+  const encoder = new TextEncoder()
+  let index = resumeFrom
+  let sent = 0
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(`retry: ${RETRY_MS}\n\n`))
+
+      const next = () => {
+        if (index >= script.length) {
+          controller.close()
+          return
+        }
+        if (limit > 0 && sent >= limit) {
+          controller.error(new Error(`Mock stream dropped after event ${index}`))
+          return
+        }
+
+        const { event, data } = script[index]
+        index++
+        sent++
+        controller.enqueue(encoder.encode(`id: ${index}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        timer = setTimeout(next, EVENT_DELAY_MS)
+      }
+
+      timer = setTimeout(next, EVENT_DELAY_MS)
+    },
+    cancel() {
+      if (timer) clearTimeout(timer)
+    },
+  })
+}
+
+export const MOCK_STREAM_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+}
@@ -0,0 +1,149 @@
+import type { Message } from "@/components/ui/chat-message"
+import type { ChatStreamOptions } from "@/lib/chat-stream"
+import type { ConversationState } from "@/lib/conversation-store"
+import { deleteDatabase, isIndexedDbAvailable, withStore, type IdbDatabase } from "@/lib/idb"
+import { deleteSearchIndex } from "@/lib/local-search-db"
+import { deleteSharedContent } from "@/lib/shared-content"
+
+const CONVERSATIONS_STORE = "conversations"
+const OUTBOX_STORE = "outbox"
+// Pages and assets the service worker cached along the way; keep in sync with public/sw.js
+const RUNTIME_CACHE_PREFIX = "luna-runtime-"
+
+export interface CachedConversation {
+  id: string
+  // Every branch, each message carrying its parent so the tree can be rebuilt
+  messages: Message[]
+  activePath: string[]
+  cachedAt: number
+}
+
+/**
+ * A prompt written while offline. Its user message is already in the thread, marked pending;
+ * the answer is requested once the browser is back online.
+ */
+export interface OutboxEntry {
+  // Id of the pending user message
+  id: string
+  // Id of the placeholder the answer streams into
+  assistantMessageId: string
+  conversationId: string | null
+  parentMessageId: string | null
+  content: string
+  attachments?: File[]
+  model: string
+  // Per-message stream options, e.g. the tool a slash command asked for
+  options?: ChatStreamOptions
+  createdAt: number
+}
+
+function offlineDatabase(account: string): IdbDatabase {
+  return { name: `luna-offline:${account}`, version: 1, storeNames: [CONVERSATIONS_STORE, OUTBOX_STORE] }
+}
+
+export function isOfflineCacheAvailable() {
+  return isIndexedDbAvailable()
+}
+
+// Pending prompts live in the outbox, not in the cached copy of the conversation
+export function createCachedConversation(conversationId: string, state: ConversationState): CachedConversation {
+  const messages = Object.values(state.messagesById)
+    .filter((message) => !message.isPending)
+    .map((message) => ({ ...message, parentId: state.parentById[message.id] ?? null }))
+  const cachedIds = new Set(messages.map((message) => message.id))
+
+  return {
+    id: conversationId,
+    messages,
+    activePath: state.messageIds.filter((id) => cachedIds.has(id)),
+    cachedAt: Date.now(),
+  }
+}
+
+export function readCachedConversation(account: string, conversationId: string) {
+  return withStore<CachedConversation | undefined>(offlineDatabase(account), CONVERSATIONS_STORE, "readonly", (store) =>
+    store.get(conversationId)
+  )
+}
+
+export async function cacheConversation(account: string, conversation: CachedConversation) {
+  if (conversation.messages.length === 0) return
+  await withStore(offlineDatabase(account), CONVERSATIONS_STORE, "readwrite", (store) => {
+    store.put(conversation)
+  })
+}
+
+export async function deleteCachedConversations(account: string, conversationIds: string[]) {
+  if (conversationIds.length === 0) return
+  await withStore(offlineDatabase(account), CONVERSATIONS_STORE, "readwrite", (store) => {
+    conversationIds.forEach((id) => store.delete(id))
+  })
+}
+
+// Oldest first, which is the order the prompts are sent in
+export async function readOutbox(account: string): Promise<OutboxEntry[]> {
+  const entries = await withStore<OutboxEntry[]>(offlineDatabase(account), OUTBOX_STORE, "readonly", (store) => store.getAll())
+  return (entries ?? []).sort((a, b) => a.createdAt - b.createdAt)
+}
+
+export async function putOutboxEntry(account: string, entry: OutboxEntry) {
+  await withStore(offlineDatabase(account), OUTBOX_STORE, "readwrite", (store) => {
+    store.put(entry)
+  })
+}
+
+export async function deleteOutboxEntry(account: string, entryId: string) {
+  await withStore(offlineDatabase(account), OUTBOX_STORE, "readwrite", (store) => {
+    store.delete(entryId)
+  })
+}
+
+export function pendingAnswerMessage(id: string, promptTitle: string): Message {
+  return {
+    id,
+    role: "assistant",
+    content: "",
+    createdAt: new Date(),
+    promptTitle,
+    isComplete: false,
+    isPending: true,
+    agentSteps: [{ id: "offline-queue", label: "Waiting for a connection", state: "queued", updatedAt: Date.now() }],
+  }
+}
+
+// The pending prompt and its answer placeholder, e.g. to show the outbox again after a reload
+export function outboxEntryMessages(entry: OutboxEntry): Message[] {
+  const prompt: Message = {
+    id: entry.id,
+    role: "user",
+    content: entry.content,
+    createdAt: new Date(entry.createdAt),
+    parentId: entry.parentMessageId,
+    isPending: true,
+    experimental_attachments: entry.attachments?.map((file) => ({
+      name: file.name,
+      contentType: file.type,
+      url: "data:;base64,",
+    })),
+  }
+  return [prompt, { ...pendingAnswerMessage(entry.assistantMessageId, entry.content), parentId: entry.id }]
+}
+
+/**
+ * Removes what this browser kept for `account` (cached conversations, the outbox and the search
+ * index) along with the pages the service worker cached and any unopened shares, so the next
+ * person on a shared browser sees none of it offline.
+ */
+export async function clearOfflineData(account: string) {
+  const pageCaches = typeof caches === "undefined"
+    ? Promise.resolve()
+    : caches.keys().then((keys) => Promise.all(
+      keys.filter((key) => key.startsWith(RUNTIME_CACHE_PREFIX)).map((key) => caches.delete(key))
+    ))
+  await Promise.all([
+    pageCaches,
+    isIndexedDbAvailable() ? deleteDatabase(offlineDatabase(account).name) : undefined,
+    isIndexedDbAvailable() ? deleteSearchIndex(account) : undefined,
+    deleteSharedContent(),
+  ])
+}
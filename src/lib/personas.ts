@@ -0,0 +1,78 @@
+// Assistant presets: a system prompt plus the model and tools a conversation runs with
+
+export interface Persona {
+  id: string
+  name: string
+  // Sent as the `systemPrompt` stream option; may be empty for presets that only pick model and tools
+  systemPrompt: string
+  model: string
+  includeYouTube: boolean
+  includeImageSearch: boolean
+  // Shipped with the app; cannot be edited or deleted
+  builtIn?: boolean
+}
+
+export const BUILT_IN_PERSONAS: Persona[] = [
+  {
+    id: "code-reviewer",
+    name: "Code reviewer",
+    systemPrompt:
+      "You are a senior engineer reviewing code. Point out bugs, edge cases and unclear naming first, then suggest concrete changes with short code examples. Be direct and skip praise.",
+    model: "gemini-2.5-pro",
+    includeYouTube: false,
+    includeImageSearch: false,
+    builtIn: true,
+  },
+  {
+    id: "research",
+    name: "Research",
+    systemPrompt:
+      "You are a careful research assistant. Compare several sources, say where they disagree, cite them, and end with a short summary of what is well established and what is not.",
+    model: "gemini-2.5-flash",
+    includeYouTube: true,
+    includeImageSearch: true,
+    builtIn: true,
+  },
+]
+
+export const PERSONA_PROMPT_MAX_LENGTH = 4000
+
+const PERSONAS_STORAGE_KEY = "luna_personas"
+
+function readJson(key: string): unknown {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? "null")
+  } catch {
+    return null
+  }
+}
+
+function normalizePersona(raw: unknown): Persona | null {
+  if (!raw || typeof raw !== "object") return null
+  const value = raw as Record<string, unknown>
+  if (typeof value.id !== "string" || typeof value.name !== "string" || typeof value.model !== "string") return null
+  return {
+    id: value.id,
+    name: value.name,
+    systemPrompt: typeof value.systemPrompt === "string" ? value.systemPrompt : "",
+    model: value.model,
+    includeYouTube: value.includeYouTube === true,
+    includeImageSearch: value.includeImageSearch === true,
+  }
+}
+
+// Presets the user created, kept per browser
+export function readCustomPersonas(): Persona[] {
+  const stored = readJson(PERSONAS_STORAGE_KEY)
+  return Array.isArray(stored)
+    ? stored.map(normalizePersona).filter((persona): persona is Persona => persona !== null)
+    : []
+}
+
+export function writeCustomPersonas(personas: Persona[]) {
+  localStorage.setItem(PERSONAS_STORAGE_KEY, JSON.stringify(personas.filter((persona) => !persona.builtIn)))
+}
+
+export function findPersona(personas: Persona[], id: string | null | undefined) {
+  return id ? personas.find((persona) => persona.id === id) ?? null : null
+}
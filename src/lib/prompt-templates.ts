@@ -0,0 +1,168 @@
+import Fuse from "fuse.js"
+
+// Reusable prompts with `{{variable}}` placeholders that are filled in when a template is picked
+
+export type PromptTemplateScope = "team" | "personal"
+
+export interface PromptTemplate {
+  id: string
+  title: string
+  body: string
+  category: string
+  // Team templates are shared with everyone in the workspace; personal ones only with their author
+  scope: PromptTemplateScope
+  usageCount: number
+  // Shipped with the app; cannot be edited or deleted and count their usage per browser
+  builtIn?: boolean
+}
+
+export type PromptTemplateDraft = Pick<PromptTemplate, "title" | "body" | "category" | "scope">
+
+export const PROMPT_CATEGORIES = ["Writing", "Coding", "Research", "Learning", "Everyday"]
+
+export const PROMPT_TEMPLATE_MAX_LENGTH = 4000
+
+export const STARTER_TEMPLATES: PromptTemplate[] = [
+  {
+    id: "starter-explain",
+    title: "Explain a topic simply",
+    body: "Explain {{topic}} as if I were {{audience}}. Use one everyday analogy and end with three key takeaways.",
+    category: "Learning",
+    scope: "team",
+    usageCount: 0,
+    builtIn: true,
+  },
+  {
+    id: "starter-email",
+    title: "Draft an email",
+    body: "Write a {{tone}} email to {{recipient}} about {{subject}}. Keep it under 150 words and end with a clear next step.",
+    category: "Writing",
+    scope: "team",
+    usageCount: 0,
+    builtIn: true,
+  },
+  {
+    id: "starter-review",
+    title: "Review my code",
+    body: "Review this {{language}} code for bugs, edge cases and readability. Suggest concrete changes.\n\n{{code}}",
+    category: "Coding",
+    scope: "team",
+    usageCount: 0,
+    builtIn: true,
+  },
+  {
+    id: "starter-compare",
+    title: "Compare options",
+    body: "Compare {{option A}} and {{option B}} for {{use case}}. Give a table of pros and cons and a recommendation.",
+    category: "Research",
+    scope: "team",
+    usageCount: 0,
+    builtIn: true,
+  },
+  {
+    id: "starter-summarize",
+    title: "Summarize text",
+    body: "Summarize the following in {{length}} bullet points, keeping names and numbers exact:\n\n{{text}}",
+    category: "Writing",
+    scope: "team",
+    usageCount: 0,
+    builtIn: true,
+  },
+  {
+    id: "starter-plan",
+    title: "Plan my week",
+    body: "Help me plan a week around these goals: {{goals}}. I have about {{hours}} hours a day to spare.",
+    category: "Everyday",
+    scope: "team",
+    usageCount: 0,
+    builtIn: true,
+  },
+]
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g
+
+// Variable names in the order they first appear
+export function templateVariables(body: string) {
+  return [...new Set(Array.from(body.matchAll(VARIABLE_PATTERN), (match) => match[1]))]
+}
+
+// Variables left empty keep their placeholder so the gap is visible in the composer
+export function fillTemplate(body: string, values: Record<string, string>) {
+  return body.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name]?.trim() || placeholder)
+}
+
+export function normalizePromptTemplate(raw: unknown): PromptTemplate | null {
+  if (!raw || typeof raw !== "object") return null
+  const value = raw as Record<string, unknown>
+  const id = value.id ?? value._id
+  const body = value.body ?? value.content ?? value.prompt
+  if ((typeof id !== "string" && typeof id !== "number") || typeof body !== "string") return null
+  const usage = Number(value.usageCount ?? value.usage_count ?? 0)
+  const shared = value.scope === "team" || value.shared === true || value.is_shared === true
+  return {
+    id: String(id),
+    title: typeof value.title === "string" && value.title.trim() ? value.title : body.slice(0, 60),
+    body,
+    category: typeof value.category === "string" && value.category.trim() ? value.category : "Other",
+    scope: shared ? "team" : "personal",
+    usageCount: Number.isFinite(usage) ? usage : 0,
+  }
+}
+
+const USAGE_STORAGE_KEY = "luna_prompt_usage"
+
+function readStarterUsage(): Record<string, number> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(USAGE_STORAGE_KEY) ?? "null")
+    return stored && typeof stored === "object" ? stored : {}
+  } catch {
+    return {}
+  }
+}
+
+export function starterTemplates(): PromptTemplate[] {
+  const usage = readStarterUsage()
+  return STARTER_TEMPLATES.map((template) => ({ ...template, usageCount: Number(usage[template.id]) || 0 }))
+}
+
+export function recordStarterUsage(templateId: string) {
+  const usage = readStarterUsage()
+  usage[templateId] = (Number(usage[templateId]) || 0) + 1
+  localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(usage))
+}
+
+// Most used first; ties keep the order the library returned them in
+export function rankPromptTemplates(templates: PromptTemplate[]) {
+  return templates
+    .map((template, index) => ({ template, index }))
+    .sort((a, b) => b.template.usageCount - a.template.usageCount || a.index - b.index)
+    .map(({ template }) => template)
+}
+
+export function promptCategories(templates: PromptTemplate[]) {
+  const used = new Set(templates.map((template) => template.category))
+  return [...PROMPT_CATEGORIES.filter((category) => used.has(category)), ...[...used].filter((category) => !PROMPT_CATEGORIES.includes(category)).sort()]
+}
+
+// Typo-tolerant match on title, category and body; frequently used templates win close calls
+export function searchPromptTemplates(templates: PromptTemplate[], query: string) {
+  const trimmed = query.trim()
+  if (!trimmed) return rankPromptTemplates(templates)
+  const fuse = new Fuse(templates, {
+    includeScore: true,
+    threshold: 0.4,
+    ignoreLocation: true,
+    minMatchCharLength: 2,
+    keys: [
+      { name: "title", weight: 3 },
+      { name: "category", weight: 1 },
+      { name: "body", weight: 1 },
+    ],
+  })
+  const maxUsage = Math.max(1, ...templates.map((template) => template.usageCount))
+  return fuse
+    .search(trimmed)
+    .map((result) => ({ template: result.item, score: (result.score ?? 1) - 0.1 * (result.item.usageCount / maxUsage) }))
+    .sort((a, b) => a.score - b.score)
+    .map(({ template }) => template)
+}
@@ -0,0 +1,49 @@
+import { deleteDatabase, isIndexedDbAvailable, withStore, type IdbDatabase } from "@/lib/idb"
+
+// Content shared to Luna from another app. The service worker (public/sw.js) stores it under
+// an id and opens /chat?share=<id>; the fallback route passes the text fields as parameters.
+export interface SharedContent {
+  id: string
+  title: string
+  text: string
+  url: string
+  files: File[]
+  createdAt: number
+}
+
+const STORE_NAME = "shares"
+// Not per account: the share arrives before the page knows who is signed in
+const SHARE_DATABASE: IdbDatabase = { name: "luna-share", version: 1, storeNames: [STORE_NAME] }
+
+// Reads a share once; it is removed in the same transaction
+export async function takeSharedContent(id: string) {
+  if (!isIndexedDbAvailable()) return undefined
+  return withStore<SharedContent | undefined>(SHARE_DATABASE, STORE_NAME, "readwrite", (store) => {
+    const request = store.get(id)
+    store.delete(id)
+    return request
+  })
+}
+
+// Drops shares that were never opened, e.g. on logout, so they do not reach the next account
+export async function deleteSharedContent() {
+  if (!isIndexedDbAvailable()) return
+  await deleteDatabase(SHARE_DATABASE.name)
+}
+
+// The shared title, text and link as one prompt. Apps often repeat the link inside the text.
+export function sharedContentPrompt({ title, text, url }: Pick<SharedContent, "title" | "text" | "url">) {
+  const parts = [title, text].map((part) => part.trim()).filter(Boolean)
+  if (parts.length === 2 && parts[1].includes(parts[0])) parts.shift()
+  const link = url.trim()
+  if (link && !parts.some((part) => part.includes(link))) parts.push(link)
+  return parts.join("\n\n")
+}
+
+export function readSharedParams(params: URLSearchParams) {
+  return sharedContentPrompt({
+    title: params.get("title") ?? "",
+    text: params.get("text") ?? "",
+    url: params.get("url") ?? "",
+  })
+}
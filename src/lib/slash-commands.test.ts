@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  matchSlashCommands,
+  parseSlashCommand,
+  readExportArgument,
+  readModelArgument,
+  slashCommandOptions,
+} from "@/lib/slash-commands"
+
+describe("parseSlashCommand", () => {
+  it("reads the command and the trimmed text after it", () => {
+    const parsed = parseSlashCommand("  /Image   a red fox \n on snow ")
+
+    expect(parsed?.command.name).toBe("image")
+    expect(parsed?.argument).toBe("a red fox \n on snow")
+  })
+
+  it("reads commands without an argument", () => {
+    expect(parseSlashCommand("/new")).toMatchObject({ command: { name: "new" }, argument: "" })
+  })
+
+  it.each(["/unknown thing", "image a fox", "/", "a /new"])("ignores %j", (input) => {
+    expect(parseSlashCommand(input)).toBeNull()
+  })
+})
+
+describe("matchSlashCommands", () => {
+  it("suggests commands while the name is typed", () => {
+    expect(matchSlashCommands("/").length).toBeGreaterThan(1)
+    expect(matchSlashCommands("/CH").map((command) => command.name)).toEqual(["chart"])
+  })
+
+  it("stops suggesting once the argument starts", () => {
+    expect(matchSlashCommands("/chart ")).toEqual([])
+    expect(matchSlashCommands("chart")).toEqual([])
+  })
+})
+
+describe("readModelArgument", () => {
+  it("resolves aliases and keeps the prompt", () => {
+    expect(readModelArgument("Pro write a haiku")).toEqual({ model: "gemini-2.5-pro", prompt: "write a haiku" })
+    expect(readModelArgument("fast")).toEqual({ model: "gemini-2.5-flash-lite", prompt: "" })
+  })
+
+  it("returns no model for an unknown alias", () => {
+    expect(readModelArgument("gpt hello").model).toBeNull()
+  })
+})
+
+describe("readExportArgument", () => {
+  it.each([
+    ["", "markdown"],
+    ["md", "markdown"],
+    ["PDF", "pdf"],
+    ["docx", null],
+  ])("reads %j as %j", (argument, format) => {
+    expect(readExportArgument(argument)).toBe(format)
+  })
+})
+
+describe("slashCommandOptions", () => {
+  it("turns on the tool a prompt command needs", () => {
+    expect(slashCommandOptions("image")).toEqual({ command: "image", includeImageSearch: true })
+    expect(slashCommandOptions("chart")).toEqual({ command: "chart" })
+    expect(slashCommandOptions("new")).toEqual({})
+  })
+})
@@ -0,0 +1,100 @@
+import type { ChatStreamOptions } from "@/lib/chat-stream"
+import type { ExportFormat } from "@/lib/conversation-export"
+
+// `/` commands typed at the start of the composer
+
+export type SlashCommandName =
+  | "image"
+  | "youtube"
+  | "chart"
+  | "flowchart"
+  | "model"
+  | "summarize"
+  | "export"
+  | "new"
+  | "clear"
+
+export interface SlashCommand {
+  name: SlashCommandName
+  description: string
+  // Hint for the text after the command; commands without one run as soon as they are picked
+  argument?: string
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  { name: "image", description: "Answer with web images", argument: "prompt" },
+  { name: "youtube", description: "Answer with YouTube videos", argument: "prompt" },
+  { name: "chart", description: "Answer with a chart", argument: "prompt" },
+  { name: "flowchart", description: "Answer with a flowchart", argument: "prompt" },
+  { name: "model", description: "Switch model, or use it for one prompt", argument: "fast | smart | pro [prompt]" },
+  { name: "summarize", description: "Summarize this chat or the text that follows", argument: "text (optional)" },
+  { name: "export", description: "Download this chat", argument: "markdown | json | html | pdf" },
+  { name: "new", description: "Start a new chat" },
+  { name: "clear", description: "Clear the screen and start over; this chat stays in your history" },
+]
+
+export interface ParsedSlashCommand {
+  command: SlashCommand
+  // Text after the command name, trimmed
+  argument: string
+}
+
+const COMMAND_PATTERN = /^\/([a-z]+)(?:\s+([\s\S]*))?$/i
+
+export function parseSlashCommand(input: string): ParsedSlashCommand | null {
+  const match = COMMAND_PATTERN.exec(input.trim())
+  if (!match) return null
+  const command = SLASH_COMMANDS.find((candidate) => candidate.name === match[1].toLowerCase())
+  return command ? { command, argument: match[2]?.trim() ?? "" } : null
+}
+
+// Commands to suggest while the name is still being typed, i.e. before the first space
+export function matchSlashCommands(input: string, commands = SLASH_COMMANDS) {
+  const match = /^\/([a-z]*)$/i.exec(input)
+  if (!match) return []
+  const prefix = match[1].toLowerCase()
+  return commands.filter((command) => command.name.startsWith(prefix))
+}
+
+const MODEL_ALIASES: Record<string, string> = {
+  fast: "gemini-2.5-flash-lite",
+  lite: "gemini-2.5-flash-lite",
+  smart: "gemini-2.5-flash",
+  flash: "gemini-2.5-flash",
+  best: "gemini-2.5-pro",
+  pro: "gemini-2.5-pro",
+}
+
+// `/model pro write a haiku` → the model id and the prompt it is used for, if any
+export function readModelArgument(argument: string) {
+  const [alias = "", ...rest] = argument.split(/\s+/)
+  const model = MODEL_ALIASES[alias.toLowerCase()] ?? null
+  return { model, prompt: rest.join(" ").trim() }
+}
+
+const EXPORT_FORMATS: ExportFormat[] = ["markdown", "json", "html", "pdf"]
+
+export function readExportArgument(argument: string): ExportFormat | null {
+  const value = argument.toLowerCase() || "markdown"
+  if (value === "md") return "markdown"
+  return EXPORT_FORMATS.find((format) => format === value) ?? null
+}
+
+/**
+ * Stream options a prompt command adds to its message. `command` tells the backend which tool
+ * to use even when the prompt alone would not trigger it.
+ */
+export function slashCommandOptions(name: SlashCommandName): ChatStreamOptions {
+  switch (name) {
+    case "image":
+      return { command: "image", includeImageSearch: true }
+    case "youtube":
+      return { command: "youtube", includeYouTube: true }
+    case "chart":
+    case "flowchart":
+    case "summarize":
+      return { command: name }
+    default:
+      return {}
+  }
+}
@@ -0,0 +1,126 @@
+import { deflateRawSync } from "zlib"
+import { describe, expect, it } from "vitest"
+
+import { isZipFile, readZipEntries } from "@/lib/zip-reader"
+
+interface TestEntry {
+  name: string
+  data: string
+  deflate?: boolean
+  flags?: number
+}
+
+// A minimal archive: local headers, then the central directory and its end record. CRCs are left
+// at zero since the reader does not check them.
+function createZip(entries: TestEntry[], { entryCount = entries.length } = {}) {
+  const encoder = new TextEncoder()
+  const locals: Uint8Array[] = []
+  const centrals: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const raw = encoder.encode(entry.data)
+    const body = entry.deflate ? new Uint8Array(deflateRawSync(raw)) : raw
+    const method = entry.deflate ? 8 : 0
+
+    const local = new Uint8Array(30 + name.length + body.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    localView.setUint16(6, entry.flags ?? 0, true)
+    localView.setUint16(8, method, true)
+    localView.setUint32(18, body.length, true)
+    localView.setUint32(22, raw.length, true)
+    localView.setUint16(26, name.length, true)
+    local.set(name, 30)
+    local.set(body, 30 + name.length)
+
+    const central = new Uint8Array(46 + name.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, 0x02014b50, true)
+    centralView.setUint16(8, entry.flags ?? 0, true)
+    centralView.setUint16(10, method, true)
+    centralView.setUint32(20, body.length, true)
+    centralView.setUint32(24, raw.length, true)
+    centralView.setUint16(28, name.length, true)
+    centralView.setUint32(42, offset, true)
+    central.set(name, 46)
+
+    locals.push(local)
+    centrals.push(central)
+    offset += local.length
+  }
+
+  const centralSize = centrals.reduce((size, central) => size + central.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, entryCount, true)
+  endView.setUint16(10, entryCount, true)
+  endView.setUint32(12, centralSize, true)
+  endView.setUint32(16, offset, true)
+
+  const parts = [...locals, ...centrals, end]
+  const archive = new Uint8Array(parts.reduce((size, part) => size + part.length, 0))
+  let position = 0
+  for (const part of parts) {
+    archive.set(part, position)
+    position += part.length
+  }
+  return archive.buffer
+}
+
+function decode(entries: Map<string, Uint8Array>) {
+  return Object.fromEntries([...entries].map(([name, data]) => [name, new TextDecoder().decode(data)]))
+}
+
+describe("isZipFile", () => {
+  it("recognises the local file header", () => {
+    expect(isZipFile(createZip([{ name: "a.txt", data: "a" }]))).toBe(true)
+    expect(isZipFile(new TextEncoder().encode("{}").buffer)).toBe(false)
+  })
+})
+
+describe("readZipEntries", () => {
+  it("reads stored and deflated entries", async () => {
+    const archive = createZip([
+      { name: "stored.json", data: '{"a":1}' },
+      { name: "deflated.json", data: "x".repeat(200), deflate: true },
+    ])
+
+    expect(decode(await readZipEntries(archive))).toEqual({ "stored.json": '{"a":1}', "deflated.json": "x".repeat(200) })
+  })
+
+  it("skips folders and entries the filter rejects", async () => {
+    const archive = createZip([
+      { name: "export/", data: "" },
+      { name: "export/conversations.json", data: "[]" },
+      { name: "export/photo.png", data: "png" },
+    ])
+
+    const entries = await readZipEntries(archive, (name) => name.endsWith(".json"))
+    expect([...entries.keys()]).toEqual(["export/conversations.json"])
+  })
+
+  it("rejects password-protected entries", async () => {
+    const archive = createZip([{ name: "secret.json", data: "{}", flags: 0x1 }])
+
+    await expect(readZipEntries(archive)).rejects.toThrow("secret.json is password-protected")
+  })
+
+  it("only rejects password-protected entries it would read", async () => {
+    const archive = createZip([{ name: "secret.png", data: "png", flags: 0x1 }, { name: "open.json", data: "{}" }])
+
+    expect(decode(await readZipEntries(archive, (name) => name.endsWith(".json")))).toEqual({ "open.json": "{}" })
+  })
+
+  it("rejects zip64 archives", async () => {
+    const archive = createZip([{ name: "a.json", data: "{}" }], { entryCount: 0xffff })
+
+    await expect(readZipEntries(archive)).rejects.toThrow("Zip64 archives")
+  })
+
+  it("rejects data without an end record", async () => {
+    await expect(readZipEntries(new Uint8Array(40).buffer)).rejects.toThrow("Not a zip archive")
+  })
+})
@@ -0,0 +1,95 @@
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+const ZIP64_END_LOCATOR = 0x07064b50
+
+// A field at its maximum means the real value lives in a zip64 record
+const ZIP64_MARKER_16 = 0xffff
+const ZIP64_MARKER_32 = 0xffffffff
+const ENCRYPTED_FLAG = 0x1
+
+const STORED = 0
+const DEFLATED = 8
+
+export function isZipFile(data: ArrayBuffer) {
+  return data.byteLength >= 4 && new DataView(data).getUint32(0, true) === LOCAL_FILE_HEADER
+}
+
+function findEndOfCentralDirectory(view: DataView) {
+  // The record is 22 bytes plus a comment of up to 64 KiB
+  const lowest = Math.max(0, view.byteLength - 22 - 0xffff)
+  for (let offset = view.byteLength - 22; offset >= lowest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset
+  }
+  throw new Error("Not a zip archive")
+}
+
+async function inflateRaw(data: Uint8Array) {
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream("deflate-raw"))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+const ZIP64_ERROR = "Zip64 archives (over 4 GB or 65,535 files) are not supported"
+
+/**
+ * Extracts the entries of a zip archive whose names pass `filter`.
+ * Handles stored and deflated entries, which covers the archives assistants export. Zip64
+ * archives and encrypted entries are rejected with an error rather than read as garbage.
+ */
+export async function readZipEntries(
+  data: ArrayBuffer,
+  filter: (name: string) => boolean = () => true
+): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(data)
+  const bytes = new Uint8Array(data)
+  const decoder = new TextDecoder()
+  const entries = new Map<string, Uint8Array>()
+
+  const end = findEndOfCentralDirectory(view)
+  const entryCount = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+  const hasZip64Locator = end >= 20 && view.getUint32(end - 20, true) === ZIP64_END_LOCATOR
+  if (hasZip64Locator || entryCount === ZIP64_MARKER_16 || offset === ZIP64_MARKER_32) {
+    throw new Error(ZIP64_ERROR)
+  }
+
+  for (let index = 0; index < entryCount; index++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("Corrupt zip central directory")
+    }
+
+    const flags = view.getUint16(offset + 8, true)
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const uncompressedSize = view.getUint32(offset + 24, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localHeaderOffset = view.getUint32(offset + 42, true)
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith("/") || !filter(name)) continue
+    if (flags & ENCRYPTED_FLAG) {
+      throw new Error(`${name} is password-protected; export the archive again without a password`)
+    }
+    if ([compressedSize, uncompressedSize, localHeaderOffset].includes(ZIP64_MARKER_32)) {
+      throw new Error(ZIP64_ERROR)
+    }
+
+    const localNameLength = view.getUint16(localHeaderOffset + 26, true)
+    const localExtraLength = view.getUint16(localHeaderOffset + 28, true)
+    const start = localHeaderOffset + 30 + localNameLength + localExtraLength
+    const compressed = bytes.subarray(start, start + compressedSize)
+
+    if (method === STORED) {
+      entries.set(name, compressed)
+    } else if (method === DEFLATED) {
+      entries.set(name, await inflateRaw(compressed))
+    } else {
+      throw new Error(`Unsupported compression method ${method} for ${name}`)
+    }
+  }
+
+  return entries
+}